@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { drainJobQueue } from '@/lib/jobs';
+import { HttpError, jsonError } from '@/lib/http';
+
+export async function POST(request: Request) {
+  try {
+    const expected = process.env.CRON_SECRET;
+    if (expected) {
+      const provided = request.headers.get('x-cron-secret');
+      if (!provided || provided !== expected) {
+        throw new HttpError(401, 'Unauthorized');
+      }
+    }
+
+    const processed = await drainJobQueue();
+    return NextResponse.json({ processed });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import { applyReplyTemplate } from '@/lib/reply-templates';
+
+const schema = z.object({
+  workspaceId: z.string(),
+  templateId: z.string().min(1),
+  restartApproval: z.boolean().default(false)
+});
+
+type Params = { params: { reviewId: string } };
+
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const parsed = schema.parse(await request.json());
+    await assertPermission(user.id, parsed.workspaceId, 'reviews.write');
+
+    const review = await applyReplyTemplate({
+      workspaceId: parsed.workspaceId,
+      reviewId: params.reviewId,
+      templateId: parsed.templateId,
+      actorId: user.id,
+      restartApproval: parsed.restartApproval
+    });
+
+    return NextResponse.json({ reply: review.replyDraft, status: review.status });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
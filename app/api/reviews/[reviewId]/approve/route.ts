@@ -3,10 +3,14 @@ import { Role } from '@prisma/client';
 import { z } from 'zod';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
 import { prisma } from '@/lib/prisma';
-import { assertFeature, assertWorkspaceAccess } from '@/lib/tenant';
+import { assertFeature, assertPermission, assertReviewInScope } from '@/lib/tenant';
 import { HttpError, jsonError } from '@/lib/http';
 import { sanitizeOptionalText } from '@/lib/sanitize';
 import { logAudit } from '@/lib/audit';
+import { assertApprovableReply } from '@/lib/brand-compliance';
+import { assertNotInternalComment } from '@/lib/review-comments';
+import { getApprovalState, recordApprovalStep } from '@/lib/approval-chains';
+import { serializeClientReview } from '@/lib/client-portal';
 
 const schema = z.object({
   workspaceId: z.string(),
@@ -20,18 +24,53 @@ export async function POST(request: Request, { params }: Params) {
     const user = await requireApiUserOrThrow();
     const body = await request.json();
     const parsed = schema.parse(body);
-    await assertWorkspaceAccess(user.id, parsed.workspaceId, [Role.OWNER, Role.ADMIN]);
+    // stage eligibility is checked against the review's approval chain below
+    const membership = await assertPermission(user.id, parsed.workspaceId, 'reviews.approve');
     await assertFeature(parsed.workspaceId, 'hasApprovalWorkflow');
 
-    const review = await prisma.review.findUnique({ where: { id: params.reviewId } });
+    const review = await prisma.review.findUnique({
+      where: { id: params.reviewId },
+      include: { location: { select: { id: true, name: true } } }
+    });
     if (!review || review.workspaceId !== parsed.workspaceId) {
       throw new HttpError(404, 'Review not found');
     }
+    assertReviewInScope(membership, review);
+    if (review.status === 'APPROVED' || review.status === 'SENT') {
+      throw new HttpError(409, 'Review is already approved');
+    }
 
+    const isClient = membership.role === Role.CLIENT;
+    // clients sign off on the draft as written; only the team edits reply text
+    if (isClient && parsed.approvedReply !== undefined) {
+      throw new HttpError(403, 'Clients cannot edit the reply');
+    }
     const approvedReply = sanitizeOptionalText(parsed.approvedReply, 5000) ?? review.replyDraft;
     if (!approvedReply) {
       throw new HttpError(400, 'No draft reply available to approve');
     }
+    await assertNotInternalComment(review.id, approvedReply);
+
+    const compliance = await assertApprovableReply({ workspaceId: parsed.workspaceId, reviewId: review.id, text: approvedReply });
+
+    const before = await getApprovalState(review, membership);
+    if (!before.lastSignOff && approvedReply !== review.replyDraft) {
+      throw new HttpError(409, 'Save the draft before signing off; edits restart the approval chain');
+    }
+
+    const step = await recordApprovalStep(review, membership);
+    if (!step.complete) {
+      await logAudit({
+        workspaceId: parsed.workspaceId,
+        reviewId: review.id,
+        actorId: user.id,
+        action: 'APPROVAL_STEP_APPROVED',
+        metadata: { round: review.approvalRound, ...step.stage }
+      });
+      const approval = await getApprovalState(review, membership);
+      if (isClient) return NextResponse.json({ ...serializeClientReview(review), approval });
+      return NextResponse.json({ ...review, approval, compliance });
+    }
 
     const updated = await prisma.review.update({
       where: { id: review.id },
@@ -48,10 +87,20 @@ export async function POST(request: Request, { params }: Params) {
       reviewId: review.id,
       actorId: user.id,
       action: 'REVIEW_APPROVED',
-      metadata: { statusFrom: review.status, statusTo: 'APPROVED' }
+      metadata: {
+        statusFrom: review.status,
+        statusTo: 'APPROVED',
+        round: review.approvalRound,
+        stage: step.stage.name,
+        ...(compliance.violations.length ? { complianceViolations: compliance.violations.map((violation) => violation.code) } : {})
+      }
     });
 
-    return NextResponse.json(updated);
+    const approval = await getApprovalState(updated, membership);
+    if (isClient) {
+      return NextResponse.json({ ...serializeClientReview({ ...updated, location: review.location }), approval });
+    }
+    return NextResponse.json({ ...updated, approval, compliance });
   } catch (error) {
     return jsonError(error);
   }
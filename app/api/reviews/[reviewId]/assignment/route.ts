@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { prisma } from '@/lib/prisma';
+import { assertPermission } from '@/lib/tenant';
+import { hasPermission } from '@/lib/permissions';
+import { HttpError, jsonError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { assignReview } from '@/lib/review-assignment';
+
+const schema = z
+  .object({
+    workspaceId: z.string(),
+    assigneeId: z.string().min(1).nullable().optional(),
+    dueAt: z.string().datetime().nullable().optional()
+  })
+  .refine((value) => value.assigneeId !== undefined || value.dueAt !== undefined, {
+    message: 'Provide assigneeId or dueAt'
+  });
+
+type Params = { params: { reviewId: string } };
+
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const parsed = schema.parse(await request.json());
+    const membership = await assertPermission(user.id, parsed.workspaceId, 'reviews.write');
+    const canManage = hasPermission(membership, 'reviews.assign');
+
+    const review = await prisma.review.findUnique({ where: { id: params.reviewId } });
+    if (!review || review.workspaceId !== parsed.workspaceId) {
+      throw new HttpError(404, 'Review not found');
+    }
+
+    if (parsed.assigneeId !== undefined && !canManage) {
+      // members can claim unassigned reviews and release their own, nothing else
+      const claiming = parsed.assigneeId === user.id && !review.assigneeId;
+      const releasing = parsed.assigneeId === null && review.assigneeId === user.id;
+      if (!claiming && !releasing && parsed.assigneeId !== review.assigneeId) {
+        throw new HttpError(403, 'Missing permission: reviews.assign');
+      }
+    }
+    if (parsed.dueAt !== undefined && !canManage) {
+      throw new HttpError(403, 'Missing permission: reviews.assign');
+    }
+
+    let updated = review;
+    if (parsed.assigneeId !== undefined) {
+      updated = await assignReview({
+        workspaceId: parsed.workspaceId,
+        reviewId: review.id,
+        assigneeId: parsed.assigneeId,
+        actorId: user.id
+      });
+    }
+
+    if (parsed.dueAt !== undefined) {
+      const dueAt = parsed.dueAt ? new Date(parsed.dueAt) : null;
+      if (dueAt?.getTime() !== review.dueAt?.getTime()) {
+        updated = await prisma.review.update({ where: { id: review.id }, data: { dueAt } });
+        await logAudit({
+          workspaceId: parsed.workspaceId,
+          reviewId: review.id,
+          actorId: user.id,
+          action: 'REVIEW_DUE_DATE_UPDATED',
+          metadata: { from: review.dueAt?.toISOString() ?? null, to: dueAt?.toISOString() ?? null }
+        });
+      }
+    }
+
+    return NextResponse.json({ assigneeId: updated.assigneeId, dueAt: updated.dueAt });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { jsonError } from '@/lib/http';
+import {
+  commentBodySchema,
+  deleteReviewComment,
+  loadReviewForComments,
+  updateReviewComment
+} from '@/lib/review-comments';
+
+const updateSchema = z.object({ body: commentBodySchema });
+
+type Params = { params: { reviewId: string; commentId: string } };
+
+export async function PATCH(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const { review, viewer } = await loadReviewForComments(params.reviewId, user.id);
+    const parsed = updateSchema.parse(await request.json());
+    const comment = await updateReviewComment({
+      workspaceId: review.workspaceId,
+      reviewId: review.id,
+      commentId: params.commentId,
+      body: parsed.body,
+      viewer
+    });
+    return NextResponse.json(comment);
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function DELETE(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const { review, viewer } = await loadReviewForComments(params.reviewId, user.id);
+    await deleteReviewComment({
+      workspaceId: review.workspaceId,
+      reviewId: review.id,
+      commentId: params.commentId,
+      viewer
+    });
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { jsonError } from '@/lib/http';
+import {
+  commentBodySchema,
+  createReviewComment,
+  listReviewComments,
+  loadReviewForComments,
+  markReviewMentionsRead
+} from '@/lib/review-comments';
+
+const createSchema = z.object({
+  body: commentBodySchema,
+  parentId: z.string().min(1).nullable().optional()
+});
+
+type Params = { params: { reviewId: string } };
+
+export async function GET(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const { review, viewer } = await loadReviewForComments(params.reviewId, user.id);
+    const comments = await listReviewComments(review.id, viewer);
+    await markReviewMentionsRead(review.id, user.id);
+    return NextResponse.json({ comments });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const { review, viewer } = await loadReviewForComments(params.reviewId, user.id);
+    const parsed = createSchema.parse(await request.json());
+    const comment = await createReviewComment({
+      workspaceId: review.workspaceId,
+      reviewId: review.id,
+      parentId: parsed.parentId,
+      body: parsed.body,
+      viewer
+    });
+    return NextResponse.json(comment, { status: 201 });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { prisma } from '@/lib/prisma';
+import { assertPermission } from '@/lib/tenant';
+import { HttpError, jsonError } from '@/lib/http';
+import { checkReviewReplyCompliance } from '@/lib/brand-compliance';
+
+const schema = z.object({
+  workspaceId: z.string(),
+  text: z.string().min(1).max(5000)
+});
+
+type Params = { params: { reviewId: string } };
+
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const parsed = schema.parse(await request.json());
+    await assertPermission(user.id, parsed.workspaceId, 'reviews.read');
+
+    const review = await prisma.review.findUnique({ where: { id: params.reviewId }, select: { workspaceId: true } });
+    if (!review || review.workspaceId !== parsed.workspaceId) {
+      throw new HttpError(404, 'Review not found');
+    }
+
+    const report = await checkReviewReplyCompliance({ workspaceId: parsed.workspaceId, reviewId: params.reviewId, text: parsed.text });
+    return NextResponse.json(report);
+  } catch (error) {
+    return jsonError(error);
+  }
+}
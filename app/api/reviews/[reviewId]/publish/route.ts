@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { prisma } from '@/lib/prisma';
+import { assertPermission, assertReviewInScope } from '@/lib/tenant';
+import { HttpError, jsonError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { enqueueJob, serializeJob } from '@/lib/jobs';
+import {
+  assertPublishable,
+  findPendingPublishJob,
+  getReplyConnector,
+  publishReview,
+  resolveSourceConnection
+} from '@/lib/reply-publishing';
+
+const schema = z.object({
+  workspaceId: z.string().min(1)
+});
+
+type Params = { params: { reviewId: string } };
+
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const body = await request.json();
+    const parsed = schema.parse(body);
+    const membership = await assertPermission(user.id, parsed.workspaceId, 'reviews.publish');
+
+    const review = await prisma.review.findUnique({ where: { id: params.reviewId } });
+    if (!review || review.workspaceId !== parsed.workspaceId) throw new HttpError(404, 'Review not found');
+    assertReviewInScope(membership, review);
+    assertPublishable(review);
+    if (await findPendingPublishJob(review.workspaceId, review.id)) {
+      throw new HttpError(409, 'This reply is already being published');
+    }
+
+    const connection = await resolveSourceConnection(review.workspaceId, review.source);
+    const connector = getReplyConnector(connection);
+    if (!connector.queued) {
+      const updated = await publishReview({ workspaceId: review.workspaceId, reviewId: review.id, actorId: user.id });
+      return NextResponse.json({ status: updated.status, review: updated });
+    }
+
+    await prisma.review.update({ where: { id: review.id }, data: { publishError: null } });
+    const job = await enqueueJob({
+      workspaceId: review.workspaceId,
+      createdById: user.id,
+      type: 'REPLY_PUBLISH',
+      payload: { reviewId: review.id }
+    });
+
+    await logAudit({
+      workspaceId: review.workspaceId,
+      reviewId: review.id,
+      actorId: user.id,
+      action: 'REPLY_PUBLISH_QUEUED',
+      metadata: { publisher: connector.publisher, sourceConnectionId: connection?.id ?? null, jobId: job.id }
+    });
+
+    return NextResponse.json({ status: 'QUEUED', job: serializeJob(job) }, { status: 202 });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { Role } from '@prisma/client';
+import { z } from 'zod';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { prisma } from '@/lib/prisma';
+import { assertFeature, assertPermission, assertReviewInScope } from '@/lib/tenant';
+import { HttpError, jsonError } from '@/lib/http';
+import { getApprovalState, rejectReview } from '@/lib/approval-chains';
+import { serializeClientReview } from '@/lib/client-portal';
+
+const schema = z.object({
+  workspaceId: z.string(),
+  reason: z.string().min(3).max(500)
+});
+
+type Params = { params: { reviewId: string } };
+
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const parsed = schema.parse(await request.json());
+    const membership = await assertPermission(user.id, parsed.workspaceId, 'reviews.approve');
+    await assertFeature(parsed.workspaceId, 'hasApprovalWorkflow');
+
+    const review = await prisma.review.findUnique({
+      where: { id: params.reviewId },
+      include: { location: { select: { id: true, name: true } } }
+    });
+    if (!review || review.workspaceId !== parsed.workspaceId) {
+      throw new HttpError(404, 'Review not found');
+    }
+    assertReviewInScope(membership, review);
+    if (review.status === 'APPROVED' || review.status === 'SENT') {
+      throw new HttpError(409, 'Review is already approved');
+    }
+
+    const updated = await rejectReview({ review, approver: membership, reason: parsed.reason });
+    const approval = await getApprovalState(updated, membership);
+    if (membership.role === Role.CLIENT) {
+      return NextResponse.json({ ...serializeClientReview({ ...updated, location: review.location }), approval });
+    }
+    return NextResponse.json({ ...updated, approval });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
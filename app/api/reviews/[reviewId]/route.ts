@@ -3,20 +3,28 @@ import { Role, ReviewStatus, Sentiment } from '@prisma/client';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission, assertReviewInScope } from '@/lib/tenant';
+import { Permission } from '@/lib/permissions';
 import { HttpError, jsonError } from '@/lib/http';
-import { sanitizeOptionalText, sanitizeTags, sanitizeText } from '@/lib/sanitize';
+import { sanitizeOptionalText, sanitizeText } from '@/lib/sanitize';
+import { resolveReviewTags } from '@/lib/tag-taxonomy';
 import { logAudit } from '@/lib/audit';
+import { assertNotInternalComment } from '@/lib/review-comments';
+import { assertDefaultApprover, assertNoApprovalChain, getApprovalState, resetApprovalRound } from '@/lib/approval-chains';
+import { serializeClientReview } from '@/lib/client-portal';
+import { assertNotDirectSend } from '@/lib/reply-publishing';
+import { assertApprovableReply } from '@/lib/brand-compliance';
 
 type Params = { params: { reviewId: string } };
 
-async function getScopedReview(reviewId: string, userId: string) {
+async function getScopedReview(reviewId: string, userId: string, permission: Permission) {
   const review = await prisma.review.findUnique({
     where: { id: reviewId },
     include: {
       location: true,
       draftedBy: { select: { id: true, name: true, email: true } },
       approvedBy: { select: { id: true, name: true, email: true } },
+      sentBy: { select: { id: true, name: true, email: true } },
       generations: { orderBy: { createdAt: 'desc' }, take: 10 },
       auditLogs: {
         include: { actor: { select: { id: true, name: true, email: true } } },
@@ -26,15 +34,20 @@ async function getScopedReview(reviewId: string, userId: string) {
     }
   });
   if (!review) throw new HttpError(404, 'Review not found');
-  await assertWorkspaceAccess(userId, review.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
-  return review;
+  const membership = await assertPermission(userId, review.workspaceId, permission);
+  assertReviewInScope(membership, review);
+  return { review, membership };
 }
 
 export async function GET(_: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    const review = await getScopedReview(params.reviewId, user.id);
-    return NextResponse.json(review);
+    const { review, membership } = await getScopedReview(params.reviewId, user.id, 'reviews.read');
+    const approval = await getApprovalState(review, membership);
+    if (membership.role === Role.CLIENT) {
+      return NextResponse.json({ ...serializeClientReview(review), approval });
+    }
+    return NextResponse.json({ ...review, approval });
   } catch (error) {
     return jsonError(error);
   }
@@ -51,24 +64,32 @@ const patchSchema = z.object({
 export async function PATCH(request: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    const review = await getScopedReview(params.reviewId, user.id);
-    const membership = await assertWorkspaceAccess(user.id, review.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+    const { review, membership } = await getScopedReview(params.reviewId, user.id, 'reviews.write');
     const body = await request.json();
     const parsed = patchSchema.parse(body);
+    assertNotDirectSend(review, parsed.status);
 
-    if (parsed.status === 'APPROVED' && !['OWNER', 'ADMIN'].includes(membership.role)) {
-      throw new HttpError(403, 'Only admin/owner can approve');
+    const textChanged = parsed.replyDraft !== undefined || parsed.approvedReply !== undefined;
+    if (parsed.status === 'APPROVED') {
+      assertDefaultApprover(membership);
+    }
+    // approving edited text is a new approval, so it goes through the chain like the first one
+    if (parsed.status === 'APPROVED' && (review.status !== 'APPROVED' || textChanged)) {
+      await assertNoApprovalChain(review);
     }
 
-    const nextStatus = parsed.status ?? review.status;
+    // editing an approved reply without approving it again sends it back to draft, so the edited
+    // text cannot be published on the strength of the earlier sign-off
+    const reopened = review.status === 'APPROVED' && textChanged && !parsed.status;
+    const nextStatus = reopened ? 'DRAFTED' : parsed.status ?? review.status;
     const updateData: Record<string, unknown> = {};
     if (parsed.replyDraft !== undefined) updateData.replyDraft = sanitizeText(parsed.replyDraft, 5000);
     if (parsed.approvedReply !== undefined) updateData.approvedReply = sanitizeOptionalText(parsed.approvedReply, 5000);
     if (parsed.sentiment !== undefined) updateData.sentiment = parsed.sentiment;
-    if (parsed.tags !== undefined) updateData.tags = sanitizeTags(parsed.tags);
+    if (parsed.tags !== undefined) updateData.tags = await resolveReviewTags(membership.workspace, parsed.tags);
 
-    if (parsed.status) updateData.status = parsed.status;
-    if (parsed.replyDraft !== undefined || parsed.approvedReply !== undefined) {
+    if (parsed.status || reopened) updateData.status = nextStatus;
+    if (textChanged) {
       updateData.editedById = user.id;
       updateData.editedAt = new Date();
     }
@@ -76,6 +97,21 @@ export async function PATCH(request: Request, { params }: Params) {
       updateData.approvedById = user.id;
       updateData.approvedAt = new Date();
       updateData.approvedReply = parsed.approvedReply ?? parsed.replyDraft ?? review.replyDraft;
+    } else if (review.status === 'APPROVED' && (nextStatus === 'DRAFTED' || nextStatus === 'NEW')) {
+      updateData.approvedReply = null;
+      updateData.approvedById = null;
+      updateData.approvedAt = null;
+    }
+
+    for (const text of [updateData.replyDraft, updateData.approvedReply]) {
+      if (typeof text === 'string') await assertNotInternalComment(review.id, text);
+    }
+    if (nextStatus === 'APPROVED' && typeof updateData.approvedReply === 'string') {
+      await assertApprovableReply({ workspaceId: review.workspaceId, reviewId: review.id, text: updateData.approvedReply });
+    }
+
+    if (textChanged || parsed.status === 'NEW' || parsed.status === 'DRAFTED') {
+      await resetApprovalRound(review);
     }
 
     const updated = await prisma.review.update({
@@ -87,10 +123,10 @@ export async function PATCH(request: Request, { params }: Params) {
       workspaceId: review.workspaceId,
       reviewId: review.id,
       actorId: user.id,
-      action: parsed.status ? 'REVIEW_STATUS_CHANGED' : 'REVIEW_EDITED',
+      action: parsed.status || reopened ? 'REVIEW_STATUS_CHANGED' : 'REVIEW_EDITED',
       metadata: {
         statusFrom: review.status,
-        statusTo: parsed.status ?? review.status,
+        statusTo: nextStatus,
         tagsUpdated: parsed.tags !== undefined,
         sentimentUpdated: parsed.sentiment !== undefined
       }
@@ -1,11 +1,14 @@
 import { NextResponse } from 'next/server';
-import { Role, ReviewStatus } from '@prisma/client';
+import { ReviewStatus } from '@prisma/client';
 import { z } from 'zod';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
 import { prisma } from '@/lib/prisma';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
 import { HttpError, jsonError } from '@/lib/http';
 import { logAudit } from '@/lib/audit';
+import { assertDefaultApprover, assertNoApprovalChain, resetApprovalRound } from '@/lib/approval-chains';
+import { assertNotDirectSend } from '@/lib/reply-publishing';
+import { assertApprovableReply } from '@/lib/brand-compliance';
 
 const schema = z.object({
   workspaceId: z.string().min(1),
@@ -19,14 +22,25 @@ export async function POST(request: Request, { params }: Params) {
     const user = await requireApiUserOrThrow();
     const body = await request.json();
     const parsed = schema.parse(body);
-    const membership = await assertWorkspaceAccess(user.id, parsed.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+    const membership = await assertPermission(user.id, parsed.workspaceId, 'reviews.write');
 
-    if (parsed.status === 'APPROVED' && !['OWNER', 'ADMIN'].includes(membership.role)) {
-      throw new HttpError(403, 'Only admin/owner can approve');
+    if (parsed.status === 'APPROVED') {
+      assertDefaultApprover(membership);
     }
 
     const review = await prisma.review.findUnique({ where: { id: params.reviewId } });
     if (!review || review.workspaceId !== parsed.workspaceId) throw new HttpError(404, 'Review not found');
+    assertNotDirectSend(review, parsed.status);
+    if (parsed.status === 'APPROVED' && review.status !== 'APPROVED') {
+      await assertNoApprovalChain(review);
+    }
+    const approvedText = review.approvedReply ?? review.replyDraft;
+    if (parsed.status === 'APPROVED' && approvedText) {
+      await assertApprovableReply({ workspaceId: review.workspaceId, reviewId: review.id, text: approvedText });
+    }
+    if (parsed.status === 'NEW' || parsed.status === 'DRAFTED') {
+      await resetApprovalRound(review);
+    }
 
     const updated = await prisma.review.update({
       where: { id: review.id },
@@ -1,18 +1,18 @@
 import { NextResponse } from 'next/server';
-import { Role, Sentiment } from '@prisma/client';
 import { z } from 'zod';
-import { buildTagSentimentPrompt, generateText, parseTagSentimentResponse } from '@/lib/ai';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { defaultProvider, PROVIDERS } from '@/lib/ai';
 import { prisma } from '@/lib/prisma';
-import { assertGenerationLimit, assertWorkspaceAccess, consumeGeneration } from '@/lib/tenant';
+import { assertGenerationLimit, assertPermission, consumeGeneration } from '@/lib/tenant';
 import { checkRateLimit } from '@/lib/rate-limit';
 import { HttpError, jsonError } from '@/lib/http';
-import { sanitizeTags } from '@/lib/sanitize';
-import { logAudit } from '@/lib/audit';
+import { enqueueJob, serializeJob } from '@/lib/jobs';
+import { suggestTagsAndSentiment } from '@/lib/review-suggestions';
 
 const schema = z.object({
   workspaceId: z.string().min(1),
-  provider: z.enum(['openai', 'claude', 'gemini']).default('openai')
+  provider: z.enum(PROVIDERS).default(defaultProvider),
+  async: z.boolean().default(false)
 });
 
 type Params = { params: { reviewId: string } };
@@ -22,54 +22,36 @@ export async function POST(request: Request, { params }: Params) {
     const user = await requireApiUserOrThrow();
     const body = await request.json();
     const parsed = schema.parse(body);
-    await assertWorkspaceAccess(user.id, parsed.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+    await assertPermission(user.id, parsed.workspaceId, 'reviews.generate');
 
     const rate = checkRateLimit(`tag-suggest:${user.id}:${parsed.workspaceId}`, { windowMs: 60_000, maxRequests: 20 });
     if (!rate.success) throw new HttpError(429, 'Rate limit exceeded');
 
     await assertGenerationLimit(parsed.workspaceId);
 
-    const review = await prisma.review.findUnique({ where: { id: params.reviewId } });
-    if (!review || review.workspaceId !== parsed.workspaceId) {
-      throw new HttpError(404, 'Review not found');
+    if (parsed.async) {
+      const review = await prisma.review.findUnique({ where: { id: params.reviewId }, select: { workspaceId: true } });
+      if (!review || review.workspaceId !== parsed.workspaceId) {
+        throw new HttpError(404, 'Review not found');
+      }
+      const job = await enqueueJob({
+        workspaceId: parsed.workspaceId,
+        createdById: user.id,
+        type: 'TAG_SUGGESTION',
+        payload: { reviewId: params.reviewId, provider: parsed.provider }
+      });
+      return NextResponse.json({ job: serializeJob(job) }, { status: 202 });
     }
 
-    const prompt = buildTagSentimentPrompt(review.text, review.rating);
-    const generated = await generateText({ provider: parsed.provider, prompt });
-    const parsedResult = parseTagSentimentResponse(generated.text);
-    const tags = sanitizeTags(parsedResult.tags);
-    const sentiment = parsedResult.sentiment as Sentiment;
-
-    const updated = await prisma.review.update({
-      where: { id: review.id },
-      data: {
-        tags,
-        sentiment
-      }
+    const result = await suggestTagsAndSentiment({
+      workspaceId: parsed.workspaceId,
+      reviewId: params.reviewId,
+      actorId: user.id,
+      provider: parsed.provider
     });
-
     await consumeGeneration(parsed.workspaceId);
-    await Promise.all([
-      logAudit({
-        workspaceId: parsed.workspaceId,
-        reviewId: review.id,
-        actorId: user.id,
-        action: 'TAGS_UPDATED',
-        metadata: { tags }
-      }),
-      logAudit({
-        workspaceId: parsed.workspaceId,
-        reviewId: review.id,
-        actorId: user.id,
-        action: 'SENTIMENT_UPDATED',
-        metadata: { sentiment }
-      })
-    ]);
 
-    return NextResponse.json({
-      review: updated,
-      suggestion: { tags, sentiment }
-    });
+    return NextResponse.json(result);
   } catch (error) {
     return jsonError(error);
   }
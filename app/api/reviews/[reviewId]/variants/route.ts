@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { Tone } from '@prisma/client';
+import { z } from 'zod';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { defaultProvider, PROVIDERS } from '@/lib/ai';
+import { assertPermission, releaseGenerations, reserveGenerations } from '@/lib/tenant';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { HttpError, jsonError } from '@/lib/http';
+import { loadReviewForDraft } from '@/lib/reply-drafts';
+import { generateReplyVariants, MAX_REPLY_VARIANTS } from '@/lib/reply-variants';
+
+const schema = z.object({
+  workspaceId: z.string(),
+  variants: z
+    .array(
+      z.object({
+        provider: z.enum(PROVIDERS).default(defaultProvider),
+        length: z.enum(['short', 'medium', 'long']).default('medium'),
+        tone: z.nativeEnum(Tone).optional(),
+        targetLanguage: z.string().max(32).optional()
+      })
+    )
+    .min(1)
+    .max(MAX_REPLY_VARIANTS),
+  escalation: z.boolean().default(true),
+  // pass an existing group id to regenerate a single variant next to its siblings
+  variantGroupId: z.string().max(64).optional()
+});
+
+type Params = { params: { reviewId: string } };
+
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const parsed = schema.parse(await request.json());
+    await assertPermission(user.id, parsed.workspaceId, 'reviews.generate');
+
+    const rate = checkRateLimit(`ai:${user.id}:${parsed.workspaceId}`, { windowMs: 60_000, maxRequests: 20 });
+    if (!rate.success) {
+      throw new HttpError(429, 'Rate limit exceeded. Please retry shortly.', { retryAfterMs: rate.retryAfterMs });
+    }
+
+    const review = await loadReviewForDraft(parsed.workspaceId, params.reviewId);
+    await reserveGenerations(parsed.workspaceId, parsed.variants.length);
+
+    let failed = parsed.variants.length;
+    try {
+      const result = await generateReplyVariants({
+        review,
+        actorId: user.id,
+        variantGroupId: parsed.variantGroupId,
+        variants: parsed.variants.map((variant) => ({ ...variant, escalation: parsed.escalation }))
+      });
+      failed = result.results.filter((item) => item.status === 'failed').length;
+      return NextResponse.json(result);
+    } finally {
+      await releaseGenerations(parsed.workspaceId, failed);
+    }
+  } catch (error) {
+    return jsonError(error);
+  }
+}
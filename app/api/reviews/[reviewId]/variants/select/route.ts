@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import { MAX_REPLY_VARIANTS, selectReplyVariant } from '@/lib/reply-variants';
+
+const schema = z.object({
+  workspaceId: z.string(),
+  generationIds: z.array(z.string().min(1)).min(1).max(MAX_REPLY_VARIANTS),
+  mergedText: z.string().min(1).max(5000).optional(),
+  restartApproval: z.boolean().default(false)
+});
+
+type Params = { params: { reviewId: string } };
+
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const parsed = schema.parse(await request.json());
+    await assertPermission(user.id, parsed.workspaceId, 'reviews.write');
+
+    const updated = await selectReplyVariant({
+      workspaceId: parsed.workspaceId,
+      reviewId: params.reviewId,
+      actorId: user.id,
+      generationIds: parsed.generationIds,
+      mergedText: parsed.mergedText,
+      restartApproval: parsed.restartApproval
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    return jsonError(error);
+  }
+}
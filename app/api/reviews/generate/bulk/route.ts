@@ -0,0 +1,157 @@
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { assertFeature, assertPermission, releaseGenerations, reserveGenerations } from '@/lib/tenant';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { defaultProvider, PROVIDERS } from '@/lib/ai';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { HttpError, jsonError } from '@/lib/http';
+import { enqueueJob, serializeJob } from '@/lib/jobs';
+import { buildReviewWhere, reviewFiltersSchema } from '@/lib/review-filters';
+import { draftReplyForReview, draftReviewInclude } from '@/lib/reply-drafts';
+
+const MAX_BATCH_SIZE = 100;
+
+const schema = z
+  .object({
+    workspaceId: z.string().min(1),
+    reviewIds: z.array(z.string().min(1)).min(1).max(MAX_BATCH_SIZE).optional(),
+    filters: reviewFiltersSchema.optional(),
+    limit: z.number().int().min(1).max(MAX_BATCH_SIZE).default(50),
+    skipDrafted: z.boolean().default(true),
+    provider: z.enum(PROVIDERS).default(defaultProvider),
+    length: z.enum(['short', 'medium', 'long']).default('medium'),
+    targetLanguage: z.string().max(32).optional(),
+    escalation: z.boolean().default(true),
+    async: z.boolean().default(false)
+  })
+  .refine((value) => Boolean(value.reviewIds) !== Boolean(value.filters), {
+    message: 'Provide either reviewIds or filters',
+    path: ['reviewIds']
+  });
+
+type BulkItemResult =
+  | { reviewId: string; status: 'drafted'; reply: string; model: string }
+  | { reviewId: string; status: 'failed'; error: string }
+  | { reviewId: string; status: 'skipped'; reason: string };
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const body = await request.json();
+    const parsed = schema.parse(body);
+    const membership = await assertPermission(user.id, parsed.workspaceId, 'reviews.generate');
+    await assertFeature(parsed.workspaceId, 'hasBulkTools');
+
+    const rate = checkRateLimit(`ai-bulk:${user.id}:${parsed.workspaceId}`, { windowMs: 60_000, maxRequests: 3 });
+    if (!rate.success) {
+      throw new HttpError(429, 'Rate limit exceeded. Please retry shortly.', { retryAfterMs: rate.retryAfterMs });
+    }
+
+    // approved and sent replies are never overwritten by a bulk run
+    const draftableWhere: Prisma.ReviewWhereInput = parsed.skipDrafted
+      ? { replyDraft: null, status: { notIn: ['APPROVED', 'SENT', 'ARCHIVED'] } }
+      : { status: { notIn: ['APPROVED', 'SENT'] } };
+    const where: Prisma.ReviewWhereInput = parsed.reviewIds
+      ? { AND: [{ workspaceId: parsed.workspaceId, id: { in: parsed.reviewIds } }, draftableWhere] }
+      : { AND: [buildReviewWhere(parsed.workspaceId, parsed.filters ?? {}, user.id), draftableWhere] };
+
+    const reviews = await prisma.review.findMany({
+      where,
+      include: draftReviewInclude,
+      orderBy: { reviewDate: 'desc' },
+      take: parsed.reviewIds ? parsed.reviewIds.length : parsed.limit
+    });
+
+    const results: BulkItemResult[] = [];
+    if (parsed.reviewIds) {
+      const found = new Set(reviews.map((review) => review.id));
+      for (const reviewId of parsed.reviewIds) {
+        if (!found.has(reviewId)) {
+          results.push({ reviewId, status: 'skipped', reason: 'Review not found or already drafted' });
+        }
+      }
+    }
+
+    if (!reviews.length) {
+      return NextResponse.json({ batchId: null, requested: 0, drafted: 0, failed: 0, skipped: results.length, results });
+    }
+
+    await reserveGenerations(parsed.workspaceId, reviews.length);
+
+    const batchId = randomUUID();
+
+    if (parsed.async) {
+      const jobs = [];
+      try {
+        for (const review of reviews) {
+          const job = await enqueueJob({
+            workspaceId: parsed.workspaceId,
+            createdById: user.id,
+            type: 'REPLY_GENERATION',
+            payload: {
+              reviewId: review.id,
+              provider: parsed.provider,
+              length: parsed.length,
+              targetLanguage: parsed.targetLanguage,
+              escalation: parsed.escalation,
+              reserved: true,
+              auditMetadata: { role: membership.role, bulk: true, batchId }
+            }
+          });
+          jobs.push({ ...serializeJob(job), reviewId: review.id });
+        }
+      } catch (error) {
+        // queued jobs release their own reservation if they fail; the rest are given back here
+        await releaseGenerations(parsed.workspaceId, reviews.length - jobs.length);
+        throw error;
+      }
+      return NextResponse.json(
+        { batchId, requested: reviews.length, skipped: results.length, results, jobs },
+        { status: 202 }
+      );
+    }
+
+    let failed = 0;
+    try {
+      for (const review of reviews) {
+        try {
+          const generated = await draftReplyForReview({
+            review,
+            actorId: user.id,
+            options: {
+              provider: parsed.provider,
+              length: parsed.length,
+              targetLanguage: parsed.targetLanguage,
+              escalation: parsed.escalation
+            },
+            auditMetadata: { role: membership.role, bulk: true, batchId }
+          });
+          results.push({ reviewId: review.id, status: 'drafted', reply: generated.text, model: generated.model });
+        } catch (error) {
+          failed += 1;
+          results.push({
+            reviewId: review.id,
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Unknown generation error'
+          });
+        }
+      }
+    } finally {
+      await releaseGenerations(parsed.workspaceId, failed);
+    }
+
+    return NextResponse.json({
+      batchId,
+      requested: reviews.length,
+      drafted: reviews.length - failed,
+      failed,
+      skipped: results.filter((item) => item.status === 'skipped').length,
+      results
+    });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
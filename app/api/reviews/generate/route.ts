@@ -1,22 +1,23 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
-import { Role } from '@prisma/client';
-import { prisma } from '@/lib/prisma';
-import { assertWorkspaceAccess, assertGenerationLimit, consumeGeneration } from '@/lib/tenant';
-import { buildReplyPrompt, generateText, providerToEnum, REPLY_PROMPT_VERSION } from '@/lib/ai';
+import { assertPermission, assertGenerationLimit, consumeGeneration } from '@/lib/tenant';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { defaultProvider, PROVIDERS } from '@/lib/ai';
 import { checkRateLimit } from '@/lib/rate-limit';
+import { checkReviewReplyCompliance } from '@/lib/brand-compliance';
 import { HttpError, jsonError } from '@/lib/http';
-import { sanitizeOptionalText } from '@/lib/sanitize';
-import { logAudit } from '@/lib/audit';
+import { enqueueJob, serializeJob } from '@/lib/jobs';
+import { assertDraftable, draftReplyForReview, loadReviewForDraft } from '@/lib/reply-drafts';
 
 const schema = z.object({
   workspaceId: z.string(),
   reviewId: z.string(),
-  provider: z.enum(['openai', 'claude', 'gemini']),
+  provider: z.enum(PROVIDERS).default(defaultProvider),
   length: z.enum(['short', 'medium', 'long']).default('medium'),
   targetLanguage: z.string().max(32).optional(),
-  escalation: z.boolean().default(true)
+  escalation: z.boolean().default(true),
+  restartApproval: z.boolean().default(false),
+  async: z.boolean().default(false)
 });
 
 export async function POST(request: Request) {
@@ -24,7 +25,7 @@ export async function POST(request: Request) {
     const user = await requireApiUserOrThrow();
     const body = await request.json();
     const parsed = schema.parse(body);
-    const membership = await assertWorkspaceAccess(user.id, parsed.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+    const membership = await assertPermission(user.id, parsed.workspaceId, 'reviews.generate');
 
     const rate = checkRateLimit(`ai:${user.id}:${parsed.workspaceId}`, { windowMs: 60_000, maxRequests: 20 });
     if (!rate.success) {
@@ -33,83 +34,42 @@ export async function POST(request: Request) {
 
     await assertGenerationLimit(parsed.workspaceId);
 
-    const review = await prisma.review.findUnique({
-      where: { id: parsed.reviewId },
-      include: {
-        location: { include: { brandVoice: true } },
-        workspace: { include: { brandVoice: true } }
-      }
-    });
-    if (!review || review.workspaceId !== parsed.workspaceId) {
-      throw new HttpError(404, 'Review not found');
-    }
-
-    const brandVoice = review.location.brandVoice ?? review.workspace.brandVoice;
-    const prompt = buildReplyPrompt({
-      reviewText: review.text,
-      rating: review.rating,
-      source: review.source,
-      length: parsed.length,
-      targetLanguage: sanitizeOptionalText(parsed.targetLanguage, 32) ?? undefined,
-      escalation: parsed.escalation,
-      brandVoice: brandVoice
-        ? {
-            tone: brandVoice.tone,
-            doList: brandVoice.doList,
-            dontList: brandVoice.dontList,
-            examples: brandVoice.examples,
-            bannedWords: brandVoice.bannedWords,
-            signOff: brandVoice.signOff
-          }
-        : null
-    });
+    const review = await loadReviewForDraft(parsed.workspaceId, parsed.reviewId);
+    assertDraftable(review, parsed.restartApproval);
 
-    const generated = await generateText({ provider: parsed.provider, prompt });
-
-    await prisma.$transaction([
-      prisma.review.update({
-        where: { id: review.id },
-        data: {
-          replyDraft: generated.text,
-          status: 'DRAFTED',
-          draftedById: user.id,
-          draftedAt: new Date(),
-          editedById: user.id,
-          editedAt: new Date()
-        }
-      }),
-      prisma.replyGeneration.create({
-        data: {
-          workspaceId: parsed.workspaceId,
+    if (parsed.async) {
+      const job = await enqueueJob({
+        workspaceId: parsed.workspaceId,
+        createdById: user.id,
+        type: 'REPLY_GENERATION',
+        payload: {
           reviewId: review.id,
-          createdById: user.id,
-          provider: providerToEnum(parsed.provider),
-          model: generated.model,
-          promptVersion: REPLY_PROMPT_VERSION,
+          provider: parsed.provider,
           length: parsed.length,
-          targetLanguage: sanitizeOptionalText(parsed.targetLanguage, 32),
+          targetLanguage: parsed.targetLanguage,
           escalation: parsed.escalation,
-          inputTokens: generated.inputTokens,
-          outputTokens: generated.outputTokens,
-          estimatedCostUsd: generated.estimatedCostUsd,
-          replyText: generated.text
+          restartApproval: parsed.restartApproval,
+          auditMetadata: { role: membership.role }
         }
-      })
-    ]);
+      });
+      return NextResponse.json({ job: serializeJob(job) }, { status: 202 });
+    }
 
-    await logAudit({
-      workspaceId: parsed.workspaceId,
-      reviewId: review.id,
+    const generated = await draftReplyForReview({
+      review,
       actorId: user.id,
-      action: 'REVIEW_DRAFTED',
-      metadata: {
+      options: {
         provider: parsed.provider,
-        model: generated.model,
-        role: membership.role
-      }
+        length: parsed.length,
+        targetLanguage: parsed.targetLanguage,
+        escalation: parsed.escalation,
+        restartApproval: parsed.restartApproval
+      },
+      auditMetadata: { role: membership.role }
     });
 
     await consumeGeneration(parsed.workspaceId);
+    const compliance = await checkReviewReplyCompliance({ workspaceId: parsed.workspaceId, reviewId: review.id, text: generated.text });
 
     return NextResponse.json({
       reply: generated.text,
@@ -118,7 +78,9 @@ export async function POST(request: Request) {
         outputTokens: generated.outputTokens,
         estimatedCostUsd: generated.estimatedCostUsd
       },
-      model: generated.model
+      model: generated.model,
+      provider: generated.provider,
+      compliance
     });
   } catch (error) {
     return jsonError(error);
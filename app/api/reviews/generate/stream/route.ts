@@ -0,0 +1,116 @@
+import { z } from 'zod';
+import { assertPermission, assertGenerationLimit, consumeGeneration } from '@/lib/tenant';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { defaultProvider, PROVIDERS } from '@/lib/ai';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { checkReviewReplyCompliance } from '@/lib/brand-compliance';
+import { asHttpError, HttpError, jsonError } from '@/lib/http';
+import { assertDraftable, loadReviewForDraft, streamReplyForReview } from '@/lib/reply-drafts';
+
+const schema = z.object({
+  workspaceId: z.string(),
+  reviewId: z.string(),
+  provider: z.enum(PROVIDERS).default(defaultProvider),
+  length: z.enum(['short', 'medium', 'long']).default('medium'),
+  targetLanguage: z.string().max(32).optional(),
+  escalation: z.boolean().default(true),
+  restartApproval: z.boolean().default(false)
+});
+
+/**
+ * Server-sent events: `token` for each text delta, then a single `done` (draft persisted) or
+ * `error`. Closing the connection cancels the provider call and nothing is saved.
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const body = await request.json();
+    const parsed = schema.parse(body);
+    const membership = await assertPermission(user.id, parsed.workspaceId, 'reviews.generate');
+
+    const rate = checkRateLimit(`ai:${user.id}:${parsed.workspaceId}`, { windowMs: 60_000, maxRequests: 20 });
+    if (!rate.success) {
+      throw new HttpError(429, 'Rate limit exceeded. Please retry shortly.', { retryAfterMs: rate.retryAfterMs });
+    }
+
+    await assertGenerationLimit(parsed.workspaceId);
+
+    const review = await loadReviewForDraft(parsed.workspaceId, parsed.reviewId);
+    assertDraftable(review, parsed.restartApproval);
+    const abort = new AbortController();
+    request.signal.addEventListener('abort', () => abort.abort());
+
+    const generator = streamReplyForReview({
+      review,
+      actorId: user.id,
+      options: {
+        provider: parsed.provider,
+        length: parsed.length,
+        targetLanguage: parsed.targetLanguage,
+        escalation: parsed.escalation,
+        restartApproval: parsed.restartApproval
+      },
+      auditMetadata: { role: membership.role, streamed: true },
+      signal: abort.signal
+    });
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (!abort.signal.aborted) {
+            controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+          }
+        };
+
+        try {
+          let next = await generator.next();
+          while (!next.done) {
+            send('token', { text: next.value });
+            next = await generator.next();
+          }
+
+          const generated = next.value;
+          await consumeGeneration(parsed.workspaceId);
+          const compliance = await checkReviewReplyCompliance({
+            workspaceId: parsed.workspaceId,
+            reviewId: review.id,
+            text: generated.text
+          });
+          send('done', {
+            reply: generated.text,
+            usage: {
+              inputTokens: generated.inputTokens,
+              outputTokens: generated.outputTokens,
+              estimatedCostUsd: generated.estimatedCostUsd
+            },
+            model: generated.model,
+            provider: generated.provider,
+            compliance
+          });
+        } catch (error) {
+          send('error', { error: asHttpError(error).message });
+        } finally {
+          try {
+            controller.close();
+          } catch {
+            // already closed by a client disconnect
+          }
+        }
+      },
+      cancel() {
+        abort.abort();
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive'
+      }
+    });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { assertPermission } from '@/lib/tenant';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { HttpError, jsonError } from '@/lib/http';
+import { IMPORT_FIELDS, mapCsvRows, parseImportSettings, readCsvImport } from '@/lib/csv-import';
+
+const SAMPLE_ROWS = 20;
+const MAX_REPORTED_ERRORS = 200;
+
+/** Reads an upload with detected or chosen settings and validates every row; nothing is saved. */
+export async function POST(request: Request) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const form = await request.formData();
+    const workspaceId = String(form.get('workspaceId') || '');
+    const defaultLocationId = String(form.get('locationId') || '');
+    const settings = parseImportSettings(form.get('settings'));
+    const file = form.get('file');
+
+    await assertPermission(user.id, workspaceId, 'reviews.write');
+    if (!(file instanceof File)) throw new HttpError(400, 'Missing CSV file');
+
+    const csv = readCsvImport(new Uint8Array(await file.arrayBuffer()), settings);
+    const rows = mapCsvRows(csv, defaultLocationId || undefined);
+    const errors = rows.flatMap((item) => (item.error ? [{ row: item.row, message: item.error }] : []));
+
+    return NextResponse.json({
+      fileName: file.name,
+      encoding: csv.encoding,
+      delimiter: csv.delimiter,
+      headers: csv.headers,
+      fields: IMPORT_FIELDS,
+      mapping: csv.mapping,
+      missing: csv.missing,
+      defaultSource: csv.defaultSource,
+      total: rows.length,
+      valid: rows.length - errors.length,
+      errors: errors.slice(0, MAX_REPORTED_ERRORS),
+      sample: rows.slice(0, SAMPLE_ROWS).map((item) => ({
+        row: item.row,
+        error: item.error,
+        review: item.review
+          ? {
+              externalId: item.review.externalId ?? null,
+              source: item.review.source,
+              location: item.review.locationName || null,
+              authorName: item.review.authorName,
+              rating: item.review.rating,
+              reviewDate: item.review.reviewDate.toISOString(),
+              text: item.review.text.slice(0, 200)
+            }
+          : null
+      }))
+    });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -1,13 +1,14 @@
 import { NextResponse } from 'next/server';
-import { parse } from 'csv-parse/sync';
 import { z } from 'zod';
-import { Role, ReviewSource, Sentiment } from '@prisma/client';
-import { prisma } from '@/lib/prisma';
-import { assertLocationLimit, assertWorkspaceAccess } from '@/lib/tenant';
+import { ReviewSource } from '@prisma/client';
+import { assertPermission } from '@/lib/tenant';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
 import { HttpError, jsonError } from '@/lib/http';
-import { sanitizeOptionalText, sanitizeTags, sanitizeText, sanitizeUrl } from '@/lib/sanitize';
 import { logAudit } from '@/lib/audit';
+import { runAutomationRules } from '@/lib/automation-rules';
+import { autoAssignReviews } from '@/lib/review-assignment';
+import { IMPORT_MODES, createImportedReview } from '@/lib/review-import';
+import { commitCsvImport, mapCsvRows, parseImportSettings, readCsvImport } from '@/lib/csv-import';
 
 const manualSchema = z.object({
   workspaceId: z.string(),
@@ -23,34 +24,7 @@ const manualSchema = z.object({
   tags: z.array(z.string().max(40)).max(20).default([])
 });
 
-function sentimentFromRating(rating: number): Sentiment {
-  if (rating >= 4) return Sentiment.POS;
-  if (rating === 3) return Sentiment.NEU;
-  return Sentiment.NEG;
-}
-
-async function resolveLocation(workspaceId: string, locationId?: string, locationName?: string) {
-  if (locationId) {
-    const existing = await prisma.location.findUnique({ where: { id: locationId } });
-    if (!existing || existing.workspaceId !== workspaceId) {
-      throw new HttpError(404, 'Location not found');
-    }
-    return existing;
-  }
-
-  const safeName = sanitizeOptionalText(locationName, 100);
-  if (!safeName) {
-    throw new HttpError(400, 'locationId or locationName is required');
-  }
-
-  const existingByName = await prisma.location.findUnique({
-    where: { workspaceId_name: { workspaceId, name: safeName } }
-  });
-  if (existingByName) return existingByName;
-
-  await assertLocationLimit(workspaceId);
-  return prisma.location.create({ data: { workspaceId, name: safeName } });
-}
+const importModeSchema = z.enum(IMPORT_MODES).default('skip');
 
 export async function POST(request: Request) {
   try {
@@ -61,82 +35,34 @@ export async function POST(request: Request) {
       const form = await request.formData();
       const workspaceId = String(form.get('workspaceId') || '');
       const defaultLocationId = String(form.get('locationId') || '');
+      const mode = importModeSchema.parse(form.get('mode') || undefined);
+      const settings = parseImportSettings(form.get('settings'));
+      const dryRun = form.get('dryRun') === 'true';
       const file = form.get('file');
 
-      await assertWorkspaceAccess(user.id, workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+      const membership = await assertPermission(user.id, workspaceId, 'reviews.write');
       if (!(file instanceof File)) throw new HttpError(400, 'Missing CSV file');
 
-      const csv = await file.text();
-      const rows = parse(csv, { columns: true, skip_empty_lines: true, trim: true }) as Record<string, string>[];
-
-      let imported = 0;
-      const errors: Array<{ row: number; message: string }> = [];
-      for (const [index, row] of rows.entries()) {
-        try {
-          const sourceRaw = row.source?.toUpperCase();
-          const source = sourceRaw && sourceRaw in ReviewSource ? (sourceRaw as ReviewSource) : ReviewSource.OTHER;
-          const rating = Number(row.rating || 0);
-          if (!Number.isFinite(rating) || rating < 1 || rating > 5) {
-            throw new HttpError(400, 'Invalid rating');
-          }
-
-          const location = await resolveLocation(workspaceId, row.locationId || defaultLocationId || undefined, row.location);
-          const text = sanitizeText(row.text || '', 5000);
-          if (text.length < 3) throw new HttpError(400, 'Review text is too short');
-
-          const tags = row.tags ? sanitizeTags(row.tags.split('|').flatMap((item) => item.split(','))) : [];
-          const review = await prisma.review.create({
-            data: {
-              workspaceId,
-              locationId: location.id,
-              source,
-              authorName: sanitizeText(row.name || 'Anonymous', 120),
-              rating,
-              text,
-              reviewDate: row.date ? new Date(row.date) : new Date(),
-              reviewUrl: sanitizeUrl(row.url),
-              language: sanitizeOptionalText(row.language, 32),
-              tags,
-              sentiment: sentimentFromRating(rating)
-            }
-          });
-          imported += 1;
-
-          await logAudit({
-            workspaceId,
-            reviewId: review.id,
-            actorId: user.id,
-            action: 'REVIEW_IMPORTED',
-            metadata: { source: review.source, row: index + 1 }
-          });
-        } catch (error) {
-          errors.push({ row: index + 1, message: error instanceof Error ? error.message : 'Unknown import error' });
-        }
-      }
-
-      return NextResponse.json({ imported, failed: errors.length, errors });
+      const csv = readCsvImport(new Uint8Array(await file.arrayBuffer()), settings);
+      const result = await commitCsvImport({
+        workspace: membership.workspace,
+        actorId: user.id,
+        fileName: file.name,
+        mode,
+        file: csv,
+        rows: mapCsvRows(csv, defaultLocationId || undefined),
+        dryRun
+      });
+      return NextResponse.json({ mode, ...result });
     }
 
     const body = await request.json();
     const parsed = manualSchema.parse(body);
 
-    await assertWorkspaceAccess(user.id, parsed.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
-    const location = await resolveLocation(parsed.workspaceId, parsed.locationId, parsed.locationName);
-
-    const review = await prisma.review.create({
-      data: {
-        workspaceId: parsed.workspaceId,
-        locationId: location.id,
-        source: parsed.source,
-        authorName: sanitizeText(parsed.authorName, 120),
-        rating: parsed.rating,
-        text: sanitizeText(parsed.text, 5000),
-        reviewDate: new Date(parsed.reviewDate),
-        reviewUrl: sanitizeUrl(parsed.reviewUrl || null),
-        language: sanitizeOptionalText(parsed.language || null, 32),
-        tags: sanitizeTags(parsed.tags),
-        sentiment: sentimentFromRating(parsed.rating)
-      }
+    const membership = await assertPermission(user.id, parsed.workspaceId, 'reviews.write');
+    const review = await createImportedReview(membership.workspace, {
+      ...parsed,
+      reviewDate: new Date(parsed.reviewDate)
     });
 
     await logAudit({
@@ -147,7 +73,10 @@ export async function POST(request: Request) {
       metadata: { source: parsed.source }
     });
 
-    return NextResponse.json(review, { status: 201 });
+    const assigned = await autoAssignReviews({ workspaceId: parsed.workspaceId, reviewIds: [review.id], actorId: user.id });
+    const automation = await runAutomationRules({ workspaceId: parsed.workspaceId, reviewIds: [review.id], actorId: user.id });
+
+    return NextResponse.json({ ...review, assigned, automation }, { status: 201 });
   } catch (error) {
     return jsonError(error);
   }
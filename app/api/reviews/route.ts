@@ -1,66 +1,77 @@
 import { NextResponse } from 'next/server';
-import { ReviewSource, ReviewStatus, Role, Sentiment } from '@prisma/client';
+import { Prisma, ReviewSource, Role } from '@prisma/client';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission, reviewScopeSql, reviewScopeWhere } from '@/lib/tenant';
 import { HttpError, jsonError } from '@/lib/http';
+import { buildReviewFilterSql, buildReviewWhere } from '@/lib/review-filters';
+import { inboxFiltersSchema } from '@/lib/inbox-views';
+import { findSearchMatches, loadSearchHighlights, SearchHighlights } from '@/lib/review-search';
+import { serializeClientReview } from '@/lib/client-portal';
+import { autoAssignReviews, computeDueAt } from '@/lib/review-assignment';
 
-const filtersSchema = z.object({
+const filtersSchema = inboxFiltersSchema.extend({
   workspaceId: z.string().min(1),
-  status: z.nativeEnum(ReviewStatus).optional(),
-  source: z.nativeEnum(ReviewSource).optional(),
-  sentiment: z.nativeEnum(Sentiment).optional(),
-  tag: z.string().optional(),
-  rating: z.coerce.number().int().min(1).max(5).optional(),
-  dateFrom: z.string().optional(),
-  dateTo: z.string().optional(),
   page: z.coerce.number().int().min(1).max(200).default(1),
   pageSize: z.coerce.number().int().min(1).max(100).default(20)
 });
 
+const listInclude = {
+  location: true,
+  assignee: { select: { id: true, name: true, email: true } },
+  draftedBy: { select: { id: true, name: true, email: true } },
+  approvedBy: { select: { id: true, name: true, email: true } }
+} satisfies Prisma.ReviewInclude;
+
+type ListedReview = Prisma.ReviewGetPayload<{ include: typeof listInclude }>;
+
 export async function GET(request: Request) {
   try {
     const user = await requireApiUserOrThrow();
     const url = new URL(request.url);
     const parsed = filtersSchema.parse(Object.fromEntries(url.searchParams.entries()));
-    await assertWorkspaceAccess(user.id, parsed.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+    const membership = await assertPermission(user.id, parsed.workspaceId, 'reviews.read');
 
-    const where = {
-      workspaceId: parsed.workspaceId,
-      ...(parsed.status ? { status: parsed.status } : {}),
-      ...(parsed.source ? { source: parsed.source } : {}),
-      ...(parsed.sentiment ? { sentiment: parsed.sentiment } : {}),
-      ...(parsed.tag ? { tags: { has: parsed.tag } } : {}),
-      ...(parsed.rating ? { rating: parsed.rating } : {}),
-      ...((parsed.dateFrom || parsed.dateTo)
-        ? {
-            reviewDate: {
-              ...(parsed.dateFrom ? { gte: new Date(parsed.dateFrom) } : {}),
-              ...(parsed.dateTo ? { lte: new Date(parsed.dateTo) } : {})
-            }
-          }
-        : {})
-    };
+    const where = { AND: [buildReviewWhere(parsed.workspaceId, parsed, user.id), reviewScopeWhere(membership)] };
 
     const skip = (parsed.page - 1) * parsed.pageSize;
-    const [reviews, total] = await Promise.all([
-      prisma.review.findMany({
-        where,
-        include: {
-          location: true,
-          draftedBy: { select: { id: true, name: true, email: true } },
-          approvedBy: { select: { id: true, name: true, email: true } }
-        },
-        orderBy: { reviewDate: 'desc' },
-        skip,
-        take: parsed.pageSize
-      }),
-      prisma.review.count({ where })
-    ]);
+    let reviews: ListedReview[];
+    let total: number;
+    let search: Map<string, { score: number; highlights: SearchHighlights }> | null = null;
+
+    if (parsed.q) {
+      // search results are ordered by relevance instead of date
+      const sql = Prisma.sql`${buildReviewFilterSql(parsed.workspaceId, parsed, user.id)} AND ${reviewScopeSql(membership)}`;
+      const { matches, total: matched } = await findSearchMatches(parsed.workspaceId, { where, sql }, parsed.q, parsed.searchMode);
+      const page = matches.slice(skip, skip + parsed.pageSize);
+      const ids = page.map((match) => match.id);
+      const [found, highlights] = await Promise.all([
+        prisma.review.findMany({ where: { id: { in: ids } }, include: listInclude }),
+        loadSearchHighlights(ids, parsed.q)
+      ]);
+      const byId = new Map(found.map((review) => [review.id, review]));
+      reviews = ids.flatMap((id) => byId.get(id) ?? []);
+      total = matched;
+      search = new Map(page.map((match) => [match.id, { score: match.score, highlights: highlights.get(match.id) ?? {} }]));
+    } else {
+      [reviews, total] = await Promise.all([
+        prisma.review.findMany({
+          where,
+          include: listInclude,
+          orderBy: { reviewDate: 'desc' },
+          skip,
+          take: parsed.pageSize
+        }),
+        prisma.review.count({ where })
+      ]);
+    }
 
     return NextResponse.json({
-      reviews,
+      reviews: reviews.map((review) => ({
+        ...(membership.role === Role.CLIENT ? serializeClientReview(review) : review),
+        ...(search ? { search: search.get(review.id) } : {})
+      })),
       pagination: {
         total,
         page: parsed.page,
@@ -91,7 +102,7 @@ export async function POST(request: Request) {
     const user = await requireApiUserOrThrow();
     const body = await request.json();
     const parsed = createSchema.parse(body);
-    await assertWorkspaceAccess(user.id, parsed.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+    const membership = await assertPermission(user.id, parsed.workspaceId, 'reviews.write');
 
     const location = await prisma.location.findUnique({ where: { id: parsed.locationId } });
     if (!location || location.workspaceId !== parsed.workspaceId) {
@@ -102,9 +113,11 @@ export async function POST(request: Request) {
       data: {
         ...parsed,
         reviewDate: new Date(parsed.reviewDate),
-        sentiment: parsed.rating >= 4 ? 'POS' : parsed.rating === 3 ? 'NEU' : 'NEG'
+        sentiment: parsed.rating >= 4 ? 'POS' : parsed.rating === 3 ? 'NEU' : 'NEG',
+        dueAt: computeDueAt(membership.workspace)
       }
     });
+    await autoAssignReviews({ workspaceId: parsed.workspaceId, reviewIds: [review.id], actorId: user.id });
     return NextResponse.json(review, { status: 201 });
   } catch (error) {
     return jsonError(error);
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { HttpError, jsonError } from '@/lib/http';
+import { verifyInboundSignature } from '@/lib/source-connections';
+import { findSyncActor, importPushedReviews, parseSyncConfig } from '@/lib/source-sync';
+
+const MAX_BODY_BYTES = 512 * 1024;
+const MAX_REVIEWS_PER_REQUEST = 100;
+
+type Params = { params: { sourceId: string } };
+
+/** Public endpoint for systems pushing reviews to a WEBHOOK_PUSH source; every request is signed. */
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const rate = checkRateLimit(`inbound:${params.sourceId}`, { windowMs: 60_000, maxRequests: 120 });
+    if (!rate.success) {
+      throw new HttpError(429, 'Too many requests. Please retry shortly.');
+    }
+
+    const source = await prisma.sourceConnection.findUnique({
+      where: { id: params.sourceId },
+      include: { workspace: true }
+    });
+    const config = source ? parseSyncConfig(source) : null;
+    // unknown ids and sources that do not accept pushes look the same from outside
+    if (!source || !source.inboundSecret || config?.fetcher !== 'WEBHOOK_PUSH') {
+      throw new HttpError(404, 'Source not found');
+    }
+
+    const rawBody = await request.text();
+    if (Buffer.byteLength(rawBody) > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Payload too large');
+    }
+    verifyInboundSignature(source.inboundSecret, request.headers, rawBody);
+
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      throw new HttpError(400, 'Body must be JSON');
+    }
+    const reviews =
+      body && typeof body === 'object' && 'reviews' in body ? (body as { reviews: unknown }).reviews : [body];
+    if (!Array.isArray(reviews) || !reviews.length) {
+      throw new HttpError(400, 'Send a review object or { "reviews": [...] }');
+    }
+    if (reviews.length > MAX_REVIEWS_PER_REQUEST) {
+      throw new HttpError(413, `At most ${MAX_REVIEWS_PER_REQUEST} reviews per request`);
+    }
+
+    const actorId = await findSyncActor(source, config);
+    if (!actorId) {
+      throw new HttpError(409, 'Source settings must be saved again by a current workspace member');
+    }
+
+    const result = await importPushedReviews(source, reviews, actorId);
+    return NextResponse.json(result);
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -1,9 +1,8 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
-import { Role } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
 import { HttpError, jsonError } from '@/lib/http';
 import { mapPlanFromPayPalPlanId } from '@/lib/billing';
 
@@ -59,7 +58,7 @@ export async function POST(request: Request) {
     const user = await requireApiUserOrThrow();
     const body = await request.json();
     const parsed = schema.parse(body);
-    await assertWorkspaceAccess(user.id, parsed.workspaceId, [Role.OWNER, Role.ADMIN]);
+    await assertPermission(user.id, parsed.workspaceId, 'billing.manage');
 
     const fallbackPlanId = parsed.plan === 'AGENCY' ? process.env.PAYPAL_PLAN_AGENCY : process.env.PAYPAL_PLAN_PRO;
     const planId = parsed.planId ?? fallbackPlanId;
@@ -1,10 +1,9 @@
 import { NextResponse } from 'next/server';
 import Stripe from 'stripe';
 import { z } from 'zod';
-import { Role } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
 import { HttpError, jsonError } from '@/lib/http';
 import { mapPlanFromStripePriceId } from '@/lib/billing';
 
@@ -27,7 +26,7 @@ export async function POST(request: Request) {
     const user = await requireApiUserOrThrow();
     const body = await request.json();
     const parsed = schema.parse(body);
-    await assertWorkspaceAccess(user.id, parsed.workspaceId, [Role.OWNER, Role.ADMIN]);
+    await assertPermission(user.id, parsed.workspaceId, 'billing.manage');
 
     const stripe = getStripe();
     if (parsed.action === 'portal') {
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { isProviderConfigured, providerToEnum, PROVIDERS } from '@/lib/ai';
+import { chainFromEnums } from '@/lib/ai-routing';
+
+const schema = z.object({
+  chain: z
+    .array(z.enum(PROVIDERS))
+    .min(1)
+    .max(PROVIDERS.length)
+    .refine((chain) => new Set(chain).size === chain.length, { message: 'Each provider can appear only once' })
+});
+
+type Params = { params: { workspaceId: string } };
+
+function serializeChain(chain: ReturnType<typeof chainFromEnums>) {
+  return chain.map((provider) => ({ provider, configured: isProviderConfigured(provider) }));
+}
+
+export async function GET(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'settings.read');
+    return NextResponse.json({ chain: serializeChain(chainFromEnums(membership.workspace.aiProviderChain)) });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'settings.manage');
+    const parsed = schema.parse(await request.json());
+
+    const workspace = await prisma.workspace.update({
+      where: { id: params.workspaceId },
+      data: { aiProviderChain: parsed.chain.map(providerToEnum) }
+    });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'AI_ROUTING_UPDATED',
+      metadata: { chain: parsed.chain }
+    });
+
+    return NextResponse.json({ chain: serializeChain(chainFromEnums(workspace.aiProviderChain)) });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -1,17 +1,22 @@
 import { NextResponse } from 'next/server';
 import { Role } from '@prisma/client';
-import { getWorkspaceAnalytics } from '@/lib/analytics';
+import { analyticsQuerySchema, getWorkspaceAnalytics, resolveAnalyticsRange } from '@/lib/analytics';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
 import { jsonError } from '@/lib/http';
 
 type Params = { params: { workspaceId: string } };
 
-export async function GET(_: Request, { params }: Params) {
+export async function GET(request: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
-    const data = await getWorkspaceAnalytics(params.workspaceId);
+    const membership = await assertPermission(user.id, params.workspaceId, 'analytics.read');
+    const query = analyticsQuerySchema.parse(Object.fromEntries(new URL(request.url).searchParams));
+    const data = await getWorkspaceAnalytics(params.workspaceId, membership, resolveAnalyticsRange(query));
+    if (membership.role === Role.CLIENT) {
+      // plan usage is billing information; undefined keys are dropped from the JSON body
+      return NextResponse.json({ ...data, generationUsage: undefined });
+    }
     return NextResponse.json(data);
   } catch (error) {
     return jsonError(error);
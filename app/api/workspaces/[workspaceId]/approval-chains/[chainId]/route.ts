@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertFeature, assertPermission } from '@/lib/tenant';
+import { HttpError, jsonError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { approvalChainSchema, cleanChainInput, serializeChain } from '@/lib/approval-chains';
+
+type Params = { params: { workspaceId: string; chainId: string } };
+
+async function loadChain(workspaceId: string, chainId: string) {
+  const chain = await prisma.approvalChain.findUnique({ where: { id: chainId } });
+  if (!chain || chain.workspaceId !== workspaceId) {
+    throw new HttpError(404, 'Approval chain not found');
+  }
+  return chain;
+}
+
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'settings.manage');
+    await assertFeature(params.workspaceId, 'hasApprovalWorkflow');
+    const existing = await loadChain(params.workspaceId, params.chainId);
+
+    const parsed = approvalChainSchema.parse(await request.json());
+    const data = await cleanChainInput(params.workspaceId, parsed, existing.id);
+
+    const chain = await prisma.approvalChain.update({ where: { id: existing.id }, data });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'APPROVAL_CHAIN_UPDATED',
+      metadata: { chainId: chain.id, locationId: chain.locationId, stages: data.stages.length }
+    });
+
+    return NextResponse.json(serializeChain(chain));
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function DELETE(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'settings.manage');
+    const existing = await loadChain(params.workspaceId, params.chainId);
+
+    await prisma.approvalChain.delete({ where: { id: existing.id } });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'APPROVAL_CHAIN_DELETED',
+      metadata: { chainId: existing.id, locationId: existing.locationId }
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertFeature, assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { approvalChainSchema, cleanChainInput, serializeChain } from '@/lib/approval-chains';
+
+type Params = { params: { workspaceId: string } };
+
+export async function GET(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'settings.read');
+    const chains = await prisma.approvalChain.findMany({
+      where: { workspaceId: params.workspaceId },
+      orderBy: { createdAt: 'asc' }
+    });
+    return NextResponse.json({ chains: chains.map(serializeChain) });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'settings.manage');
+    await assertFeature(params.workspaceId, 'hasApprovalWorkflow');
+
+    const parsed = approvalChainSchema.parse(await request.json());
+    const data = await cleanChainInput(params.workspaceId, parsed);
+
+    const chain = await prisma.approvalChain.create({
+      data: { ...data, workspaceId: params.workspaceId, createdById: user.id }
+    });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'APPROVAL_CHAIN_CREATED',
+      metadata: { chainId: chain.id, locationId: chain.locationId, stages: data.stages.length }
+    });
+
+    return NextResponse.json(serializeChain(chain), { status: 201 });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { AssignmentStrategy } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+
+const schema = z.object({
+  strategy: z.nativeEnum(AssignmentStrategy),
+  // null disables due dates for newly imported reviews
+  responseSlaHours: z.number().int().min(1).max(24 * 30).nullable()
+});
+
+type Params = { params: { workspaceId: string } };
+
+export async function GET(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'settings.read');
+    return NextResponse.json({
+      strategy: membership.workspace.assignmentStrategy,
+      responseSlaHours: membership.workspace.responseSlaHours
+    });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'settings.manage');
+    const parsed = schema.parse(await request.json());
+
+    const workspace = await prisma.workspace.update({
+      where: { id: params.workspaceId },
+      data: { assignmentStrategy: parsed.strategy, responseSlaHours: parsed.responseSlaHours }
+    });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'ASSIGNMENT_SETTINGS_UPDATED',
+      metadata: { strategy: parsed.strategy, responseSlaHours: parsed.responseSlaHours }
+    });
+
+    return NextResponse.json({ strategy: workspace.assignmentStrategy, responseSlaHours: workspace.responseSlaHours });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertFeature, assertPermission } from '@/lib/tenant';
+import { HttpError, jsonError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { automationRuleSchema, cleanRuleInput, serializeRule } from '@/lib/automation-rules';
+
+type Params = { params: { workspaceId: string; ruleId: string } };
+
+async function loadRule(workspaceId: string, ruleId: string) {
+  const rule = await prisma.automationRule.findUnique({ where: { id: ruleId } });
+  if (!rule || rule.workspaceId !== workspaceId) {
+    throw new HttpError(404, 'Automation rule not found');
+  }
+  return rule;
+}
+
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'automation.manage');
+    await assertFeature(params.workspaceId, 'hasAutomationRules');
+    const existing = await loadRule(params.workspaceId, params.ruleId);
+
+    const parsed = automationRuleSchema.parse(await request.json());
+    const data = await cleanRuleInput(params.workspaceId, parsed);
+
+    const rule = await prisma.automationRule.update({ where: { id: existing.id }, data });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'AUTOMATION_RULE_UPDATED',
+      metadata: { ruleId: rule.id, name: rule.name, enabled: rule.enabled }
+    });
+
+    return NextResponse.json(serializeRule(rule));
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function DELETE(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'automation.manage');
+    const existing = await loadRule(params.workspaceId, params.ruleId);
+
+    await prisma.automationRule.delete({ where: { id: existing.id } });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'AUTOMATION_RULE_DELETED',
+      metadata: { ruleId: existing.id, name: existing.name }
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
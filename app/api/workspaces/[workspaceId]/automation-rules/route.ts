@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertFeature, assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { automationRuleSchema, cleanRuleInput, serializeRule } from '@/lib/automation-rules';
+
+type Params = { params: { workspaceId: string } };
+
+export async function GET(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'settings.read');
+    const rules = await prisma.automationRule.findMany({
+      where: { workspaceId: params.workspaceId },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }]
+    });
+    return NextResponse.json({ rules: rules.map(serializeRule) });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'automation.manage');
+    await assertFeature(params.workspaceId, 'hasAutomationRules');
+
+    const parsed = automationRuleSchema.parse(await request.json());
+    const data = await cleanRuleInput(params.workspaceId, parsed);
+
+    const rule = await prisma.automationRule.create({
+      data: { ...data, workspaceId: params.workspaceId, createdById: user.id }
+    });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'AUTOMATION_RULE_CREATED',
+      metadata: { ruleId: rule.id, name: rule.name }
+    });
+
+    return NextResponse.json(serializeRule(rule), { status: 201 });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
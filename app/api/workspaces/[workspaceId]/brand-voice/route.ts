@@ -1,9 +1,9 @@
 import { NextResponse } from 'next/server';
-import { Role, Tone } from '@prisma/client';
+import { Tone } from '@prisma/client';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
-import { assertFeature, assertWorkspaceAccess } from '@/lib/tenant';
+import { assertFeature, assertPermission } from '@/lib/tenant';
 import { HttpError, jsonError } from '@/lib/http';
 import { sanitizeOptionalText, sanitizeText } from '@/lib/sanitize';
 import { logAudit } from '@/lib/audit';
@@ -23,7 +23,7 @@ type Params = { params: { workspaceId: string } };
 export async function GET(_: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+    await assertPermission(user.id, params.workspaceId, 'settings.read');
     const [workspaceVoice, locationVoices] = await Promise.all([
       prisma.brandVoice.findUnique({ where: { workspaceId: params.workspaceId } }),
       prisma.brandVoice.findMany({
@@ -40,7 +40,7 @@ export async function GET(_: Request, { params }: Params) {
 export async function PUT(request: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN]);
+    await assertPermission(user.id, params.workspaceId, 'brand_voice.manage');
     await assertFeature(params.workspaceId, 'hasBrandVoice');
 
     const body = await request.json();
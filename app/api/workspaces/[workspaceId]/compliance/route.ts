@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { ComplianceMode } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+
+const schema = z.object({
+  mode: z.nativeEnum(ComplianceMode)
+});
+
+type Params = { params: { workspaceId: string } };
+
+export async function GET(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'settings.read');
+    return NextResponse.json({ mode: membership.workspace.complianceMode });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'settings.manage');
+    const parsed = schema.parse(await request.json());
+
+    const workspace = await prisma.workspace.update({
+      where: { id: params.workspaceId },
+      data: { complianceMode: parsed.mode }
+    });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'COMPLIANCE_MODE_UPDATED',
+      metadata: { from: membership.workspace.complianceMode, to: workspace.complianceMode }
+    });
+
+    return NextResponse.json({ mode: workspace.complianceMode });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
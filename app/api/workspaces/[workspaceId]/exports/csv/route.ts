@@ -1,9 +1,8 @@
 import { NextResponse } from 'next/server';
-import { Role } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { makeCsv } from '@/lib/csv';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
-import { assertFeature, assertWorkspaceAccess } from '@/lib/tenant';
+import { assertFeature, assertPermission } from '@/lib/tenant';
 import { jsonError } from '@/lib/http';
 
 type Params = { params: { workspaceId: string } };
@@ -11,7 +10,7 @@ type Params = { params: { workspaceId: string } };
 export async function GET(request: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+    await assertPermission(user.id, params.workspaceId, 'reviews.export');
     await assertFeature(params.workspaceId, 'hasExports');
 
     const url = new URL(request.url);
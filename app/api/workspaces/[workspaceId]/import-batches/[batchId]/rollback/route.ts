@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import { loadImportBatch, rollbackImportBatch, serializeImportBatch } from '@/lib/csv-import';
+
+type Params = { params: { workspaceId: string; batchId: string } };
+
+export async function POST(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'reviews.write');
+    const batch = await loadImportBatch(params.workspaceId, params.batchId);
+    const result = await rollbackImportBatch(batch, user.id);
+    return NextResponse.json({
+      batch: serializeImportBatch(result.batch),
+      deleted: result.deleted,
+      restored: result.restored
+    });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
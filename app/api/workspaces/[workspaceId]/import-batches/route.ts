@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import { serializeImportBatch } from '@/lib/csv-import';
+
+type Params = { params: { workspaceId: string } };
+
+export async function GET(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'reviews.write');
+    const batches = await prisma.reviewImportBatch.findMany({
+      where: { workspaceId: params.workspaceId },
+      include: { createdBy: { select: { name: true, email: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: 20
+    });
+    return NextResponse.json({ batches: batches.map(serializeImportBatch) });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import {
+  cleanInboxViewInput,
+  inboxViewSchema,
+  loadEditableView,
+  serializeInboxView,
+  updateInboxView
+} from '@/lib/inbox-views';
+
+type Params = { params: { workspaceId: string; viewId: string } };
+
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'reviews.read');
+    const view = await loadEditableView(membership, params.viewId);
+
+    const parsed = inboxViewSchema.parse(await request.json());
+    // the view keeps its owner when a teammate edits a shared view
+    const data = await cleanInboxViewInput(membership, view.ownerId, parsed, view.id);
+    const updated = await updateInboxView(view, data);
+
+    return NextResponse.json(serializeInboxView(membership, updated));
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function DELETE(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'reviews.read');
+    const view = await loadEditableView(membership, params.viewId);
+
+    // memberships using it as their default fall back to the unfiltered inbox (ON DELETE SET NULL)
+    await prisma.inboxView.delete({ where: { id: view.id } });
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
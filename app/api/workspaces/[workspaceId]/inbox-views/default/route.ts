@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import { loadVisibleView } from '@/lib/inbox-views';
+
+const schema = z.object({
+  // null opens the inbox without filters again
+  viewId: z.string().min(1).nullable()
+});
+
+type Params = { params: { workspaceId: string } };
+
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'reviews.read');
+    const parsed = schema.parse(await request.json());
+    if (parsed.viewId) {
+      await loadVisibleView(membership, parsed.viewId);
+    }
+
+    const updated = await prisma.workspaceMembership.update({
+      where: { id: membership.id },
+      data: { defaultInboxViewId: parsed.viewId }
+    });
+    return NextResponse.json({ defaultViewId: updated.defaultInboxViewId });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import { cleanInboxViewInput, inboxViewSchema, listInboxViews, serializeInboxView } from '@/lib/inbox-views';
+
+type Params = { params: { workspaceId: string } };
+
+export async function GET(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'reviews.read');
+    const counts = new URL(request.url).searchParams.get('counts') === 'true';
+    return NextResponse.json({
+      views: await listInboxViews(membership, { counts }),
+      defaultViewId: membership.defaultInboxViewId
+    });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'reviews.read');
+
+    const parsed = inboxViewSchema.parse(await request.json());
+    const data = await cleanInboxViewInput(membership, user.id, parsed);
+    const view = await prisma.inboxView.create({
+      data: { ...data, workspaceId: params.workspaceId, ownerId: user.id },
+      include: { owner: { select: { id: true, name: true, email: true } } }
+    });
+
+    return NextResponse.json(serializeInboxView(membership, view), { status: 201 });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
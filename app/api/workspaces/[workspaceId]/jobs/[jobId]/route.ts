@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { hasPermission } from '@/lib/permissions';
+import { HttpError, jsonError } from '@/lib/http';
+import { cancelJob, canReadJobResult, serializeJob } from '@/lib/jobs';
+
+type Params = { params: { workspaceId: string; jobId: string } };
+
+export async function GET(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'jobs.read');
+    const job = await prisma.job.findUnique({ where: { id: params.jobId } });
+    if (!job || job.workspaceId !== params.workspaceId) {
+      throw new HttpError(404, 'Job not found');
+    }
+    return NextResponse.json({ job: serializeJob(job, canReadJobResult(membership, job)) });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function DELETE(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'jobs.read');
+    const existing = await prisma.job.findUnique({ where: { id: params.jobId } });
+    if (!existing || existing.workspaceId !== params.workspaceId) {
+      throw new HttpError(404, 'Job not found');
+    }
+    if (existing.createdById !== user.id && !hasPermission(membership, 'jobs.manage')) {
+      throw new HttpError(403, 'Only the job creator or a member with jobs.manage can cancel this job');
+    }
+
+    const job = await cancelJob(params.workspaceId, params.jobId);
+    return NextResponse.json({ job: serializeJob(job, canReadJobResult(membership, job)) });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
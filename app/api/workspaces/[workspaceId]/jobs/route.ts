@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { JobStatus } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import { canReadJobResult, serializeJob } from '@/lib/jobs';
+
+const querySchema = z.object({
+  ids: z.string().optional(),
+  status: z.nativeEnum(JobStatus).optional()
+});
+
+type Params = { params: { workspaceId: string } };
+
+export async function GET(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'jobs.read');
+    const url = new URL(request.url);
+    const parsed = querySchema.parse(Object.fromEntries(url.searchParams.entries()));
+    const ids = parsed.ids?.split(',').filter(Boolean).slice(0, 100);
+
+    const jobs = await prisma.job.findMany({
+      where: {
+        workspaceId: params.workspaceId,
+        ...(ids?.length ? { id: { in: ids } } : {}),
+        ...(parsed.status ? { status: parsed.status } : {})
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 100
+    });
+
+    return NextResponse.json({ jobs: jobs.map((job) => serializeJob(job, canReadJobResult(membership, job))) });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -1,9 +1,8 @@
 import { NextResponse } from 'next/server';
-import { Role } from '@prisma/client';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
-import { assertLocationLimit, assertWorkspaceAccess } from '@/lib/tenant';
+import { assertLocationLimit, assertPermission } from '@/lib/tenant';
 import { jsonError, HttpError } from '@/lib/http';
 import { sanitizeOptionalText, sanitizeText } from '@/lib/sanitize';
 
@@ -17,7 +16,7 @@ type Params = { params: { workspaceId: string } };
 export async function GET(_: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+    await assertPermission(user.id, params.workspaceId, 'settings.read');
     const locations = await prisma.location.findMany({
       where: { workspaceId: params.workspaceId },
       orderBy: { createdAt: 'asc' },
@@ -32,7 +31,7 @@ export async function GET(_: Request, { params }: Params) {
 export async function POST(request: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN]);
+    await assertPermission(user.id, params.workspaceId, 'locations.manage');
 
     const body = await request.json();
     const parsed = createLocationSchema.parse(body);
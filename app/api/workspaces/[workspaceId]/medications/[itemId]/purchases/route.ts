@@ -1,4 +1,3 @@
-import { Role } from '@prisma/client';
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
@@ -6,7 +5,7 @@ import { jsonError, HttpError } from '@/lib/http';
 import { mapPrismaMedicationItem, toMedicationCategoryLabel } from '@/lib/medications';
 import { prisma } from '@/lib/prisma';
 import { sanitizeOptionalText } from '@/lib/sanitize';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
 
 type Params = { params: { workspaceId: string; itemId: string } };
 
@@ -43,7 +42,7 @@ function serializeMedication(item: ReturnType<typeof mapPrismaMedicationItem>) {
 export async function POST(request: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN]);
+    await assertPermission(user.id, params.workspaceId, 'medications.purchase');
     const parsed = createPurchaseSchema.parse(await request.json());
 
     const existing = await prisma.medicationItem.findFirst({
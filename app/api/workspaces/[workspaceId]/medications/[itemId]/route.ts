@@ -1,4 +1,4 @@
-import { MedicationCategory, Role } from '@prisma/client';
+import { MedicationCategory } from '@prisma/client';
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
@@ -6,7 +6,7 @@ import { jsonError, HttpError } from '@/lib/http';
 import { mapPrismaMedicationItem, toMedicationCategoryLabel } from '@/lib/medications';
 import { prisma } from '@/lib/prisma';
 import { sanitizeOptionalText, sanitizeText } from '@/lib/sanitize';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
 
 type Params = { params: { workspaceId: string; itemId: string } };
 
@@ -49,7 +49,7 @@ function serializeMedication(item: ReturnType<typeof mapPrismaMedicationItem>) {
 export async function PATCH(request: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN]);
+    await assertPermission(user.id, params.workspaceId, 'medications.manage');
 
     const parsed = updateMedicationSchema.parse(await request.json());
     if (!Object.keys(parsed).length) {
@@ -112,7 +112,7 @@ export async function PATCH(request: Request, { params }: Params) {
 export async function DELETE(_: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN]);
+    await assertPermission(user.id, params.workspaceId, 'medications.manage');
 
     const existing = await prisma.medicationItem.findFirst({
       where: { id: params.itemId, workspaceId: params.workspaceId },
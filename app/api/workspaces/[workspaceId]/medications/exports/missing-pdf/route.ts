@@ -1,4 +1,3 @@
-import { Role } from '@prisma/client';
 import { NextResponse } from 'next/server';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
 import { jsonError } from '@/lib/http';
@@ -13,14 +12,14 @@ import {
 } from '@/lib/medications';
 import { createSinglePagePdf } from '@/lib/pdf';
 import { prisma } from '@/lib/prisma';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
 
 type Params = { params: { workspaceId: string } };
 
 export async function GET(_: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    const membership = await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+    const membership = await assertPermission(user.id, params.workspaceId, 'medications.read');
 
     const [items, preference] = await prisma.$transaction([
       prisma.medicationItem.findMany({
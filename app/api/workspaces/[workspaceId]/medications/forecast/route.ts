@@ -1,8 +1,8 @@
-import { Role } from '@prisma/client';
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
-import { extractJsonObject, generateText, Provider } from '@/lib/ai';
+import { defaultProvider, extractJsonObject, generateText, Provider, PROVIDERS } from '@/lib/ai';
+import { getWorkspaceProviderChain } from '@/lib/ai-routing';
 import { jsonError, HttpError } from '@/lib/http';
 import {
   calculateMedicationAlerts,
@@ -11,12 +11,12 @@ import {
   toMedicationCategoryLabel
 } from '@/lib/medications';
 import { prisma } from '@/lib/prisma';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
 
 type Params = { params: { workspaceId: string } };
 
 const schema = z.object({
-  provider: z.enum(['openai', 'claude', 'gemini']).default('openai'),
+  provider: z.enum(PROVIDERS).default(defaultProvider),
   horizonDays: z.coerce.number().int().min(7).max(120).default(30)
 });
 
@@ -146,7 +146,7 @@ Rules:
 export async function POST(request: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+    await assertPermission(user.id, params.workspaceId, 'medications.read');
     const parsed = schema.parse(await request.json());
 
     const items = await prisma.medicationItem.findMany({
@@ -198,10 +198,12 @@ export async function POST(request: Request, { params }: Params) {
 
     let validated: z.infer<typeof responseSchema> = fallbackForecast;
     let model: string | null = null;
+    let servedBy = parsed.provider as Provider;
     let fallbackRulesUsed = true;
     try {
       const generated = await generateText({
         provider: parsed.provider as Provider,
+        fallbacks: await getWorkspaceProviderChain(params.workspaceId),
         prompt,
         maxTokens: 1200,
         temperature: 0.2
@@ -209,6 +211,7 @@ export async function POST(request: Request, { params }: Params) {
       const aiJson = extractJsonObject<unknown>(generated.text);
       validated = responseSchema.parse(aiJson);
       model = generated.model;
+      servedBy = generated.provider;
       fallbackRulesUsed = false;
     } catch {
       // fallback generated from deterministic inventory rules
@@ -216,7 +219,7 @@ export async function POST(request: Request, { params }: Params) {
 
     return NextResponse.json({
       forecast: validated,
-      provider: parsed.provider,
+      provider: servedBy,
       model,
       fallbackRulesUsed
     });
@@ -1,11 +1,10 @@
-import { Role } from '@prisma/client';
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
 import { jsonError, HttpError } from '@/lib/http';
 import { normalizePhoneNumber } from '@/lib/phone';
 import { prisma } from '@/lib/prisma';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
 
 type Params = { params: { workspaceId: string } };
 
@@ -24,7 +23,7 @@ function normalizePhone(value: string | null | undefined) {
 export async function GET(_: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+    await assertPermission(user.id, params.workspaceId, 'medications.read');
 
     const preference = await prisma.medicationNotificationPreference.upsert({
       where: { workspaceId: params.workspaceId },
@@ -41,7 +40,7 @@ export async function GET(_: Request, { params }: Params) {
 export async function PATCH(request: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN]);
+    await assertPermission(user.id, params.workspaceId, 'medications.manage');
     const parsed = updatePreferenceSchema.parse(await request.json());
 
     if (!Object.keys(parsed).length) {
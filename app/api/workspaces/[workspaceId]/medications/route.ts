@@ -1,4 +1,4 @@
-import { MedicationCategory, Role } from '@prisma/client';
+import { MedicationCategory } from '@prisma/client';
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
@@ -11,7 +11,7 @@ import {
 } from '@/lib/medications';
 import { prisma } from '@/lib/prisma';
 import { sanitizeOptionalText, sanitizeText } from '@/lib/sanitize';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
 
 type Params = { params: { workspaceId: string } };
 
@@ -54,7 +54,7 @@ function serializeMedication(item: ReturnType<typeof mapPrismaMedicationItem>) {
 export async function GET(_: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+    await assertPermission(user.id, params.workspaceId, 'medications.read');
 
     const [items, preference] = await prisma.$transaction([
       prisma.medicationItem.findMany({
@@ -112,7 +112,7 @@ export async function GET(_: Request, { params }: Params) {
 export async function POST(request: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN]);
+    await assertPermission(user.id, params.workspaceId, 'medications.manage');
 
     const parsed = createMedicationSchema.parse(await request.json());
     const name = sanitizeText(parsed.name, 120);
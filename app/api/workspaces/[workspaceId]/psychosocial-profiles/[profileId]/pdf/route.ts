@@ -1,4 +1,3 @@
-import { Role } from '@prisma/client';
 import { NextResponse } from 'next/server';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
 import { logAudit } from '@/lib/audit';
@@ -15,7 +14,7 @@ import {
   SLEEP_LABELS,
   STRESS_LABELS
 } from '@/lib/psychosocial';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
 
 type Params = { params: { workspaceId: string; profileId: string } };
 
@@ -27,7 +26,7 @@ function boolLabel(value: boolean | null) {
 export async function GET(_: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+    await assertPermission(user.id, params.workspaceId, 'psychosocial.read');
 
     const profile = await prisma.psychosocialProfile.findFirst({
       where: {
@@ -1,10 +1,9 @@
-import { Role } from '@prisma/client';
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
-import { logAudit } from '@/lib/audit';
-import { extractJsonObject, generateText, Provider } from '@/lib/ai';
+import { defaultProvider, Provider, PROVIDERS } from '@/lib/ai';
 import { jsonError, HttpError } from '@/lib/http';
+import { enqueueJob, serializeJob } from '@/lib/jobs';
 import {
   APPETITE_LEVELS,
   AUTONOMY_LEVELS,
@@ -13,20 +12,19 @@ import {
   HOUSING_STATUSES,
   RELATIONSHIP_STYLES,
   SLEEP_QUALITIES,
-  STRESS_REACTIONS,
-  generatePsychosocialProfile,
-  profileContainsDiagnosticLanguage
+  STRESS_REACTIONS
 } from '@/lib/psychosocial';
+import { createPsychosocialProfileWithAI, PsychosocialProfileDraft, serializeProfile } from '@/lib/psychosocial-ai';
 import { prisma } from '@/lib/prisma';
 import { sanitizeOptionalText, sanitizeText } from '@/lib/sanitize';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
 
 type Params = { params: { workspaceId: string } };
 
 const optionalBooleanSchema = z.union([z.boolean(), z.null()]).optional();
 
 const psychosocialSchema = z.object({
-  provider: z.enum(['openai', 'claude', 'gemini']).default('openai'),
+  provider: z.enum(PROVIDERS).default(defaultProvider),
   internalName: z.string().min(2).max(80),
   age: z.coerce.number().int().min(0).max(120),
   sex: z.string().min(1).max(32),
@@ -56,16 +54,8 @@ const psychosocialSchema = z.object({
   photoConsent: z.boolean().default(false),
   photoReference: z.string().max(250).optional().nullable(),
   observations: z.string().max(1000).optional().nullable(),
-  signatureResponsible: z.string().max(120).optional().nullable()
-});
-
-const aiGeneratedSchema = z.object({
-  contextPersonal: z.string().min(20).max(2500),
-  emotionalProfile: z.string().min(20).max(2500),
-  mainNeeds: z.array(z.string().min(2).max(180)).min(1).max(7),
-  risks: z.array(z.string().min(2).max(180)).min(1).max(7),
-  staffRecommendations: z.array(z.string().min(2).max(220)).min(1).max(9),
-  supportPlan: z.array(z.string().min(2).max(220)).min(1).max(7)
+  signatureResponsible: z.string().max(120).optional().nullable(),
+  async: z.boolean().default(false)
 });
 
 function parseAssessmentDate(value: string) {
@@ -76,132 +66,10 @@ function parseAssessmentDate(value: string) {
   return parsed;
 }
 
-function boolText(value: boolean | null | undefined) {
-  if (value === null || value === undefined) return 'nespecificat';
-  return value ? 'da' : 'nu';
-}
-
-function buildPsychosocialAIPrompt(input: {
-  internalName: string;
-  age: number;
-  sex: string;
-  locationCenter: string;
-  assessmentDate: Date;
-  responsiblePerson: string;
-  medicalConsent: boolean;
-  familySupport: string;
-  housingStatus: string;
-  familyContactFrequency: string | null;
-  institutionalizationHistory: string | null;
-  knownDiseases: boolean | null | undefined;
-  medicationInfo: string | null;
-  limitations: string | null;
-  previousPsychEvaluation: boolean | null | undefined;
-  communicationLevel: string;
-  stressReaction: string;
-  relationshipStyle: string;
-  autonomyLevel: string;
-  sleepQuality: string;
-  appetite: string;
-  sadnessFrequent: boolean;
-  anxiety: boolean;
-  anger: boolean;
-  apathy: boolean;
-  hopeMotivation: boolean;
-  observations: string | null;
-}) {
-  return `Esti asistent pentru fise psihosociale in centru de ingrijire.
-Scopul este ORIENTATIV de sprijin pentru personal.
-Nu formula diagnostice clinice. Nu folosi expresii de diagnostic (ex: "depresie severa").
-Foloseste formulare observationale si de suport.
-
-Date reale evaluare:
-- Beneficiar: ${input.internalName}
-- Varsta: ${input.age}
-- Sex: ${input.sex}
-- Locatie/Centru: ${input.locationCenter}
-- Data evaluarii: ${input.assessmentDate.toISOString()}
-- Responsabil: ${input.responsiblePerson}
-- Acord date medicale optionale: ${input.medicalConsent ? 'da' : 'nu'}
-- Familie: ${input.familySupport}
-- Locuire: ${input.housingStatus}
-- Contact familie: ${input.familyContactFrequency ?? 'nespecificat'}
-- Istoric institutionalizare: ${input.institutionalizationHistory ?? 'nespecificat'}
-- Boli cunoscute: ${boolText(input.knownDiseases)}
-- Medicatie: ${input.medicationInfo ?? 'nespecificat'}
-- Limitari: ${input.limitations ?? 'nespecificat'}
-- Evaluare psihologica anterioara: ${boolText(input.previousPsychEvaluation)}
-- Comunicare: ${input.communicationLevel}
-- Reactie la stres: ${input.stressReaction}
-- Relationare: ${input.relationshipStyle}
-- Autonomie: ${input.autonomyLevel}
-- Somn: ${input.sleepQuality}
-- Apetit: ${input.appetite}
-- Indicatori emotionali: tristete=${input.sadnessFrequent}, anxietate=${input.anxiety}, furie=${input.anger}, apatie=${input.apathy}, speranta/motivatie=${input.hopeMotivation}
-- Observatii suplimentare: ${input.observations ?? 'fara observatii suplimentare'}
-
-Returneaza STRICT JSON (fara markdown) cu forma:
-{
-  "contextPersonal": "text 2-4 fraze",
-  "emotionalProfile": "text 2-4 fraze",
-  "mainNeeds": ["nevoie 1", "nevoie 2"],
-  "risks": ["risc 1", "risc 2"],
-  "staffRecommendations": ["recomandare 1", "recomandare 2"],
-  "supportPlan": ["pas 1", "pas 2"]
-}
-
-Reguli:
-- limba romana
-- max 7 puncte per lista
-- recomandari concrete pentru personal (ton calm, structura, evitarea conflictului, activitati recomandate cand relevant)
-- fara etichete de diagnostic
-- daca acord date medicale optionale = nu, mentioneaza explicit doar ca datele medicale nu au fost incluse in evaluarea curenta.`;
-}
-
-function serializeProfile(profile: {
-  id: string;
-  internalName: string;
-  age: number;
-  sex: string;
-  locationCenter: string;
-  assessmentDate: Date;
-  responsiblePerson: string;
-  familySupport: string;
-  housingStatus: string;
-  communicationLevel: string;
-  stressReaction: string;
-  relationshipStyle: string;
-  autonomyLevel: string;
-  sleepQuality: string;
-  appetite: string;
-  sadnessFrequent: boolean;
-  anxiety: boolean;
-  anger: boolean;
-  apathy: boolean;
-  hopeMotivation: boolean;
-  contextPersonal: string;
-  emotionalProfile: string;
-  mainNeeds: string[];
-  risks: string[];
-  staffRecommendations: string[];
-  supportPlan: string[];
-  observations: string | null;
-  signatureResponsible: string | null;
-  createdAt: Date;
-  updatedAt: Date;
-}) {
-  return {
-    ...profile,
-    assessmentDate: profile.assessmentDate.toISOString(),
-    createdAt: profile.createdAt.toISOString(),
-    updatedAt: profile.updatedAt.toISOString()
-  };
-}
-
 export async function GET(_: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+    await assertPermission(user.id, params.workspaceId, 'psychosocial.read');
 
     const profiles = await prisma.psychosocialProfile.findMany({
       where: { workspaceId: params.workspaceId },
@@ -218,7 +86,7 @@ export async function GET(_: Request, { params }: Params) {
 export async function POST(request: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+    await assertPermission(user.id, params.workspaceId, 'psychosocial.write');
     const parsed = psychosocialSchema.parse(await request.json());
     const assessmentDate = parseAssessmentDate(parsed.assessmentDate);
 
@@ -240,7 +108,7 @@ export async function POST(request: Request, { params }: Params) {
       throw new HttpError(400, 'Poza poate fi salvata doar cu consimtamant legal explicit');
     }
 
-    const normalizedInput = {
+    const draft: PsychosocialProfileDraft = {
       internalName,
       age: parsed.age,
       sex,
@@ -267,94 +135,33 @@ export async function POST(request: Request, { params }: Params) {
       anger: parsed.anger,
       apathy: parsed.apathy,
       hopeMotivation: parsed.hopeMotivation,
-      observations
+      observations,
+      photoConsent: parsed.photoConsent,
+      photoReference,
+      signatureResponsible
     };
 
-    const aiPrompt = buildPsychosocialAIPrompt(normalizedInput);
-    const generatedText = await generateText({
-      provider: parsed.provider as Provider,
-      prompt: aiPrompt,
-      maxTokens: 1200,
-      temperature: 0.2
-    });
-
-    const fallbackGenerated = generatePsychosocialProfile(normalizedInput);
-    let generated = fallbackGenerated;
-    let usedFallback = false;
-    try {
-      const parsedAi = aiGeneratedSchema.parse(extractJsonObject(generatedText.text));
-      if (profileContainsDiagnosticLanguage(parsedAi)) {
-        throw new Error('AI output contains diagnostic language');
-      }
-      generated = parsedAi;
-    } catch {
-      usedFallback = true;
-    }
-
-    const profile = await prisma.psychosocialProfile.create({
-      data: {
+    if (parsed.async) {
+      const job = await enqueueJob({
         workspaceId: params.workspaceId,
         createdById: user.id,
-        internalName,
-        age: parsed.age,
-        sex,
-        locationCenter,
-        assessmentDate,
-        responsiblePerson,
-        medicalConsent: parsed.medicalConsent,
-        familySupport: parsed.familySupport,
-        housingStatus: parsed.housingStatus,
-        familyContactFrequency,
-        institutionalizationHistory,
-        knownDiseases,
-        medicationInfo,
-        limitations,
-        previousPsychEvaluation,
-        communicationLevel: parsed.communicationLevel,
-        stressReaction: parsed.stressReaction,
-        relationshipStyle: parsed.relationshipStyle,
-        autonomyLevel: parsed.autonomyLevel,
-        sleepQuality: parsed.sleepQuality,
-        appetite: parsed.appetite,
-        sadnessFrequent: parsed.sadnessFrequent,
-        anxiety: parsed.anxiety,
-        anger: parsed.anger,
-        apathy: parsed.apathy,
-        hopeMotivation: parsed.hopeMotivation,
-        photoConsent: parsed.photoConsent,
-        photoReference,
-        contextPersonal: generated.contextPersonal,
-        emotionalProfile: generated.emotionalProfile,
-        mainNeeds: generated.mainNeeds,
-        risks: generated.risks,
-        staffRecommendations: generated.staffRecommendations,
-        supportPlan: generated.supportPlan,
-        observations,
-        signatureResponsible
-      }
-    });
+        type: 'PSYCHOSOCIAL_PROFILE',
+        payload: {
+          provider: parsed.provider as Provider,
+          draft: { ...draft, assessmentDate: assessmentDate.toISOString() }
+        }
+      });
+      return NextResponse.json({ job: serializeJob(job) }, { status: 202 });
+    }
 
-    await logAudit({
+    const result = await createPsychosocialProfileWithAI({
       workspaceId: params.workspaceId,
       actorId: user.id,
-      action: 'PSYCHOSOCIAL_PROFILE_CREATED',
-      metadata: {
-        profileId: profile.id,
-        internalName: profile.internalName
-      }
+      provider: parsed.provider as Provider,
+      draft
     });
 
-    return NextResponse.json(
-      {
-        profile: serializeProfile(profile),
-        ai: {
-          provider: parsed.provider,
-          model: generatedText.model,
-          fallbackRulesUsed: usedFallback
-        }
-      },
-      { status: 201 }
-    );
+    return NextResponse.json(result, { status: 201 });
   } catch (error) {
     return jsonError(error);
   }
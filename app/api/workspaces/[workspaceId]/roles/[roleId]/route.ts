@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertFeature, assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { resolvePermissions } from '@/lib/permissions';
+import { cleanCustomRoleInput, customRoleSchema, loadCustomRole, serializeCustomRole } from '@/lib/custom-roles';
+
+type Params = { params: { workspaceId: string; roleId: string } };
+
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'roles.manage');
+    await assertFeature(params.workspaceId, 'hasCustomRoles');
+    const existing = await loadCustomRole(params.workspaceId, params.roleId);
+
+    const parsed = customRoleSchema.parse(await request.json());
+    const data = await cleanCustomRoleInput(params.workspaceId, parsed, resolvePermissions(membership), existing.id);
+
+    const role = await prisma.workspaceRole.update({
+      where: { id: existing.id },
+      data,
+      include: { _count: { select: { memberships: true } } }
+    });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'CUSTOM_ROLE_UPDATED',
+      metadata: { roleId: role.id, name: role.name, permissions: role.permissions }
+    });
+
+    return NextResponse.json(serializeCustomRole(role));
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+/** Members holding the role fall back to the defaults of their built-in role. */
+export async function DELETE(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'roles.manage');
+    const existing = await loadCustomRole(params.workspaceId, params.roleId);
+
+    await prisma.workspaceRole.delete({ where: { id: existing.id } });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'CUSTOM_ROLE_DELETED',
+      metadata: { roleId: existing.id, name: existing.name }
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertFeature, assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { DEFAULT_ROLE_PERMISSIONS, PERMISSIONS, resolvePermissions } from '@/lib/permissions';
+import { cleanCustomRoleInput, customRoleSchema, serializeCustomRole } from '@/lib/custom-roles';
+
+type Params = { params: { workspaceId: string } };
+
+export async function GET(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'team.read');
+    const roles = await prisma.workspaceRole.findMany({
+      where: { workspaceId: params.workspaceId },
+      include: { _count: { select: { memberships: true } } },
+      orderBy: { name: 'asc' }
+    });
+    return NextResponse.json({
+      roles: roles.map(serializeCustomRole),
+      permissions: PERMISSIONS,
+      defaults: DEFAULT_ROLE_PERMISSIONS
+    });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'roles.manage');
+    await assertFeature(params.workspaceId, 'hasCustomRoles');
+
+    const parsed = customRoleSchema.parse(await request.json());
+    const data = await cleanCustomRoleInput(params.workspaceId, parsed, resolvePermissions(membership));
+
+    const role = await prisma.workspaceRole.create({ data: { ...data, workspaceId: params.workspaceId } });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'CUSTOM_ROLE_CREATED',
+      metadata: { roleId: role.id, name: role.name, permissions: role.permissions }
+    });
+
+    return NextResponse.json(serializeCustomRole(role), { status: 201 });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
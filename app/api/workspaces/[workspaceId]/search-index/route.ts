@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { Role } from '@prisma/client';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { HttpError, jsonError } from '@/lib/http';
+import { enqueueJob, serializeJob } from '@/lib/jobs';
+import { requireEmbeddingBackend } from '@/lib/embeddings';
+import { findPendingEmbeddingJob, getSearchIndexStatus } from '@/lib/review-search';
+
+type Params = { params: { workspaceId: string } };
+
+export async function GET(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'reviews.read');
+    // the counts cover every location
+    if (membership.role === Role.CLIENT) {
+      throw new HttpError(403, 'The search index is not available to client approvers');
+    }
+    return NextResponse.json(await getSearchIndexStatus(params.workspaceId));
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function POST(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'reviews.generate');
+    // fail fast instead of queueing a job that cannot run
+    requireEmbeddingBackend();
+    if (await findPendingEmbeddingJob(params.workspaceId)) {
+      throw new HttpError(409, 'The search index is already being built');
+    }
+
+    const job = await enqueueJob({
+      workspaceId: params.workspaceId,
+      createdById: user.id,
+      type: 'REVIEW_EMBEDDINGS',
+      payload: {}
+    });
+    return NextResponse.json({ job: serializeJob(job) }, { status: 202 });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { HttpError, jsonError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { generateInboundSecret, inboundPath, loadSourceConnection } from '@/lib/source-connections';
+import { parseSyncConfig } from '@/lib/source-sync';
+
+type Params = { params: { workspaceId: string; sourceId: string } };
+
+/** Creates or rotates the inbound signing secret; it is returned here once and never again. */
+export async function POST(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'sources.manage');
+    const source = await loadSourceConnection(params.workspaceId, params.sourceId);
+    if (parseSyncConfig(source)?.fetcher !== 'WEBHOOK_PUSH') {
+      throw new HttpError(409, 'Switch the source to pushed reviews first');
+    }
+
+    const secret = generateInboundSecret();
+    await prisma.sourceConnection.update({ where: { id: source.id }, data: { inboundSecret: secret } });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'SOURCE_CONNECTION_UPDATED',
+      metadata: { sourceConnectionId: source.id, provider: source.provider, inboundSecretRotated: true }
+    });
+
+    return NextResponse.json({ secret, inboundPath: inboundPath(source.id) });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
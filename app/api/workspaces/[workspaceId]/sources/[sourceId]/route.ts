@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import {
+  cleanSourceConnectionUpdate,
+  loadSourceConnection,
+  serializeSourceConnection,
+  updateSourceConnectionSchema
+} from '@/lib/source-connections';
+import { cleanSyncSettings } from '@/lib/source-sync';
+
+type Params = { params: { workspaceId: string; sourceId: string } };
+
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'sources.manage');
+    const existing = await loadSourceConnection(params.workspaceId, params.sourceId);
+
+    const parsed = updateSourceConnectionSchema.parse(await request.json());
+    const data = cleanSourceConnectionUpdate(existing, parsed);
+    const sync = parsed.sync ? await cleanSyncSettings(existing, parsed.sync, user.id) : {};
+    const source = await prisma.sourceConnection.update({ where: { id: existing.id }, data: { ...data, ...sync } });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'SOURCE_CONNECTION_UPDATED',
+      metadata: {
+        sourceConnectionId: source.id,
+        provider: source.provider,
+        publisher: source.publisher,
+        fetcher: parsed.sync ? parsed.sync.fetcher : undefined,
+        secretChanged: parsed.publishSecret !== undefined
+      }
+    });
+
+    return NextResponse.json(serializeSourceConnection(source));
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { HttpError, jsonError } from '@/lib/http';
+import { enqueueJob, serializeJob } from '@/lib/jobs';
+import { loadSourceConnection } from '@/lib/source-connections';
+import { assertSyncable, findPendingSyncJob, parseSyncConfig } from '@/lib/source-sync';
+
+type Params = { params: { workspaceId: string; sourceId: string } };
+
+export async function POST(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'sources.manage');
+    const source = await loadSourceConnection(params.workspaceId, params.sourceId);
+    assertSyncable(parseSyncConfig(source));
+    if (await findPendingSyncJob(source.id)) {
+      throw new HttpError(409, 'A sync for this source is already queued');
+    }
+
+    const job = await enqueueJob({
+      workspaceId: params.workspaceId,
+      createdById: user.id,
+      type: 'SOURCE_SYNC',
+      payload: { sourceConnectionId: source.id }
+    });
+    return NextResponse.json({ job: serializeJob(job) }, { status: 202 });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -1,11 +1,12 @@
 import { NextResponse } from 'next/server';
-import { ReviewSource, Role } from '@prisma/client';
+import { ReviewSource } from '@prisma/client';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
 import { jsonError } from '@/lib/http';
 import { sanitizeText } from '@/lib/sanitize';
+import { serializeSourceConnection } from '@/lib/source-connections';
 
 const schema = z.object({
   provider: z.nativeEnum(ReviewSource),
@@ -17,12 +18,12 @@ type Params = { params: { workspaceId: string } };
 export async function GET(_: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+    await assertPermission(user.id, params.workspaceId, 'settings.read');
     const sources = await prisma.sourceConnection.findMany({
       where: { workspaceId: params.workspaceId },
       orderBy: { provider: 'asc' }
     });
-    return NextResponse.json({ sources });
+    return NextResponse.json({ sources: sources.map(serializeSourceConnection) });
   } catch (error) {
     return jsonError(error);
   }
@@ -31,7 +32,7 @@ export async function GET(_: Request, { params }: Params) {
 export async function POST(request: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN]);
+    await assertPermission(user.id, params.workspaceId, 'sources.manage');
     const body = await request.json();
     const parsed = schema.parse(body);
 
@@ -43,7 +44,7 @@ export async function POST(request: Request, { params }: Params) {
         status: 'MANUAL'
       }
     });
-    return NextResponse.json(source, { status: 201 });
+    return NextResponse.json(serializeSourceConnection(source), { status: 201 });
   } catch (error) {
     return jsonError(error);
   }
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { loadTag, mergeTags, serializeTag, tagMergeSchema } from '@/lib/tag-taxonomy';
+
+type Params = { params: { workspaceId: string; tagId: string } };
+
+/** Merges the tags in `tagIds` into this one. */
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'tags.manage');
+    const target = await loadTag(params.workspaceId, params.tagId);
+
+    const parsed = tagMergeSchema.parse(await request.json());
+    const result = await mergeTags(target, parsed.tagIds);
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'TAGS_MERGED',
+      metadata: { tagId: target.id, into: target.name, merged: result.merged, ...result.updated }
+    });
+
+    return NextResponse.json({ tag: serializeTag(result.tag), merged: result.merged, updated: result.updated });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { loadTag, renameTag, serializeTag, tagRenameSchema } from '@/lib/tag-taxonomy';
+
+type Params = { params: { workspaceId: string; tagId: string } };
+
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'tags.manage');
+    const existing = await loadTag(params.workspaceId, params.tagId);
+
+    const parsed = tagRenameSchema.parse(await request.json());
+    const result = await renameTag(existing, parsed);
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'TAG_RENAMED',
+      metadata: { tagId: existing.id, from: existing.name, to: result.tag.name, ...result.updated }
+    });
+
+    return NextResponse.json({ tag: serializeTag(result.tag, result.updated.reviews), updated: result.updated });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { HttpError, jsonError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { cleanTagDetails, cleanTagInput, loadTag, serializeTag, tagSchema } from '@/lib/tag-taxonomy';
+
+type Params = { params: { workspaceId: string; tagId: string } };
+
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'tags.manage');
+    const existing = await loadTag(params.workspaceId, params.tagId);
+
+    const parsed = tagSchema.parse(await request.json());
+    const data = await cleanTagInput(params.workspaceId, parsed, existing.id);
+    // renaming also retags every review, so it has its own endpoint
+    if (data.name !== existing.name) {
+      throw new HttpError(400, 'Use the rename endpoint to change the tag name');
+    }
+    const tag = await prisma.tag.update({
+      where: { id: existing.id },
+      data: { synonyms: data.synonyms, ...cleanTagDetails(parsed) }
+    });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'TAG_UPDATED',
+      metadata: { tagId: tag.id, name: tag.name, synonyms: tag.synonyms, color: tag.color, archived: tag.archived }
+    });
+
+    return NextResponse.json(serializeTag(tag));
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function DELETE(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'tags.manage');
+    const existing = await loadTag(params.workspaceId, params.tagId);
+
+    // reviews keep the tag text; it just stops being a canonical taxonomy entry
+    await prisma.tag.delete({ where: { id: existing.id } });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'TAG_DELETED',
+      metadata: { tagId: existing.id, name: existing.name }
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
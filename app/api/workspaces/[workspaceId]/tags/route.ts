@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { cleanTagDetails, cleanTagInput, listTags, serializeTag, tagSchema } from '@/lib/tag-taxonomy';
+
+type Params = { params: { workspaceId: string } };
+
+export async function GET(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'reviews.read');
+    const tags = await listTags(params.workspaceId);
+    return NextResponse.json({ tags, strict: membership.workspace.strictTags });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'tags.manage');
+
+    const parsed = tagSchema.parse(await request.json());
+    const data = await cleanTagInput(params.workspaceId, parsed);
+    const tag = await prisma.tag.create({
+      data: { ...data, ...cleanTagDetails(parsed), workspaceId: params.workspaceId }
+    });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'TAG_CREATED',
+      metadata: { tagId: tag.id, name: tag.name, synonyms: tag.synonyms, color: tag.color }
+    });
+
+    return NextResponse.json(serializeTag(tag), { status: 201 });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+
+const schema = z.object({
+  enabled: z.boolean()
+});
+
+type Params = { params: { workspaceId: string } };
+
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'tags.manage');
+    const parsed = schema.parse(await request.json());
+
+    const workspace = await prisma.workspace.update({
+      where: { id: params.workspaceId },
+      data: { strictTags: parsed.enabled }
+    });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'TAG_STRICT_MODE_UPDATED',
+      metadata: { from: membership.workspace.strictTags, to: workspace.strictTags }
+    });
+
+    return NextResponse.json({ strict: workspace.strictTags });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
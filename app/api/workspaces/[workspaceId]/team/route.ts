@@ -5,28 +5,51 @@ import bcrypt from 'bcryptjs';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireApiUserOrThrow } from '@/lib/api-auth';
-import { assertTeamLimit, assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission, assertTeamLimit } from '@/lib/tenant';
 import { HttpError, jsonError } from '@/lib/http';
 import { sanitizeEmail, sanitizeText } from '@/lib/sanitize';
 import { logAudit } from '@/lib/audit';
+import { cleanClientLocationIds } from '@/lib/client-portal';
+import { loadCustomRole } from '@/lib/custom-roles';
+import { PLAN_LIMITS } from '@/lib/plans';
+import { Permission, resolvePermissions } from '@/lib/permissions';
 
 const createMemberSchema = z.object({
   email: z.string().email(),
   name: z.string().min(1).max(100).optional(),
-  role: z.nativeEnum(Role).default(Role.MEMBER)
+  role: z.nativeEnum(Role).default(Role.MEMBER),
+  // only used for CLIENT members, who see reviews of these locations only
+  locationIds: z.array(z.string().min(1)).max(100).default([])
 });
 
 const updateRoleSchema = z.object({
   membershipId: z.string().min(1),
-  role: z.nativeEnum(Role)
+  role: z.nativeEnum(Role),
+  locationIds: z.array(z.string().min(1)).max(100).optional(),
+  // omitted keeps the current custom role, null clears it
+  customRoleId: z.string().min(1).nullable().optional()
 });
 
 type Params = { params: { workspaceId: string } };
 
+function assertClientRoleAllowed(plan: string) {
+  if (plan !== 'AGENCY') {
+    throw new HttpError(403, 'Client approvers are available on the Agency plan');
+  }
+}
+
+/** Anyone with team.manage may invite and promote, but never beyond their own permissions. */
+function assertCanGrant(actorPermissions: Permission[], target: Parameters<typeof resolvePermissions>[0]) {
+  const escalated = resolvePermissions(target).find((permission) => !actorPermissions.includes(permission));
+  if (escalated) {
+    throw new HttpError(403, `You cannot grant a permission you do not hold: ${escalated}`);
+  }
+}
+
 export async function GET(_: Request, { params }: Params) {
   try {
     const user = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+    await assertPermission(user.id, params.workspaceId, 'team.read');
     const memberships = await prisma.workspaceMembership.findMany({
       where: { workspaceId: params.workspaceId },
       include: { user: { select: { id: true, name: true, email: true, createdAt: true } } },
@@ -41,10 +64,17 @@ export async function GET(_: Request, { params }: Params) {
 export async function POST(request: Request, { params }: Params) {
   try {
     const actor = await requireApiUserOrThrow();
-    const actorMembership = await assertWorkspaceAccess(actor.id, params.workspaceId, [Role.OWNER, Role.ADMIN]);
+    const actorMembership = await assertPermission(actor.id, params.workspaceId, 'team.manage');
     const body = await request.json();
     const parsed = createMemberSchema.parse(body);
     const email = sanitizeEmail(parsed.email);
+    if (parsed.role === Role.CLIENT) {
+      assertClientRoleAllowed(actorMembership.workspace.plan);
+    }
+    const role = actorMembership.workspace.plan === 'AGENCY' ? parsed.role : Role.MEMBER;
+    assertCanGrant(resolvePermissions(actorMembership), { role });
+    const locationIds =
+      parsed.role === Role.CLIENT ? await cleanClientLocationIds(params.workspaceId, parsed.locationIds) : [];
 
     const existingMembership = await prisma.workspaceMembership.findFirst({
       where: { workspaceId: params.workspaceId, user: { email } }
@@ -71,7 +101,8 @@ export async function POST(request: Request, { params }: Params) {
       data: {
         workspaceId: params.workspaceId,
         userId: user.id,
-        role: actorMembership.workspace.plan === 'AGENCY' ? parsed.role : Role.MEMBER
+        role,
+        locationIds
       },
       include: { user: { select: { id: true, name: true, email: true } } }
     });
@@ -80,7 +111,7 @@ export async function POST(request: Request, { params }: Params) {
       workspaceId: params.workspaceId,
       actorId: actor.id,
       action: 'MEMBER_ADDED',
-      metadata: { targetEmail: email, role: membership.role }
+      metadata: { targetEmail: email, role: membership.role, ...(locationIds.length ? { locationIds } : {}) }
     });
 
     return NextResponse.json(membership, { status: 201 });
@@ -92,9 +123,12 @@ export async function POST(request: Request, { params }: Params) {
 export async function PATCH(request: Request, { params }: Params) {
   try {
     const actor = await requireApiUserOrThrow();
-    await assertWorkspaceAccess(actor.id, params.workspaceId, [Role.OWNER, Role.ADMIN]);
+    const actorMembership = await assertPermission(actor.id, params.workspaceId, 'team.manage');
     const body = await request.json();
     const parsed = updateRoleSchema.parse(body);
+    if (parsed.role === Role.CLIENT) {
+      assertClientRoleAllowed(actorMembership.workspace.plan);
+    }
 
     const membership = await prisma.workspaceMembership.findUnique({
       where: { id: parsed.membershipId }
@@ -103,6 +137,22 @@ export async function PATCH(request: Request, { params }: Params) {
       throw new HttpError(404, 'Membership not found');
     }
 
+    // owners always hold every permission and clients keep their fixed portal access
+    const customRoleId =
+      parsed.role === Role.OWNER || parsed.role === Role.CLIENT
+        ? null
+        : parsed.customRoleId === undefined
+          ? membership.customRoleId
+          : parsed.customRoleId;
+    if (parsed.customRoleId && !customRoleId) {
+      throw new HttpError(400, 'Custom roles apply to admins and members only');
+    }
+    if (parsed.customRoleId && !PLAN_LIMITS[actorMembership.workspace.plan].hasCustomRoles) {
+      throw new HttpError(403, 'Feature "hasCustomRoles" requires a higher plan');
+    }
+    const customRole = customRoleId ? await loadCustomRole(params.workspaceId, customRoleId) : null;
+    assertCanGrant(resolvePermissions(actorMembership), { role: parsed.role, customRole });
+
     if (membership.role === 'OWNER' && parsed.role !== 'OWNER') {
       const ownerCount = await prisma.workspaceMembership.count({
         where: { workspaceId: params.workspaceId, role: 'OWNER' }
@@ -112,16 +162,27 @@ export async function PATCH(request: Request, { params }: Params) {
       }
     }
 
+    // location grants are kept when only the role is resent, and cleared for non-client roles
+    const locationIds =
+      parsed.role === Role.CLIENT
+        ? await cleanClientLocationIds(params.workspaceId, parsed.locationIds ?? membership.locationIds)
+        : [];
     const updated = await prisma.workspaceMembership.update({
       where: { id: parsed.membershipId },
-      data: { role: parsed.role }
+      data: { role: parsed.role, locationIds, customRoleId },
+      include: { customRole: { select: { id: true, name: true } } }
     });
 
     await logAudit({
       workspaceId: params.workspaceId,
       actorId: actor.id,
       action: 'MEMBER_ROLE_UPDATED',
-      metadata: { membershipId: parsed.membershipId, role: parsed.role }
+      metadata: {
+        membershipId: parsed.membershipId,
+        role: parsed.role,
+        customRole: customRole?.name ?? null,
+        ...(parsed.role === Role.CLIENT ? { locationIds } : {})
+      }
     });
 
     return NextResponse.json(updated);
@@ -133,7 +194,7 @@ export async function PATCH(request: Request, { params }: Params) {
 export async function DELETE(request: Request, { params }: Params) {
   try {
     const actor = await requireApiUserOrThrow();
-    const actorMembership = await assertWorkspaceAccess(actor.id, params.workspaceId, [Role.OWNER, Role.ADMIN]);
+    const actorMembership = await assertPermission(actor.id, params.workspaceId, 'team.manage');
     const url = new URL(request.url);
     const membershipId = url.searchParams.get('membershipId');
 
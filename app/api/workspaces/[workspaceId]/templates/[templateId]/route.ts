@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { HttpError, jsonError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { assertCustomTemplates, cleanTemplateInput, replyTemplateSchema, serializeTemplate } from '@/lib/reply-templates';
+
+type Params = { params: { workspaceId: string; templateId: string } };
+
+async function loadTemplate(workspaceId: string, templateId: string) {
+  const template = await prisma.replyTemplate.findUnique({ where: { id: templateId } });
+  if (!template || template.workspaceId !== workspaceId) {
+    throw new HttpError(404, 'Template not found');
+  }
+  return template;
+}
+
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'templates.manage');
+    assertCustomTemplates(membership.workspace.plan);
+    const existing = await loadTemplate(params.workspaceId, params.templateId);
+
+    const parsed = replyTemplateSchema.parse(await request.json());
+    const data = await cleanTemplateInput(params.workspaceId, parsed, existing.id);
+
+    const template = await prisma.replyTemplate.update({ where: { id: existing.id }, data });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'REPLY_TEMPLATE_UPDATED',
+      metadata: { templateId: template.id, name: template.name }
+    });
+
+    return NextResponse.json(serializeTemplate(template));
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function DELETE(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'templates.manage');
+    const existing = await loadTemplate(params.workspaceId, params.templateId);
+
+    await prisma.replyTemplate.delete({ where: { id: existing.id } });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'REPLY_TEMPLATE_DELETED',
+      metadata: { templateId: existing.id, name: existing.name }
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { jsonError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import {
+  assertCustomTemplates,
+  canUseCustomTemplates,
+  cleanTemplateInput,
+  listReplyTemplates,
+  replyTemplateSchema,
+  serializeTemplate
+} from '@/lib/reply-templates';
+
+type Params = { params: { workspaceId: string } };
+
+export async function GET(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'settings.read');
+    const templates = await listReplyTemplates(params.workspaceId, membership.workspace.plan);
+    return NextResponse.json({ templates, customAllowed: canUseCustomTemplates(membership.workspace.plan) });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'templates.manage');
+    assertCustomTemplates(membership.workspace.plan);
+
+    const parsed = replyTemplateSchema.parse(await request.json());
+    const data = await cleanTemplateInput(params.workspaceId, parsed);
+
+    const template = await prisma.replyTemplate.create({
+      data: { ...data, workspaceId: params.workspaceId, createdById: user.id }
+    });
+
+    await logAudit({
+      workspaceId: params.workspaceId,
+      actorId: user.id,
+      action: 'REPLY_TEMPLATE_CREATED',
+      metadata: { templateId: template.id, name: template.name }
+    });
+
+    return NextResponse.json(serializeTemplate(template), { status: 201 });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { Role } from '@prisma/client';
+import { requireApiUserOrThrow } from '@/lib/api-auth';
+import { assertPermission } from '@/lib/tenant';
+import { HttpError, jsonError } from '@/lib/http';
+import { enqueueJob, serializeJob } from '@/lib/jobs';
+import { findPendingClusteringJob, listReviewThemes } from '@/lib/review-themes';
+
+type Params = { params: { workspaceId: string } };
+
+export async function GET(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    const membership = await assertPermission(user.id, params.workspaceId, 'analytics.read');
+    // themes are computed across every location
+    if (membership.role === Role.CLIENT) {
+      throw new HttpError(403, 'Themes are not available to client approvers');
+    }
+    return NextResponse.json({ themes: await listReviewThemes(params.workspaceId) });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function POST(_: Request, { params }: Params) {
+  try {
+    const user = await requireApiUserOrThrow();
+    await assertPermission(user.id, params.workspaceId, 'tags.manage');
+    if (await findPendingClusteringJob(params.workspaceId)) {
+      throw new HttpError(409, 'Themes are already being refreshed');
+    }
+
+    const job = await enqueueJob({
+      workspaceId: params.workspaceId,
+      createdById: user.id,
+      type: 'THEME_CLUSTERING',
+      payload: {}
+    });
+    return NextResponse.json({ job: serializeJob(job) }, { status: 202 });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -1,63 +1,256 @@
 import { Role } from '@prisma/client';
 import { requireUser } from '@/lib/session';
-import { assertWorkspaceAccess } from '@/lib/tenant';
-import { getWorkspaceAnalytics } from '@/lib/analytics';
+import { assertPermission } from '@/lib/tenant';
+import { ANALYTICS_GRANULARITIES, analyticsQuerySchema, getWorkspaceAnalytics, resolveAnalyticsRange } from '@/lib/analytics';
+import { HttpError } from '@/lib/http';
+import { hasPermission } from '@/lib/permissions';
+import { listReviewThemes, THEME_WINDOW_DAYS } from '@/lib/review-themes';
+import { SentimentTrendChart, VolumeRatingChart } from '@/components/dashboard/analytics-charts';
+import { ReviewThemesPanel } from '@/components/dashboard/review-themes-panel';
 
-export default async function AnalyticsPage({ params }: { params: { workspaceId: string } }) {
+type AnalyticsPageProps = {
+  params: { workspaceId: string };
+  searchParams: { dateFrom?: string; dateTo?: string; granularity?: string };
+};
+
+type Change = { previous: number; delta: number | null; percent: number | null } | null;
+
+// for ratings and volume up is good; for negative share and response times down is good
+function DeltaLine({ change, lowerIsBetter = false, unit = '' }: { change: Change; lowerIsBetter?: boolean; unit?: string }) {
+  if (!change || change.delta === null) return <p className="mt-1 text-xs text-slate-500">No earlier data</p>;
+  const better = lowerIsBetter ? change.delta < 0 : change.delta > 0;
+  const tone = change.delta === 0 ? 'text-slate-400' : better ? 'text-emerald-300' : 'text-rose-300';
+  return (
+    <p className={`mt-1 text-xs ${tone}`}>
+      {change.delta > 0 ? '+' : ''}
+      {change.delta}
+      {unit}
+      {change.percent === null ? '' : ` (${change.percent > 0 ? '+' : ''}${change.percent}%)`} vs previous period
+    </p>
+  );
+}
+
+function hoursChange(current: number | null, previous: number | null): Change {
+  if (current === null || previous === null) return null;
+  return { previous, delta: Number((current - previous).toFixed(1)), percent: null };
+}
+
+function formatHours(hours: number | null) {
+  if (hours === null) return '-';
+  return hours >= 48 ? `${(hours / 24).toFixed(1)} d` : `${hours} h`;
+}
+
+export default async function AnalyticsPage({ params, searchParams }: AnalyticsPageProps) {
   const { user } = await requireUser();
-  await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
-  const analytics = await getWorkspaceAnalytics(params.workspaceId);
+  const membership = await assertPermission(user.id, params.workspaceId, 'analytics.read');
+  const isClient = membership.role === Role.CLIENT;
+
+  const query = analyticsQuerySchema.safeParse(searchParams);
+  let range;
+  let rangeError: string | null = null;
+  try {
+    range = resolveAnalyticsRange(query.success ? query.data : {});
+  } catch (error) {
+    if (!(error instanceof HttpError)) throw error;
+    rangeError = error.message;
+    range = resolveAnalyticsRange({});
+  }
+  const [analytics, themes] = await Promise.all([
+    getWorkspaceAnalytics(params.workspaceId, membership, range),
+    // themes span every location, so client approvers do not get them
+    isClient ? Promise.resolve([]) : listReviewThemes(params.workspaceId)
+  ]);
+  const lastDay = new Date(range.to.getTime() - 24 * 60 * 60 * 1000);
+
+  const cards: Array<{ label: string; value: string | number; change?: Change; lowerIsBetter?: boolean; unit?: string }> = [
+    { label: 'Reviews', value: analytics.totalReviews, change: analytics.deltas.totalReviews },
+    { label: 'Avg rating', value: analytics.avgRating, change: analytics.deltas.avgRating },
+    {
+      label: 'Negative',
+      value: `${analytics.sentiment.percentages.NEG}%`,
+      change: analytics.deltas.negativePercent,
+      lowerIsBetter: true,
+      unit: ' pts'
+    },
+    { label: 'Drafted', value: analytics.draftedCount },
+    ...(isClient
+      ? []
+      : [{ label: 'AI usage', value: `${analytics.generationUsage.used}/${analytics.generationUsage.limit}` }])
+  ];
+  const responseTimes = [
+    { label: 'Time to draft', ...analytics.responseTimes.draft },
+    { label: 'Time to approve', ...analytics.responseTimes.approve },
+    { label: 'Time to send', ...analytics.responseTimes.send }
+  ];
 
   return (
     <main className="space-y-5">
       <section className="card p-5">
         <h1 className="text-2xl font-semibold">Workspace Analytics</h1>
-        <p className="mt-1 text-sm text-slate-400">Track volume, quality, workflow progress, and generation usage.</p>
+        <p className="mt-1 text-sm text-slate-400">
+          Track volume, quality, response times and generation usage over time. Each figure is compared with the period
+          of the same length just before.
+        </p>
+        <form className="mt-4 flex flex-wrap items-end gap-3">
+          <label className="text-xs text-slate-400">
+            From
+            <input
+              className="input mt-1"
+              type="date"
+              name="dateFrom"
+              defaultValue={range.from.toISOString().slice(0, 10)}
+            />
+          </label>
+          <label className="text-xs text-slate-400">
+            To
+            <input className="input mt-1" type="date" name="dateTo" defaultValue={lastDay.toISOString().slice(0, 10)} />
+          </label>
+          <label className="text-xs text-slate-400">
+            Group by
+            <select className="input mt-1" name="granularity" defaultValue={range.granularity}>
+              {ANALYTICS_GRANULARITIES.map((granularity) => (
+                <option key={granularity} value={granularity}>
+                  {granularity}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button className="btn btn-secondary">Apply</button>
+        </form>
+        {rangeError ? <p className="mt-2 text-sm text-rose-300">{rangeError}. Showing the last 90 days instead.</p> : null}
       </section>
 
       <section className="grid gap-4 md:grid-cols-5">
-        {[
-          ['Reviews', analytics.totalReviews],
-          ['Avg rating', analytics.avgRating],
-          ['Drafted', analytics.draftedCount],
-          ['Approved', analytics.approvedCount],
-          ['AI usage', `${analytics.generationUsage.used}/${analytics.generationUsage.limit}`]
-        ].map(([label, value]) => (
-          <div key={label} className="card p-4">
-            <p className="text-xs uppercase tracking-wide text-slate-400">{label}</p>
-            <p className="mt-2 text-2xl font-semibold">{value}</p>
+        {cards.map((card) => (
+          <div key={card.label} className="card p-4">
+            <p className="text-xs uppercase tracking-wide text-slate-400">{card.label}</p>
+            <p className="mt-2 text-2xl font-semibold">{card.value}</p>
+            {card.change !== undefined ? (
+              <DeltaLine change={card.change} lowerIsBetter={card.lowerIsBetter} unit={card.unit} />
+            ) : null}
           </div>
         ))}
       </section>
 
       <section className="grid gap-5 lg:grid-cols-2">
         <article className="card p-5">
-          <h2 className="text-lg font-semibold">Sentiment breakdown</h2>
-          <div className="mt-4 space-y-2 text-sm">
-            {(['POS', 'NEU', 'NEG'] as const).map((key) => (
-              <div key={key} className="rounded-lg border border-slate-800 bg-slate-950/50 p-3">
-                <p className="font-medium">{key}</p>
-                <p className="text-slate-400">
-                  {analytics.sentiment.counts[key]} reviews ({analytics.sentiment.percentages[key]}%)
-                </p>
-              </div>
-            ))}
-          </div>
+          <h2 className="text-lg font-semibold">Volume and rating</h2>
+          <p className="text-xs text-slate-400">Bars: reviews per {range.granularity}. Line: average rating.</p>
+          <VolumeRatingChart points={analytics.trend} granularity={range.granularity} />
         </article>
         <article className="card p-5">
-          <h2 className="text-lg font-semibold">Top tags</h2>
-          <div className="mt-4 flex flex-wrap gap-2">
-            {analytics.topTags.length ? (
-              analytics.topTags.map((tag) => (
-                <span key={tag.name} className="badge border-slate-700 bg-slate-950 px-2 py-1 text-sm">
-                  {tag.name} ({tag.count})
-                </span>
-              ))
+          <h2 className="text-lg font-semibold">Sentiment over time</h2>
+          <p className="text-xs text-slate-400">
+            Positive {analytics.sentiment.percentages.POS}%, neutral {analytics.sentiment.percentages.NEU}%, negative{' '}
+            {analytics.sentiment.percentages.NEG}% in this period.
+          </p>
+          <SentimentTrendChart points={analytics.trend} granularity={range.granularity} />
+        </article>
+      </section>
+
+      <section className="grid gap-4 md:grid-cols-3">
+        {responseTimes.map((item) => (
+          <div key={item.label} className="card p-4">
+            <p className="text-xs uppercase tracking-wide text-slate-400">{item.label} (median)</p>
+            <p className="mt-2 text-2xl font-semibold">{formatHours(item.medianHours)}</p>
+            <DeltaLine change={hoursChange(item.medianHours, item.previousMedianHours)} lowerIsBetter unit=" h" />
+          </div>
+        ))}
+      </section>
+
+      <section className="grid gap-5 lg:grid-cols-2">
+        {[
+          { title: 'By location', rows: analytics.locations },
+          { title: 'By source', rows: analytics.sources }
+        ].map((table) => (
+          <article key={table.title} className="card p-5">
+            <h2 className="text-lg font-semibold">{table.title}</h2>
+            {table.rows.length ? (
+              <table className="mt-3 w-full text-left text-sm">
+                <thead className="text-xs text-slate-400">
+                  <tr>
+                    <th className="py-1 pr-2">Name</th>
+                    <th className="py-1 pr-2">Reviews</th>
+                    <th className="py-1 pr-2">Avg rating</th>
+                    <th className="py-1 pr-2">Negative</th>
+                    <th className="py-1">Time to send</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.rows.map((row) => (
+                    <tr key={row.key} className="border-t border-slate-800">
+                      <td className="py-1 pr-2">{row.name}</td>
+                      <td className="py-1 pr-2">{row.total}</td>
+                      <td className="py-1 pr-2">{row.avgRating ?? '-'}</td>
+                      <td className="py-1 pr-2">{row.negativePercent}%</td>
+                      <td className="py-1">{formatHours(row.medianSendHours)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
             ) : (
-              <p className="text-sm text-slate-400">No tags yet.</p>
+              <p className="mt-3 text-sm text-slate-400">No reviews in this period.</p>
             )}
-          </div>
+          </article>
+        ))}
+      </section>
+
+      <section className="grid gap-5 lg:grid-cols-2">
+        <article className="card p-5">
+          <h2 className="text-lg font-semibold">Aspects</h2>
+          <p className="text-xs text-slate-400">How reviews in this period talk about each aspect, from tag suggestions.</p>
+          {analytics.aspects.length ? (
+            <table className="mt-3 w-full text-left text-sm">
+              <thead className="text-xs text-slate-400">
+                <tr>
+                  <th className="py-1 pr-2">Aspect</th>
+                  <th className="py-1 pr-2">Mentions</th>
+                  <th className="py-1 pr-2">Positive</th>
+                  <th className="py-1 pr-2">Neutral</th>
+                  <th className="py-1">Negative</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analytics.aspects.map((row) => (
+                  <tr key={row.aspect} className="border-t border-slate-800">
+                    <td className="py-1 pr-2">{row.aspect}</td>
+                    <td className="py-1 pr-2">{row.total}</td>
+                    <td className="py-1 pr-2 text-emerald-300">{row.sentiment.POS}</td>
+                    <td className="py-1 pr-2">{row.sentiment.NEU}</td>
+                    <td className="py-1 text-rose-300">
+                      {row.sentiment.NEG} ({row.negativePercent}%)
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="mt-3 text-sm text-slate-400">No aspects found in this period.</p>
+          )}
         </article>
+        {isClient ? null : (
+          <ReviewThemesPanel
+            workspaceId={params.workspaceId}
+            themes={themes}
+            windowDays={THEME_WINDOW_DAYS}
+            canRefresh={hasPermission(membership, 'tags.manage')}
+          />
+        )}
+      </section>
+
+      <section className="card p-5">
+        <h2 className="text-lg font-semibold">Top tags</h2>
+        <div className="mt-4 flex flex-wrap gap-2">
+          {analytics.topTags.length ? (
+            analytics.topTags.map((tag) => (
+              <span key={tag.name} className="badge border-slate-700 bg-slate-950 px-2 py-1 text-sm">
+                {tag.name} ({tag.count})
+              </span>
+            ))
+          ) : (
+            <p className="text-sm text-slate-400">No tags yet.</p>
+          )}
+        </div>
       </section>
     </main>
   );
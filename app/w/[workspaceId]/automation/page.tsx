@@ -0,0 +1,55 @@
+import { prisma } from '@/lib/prisma';
+import { requireUser } from '@/lib/session';
+import { assertPermission } from '@/lib/tenant';
+import { hasPermission } from '@/lib/permissions';
+import { PLAN_LIMITS, planDisplayName } from '@/lib/plans';
+import { serializeRule } from '@/lib/automation-rules';
+import { listReplyTemplates } from '@/lib/reply-templates';
+import { AutomationRulesManager } from '@/components/dashboard/automation-rules-manager';
+
+export default async function AutomationPage({ params }: { params: { workspaceId: string } }) {
+  const { user } = await requireUser();
+  const membership = await assertPermission(user.id, params.workspaceId, 'settings.read');
+  const [rules, locations, members, templates] = await Promise.all([
+    prisma.automationRule.findMany({
+      where: { workspaceId: params.workspaceId },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }]
+    }),
+    prisma.location.findMany({ where: { workspaceId: params.workspaceId }, orderBy: { name: 'asc' } }),
+    prisma.workspaceMembership.findMany({
+      where: { workspaceId: params.workspaceId },
+      include: { user: { select: { id: true, name: true, email: true } } },
+      orderBy: { joinedAt: 'asc' }
+    }),
+    listReplyTemplates(params.workspaceId, membership.workspace.plan)
+  ]);
+
+  const enabled = PLAN_LIMITS[membership.workspace.plan].hasAutomationRules;
+
+  return (
+    <main className="space-y-4">
+      <section className="card p-5">
+        <h1 className="text-2xl font-semibold">Automation</h1>
+        <p className="mt-1 text-sm text-slate-400">
+          Rules run on every imported review, in order. Matching rules can queue an AI draft, apply a template, tag, assign
+          or archive the review; each run is written to the review audit trail.
+        </p>
+        {!enabled ? (
+          <p className="mt-3 rounded-lg border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-sm text-amber-200">
+            Your {planDisplayName(membership.workspace.plan)} plan does not include automation rules. Upgrade to Agency.
+          </p>
+        ) : null}
+      </section>
+      {enabled ? (
+        <AutomationRulesManager
+          workspaceId={params.workspaceId}
+          rules={rules.map(serializeRule)}
+          locations={locations.map((location) => ({ id: location.id, name: location.name }))}
+          members={members.map((item) => ({ id: item.user.id, label: item.user.name || item.user.email }))}
+          templates={templates.map((template) => ({ id: template.id, name: template.name }))}
+          canEdit={hasPermission(membership, 'automation.manage')}
+        />
+      ) : null}
+    </main>
+  );
+}
@@ -1,13 +1,12 @@
-import { Role } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { requireUser } from '@/lib/session';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
 import { downgradeExpiredSubscriptions } from '@/lib/billing';
 import { BillingPanel } from '@/components/dashboard/billing-panel';
 
 export default async function BillingPage({ params }: { params: { workspaceId: string } }) {
   const { user } = await requireUser();
-  await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+  await assertPermission(user.id, params.workspaceId, 'billing.read');
   await downgradeExpiredSubscriptions();
 
   const workspace = await prisma.workspace.findUniqueOrThrow({
@@ -1,17 +1,20 @@
-import { Role } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { requireUser } from '@/lib/session';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
+import { hasPermission } from '@/lib/permissions';
 import { PLAN_LIMITS, planDisplayName } from '@/lib/plans';
 import { BrandVoiceForm } from '@/components/dashboard/brand-voice-form';
+import { ReplyTemplateManager } from '@/components/dashboard/reply-template-manager';
+import { canUseCustomTemplates, listReplyTemplates } from '@/lib/reply-templates';
 
 export default async function BrandVoicePage({ params }: { params: { workspaceId: string } }) {
   const { user } = await requireUser();
-  const membership = await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
-  const [workspaceVoice, locationVoices, locations] = await Promise.all([
+  const membership = await assertPermission(user.id, params.workspaceId, 'settings.read');
+  const [workspaceVoice, locationVoices, locations, templates] = await Promise.all([
     prisma.brandVoice.findUnique({ where: { workspaceId: params.workspaceId } }),
     prisma.brandVoice.findMany({ where: { location: { workspaceId: params.workspaceId } } }),
-    prisma.location.findMany({ where: { workspaceId: params.workspaceId }, orderBy: { name: 'asc' } })
+    prisma.location.findMany({ where: { workspaceId: params.workspaceId }, orderBy: { name: 'asc' } }),
+    listReplyTemplates(params.workspaceId, membership.workspace.plan)
   ]);
 
   const canUseBrandVoice = PLAN_LIMITS[membership.workspace.plan].hasBrandVoice;
@@ -38,6 +41,13 @@ export default async function BrandVoicePage({ params }: { params: { workspaceId
           locations={locations}
         />
       ) : null}
+      <ReplyTemplateManager
+        workspaceId={params.workspaceId}
+        templates={templates}
+        locations={locations}
+        customAllowed={canUseCustomTemplates(membership.workspace.plan)}
+        canEdit={hasPermission(membership, 'templates.manage')}
+      />
     </main>
   );
 }
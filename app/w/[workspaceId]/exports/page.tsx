@@ -1,13 +1,12 @@
-import { Role } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { requireUser } from '@/lib/session';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
 import { PLAN_LIMITS } from '@/lib/plans';
 import { ExportPanel } from '@/components/dashboard/export-panel';
 
 export default async function ExportsPage({ params }: { params: { workspaceId: string } }) {
   const { user } = await requireUser();
-  const membership = await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+  const membership = await assertPermission(user.id, params.workspaceId, 'reviews.export');
   const reviews = await prisma.review.findMany({
     where: { workspaceId: params.workspaceId },
     select: {
@@ -1,9 +1,28 @@
 import Link from 'next/link';
+import { redirect } from 'next/navigation';
 import { Role, ReviewSource, ReviewStatus, Sentiment } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { requireUser } from '@/lib/session';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission, reviewScopeWhere } from '@/lib/tenant';
+import { PLAN_LIMITS } from '@/lib/plans';
+import { hasPermission } from '@/lib/permissions';
+import { OPEN_REVIEW_STATUSES } from '@/lib/review-assignment';
+import {
+  compactFilters,
+  inboxSearchScope,
+  inboxViewHref,
+  inboxWhere,
+  loadVisibleView,
+  parseInboxFilters,
+  serializeInboxView
+} from '@/lib/inbox-views';
+import { HttpError } from '@/lib/http';
+import { findSearchMatches, getSearchIndexStatus, loadSearchHighlights, SearchMatch } from '@/lib/review-search';
 import { StatusPill, SentimentPill } from '@/components/dashboard/pills';
+import { BulkGeneratePanel } from '@/components/dashboard/bulk-generate-panel';
+import { HighlightedText } from '@/components/dashboard/highlighted-text';
+import { SearchIndexPanel } from '@/components/dashboard/search-index-panel';
+import { InboxViewControls } from '@/components/dashboard/inbox-view-controls';
 
 type InboxPageProps = {
   params: { workspaceId: string };
@@ -15,35 +34,59 @@ type InboxPageProps = {
     tag?: string;
     dateFrom?: string;
     dateTo?: string;
+    assignee?: string;
+    overdue?: string;
+    mentions?: string;
+    q?: string;
+    searchMode?: string;
+    // id of the saved view the filters came from, or "all"
+    view?: string;
   };
 };
 
 export default async function InboxPage({ params, searchParams }: InboxPageProps) {
   const { user } = await requireUser();
-  await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+  const membership = await assertPermission(user.id, params.workspaceId, 'reviews.read');
+  // clients get a read-only list of their locations without team filters or bulk tools
+  const isClient = membership.role === Role.CLIENT;
+  const scope = reviewScopeWhere(membership);
 
-  const rating = searchParams.rating ? Number(searchParams.rating) : undefined;
-  const where = {
-    workspaceId: params.workspaceId,
-    ...(searchParams.status ? { status: searchParams.status } : {}),
-    ...(searchParams.source ? { source: searchParams.source } : {}),
-    ...(searchParams.sentiment ? { sentiment: searchParams.sentiment } : {}),
-    ...(searchParams.tag ? { tags: { has: searchParams.tag } } : {}),
-    ...(Number.isFinite(rating) ? { rating } : {}),
-    ...((searchParams.dateFrom || searchParams.dateTo)
-      ? {
-          reviewDate: {
-            ...(searchParams.dateFrom ? { gte: new Date(searchParams.dateFrom) } : {}),
-            ...(searchParams.dateTo ? { lte: new Date(searchParams.dateTo) } : {})
-          }
-        }
-      : {})
-  };
+  const filters = parseInboxFilters(searchParams);
+  const activeFilters = compactFilters(filters);
+  const now = new Date();
+
+  // a bare inbox link opens the member's default view; "All reviews" links pass view=all
+  let activeView = null;
+  if (searchParams.view && searchParams.view !== 'all') {
+    activeView = await loadVisibleView(membership, searchParams.view).catch(() => null);
+  } else if (!searchParams.view && !Object.keys(activeFilters).length && membership.defaultInboxViewId) {
+    const defaultView = await loadVisibleView(membership, membership.defaultInboxViewId).catch(() => null);
+    if (defaultView) redirect(inboxViewHref(params.workspaceId, defaultView));
+  }
+
+  const where = inboxWhere(membership, filters);
+  const { q, searchMode } = filters;
+  let matches: SearchMatch[] | null = null;
+  let matchTotal = 0;
+  let searchError: string | null = null;
+  if (q) {
+    try {
+      const result = await findSearchMatches(params.workspaceId, inboxSearchScope(membership, filters), q, searchMode);
+      matches = result.matches.slice(0, 200);
+      matchTotal = result.total;
+    } catch (error) {
+      // a missing embedding model or index is shown next to the search box instead of failing the page
+      if (!(error instanceof HttpError)) throw error;
+      searchError = error.message;
+      matches = [];
+    }
+  }
+  const matchIds = matches?.map((match) => match.id) ?? [];
 
-  const [reviews, workspace, allTags] = await Promise.all([
+  const [listed, workspace, allTags, members, highlights, indexStatus] = await Promise.all([
     prisma.review.findMany({
-      where,
-      include: { location: true },
+      where: matches ? { id: { in: matchIds } } : where,
+      include: { location: true, assignee: { select: { id: true, name: true, email: true } } },
       orderBy: { reviewDate: 'desc' },
       take: 200
     }),
@@ -51,9 +94,20 @@ export default async function InboxPage({ params, searchParams }: InboxPageProps
       where: { id: params.workspaceId },
       select: { name: true, plan: true, aiGenerationsUsed: true }
     }),
-    prisma.review.findMany({ where: { workspaceId: params.workspaceId }, select: { tags: true }, take: 500 })
+    prisma.review.findMany({ where: { workspaceId: params.workspaceId, ...scope }, select: { tags: true }, take: 500 }),
+    prisma.workspaceMembership.findMany({
+      where: { workspaceId: params.workspaceId, role: { not: Role.CLIENT } },
+      include: { user: { select: { id: true, name: true, email: true } } },
+      orderBy: { joinedAt: 'asc' }
+    }),
+    q ? loadSearchHighlights(matchIds, q) : null,
+    searchMode === 'semantic' && !isClient ? getSearchIndexStatus(params.workspaceId) : null
   ]);
 
+  // search results keep their relevance order
+  const listedById = new Map(listed.map((review) => [review.id, review]));
+  const reviews = matches ? matchIds.flatMap((id) => listedById.get(id) ?? []) : listed;
+
   const tags = Array.from(new Set(allTags.flatMap((item) => item.tags))).slice(0, 40);
 
   return (
@@ -63,13 +117,26 @@ export default async function InboxPage({ params, searchParams }: InboxPageProps
           <div>
             <h1 className="text-2xl font-semibold">Inbox</h1>
             <p className="text-sm text-slate-400">
-              {workspace.name} - {reviews.length} filtered reviews
+              {workspace.name} - {q ? `${matchTotal} match(es) for "${q}"${matchTotal > reviews.length ? `, showing the best ${reviews.length}` : ''}` : `${reviews.length} filtered reviews`}
             </p>
           </div>
-          <div className="flex gap-2">
-            <Link href={`/w/${params.workspaceId}/sources`} className="btn btn-secondary">
-              Import reviews
-            </Link>
+          <div className="flex flex-wrap gap-2">
+            {!isClient ? (
+              <>
+                <Link href={`/w/${params.workspaceId}/inbox?assignee=me`} className="btn btn-secondary">
+                  Assigned to me
+                </Link>
+                <Link href={`/w/${params.workspaceId}/inbox?overdue=true`} className="btn btn-secondary">
+                  Overdue
+                </Link>
+                <Link href={`/w/${params.workspaceId}/inbox?mentions=unread`} className="btn btn-secondary">
+                  Unread mentions
+                </Link>
+                <Link href={`/w/${params.workspaceId}/sources`} className="btn btn-secondary">
+                  Import reviews
+                </Link>
+              </>
+            ) : null}
             <Link href={`/w/${params.workspaceId}/analytics`} className="btn btn-primary">
               View analytics
             </Link>
@@ -80,6 +147,19 @@ export default async function InboxPage({ params, searchParams }: InboxPageProps
       <section className="card p-4">
         <h2 className="mb-3 text-sm font-medium text-slate-300">Filters</h2>
         <form className="grid gap-3 md:grid-cols-4">
+          {/* keeps the open view selected, and stops cleared filters from reopening the default view */}
+          <input type="hidden" name="view" value={activeView?.id ?? 'all'} />
+          <input
+            className="input md:col-span-3"
+            type="search"
+            name="q"
+            placeholder="Search review text, authors and replies"
+            defaultValue={q ?? ''}
+          />
+          <select name="searchMode" defaultValue={searchMode} className="input">
+            <option value="keyword">Keyword search</option>
+            <option value="semantic">Semantic search</option>
+          </select>
           <select name="status" defaultValue={searchParams.status ?? ''} className="input">
             <option value="">All statuses</option>
             {Object.values(ReviewStatus).map((status) => (
@@ -116,12 +196,60 @@ export default async function InboxPage({ params, searchParams }: InboxPageProps
           </select>
           <input className="input" type="date" name="dateFrom" defaultValue={searchParams.dateFrom ?? ''} />
           <input className="input" type="date" name="dateTo" defaultValue={searchParams.dateTo ?? ''} />
+          {!isClient ? (
+            <select name="assignee" defaultValue={searchParams.assignee ?? ''} className="input">
+              <option value="">Any assignee</option>
+              <option value="me">Assigned to me</option>
+              <option value="unassigned">Unassigned</option>
+              {members.map((member) => (
+                <option key={member.userId} value={member.userId}>
+                  {member.user.name || member.user.email}
+                </option>
+              ))}
+            </select>
+          ) : null}
+          <label className="inline-flex items-center gap-2 text-sm text-slate-300">
+            <input type="checkbox" name="overdue" value="true" defaultChecked={searchParams.overdue === 'true'} />
+            Overdue only
+          </label>
+          {!isClient ? (
+            <label className="inline-flex items-center gap-2 text-sm text-slate-300">
+              <input type="checkbox" name="mentions" value="unread" defaultChecked={searchParams.mentions === 'unread'} />
+              Unread mentions only
+            </label>
+          ) : null}
           <button className="btn btn-primary">Apply filters</button>
         </form>
+        {indexStatus ? (
+          <div className="mt-3">
+            <SearchIndexPanel
+              workspaceId={params.workspaceId}
+              status={indexStatus}
+              canBuild={hasPermission(membership, 'reviews.generate')}
+            />
+          </div>
+        ) : null}
+        {searchError ? <p className="mt-3 text-sm text-rose-300">{searchError}</p> : null}
       </section>
 
+      <InboxViewControls
+        workspaceId={params.workspaceId}
+        filters={activeFilters}
+        view={activeView ? serializeInboxView(membership, activeView) : null}
+        canShare={hasPermission(membership, 'views.share')}
+      />
+
+      {/* bulk actions select by filters only, so they are hidden while a search narrows the list */}
+      {hasPermission(membership, 'reviews.generate') && !q ? (
+        <BulkGeneratePanel
+          workspaceId={params.workspaceId}
+          filters={searchParams}
+          enabled={PLAN_LIMITS[workspace.plan].hasBulkTools}
+        />
+      ) : null}
+
       <section className="card overflow-hidden">
-        <table className="w-full min-w-[850px] text-left text-sm">
+        <table className="w-full min-w-[1050px] text-left text-sm">
           <thead className="border-b border-slate-800 bg-slate-900/80 text-xs uppercase tracking-wide text-slate-400">
             <tr>
               <th className="px-4 py-3">Review</th>
@@ -131,39 +259,67 @@ export default async function InboxPage({ params, searchParams }: InboxPageProps
               <th className="px-4 py-3">Status</th>
               <th className="px-4 py-3">Sentiment</th>
               <th className="px-4 py-3">Tags</th>
+              <th className="px-4 py-3">Assignee</th>
+              <th className="px-4 py-3">Due</th>
               <th className="px-4 py-3">Date</th>
             </tr>
           </thead>
           <tbody>
-            {reviews.map((review) => (
-              <tr key={review.id} className="border-b border-slate-900/80 align-top text-slate-200">
-                <td className="px-4 py-3">
-                  <Link href={`/w/${params.workspaceId}/reviews/${review.id}`} className="font-medium text-blue-300">
-                    {review.authorName || 'Anonymous'}
-                  </Link>
-                  <p className="mt-1 line-clamp-2 max-w-md text-xs text-slate-400">{review.text}</p>
-                </td>
-                <td className="px-4 py-3">{review.rating}/5</td>
-                <td className="px-4 py-3">{review.source}</td>
-                <td className="px-4 py-3">{review.location.name}</td>
-                <td className="px-4 py-3">
-                  <StatusPill value={review.status} />
-                </td>
-                <td className="px-4 py-3">
-                  <SentimentPill value={review.sentiment} />
-                </td>
-                <td className="px-4 py-3">
-                  <div className="flex max-w-[220px] flex-wrap gap-1">
-                    {review.tags.length ? review.tags.map((tag) => <span key={tag} className="badge">{tag}</span>) : <span>-</span>}
-                  </div>
-                </td>
-                <td className="px-4 py-3 text-xs text-slate-400">{review.reviewDate.toISOString().slice(0, 10)}</td>
-              </tr>
-            ))}
+            {reviews.map((review) => {
+              const highlight = highlights?.get(review.id);
+              return (
+                <tr key={review.id} className="border-b border-slate-900/80 align-top text-slate-200">
+                  <td className="px-4 py-3">
+                    <Link href={`/w/${params.workspaceId}/reviews/${review.id}`} className="font-medium text-blue-300">
+                      {highlight?.authorName ? <HighlightedText segments={highlight.authorName} /> : review.authorName || 'Anonymous'}
+                    </Link>
+                    <p className="mt-1 line-clamp-2 max-w-md text-xs text-slate-400">
+                      {highlight?.text ? <HighlightedText segments={highlight.text} /> : review.text}
+                    </p>
+                    {highlight?.reply ? (
+                      <p className="mt-1 line-clamp-2 max-w-md text-xs text-slate-500">
+                        Reply: <HighlightedText segments={highlight.reply} />
+                      </p>
+                    ) : null}
+                  </td>
+                  <td className="px-4 py-3">{review.rating}/5</td>
+                  <td className="px-4 py-3">{review.source}</td>
+                  <td className="px-4 py-3">{review.location.name}</td>
+                  <td className="px-4 py-3">
+                    <StatusPill value={review.status} />
+                  </td>
+                  <td className="px-4 py-3">
+                    <SentimentPill value={review.sentiment} />
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex max-w-[220px] flex-wrap gap-1">
+                      {review.tags.length ? review.tags.map((tag) => <span key={tag} className="badge">{tag}</span>) : <span>-</span>}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-xs">
+                    {review.assignee && !isClient ? (
+                      review.assignee.name || review.assignee.email
+                    ) : (
+                      <span className="text-slate-500">-</span>
+                    )}
+                  </td>
+                  <td
+                    className={`px-4 py-3 text-xs ${
+                      review.dueAt && review.dueAt < now && OPEN_REVIEW_STATUSES.includes(review.status)
+                        ? 'text-rose-300'
+                        : 'text-slate-400'
+                    }`}
+                  >
+                    {review.dueAt ? review.dueAt.toISOString().slice(0, 16).replace('T', ' ') : '-'}
+                  </td>
+                  <td className="px-4 py-3 text-xs text-slate-400">{review.reviewDate.toISOString().slice(0, 10)}</td>
+                </tr>
+              );
+            })}
             {!reviews.length ? (
               <tr>
-                <td colSpan={8} className="px-4 py-10 text-center text-sm text-slate-400">
-                  No reviews found for current filters.
+                <td colSpan={10} className="px-4 py-10 text-center text-sm text-slate-400">
+                  {q ? 'No reviews match this search.' : 'No reviews found for current filters.'}
                 </td>
               </tr>
             ) : null}
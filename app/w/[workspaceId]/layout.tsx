@@ -4,8 +4,12 @@ import { Logo } from '@/components/logo';
 import { requireUser } from '@/lib/session';
 import { listUserWorkspaces } from '@/lib/workspaces';
 import { planDisplayName } from '@/lib/plans';
+import { countUnreadMentions } from '@/lib/review-comments';
+import { listInboxViews } from '@/lib/inbox-views';
+import { resolvePermissions } from '@/lib/permissions';
 import { WorkspaceSwitcher } from '@/components/dashboard/workspace-switcher';
 import { NavLinks } from '@/components/dashboard/nav-links';
+import { InboxViewLinks } from '@/components/dashboard/inbox-view-links';
 import { SignOutButton } from '@/components/dashboard/sign-out-button';
 
 type LayoutProps = {
@@ -20,18 +24,26 @@ export default async function WorkspaceLayout({ children, params }: LayoutProps)
   if (!membership) {
     redirect('/app');
   }
+  const permissions = resolvePermissions(membership);
+  const canComment = permissions.includes('comments.write');
+  const [unreadMentions, inboxViews] = await Promise.all([
+    canComment ? countUnreadMentions(params.workspaceId, user.id) : 0,
+    permissions.includes('reviews.read') ? listInboxViews(membership) : []
+  ]);
 
   const navItems = [
-    { href: `/w/${params.workspaceId}/inbox`, label: 'Inbox' },
-    { href: `/w/${params.workspaceId}/medicamente`, label: 'Medicamente' },
-    { href: `/w/${params.workspaceId}/profil-psihosocial`, label: 'Profil psihosocial' },
-    { href: `/w/${params.workspaceId}/analytics`, label: 'Analytics' },
-    { href: `/w/${params.workspaceId}/brand-voice`, label: 'Brand Voice' },
-    { href: `/w/${params.workspaceId}/locations`, label: 'Locations' },
-    { href: `/w/${params.workspaceId}/team`, label: 'Team' },
-    { href: `/w/${params.workspaceId}/billing`, label: 'Billing' },
-    { href: `/w/${params.workspaceId}/exports`, label: 'Exports' },
-    { href: `/w/${params.workspaceId}/sources`, label: 'Sources' }
+    { href: `/w/${params.workspaceId}/inbox`, label: 'Inbox', permission: 'reviews.read' },
+    { href: `/w/${params.workspaceId}/medicamente`, label: 'Medicamente', permission: 'medications.read' },
+    { href: `/w/${params.workspaceId}/profil-psihosocial`, label: 'Profil psihosocial', permission: 'psychosocial.read' },
+    { href: `/w/${params.workspaceId}/analytics`, label: 'Analytics', permission: 'analytics.read' },
+    { href: `/w/${params.workspaceId}/brand-voice`, label: 'Brand Voice', permission: 'settings.read' },
+    { href: `/w/${params.workspaceId}/locations`, label: 'Locations', permission: 'settings.read' },
+    { href: `/w/${params.workspaceId}/team`, label: 'Team', permission: 'team.read' },
+    { href: `/w/${params.workspaceId}/billing`, label: 'Billing', permission: 'billing.read' },
+    { href: `/w/${params.workspaceId}/exports`, label: 'Exports', permission: 'reviews.export' },
+    { href: `/w/${params.workspaceId}/sources`, label: 'Sources', permission: 'settings.read' },
+    { href: `/w/${params.workspaceId}/automation`, label: 'Automation', permission: 'settings.read' },
+    { href: `/w/${params.workspaceId}/settings`, label: 'Settings', permission: 'settings.read' }
   ];
 
   return (
@@ -45,11 +57,20 @@ export default async function WorkspaceLayout({ children, params }: LayoutProps)
             <div>
               <p className="text-sm font-medium">{membership.workspace.name}</p>
               <p className="text-xs text-slate-400">
-                {planDisplayName(membership.workspace.plan)} plan - {membership.role}
+                {planDisplayName(membership.workspace.plan)} plan - {membership.customRole?.name ?? membership.role}
               </p>
             </div>
           </div>
           <div className="flex items-center gap-2">
+            {canComment ? (
+              <Link
+                href={`/w/${params.workspaceId}/inbox?mentions=unread`}
+                className="btn btn-secondary"
+                title="Reviews where you were @mentioned"
+              >
+                Mentions <span className="badge ml-1">{unreadMentions}</span>
+              </Link>
+            ) : null}
             <WorkspaceSwitcher
               currentWorkspaceId={params.workspaceId}
               items={memberships.map((item) => ({
@@ -64,7 +85,8 @@ export default async function WorkspaceLayout({ children, params }: LayoutProps)
 
       <div className="mx-auto grid w-full max-w-7xl gap-5 px-4 py-5 md:grid-cols-[220px_1fr]">
         <aside className="card h-fit p-3">
-          <NavLinks items={navItems} />
+          <NavLinks items={navItems} permissions={permissions} />
+          {permissions.includes('reviews.read') ? <InboxViewLinks workspaceId={params.workspaceId} views={inboxViews} /> : null}
         </aside>
         <section>{children}</section>
       </div>
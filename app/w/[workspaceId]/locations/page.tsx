@@ -1,13 +1,13 @@
-import { Role } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { requireUser } from '@/lib/session';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
+import { hasPermission } from '@/lib/permissions';
 import { PLAN_LIMITS } from '@/lib/plans';
 import { LocationManager } from '@/components/dashboard/location-manager';
 
 export default async function LocationsPage({ params }: { params: { workspaceId: string } }) {
   const { user } = await requireUser();
-  const membership = await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+  const membership = await assertPermission(user.id, params.workspaceId, 'settings.read');
   const locations = await prisma.location.findMany({
     where: { workspaceId: params.workspaceId },
     include: { _count: { select: { reviews: true } } },
@@ -15,7 +15,7 @@ export default async function LocationsPage({ params }: { params: { workspaceId:
   });
 
   const limits = PLAN_LIMITS[membership.workspace.plan];
-  const canCreate = ['OWNER', 'ADMIN'].includes(membership.role) && locations.length < limits.maxLocations;
+  const canCreate = hasPermission(membership, 'locations.manage') && locations.length < limits.maxLocations;
 
   return (
     <main className="space-y-4">
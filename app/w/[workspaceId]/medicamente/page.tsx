@@ -1,7 +1,6 @@
-import { Role } from '@prisma/client';
 import { MedicationHub } from '@/components/dashboard/medication-hub';
 import { requireUser } from '@/lib/session';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
 import { prisma } from '@/lib/prisma';
 import {
   calculateMedicationAlerts,
@@ -12,7 +11,7 @@ import {
 
 export default async function MedicationsPage({ params }: { params: { workspaceId: string } }) {
   const { user } = await requireUser();
-  const membership = await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+  const membership = await assertPermission(user.id, params.workspaceId, 'medications.read');
 
   const [items, preference] = await prisma.$transaction([
     prisma.medicationItem.findMany({
@@ -59,7 +58,7 @@ export default async function MedicationsPage({ params }: { params: { workspaceI
           Categorii standard: cardio, diabet, gastro, respirator, neuro, psihiatric, antibiotice, durere, alergii, dermato, vitamine, altele.
         </p>
         <p className="mt-2 text-xs text-slate-500">
-          AI providers disponibili: OpenAI, Claude, Gemini. Configureaza cheile in env: OPENAI_API_KEY, ANTHROPIC_API_KEY, GEMINI_API_KEY.
+          AI providers disponibili: OpenAI, Claude, Gemini si Local (server propriu). Configureaza cheile in env: OPENAI_API_KEY, ANTHROPIC_API_KEY, GEMINI_API_KEY sau LOCAL_LLM_BASE_URL.
         </p>
       </section>
       <MedicationHub
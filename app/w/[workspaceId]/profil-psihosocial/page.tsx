@@ -1,12 +1,11 @@
-import { Role } from '@prisma/client';
 import { PsychosocialProfileManager } from '@/components/dashboard/psychosocial-profile-manager';
 import { prisma } from '@/lib/prisma';
 import { requireUser } from '@/lib/session';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
 
 export default async function PsychosocialPage({ params }: { params: { workspaceId: string } }) {
   const { user } = await requireUser();
-  await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+  await assertPermission(user.id, params.workspaceId, 'psychosocial.read');
 
   const profiles = await prisma.psychosocialProfile.findMany({
     where: { workspaceId: params.workspaceId },
@@ -25,7 +24,7 @@ export default async function PsychosocialPage({ params }: { params: { workspace
           Nu formuleaza diagnostice medicale. Datele medicale/poza se introduc doar cu acord explicit, iar exporturile sunt jurnalizate.
         </p>
         <p className="mt-1 text-xs text-slate-500">
-          Generator AI activ pe OpenAI / Claude / Gemini. Seteaza cheile API in fisierul de mediu al aplicatiei.
+          Generator AI activ pe OpenAI / Claude / Gemini / Local (server propriu, datele nu parasesc infrastructura). Seteaza cheile API in fisierul de mediu al aplicatiei.
         </p>
       </section>
       <PsychosocialProfileManager
@@ -2,9 +2,16 @@ import Link from 'next/link';
 import { Role } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { requireUser } from '@/lib/session';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission, assertReviewInScope } from '@/lib/tenant';
+import { resolvePermissions } from '@/lib/permissions';
 import { HttpError } from '@/lib/http';
+import { listReplyTemplates, templateMatchesReview } from '@/lib/reply-templates';
+import { listReviewComments, markReviewMentionsRead } from '@/lib/review-comments';
+import { getApprovalState } from '@/lib/approval-chains';
+import { serializeClientReview } from '@/lib/client-portal';
+import { getReplyConnector, resolveSourceConnection } from '@/lib/reply-publishing';
 import { ReviewDetailClient } from '@/components/dashboard/review-detail-client';
+import { ClientReviewPanel } from '@/components/dashboard/client-review-panel';
 
 type PageProps = {
   params: { workspaceId: string; reviewId: string };
@@ -12,13 +19,16 @@ type PageProps = {
 
 export default async function ReviewDetailPage({ params }: PageProps) {
   const { user } = await requireUser();
-  const membership = await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+  const membership = await assertPermission(user.id, params.workspaceId, 'reviews.read');
 
   const review = await prisma.review.findUnique({
     where: { id: params.reviewId },
     include: {
+      location: { select: { id: true, name: true } },
       draftedBy: { select: { id: true, name: true, email: true } },
       approvedBy: { select: { id: true, name: true, email: true } },
+      sentBy: { select: { id: true, name: true, email: true } },
+      aspects: { select: { aspect: true, sentiment: true, quote: true }, orderBy: { aspect: 'asc' } },
       generations: {
         orderBy: { createdAt: 'desc' },
         take: 20
@@ -33,6 +43,50 @@ export default async function ReviewDetailPage({ params }: PageProps) {
   if (!review || review.workspaceId !== params.workspaceId) {
     throw new HttpError(404, 'Review not found');
   }
+  assertReviewInScope(membership, review);
+
+  if (membership.role === Role.CLIENT) {
+    const approval = await getApprovalState(review, membership);
+    return (
+      <main className="space-y-4">
+        <Link href={`/w/${params.workspaceId}/inbox`} className="inline-flex text-sm text-blue-300">
+          {'<-'} Back to inbox
+        </Link>
+        <ClientReviewPanel workspaceId={params.workspaceId} review={serializeClientReview(review)} approval={approval} />
+      </main>
+    );
+  }
+
+  const templates = (await listReplyTemplates(params.workspaceId, membership.workspace.plan))
+    .filter((template) => !template.locationId || template.locationId === review.locationId)
+    .map((template) => ({ id: template.id, name: template.name, matches: templateMatchesReview(template, review) }))
+    .sort((a, b) => Number(b.matches) - Number(a.matches));
+
+  const memberships = await prisma.workspaceMembership.findMany({
+    // clients are not assignable and cannot be mentioned in internal comments
+    where: { workspaceId: params.workspaceId, role: { not: Role.CLIENT } },
+    include: { user: { select: { id: true, name: true, email: true } } },
+    orderBy: { joinedAt: 'asc' }
+  });
+  const members = memberships.map((item) => ({
+    id: item.user.id,
+    label: item.user.name || item.user.email,
+    email: item.user.email
+  }));
+
+  const tagOptions = await prisma.tag.findMany({
+    where: { workspaceId: params.workspaceId, archived: false },
+    select: { name: true, color: true, synonyms: true, description: true },
+    orderBy: { name: 'asc' }
+  });
+
+  const permissions = resolvePermissions(membership);
+  const canComment = permissions.includes('comments.write');
+  const comments = canComment ? await listReviewComments(review.id, { userId: user.id, permissions }) : [];
+  if (canComment) await markReviewMentionsRead(review.id, user.id);
+  const approval = await getApprovalState(review, membership);
+  const connection = await resolveSourceConnection(review.workspaceId, review.source);
+  const connector = getReplyConnector(connection);
 
   return (
     <main className="space-y-4">
@@ -41,15 +95,26 @@ export default async function ReviewDetailPage({ params }: PageProps) {
       </Link>
       <ReviewDetailClient
         workspaceId={params.workspaceId}
-        role={membership.role}
+        permissions={permissions}
+        currentUserId={user.id}
+        templates={templates}
+        tagOptions={tagOptions}
+        strictTags={membership.workspace.strictTags}
+        members={members}
+        comments={comments}
+        approval={approval}
+        publishTarget={{ publisher: connector.publisher, label: connector.label, sourceName: connection?.displayName ?? null }}
         review={{
           ...review,
           reviewDate: review.reviewDate.toISOString(),
           draftedAt: review.draftedAt?.toISOString() ?? null,
           approvedAt: review.approvedAt?.toISOString() ?? null,
+          sentAt: review.sentAt?.toISOString() ?? null,
+          dueAt: review.dueAt?.toISOString() ?? null,
           generations: review.generations.map((item) => ({
             ...item,
             createdAt: item.createdAt.toISOString(),
+            selectedAt: item.selectedAt?.toISOString() ?? null,
             estimatedCostUsd: item.estimatedCostUsd?.toString() ?? null
           })),
           auditLogs: review.auditLogs.map((item) => ({
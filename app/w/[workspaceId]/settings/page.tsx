@@ -0,0 +1,87 @@
+import { prisma } from '@/lib/prisma';
+import { requireUser } from '@/lib/session';
+import { assertPermission } from '@/lib/tenant';
+import { DEFAULT_ROLE_PERMISSIONS, PERMISSIONS, hasPermission } from '@/lib/permissions';
+import { serializeCustomRole } from '@/lib/custom-roles';
+import { listTags } from '@/lib/tag-taxonomy';
+import { isProviderConfigured, Provider, PROVIDERS } from '@/lib/ai';
+import { chainFromEnums } from '@/lib/ai-routing';
+import { PLAN_LIMITS } from '@/lib/plans';
+import { serializeChain } from '@/lib/approval-chains';
+import { AIRoutingForm } from '@/components/dashboard/ai-routing-form';
+import { ComplianceModeForm } from '@/components/dashboard/compliance-mode-form';
+import { AssignmentSettingsForm } from '@/components/dashboard/assignment-settings-form';
+import { ApprovalChainManager } from '@/components/dashboard/approval-chain-manager';
+import { CustomRoleManager } from '@/components/dashboard/custom-role-manager';
+import { TagTaxonomyManager } from '@/components/dashboard/tag-taxonomy-manager';
+
+export default async function SettingsPage({ params }: { params: { workspaceId: string } }) {
+  const { user } = await requireUser();
+  const membership = await assertPermission(user.id, params.workspaceId, 'settings.read');
+  const canEdit = hasPermission(membership, 'settings.manage');
+  const toItem = (provider: Provider) => ({ provider, configured: isProviderConfigured(provider) });
+
+  const [chains, locations, memberships, customRoles, tags] = await Promise.all([
+    prisma.approvalChain.findMany({ where: { workspaceId: params.workspaceId }, orderBy: { createdAt: 'asc' } }),
+    prisma.location.findMany({
+      where: { workspaceId: params.workspaceId },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' }
+    }),
+    prisma.workspaceMembership.findMany({
+      where: { workspaceId: params.workspaceId },
+      include: { user: { select: { id: true, name: true, email: true } } },
+      orderBy: { joinedAt: 'asc' }
+    }),
+    prisma.workspaceRole.findMany({
+      where: { workspaceId: params.workspaceId },
+      include: { _count: { select: { memberships: true } } },
+      orderBy: { name: 'asc' }
+    }),
+    listTags(params.workspaceId)
+  ]);
+
+  return (
+    <main className="space-y-4">
+      <section className="card p-5">
+        <h1 className="text-2xl font-semibold">Settings</h1>
+        <p className="mt-1 text-sm text-slate-400">Workspace-wide configuration for AI routing, reply compliance, review assignment, approvals, roles and the tag taxonomy.</p>
+      </section>
+      <AIRoutingForm
+        workspaceId={params.workspaceId}
+        chain={chainFromEnums(membership.workspace.aiProviderChain).map(toItem)}
+        available={PROVIDERS.map(toItem)}
+        canEdit={canEdit}
+      />
+      <ComplianceModeForm workspaceId={params.workspaceId} mode={membership.workspace.complianceMode} canEdit={canEdit} />
+      <AssignmentSettingsForm
+        workspaceId={params.workspaceId}
+        strategy={membership.workspace.assignmentStrategy}
+        responseSlaHours={membership.workspace.responseSlaHours}
+        canEdit={canEdit}
+      />
+      <ApprovalChainManager
+        workspaceId={params.workspaceId}
+        chains={chains.map(serializeChain)}
+        locations={locations}
+        members={memberships.map((item) => ({ id: item.user.id, name: item.user.name || item.user.email }))}
+        allowed={PLAN_LIMITS[membership.workspace.plan].hasApprovalWorkflow}
+        canEdit={canEdit}
+      />
+      <CustomRoleManager
+        workspaceId={params.workspaceId}
+        roles={customRoles.map(serializeCustomRole)}
+        catalogue={PERMISSIONS}
+        defaults={DEFAULT_ROLE_PERMISSIONS}
+        allowed={PLAN_LIMITS[membership.workspace.plan].hasCustomRoles}
+        canEdit={hasPermission(membership, 'roles.manage')}
+      />
+      <TagTaxonomyManager
+        workspaceId={params.workspaceId}
+        tags={tags}
+        strict={membership.workspace.strictTags}
+        canEdit={hasPermission(membership, 'tags.manage')}
+      />
+    </main>
+  );
+}
@@ -1,15 +1,27 @@
-import { Role } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { requireUser } from '@/lib/session';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
+import { hasPermission } from '@/lib/permissions';
+import { serializeSourceConnection } from '@/lib/source-connections';
+import { serializeImportBatch } from '@/lib/csv-import';
 import { SourceImportPanel } from '@/components/dashboard/source-import-panel';
+import { SourceConnectionManager } from '@/components/dashboard/source-connection-manager';
 
 export default async function SourcesPage({ params }: { params: { workspaceId: string } }) {
   const { user } = await requireUser();
-  await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
-  const [locations, sources] = await Promise.all([
+  const membership = await assertPermission(user.id, params.workspaceId, 'settings.read');
+  const canImport = hasPermission(membership, 'reviews.write');
+  const [locations, sources, batches] = await Promise.all([
     prisma.location.findMany({ where: { workspaceId: params.workspaceId }, orderBy: { name: 'asc' } }),
-    prisma.sourceConnection.findMany({ where: { workspaceId: params.workspaceId }, orderBy: { provider: 'asc' } })
+    prisma.sourceConnection.findMany({ where: { workspaceId: params.workspaceId }, orderBy: { provider: 'asc' } }),
+    canImport
+      ? prisma.reviewImportBatch.findMany({
+          where: { workspaceId: params.workspaceId },
+          include: { createdBy: { select: { name: true, email: true } } },
+          orderBy: { createdAt: 'desc' },
+          take: 20
+        })
+      : []
   ]);
 
   return (
@@ -17,10 +29,21 @@ export default async function SourcesPage({ params }: { params: { workspaceId: s
       <section className="card p-5">
         <h1 className="text-2xl font-semibold">Sources & Imports</h1>
         <p className="mt-1 text-sm text-slate-400">
-          Start with manual entry or CSV import. Connector architecture is ready for future API-based source sync.
+          Import reviews by hand or CSV, or let a source sync them from a feed. Approved replies are published through
+          the connector of their source.
         </p>
       </section>
-      <SourceImportPanel workspaceId={params.workspaceId} locations={locations} sources={sources} />
+      <SourceConnectionManager
+        workspaceId={params.workspaceId}
+        sources={sources.map(serializeSourceConnection)}
+        locations={locations.map((location) => ({ id: location.id, name: location.name }))}
+        canEdit={hasPermission(membership, 'sources.manage')}
+      />
+      <SourceImportPanel
+        workspaceId={params.workspaceId}
+        locations={locations}
+        batches={batches.map(serializeImportBatch)}
+      />
     </main>
   );
 }
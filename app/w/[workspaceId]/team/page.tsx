@@ -1,21 +1,31 @@
-import { Role } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { requireUser } from '@/lib/session';
-import { assertWorkspaceAccess } from '@/lib/tenant';
+import { assertPermission } from '@/lib/tenant';
+import { hasPermission } from '@/lib/permissions';
 import { PLAN_LIMITS, planDisplayName } from '@/lib/plans';
 import { TeamManager } from '@/components/dashboard/team-manager';
 
 export default async function TeamPage({ params }: { params: { workspaceId: string } }) {
   const { user } = await requireUser();
-  const membership = await assertWorkspaceAccess(user.id, params.workspaceId, [Role.OWNER, Role.ADMIN, Role.MEMBER]);
+  const membership = await assertPermission(user.id, params.workspaceId, 'team.read');
   const members = await prisma.workspaceMembership.findMany({
     where: { workspaceId: params.workspaceId },
     include: { user: { select: { id: true, name: true, email: true, createdAt: true } } },
     orderBy: [{ role: 'asc' }, { joinedAt: 'asc' }]
   });
+  const locations = await prisma.location.findMany({
+    where: { workspaceId: params.workspaceId },
+    select: { id: true, name: true },
+    orderBy: { name: 'asc' }
+  });
+  const customRoles = await prisma.workspaceRole.findMany({
+    where: { workspaceId: params.workspaceId },
+    select: { id: true, name: true },
+    orderBy: { name: 'asc' }
+  });
 
   const limits = PLAN_LIMITS[membership.workspace.plan];
-  const canManage = ['OWNER', 'ADMIN'].includes(membership.role);
+  const canManage = hasPermission(membership, 'team.manage');
 
   return (
     <main className="space-y-4">
@@ -27,12 +37,20 @@ export default async function TeamPage({ params }: { params: { workspaceId: stri
         </p>
         {membership.workspace.plan !== 'AGENCY' ? (
           <p className="mt-3 rounded-lg border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-sm text-amber-200">
-            Role customization is fully enabled on Agency plan. Non-Agency invites default to MEMBER.
+            Role customization is fully enabled on Agency plan. Non-Agency invites default to MEMBER and client
+            approvers are not available.
           </p>
         ) : null}
       </section>
 
-      <TeamManager workspaceId={params.workspaceId} members={members} canManageRoles={canManage} canInvite={canManage} />
+      <TeamManager
+        workspaceId={params.workspaceId}
+        members={members}
+        locations={locations}
+        customRoles={customRoles}
+        canManageRoles={canManage}
+        canInvite={canManage}
+      />
     </main>
   );
 }
@@ -0,0 +1,134 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+
+type ProviderKey = 'openai' | 'claude' | 'gemini' | 'local' | 'mock';
+
+type ChainItem = {
+  provider: ProviderKey;
+  configured: boolean;
+};
+
+type Props = {
+  workspaceId: string;
+  chain: ChainItem[];
+  available: ChainItem[];
+  canEdit: boolean;
+};
+
+const PROVIDER_LABELS: Record<ProviderKey, string> = {
+  openai: 'OpenAI',
+  claude: 'Claude',
+  gemini: 'Gemini',
+  local: 'Local (self-hosted)',
+  mock: 'Mock (offline)'
+};
+
+export function AIRoutingForm({ workspaceId, chain, available, canEdit }: Props) {
+  const [items, setItems] = useState(chain);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  const unused = available.filter((option) => !items.some((item) => item.provider === option.provider));
+
+  function move(index: number, offset: number) {
+    setItems((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }
+
+  function save() {
+    setMessage(null);
+    setError(null);
+    startTransition(async () => {
+      const response = await fetch(`/api/workspaces/${workspaceId}/ai-routing`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chain: items.map((item) => item.provider) })
+      });
+      const json = await response.json();
+      if (!response.ok) {
+        setError(json.error || 'Unable to save provider chain');
+        return;
+      }
+      setItems(json.chain);
+      setMessage('Provider chain saved.');
+    });
+  }
+
+  return (
+    <section className="card space-y-3 p-4">
+      <div>
+        <h2 className="text-lg font-semibold">AI provider failover</h2>
+        <p className="mt-1 text-sm text-slate-400">
+          The provider picked for a request is tried first; if it errors or times out, the next providers in this chain are
+          used in order.
+        </p>
+      </div>
+      <ol className="space-y-2">
+        {items.map((item, index) => (
+          <li key={item.provider} className="flex items-center justify-between gap-3 rounded-lg border border-slate-800 px-3 py-2">
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-slate-400">{index + 1}.</span>
+              <span>{PROVIDER_LABELS[item.provider]}</span>
+              <span className={`badge ${item.configured ? 'text-emerald-300' : 'text-amber-200'}`}>
+                {item.configured ? 'API key set' : 'API key missing'}
+              </span>
+            </div>
+            {canEdit ? (
+              <div className="flex gap-2">
+                <button className="btn btn-secondary" type="button" disabled={index === 0} onClick={() => move(index, -1)}>
+                  Up
+                </button>
+                <button
+                  className="btn btn-secondary"
+                  type="button"
+                  disabled={index === items.length - 1}
+                  onClick={() => move(index, 1)}
+                >
+                  Down
+                </button>
+                <button
+                  className="btn btn-secondary"
+                  type="button"
+                  disabled={items.length === 1}
+                  onClick={() => setItems((prev) => prev.filter((entry) => entry.provider !== item.provider))}
+                >
+                  Remove
+                </button>
+              </div>
+            ) : null}
+          </li>
+        ))}
+      </ol>
+      {canEdit && unused.length ? (
+        <div className="flex flex-wrap gap-2">
+          {unused.map((option) => (
+            <button
+              key={option.provider}
+              className="btn btn-secondary"
+              type="button"
+              onClick={() => setItems((prev) => [...prev, option])}
+            >
+              Add {PROVIDER_LABELS[option.provider]}
+            </button>
+          ))}
+        </div>
+      ) : null}
+      {canEdit ? (
+        <button className="btn btn-primary" type="button" disabled={pending} onClick={save}>
+          {pending ? 'Saving...' : 'Save chain'}
+        </button>
+      ) : (
+        <p className="text-xs text-slate-400">Only owners and admins can change the provider chain.</p>
+      )}
+      {message ? <p className="text-sm text-emerald-300">{message}</p> : null}
+      {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+    </section>
+  );
+}
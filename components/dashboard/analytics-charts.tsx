@@ -0,0 +1,136 @@
+type TrendPoint = {
+  bucket: string;
+  total: number;
+  avgRating: number | null;
+  sentiment: { POS: number; NEU: number; NEG: number };
+};
+
+type Granularity = 'day' | 'week' | 'month';
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PADDING = 24;
+
+function formatBucket(bucket: string, granularity: Granularity) {
+  const date = new Date(bucket);
+  if (granularity === 'month') {
+    return date.toLocaleDateString('en', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+  }
+  return date.toLocaleDateString('en', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+function slotWidth(points: TrendPoint[]) {
+  return (WIDTH - PADDING * 2) / Math.max(points.length, 1);
+}
+
+function AxisLabels({ points, granularity }: { points: TrendPoint[]; granularity: Granularity }) {
+  const slot = slotWidth(points);
+  // first, middle and last bucket keep the axis readable for long ranges
+  const shown = Array.from(new Set([0, Math.floor((points.length - 1) / 2), points.length - 1])).filter(
+    (index) => index >= 0 && index < points.length
+  );
+  return (
+    <>
+      {shown.map((index) => (
+        <text
+          key={index}
+          x={PADDING + slot * index + slot / 2}
+          y={HEIGHT - 4}
+          textAnchor="middle"
+          className="fill-slate-400 text-[10px]"
+        >
+          {formatBucket(points[index].bucket, granularity)}
+        </text>
+      ))}
+    </>
+  );
+}
+
+/** Review volume as bars with the average rating (1-5) as a line on top. */
+export function VolumeRatingChart({ points, granularity }: { points: TrendPoint[]; granularity: Granularity }) {
+  const slot = slotWidth(points);
+  const plotHeight = HEIGHT - PADDING * 2;
+  const maxTotal = Math.max(1, ...points.map((point) => point.total));
+  const ratingY = (rating: number) => PADDING + plotHeight - ((rating - 1) / 4) * plotHeight;
+  const line = points
+    .map((point, index) => (point.avgRating === null ? null : `${PADDING + slot * index + slot / 2},${ratingY(point.avgRating)}`))
+    .filter(Boolean)
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-48 w-full" role="img" aria-label="Review volume and average rating">
+      {[1, 3, 5].map((rating) => (
+        <g key={rating}>
+          <line x1={PADDING} x2={WIDTH - PADDING} y1={ratingY(rating)} y2={ratingY(rating)} className="stroke-slate-800" />
+          <text x={WIDTH - PADDING + 4} y={ratingY(rating) + 3} className="fill-slate-500 text-[10px]">
+            {rating}
+          </text>
+        </g>
+      ))}
+      {points.map((point, index) => {
+        const height = (point.total / maxTotal) * plotHeight;
+        return (
+          <rect
+            key={point.bucket}
+            x={PADDING + slot * index + slot * 0.15}
+            y={PADDING + plotHeight - height}
+            width={slot * 0.7}
+            height={height}
+            className="fill-blue-500/50"
+          >
+            <title>
+              {formatBucket(point.bucket, granularity)}: {point.total} review(s)
+              {point.avgRating === null ? '' : `, avg ${point.avgRating}`}
+            </title>
+          </rect>
+        );
+      })}
+      {line ? <polyline points={line} fill="none" strokeWidth={2} className="stroke-amber-300" /> : null}
+      <AxisLabels points={points} granularity={granularity} />
+    </svg>
+  );
+}
+
+/** Share of positive, neutral and negative reviews per bucket, stacked to 100%. */
+export function SentimentTrendChart({ points, granularity }: { points: TrendPoint[]; granularity: Granularity }) {
+  const slot = slotWidth(points);
+  const plotHeight = HEIGHT - PADDING * 2;
+  const segments = [
+    { key: 'POS', className: 'fill-emerald-400/70' },
+    { key: 'NEU', className: 'fill-slate-400/60' },
+    { key: 'NEG', className: 'fill-rose-400/70' }
+  ] as const;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-48 w-full" role="img" aria-label="Sentiment over time">
+      {points.map((point, index) => {
+        if (!point.total) return null;
+        let offset = PADDING;
+        return (
+          <g key={point.bucket}>
+            {segments.map((segment) => {
+              const height = (point.sentiment[segment.key] / point.total) * plotHeight;
+              const y = offset;
+              offset += height;
+              return (
+                <rect
+                  key={segment.key}
+                  x={PADDING + slot * index + slot * 0.15}
+                  y={y}
+                  width={slot * 0.7}
+                  height={height}
+                  className={segment.className}
+                >
+                  <title>
+                    {formatBucket(point.bucket, granularity)}: {point.sentiment[segment.key]} {segment.key}
+                  </title>
+                </rect>
+              );
+            })}
+          </g>
+        );
+      })}
+      <AxisLabels points={points} granularity={granularity} />
+    </svg>
+  );
+}
@@ -0,0 +1,300 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+
+type RoleKey = 'OWNER' | 'ADMIN' | 'MEMBER' | 'CLIENT';
+
+type Stage = {
+  name: string;
+  roles: RoleKey[];
+  userIds: string[];
+  requiredApprovals: number;
+  maxRating: number | null;
+};
+
+export type ApprovalChainOption = {
+  id: string;
+  locationId: string | null;
+  stages: Stage[];
+};
+
+type Option = {
+  id: string;
+  name: string;
+};
+
+type Props = {
+  workspaceId: string;
+  chains: ApprovalChainOption[];
+  locations: Option[];
+  members: Option[];
+  allowed: boolean;
+  canEdit: boolean;
+};
+
+const ROLES: RoleKey[] = ['OWNER', 'ADMIN', 'MEMBER', 'CLIENT'];
+
+const NEW_STAGE: Stage = { name: '', roles: ['ADMIN'], userIds: [], requiredApprovals: 1, maxRating: null };
+
+export function ApprovalChainManager({ workspaceId, chains: initialChains, locations, members, allowed, canEdit }: Props) {
+  const [chains, setChains] = useState(initialChains);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [locationId, setLocationId] = useState('');
+  const [stages, setStages] = useState<Stage[]>([{ ...NEW_STAGE, name: 'Admin review' }]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  const editable = allowed && canEdit;
+
+  function scopeLabel(chain: { locationId: string | null }) {
+    if (!chain.locationId) return 'Workspace default';
+    return locations.find((location) => location.id === chain.locationId)?.name ?? 'Unknown location';
+  }
+
+  function describeStage(stage: Stage) {
+    const approvers = [
+      ...stage.roles,
+      ...stage.userIds.map((id) => members.find((member) => member.id === id)?.name ?? 'removed member')
+    ];
+    const parts = [`${stage.requiredApprovals} of ${approvers.join(', ')}`];
+    if (stage.maxRating != null) parts.push(`only for ${stage.maxRating} stars or less`);
+    return parts.join(' - ');
+  }
+
+  function run(action: () => Promise<void>) {
+    setMessage(null);
+    setError(null);
+    startTransition(async () => {
+      try {
+        await action();
+      } catch (caught) {
+        setError(caught instanceof Error ? caught.message : 'Unexpected error');
+      }
+    });
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setLocationId('');
+    setStages([{ ...NEW_STAGE, name: 'Admin review' }]);
+  }
+
+  function updateStage(index: number, patch: Partial<Stage>) {
+    setStages((prev) => prev.map((stage, position) => (position === index ? { ...stage, ...patch } : stage)));
+  }
+
+  function toggle<T>(values: T[], value: T, checked: boolean) {
+    return checked ? [...values, value] : values.filter((item) => item !== value);
+  }
+
+  function save() {
+    run(async () => {
+      const response = await fetch(
+        editingId
+          ? `/api/workspaces/${workspaceId}/approval-chains/${editingId}`
+          : `/api/workspaces/${workspaceId}/approval-chains`,
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ locationId: locationId || null, stages })
+        }
+      );
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'Failed to save approval chain');
+      setChains((prev) =>
+        editingId ? prev.map((item) => (item.id === editingId ? json : item)) : [...prev, json as ApprovalChainOption]
+      );
+      setMessage(editingId ? 'Approval chain updated.' : 'Approval chain created.');
+      resetForm();
+    });
+  }
+
+  function remove(chain: ApprovalChainOption) {
+    run(async () => {
+      const response = await fetch(`/api/workspaces/${workspaceId}/approval-chains/${chain.id}`, { method: 'DELETE' });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'Failed to delete approval chain');
+      setChains((prev) => prev.filter((item) => item.id !== chain.id));
+      if (editingId === chain.id) resetForm();
+      setMessage('Approval chain deleted.');
+    });
+  }
+
+  return (
+    <section className="card space-y-4 p-4">
+      <div>
+        <h2 className="text-lg font-semibold">Approval chains</h2>
+        <p className="mt-1 text-sm text-slate-400">
+          Replies must pass every stage in order before they are approved. A location chain replaces the workspace default;
+          without any chain one owner or admin approval is enough, followed by a client sign-off at locations with
+          client approvers.
+        </p>
+        {!allowed ? (
+          <p className="mt-3 rounded-lg border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-sm text-amber-200">
+            Approval workflows are available on the Pro and Agency plans.
+          </p>
+        ) : null}
+      </div>
+
+      <div className="space-y-2">
+        {chains.length ? (
+          chains.map((chain) => (
+            <article key={chain.id} className="rounded-lg border border-slate-800 p-3">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <p className="text-sm font-medium">{scopeLabel(chain)}</p>
+                {editable ? (
+                  <div className="flex gap-2">
+                    <button
+                      className="btn btn-secondary"
+                      type="button"
+                      disabled={pending}
+                      onClick={() => {
+                        setEditingId(chain.id);
+                        setLocationId(chain.locationId ?? '');
+                        setStages(chain.stages);
+                      }}
+                    >
+                      Edit
+                    </button>
+                    <button className="btn btn-secondary" type="button" disabled={pending} onClick={() => remove(chain)}>
+                      Delete
+                    </button>
+                  </div>
+                ) : null}
+              </div>
+              <ol className="mt-2 list-decimal space-y-1 pl-5 text-sm text-slate-300">
+                {chain.stages.map((stage, index) => (
+                  <li key={index}>
+                    <span className="font-medium">{stage.name}</span>{' '}
+                    <span className="text-xs text-slate-400">{describeStage(stage)}</span>
+                  </li>
+                ))}
+              </ol>
+            </article>
+          ))
+        ) : (
+          <p className="text-sm text-slate-400">No approval chains configured.</p>
+        )}
+      </div>
+
+      {editable ? (
+        <div className="space-y-3 rounded-lg border border-slate-800 p-3">
+          <p className="text-sm font-medium">{editingId ? 'Edit approval chain' : 'New approval chain'}</p>
+          <select className="input max-w-sm" value={locationId} onChange={(event) => setLocationId(event.target.value)}>
+            <option value="">Workspace default</option>
+            {locations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.name}
+              </option>
+            ))}
+          </select>
+
+          {stages.map((stage, index) => (
+            <div key={index} className="space-y-2 rounded-lg border border-slate-800 bg-slate-950/50 p-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-slate-400">Stage {index + 1}</span>
+                <input
+                  className="input max-w-xs"
+                  placeholder="Stage name (e.g. Client sign-off)"
+                  value={stage.name}
+                  onChange={(event) => updateStage(index, { name: event.target.value })}
+                />
+                <label className="inline-flex items-center gap-2 text-sm text-slate-300">
+                  Approvals needed
+                  <input
+                    className="input w-20"
+                    type="number"
+                    min={1}
+                    max={5}
+                    value={stage.requiredApprovals}
+                    onChange={(event) => updateStage(index, { requiredApprovals: Number(event.target.value) || 1 })}
+                  />
+                </label>
+                <select
+                  className="input max-w-[220px]"
+                  value={stage.maxRating ?? ''}
+                  onChange={(event) =>
+                    updateStage(index, { maxRating: event.target.value ? Number(event.target.value) : null })
+                  }
+                >
+                  <option value="">Every review</option>
+                  {[1, 2, 3, 4].map((value) => (
+                    <option key={value} value={value}>
+                      Only {value} stars or less
+                    </option>
+                  ))}
+                </select>
+                {stages.length > 1 ? (
+                  <button
+                    className="text-xs text-rose-300"
+                    type="button"
+                    onClick={() => setStages((prev) => prev.filter((_, position) => position !== index))}
+                  >
+                    Remove stage
+                  </button>
+                ) : null}
+              </div>
+              <div className="flex flex-wrap gap-3 text-sm text-slate-300">
+                {ROLES.map((role) => (
+                  <label key={role} className="inline-flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={stage.roles.includes(role)}
+                      onChange={(event) => updateStage(index, { roles: toggle(stage.roles, role, event.target.checked) })}
+                    />
+                    Any {role.toLowerCase()}
+                  </label>
+                ))}
+              </div>
+              {members.length ? (
+                <div className="flex flex-wrap gap-3 text-sm text-slate-300">
+                  {members.map((member) => (
+                    <label key={member.id} className="inline-flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={stage.userIds.includes(member.id)}
+                        onChange={(event) =>
+                          updateStage(index, { userIds: toggle(stage.userIds, member.id, event.target.checked) })
+                        }
+                      />
+                      {member.name}
+                    </label>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          ))}
+
+          <div className="flex flex-wrap gap-2">
+            {stages.length < 5 ? (
+              <button
+                className="btn btn-secondary"
+                type="button"
+                onClick={() => setStages((prev) => [...prev, { ...NEW_STAGE }])}
+              >
+                Add stage
+              </button>
+            ) : null}
+            <button
+              className="btn btn-primary"
+              type="button"
+              disabled={pending || stages.some((stage) => !stage.name.trim())}
+              onClick={save}
+            >
+              {pending ? 'Saving...' : editingId ? 'Save chain' : 'Create chain'}
+            </button>
+            {editingId ? (
+              <button className="btn btn-secondary" type="button" onClick={resetForm}>
+                Cancel
+              </button>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+
+      {message ? <p className="text-sm text-emerald-300">{message}</p> : null}
+      {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+    </section>
+  );
+}
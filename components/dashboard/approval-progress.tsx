@@ -0,0 +1,50 @@
+type StageProgress = {
+  index: number;
+  name: string;
+  requiredApprovals: number;
+  maxRating: number | null;
+  approvals: Array<{ approverId: string; label: string; createdAt: string }>;
+  complete: boolean;
+};
+
+export type ApprovalStatePayload = {
+  configured: boolean;
+  round: number;
+  stages: StageProgress[];
+  currentStageIndex: number | null;
+  lastSignOff: boolean;
+  canApprove: boolean;
+  canReject: boolean;
+  lastRejection: { reason: string | null; stageName: string; by: string; createdAt: string } | null;
+};
+
+export function ApprovalProgress({ approval }: { approval: ApprovalStatePayload }) {
+  return (
+    <div className="space-y-2 rounded-lg border border-slate-800 bg-slate-950/50 p-3">
+      <p className="text-sm font-medium">Approval chain</p>
+      <ol className="space-y-1 text-sm">
+        {approval.stages.map((stage, position) => {
+          const current = stage.index === approval.currentStageIndex;
+          return (
+            <li key={stage.index} className={current ? 'text-slate-100' : 'text-slate-400'}>
+              {position + 1}. {stage.name} - {stage.approvals.length}/{stage.requiredApprovals}
+              {stage.complete ? ' approved' : current ? ' pending' : ''}
+              {stage.maxRating != null ? <span className="badge ml-2">{stage.maxRating} stars or less</span> : null}
+              {stage.approvals.length ? (
+                <span className="block text-xs text-slate-500">
+                  Signed off by {stage.approvals.map((item) => item.label).join(', ')}
+                </span>
+              ) : null}
+            </li>
+          );
+        })}
+      </ol>
+      {approval.lastRejection ? (
+        <p className="text-xs text-rose-300">
+          Last rejected at {approval.lastRejection.stageName} by {approval.lastRejection.by}
+          {approval.lastRejection.reason ? `: ${approval.lastRejection.reason}` : ''}
+        </p>
+      ) : null}
+    </div>
+  );
+}
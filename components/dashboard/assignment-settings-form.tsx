@@ -0,0 +1,97 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+
+type AssignmentStrategyKey = 'MANUAL' | 'ROUND_ROBIN' | 'LOAD_BASED';
+
+type Props = {
+  workspaceId: string;
+  strategy: AssignmentStrategyKey;
+  responseSlaHours: number | null;
+  canEdit: boolean;
+};
+
+const STRATEGY_OPTIONS: Array<{ value: AssignmentStrategyKey; label: string; description: string }> = [
+  { value: 'MANUAL', label: 'Manual', description: 'New reviews stay unassigned until someone picks them up.' },
+  { value: 'ROUND_ROBIN', label: 'Round robin', description: 'New reviews rotate through members in join order.' },
+  { value: 'LOAD_BASED', label: 'Load based', description: 'New reviews go to the member with the fewest open reviews.' }
+];
+
+export function AssignmentSettingsForm({ workspaceId, strategy, responseSlaHours, canEdit }: Props) {
+  const [value, setValue] = useState(strategy);
+  const [slaHours, setSlaHours] = useState(responseSlaHours?.toString() ?? '');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  function save() {
+    setMessage(null);
+    setError(null);
+    startTransition(async () => {
+      const response = await fetch(`/api/workspaces/${workspaceId}/assignment`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ strategy: value, responseSlaHours: slaHours ? Number(slaHours) : null })
+      });
+      const json = await response.json();
+      if (!response.ok) {
+        setError(json.error || 'Unable to save assignment settings');
+        return;
+      }
+      setValue(json.strategy);
+      setSlaHours(json.responseSlaHours?.toString() ?? '');
+      setMessage('Assignment settings saved.');
+    });
+  }
+
+  return (
+    <section className="card space-y-3 p-4">
+      <div>
+        <h2 className="text-lg font-semibold">Assignment and response SLA</h2>
+        <p className="mt-1 text-sm text-slate-400">
+          Decide who owns newly imported reviews and how long the team has to reply before a review is overdue.
+        </p>
+      </div>
+      <div className="space-y-2">
+        {STRATEGY_OPTIONS.map((option) => (
+          <label key={option.value} className="flex items-start gap-2 text-sm">
+            <input
+              type="radio"
+              name="assignmentStrategy"
+              value={option.value}
+              checked={value === option.value}
+              disabled={!canEdit}
+              onChange={() => setValue(option.value)}
+            />
+            <span>
+              <span className="font-medium">{option.label}</span>
+              <span className="block text-xs text-slate-400">{option.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+      <label className="block max-w-xs text-sm">
+        <span className="text-slate-300">Response SLA (hours)</span>
+        <input
+          className="input mt-1"
+          type="number"
+          min={1}
+          max={720}
+          placeholder="No due date"
+          value={slaHours}
+          disabled={!canEdit}
+          onChange={(event) => setSlaHours(event.target.value)}
+        />
+      </label>
+      {canEdit ? (
+        <button className="btn btn-primary" type="button" disabled={pending} onClick={save}>
+          {pending ? 'Saving...' : 'Save assignment settings'}
+        </button>
+      ) : (
+        <p className="text-xs text-slate-400">Only owners and admins can change assignment settings.</p>
+      )}
+      {message ? <p className="text-sm text-emerald-300">{message}</p> : null}
+      {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+    </section>
+  );
+}
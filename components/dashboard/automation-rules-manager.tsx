@@ -0,0 +1,556 @@
+'use client';
+
+import { ReviewSource, Sentiment } from '@prisma/client';
+import { useState, useTransition } from 'react';
+
+type ProviderKey = 'openai' | 'claude' | 'gemini' | 'local' | 'mock';
+type LengthKey = 'short' | 'medium' | 'long';
+
+type RuleConditions = {
+  minRating?: number | null;
+  maxRating?: number | null;
+  sources: ReviewSource[];
+  locationIds: string[];
+  tags: string[];
+  sentiments: Sentiment[];
+  languages: string[];
+  keywords: string[];
+};
+
+type RuleAction =
+  | { type: 'generate_draft'; provider: ProviderKey; length: LengthKey; targetLanguage?: string; escalation: boolean }
+  | { type: 'apply_template'; templateId: string }
+  | { type: 'set_tags'; tags: string[]; mode: 'add' | 'replace' }
+  | { type: 'assign'; userId: string }
+  | { type: 'archive' };
+
+type Rule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  position: number;
+  stopProcessing: boolean;
+  conditions: unknown;
+  actions: unknown;
+  lastMatchedAt: string | null;
+};
+
+type Option = { id: string; name: string };
+
+type Props = {
+  workspaceId: string;
+  rules: Rule[];
+  locations: Option[];
+  members: Array<{ id: string; label: string }>;
+  templates: Option[];
+  canEdit: boolean;
+};
+
+type Draft = {
+  name: string;
+  enabled: boolean;
+  position: string;
+  stopProcessing: boolean;
+  minRating: string;
+  maxRating: string;
+  sources: ReviewSource[];
+  locationIds: string[];
+  sentiments: Sentiment[];
+  tags: string;
+  languages: string;
+  keywords: string;
+  actions: RuleAction[];
+};
+
+const ACTION_LABELS: Record<RuleAction['type'], string> = {
+  generate_draft: 'Generate AI draft',
+  apply_template: 'Apply template',
+  set_tags: 'Set tags',
+  assign: 'Assign to member',
+  archive: 'Archive (spam)'
+};
+
+const EMPTY_DRAFT: Draft = {
+  name: '',
+  enabled: true,
+  position: '0',
+  stopProcessing: false,
+  minRating: '',
+  maxRating: '',
+  sources: [],
+  locationIds: [],
+  sentiments: [],
+  tags: '',
+  languages: '',
+  keywords: '',
+  actions: [{ type: 'generate_draft', provider: 'openai', length: 'medium', escalation: true }]
+};
+
+function splitList(value: string) {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function toggle<T>(list: T[], value: T, checked: boolean) {
+  return checked ? [...list, value] : list.filter((item) => item !== value);
+}
+
+function toDraft(rule: Rule): Draft {
+  const conditions = rule.conditions as RuleConditions;
+  return {
+    name: rule.name,
+    enabled: rule.enabled,
+    position: String(rule.position),
+    stopProcessing: rule.stopProcessing,
+    minRating: conditions.minRating?.toString() ?? '',
+    maxRating: conditions.maxRating?.toString() ?? '',
+    sources: conditions.sources ?? [],
+    locationIds: conditions.locationIds ?? [],
+    sentiments: conditions.sentiments ?? [],
+    tags: (conditions.tags ?? []).join(', '),
+    languages: (conditions.languages ?? []).join(', '),
+    keywords: (conditions.keywords ?? []).join(', '),
+    actions: rule.actions as RuleAction[]
+  };
+}
+
+function defaultAction(type: RuleAction['type'], props: Props): RuleAction {
+  switch (type) {
+    case 'generate_draft':
+      return { type, provider: 'openai', length: 'medium', escalation: true };
+    case 'apply_template':
+      return { type, templateId: props.templates[0]?.id ?? '' };
+    case 'set_tags':
+      return { type, tags: [], mode: 'add' };
+    case 'assign':
+      return { type, userId: props.members[0]?.id ?? '' };
+    case 'archive':
+      return { type };
+  }
+}
+
+function describeConditions(rule: Rule, locations: Option[]) {
+  const conditions = rule.conditions as RuleConditions;
+  const parts: string[] = [];
+  if (conditions.minRating != null || conditions.maxRating != null) {
+    parts.push(`${conditions.minRating ?? 1}-${conditions.maxRating ?? 5} stars`);
+  }
+  if (conditions.sources?.length) parts.push(conditions.sources.join('/'));
+  if (conditions.sentiments?.length) parts.push(conditions.sentiments.join('/'));
+  if (conditions.locationIds?.length) {
+    parts.push(conditions.locationIds.map((id) => locations.find((item) => item.id === id)?.name ?? id).join(', '));
+  }
+  if (conditions.tags?.length) parts.push(`tags: ${conditions.tags.join(', ')}`);
+  if (conditions.languages?.length) parts.push(`language: ${conditions.languages.join(', ')}`);
+  if (conditions.keywords?.length) parts.push(`keywords: ${conditions.keywords.join(', ')}`);
+  return parts.length ? parts.join(' - ') : 'Every imported review';
+}
+
+export function AutomationRulesManager(props: Props) {
+  const { workspaceId, locations, members, templates, canEdit } = props;
+  const [rules, setRules] = useState(props.rules);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  function run(action: () => Promise<void>) {
+    setMessage(null);
+    setError(null);
+    startTransition(async () => {
+      try {
+        await action();
+      } catch (caught) {
+        setError(caught instanceof Error ? caught.message : 'Unexpected error');
+      }
+    });
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+  }
+
+  function toPayload(value: Draft) {
+    return {
+      name: value.name,
+      enabled: value.enabled,
+      position: Number(value.position) || 0,
+      stopProcessing: value.stopProcessing,
+      conditions: {
+        minRating: value.minRating ? Number(value.minRating) : null,
+        maxRating: value.maxRating ? Number(value.maxRating) : null,
+        sources: value.sources,
+        locationIds: value.locationIds,
+        sentiments: value.sentiments,
+        tags: splitList(value.tags),
+        languages: splitList(value.languages),
+        keywords: splitList(value.keywords)
+      },
+      actions: value.actions
+    };
+  }
+
+  async function saveRule(ruleId: string | null, payload: ReturnType<typeof toPayload>) {
+    const response = await fetch(
+      ruleId ? `/api/workspaces/${workspaceId}/automation-rules/${ruleId}` : `/api/workspaces/${workspaceId}/automation-rules`,
+      {
+        method: ruleId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      }
+    );
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to save rule');
+    const saved = json as Rule;
+    setRules((prev) =>
+      (ruleId ? prev.map((item) => (item.id === ruleId ? saved : item)) : [...prev, saved]).sort(
+        (a, b) => a.position - b.position
+      )
+    );
+    return saved;
+  }
+
+  function save() {
+    run(async () => {
+      await saveRule(editingId, toPayload(draft));
+      setMessage(editingId ? 'Rule updated.' : 'Rule created.');
+      resetForm();
+    });
+  }
+
+  function toggleEnabled(rule: Rule) {
+    run(async () => {
+      await saveRule(rule.id, toPayload({ ...toDraft(rule), enabled: !rule.enabled }));
+      setMessage(rule.enabled ? 'Rule paused.' : 'Rule enabled.');
+    });
+  }
+
+  function remove(rule: Rule) {
+    run(async () => {
+      const response = await fetch(`/api/workspaces/${workspaceId}/automation-rules/${rule.id}`, { method: 'DELETE' });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'Failed to delete rule');
+      setRules((prev) => prev.filter((item) => item.id !== rule.id));
+      if (editingId === rule.id) resetForm();
+      setMessage('Rule deleted.');
+    });
+  }
+
+  function updateAction(index: number, next: RuleAction) {
+    setDraft((prev) => ({ ...prev, actions: prev.actions.map((item, position) => (position === index ? next : item)) }));
+  }
+
+  return (
+    <section className="card space-y-4 p-5">
+      <h2 className="text-lg font-semibold">Rules</h2>
+
+      {rules.length ? (
+        <div className="space-y-2">
+          {rules.map((rule) => (
+            <article key={rule.id} className="rounded-lg border border-slate-800 p-3">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <p className="text-sm font-medium">
+                    {rule.position}. {rule.name}{' '}
+                    <span className={`badge ml-1 ${rule.enabled ? 'text-emerald-300' : 'text-slate-400'}`}>
+                      {rule.enabled ? 'Active' : 'Paused'}
+                    </span>
+                  </p>
+                  <p className="text-xs text-slate-400">When: {describeConditions(rule, locations)}</p>
+                  <p className="text-xs text-slate-400">
+                    Then: {(rule.actions as RuleAction[]).map((action) => ACTION_LABELS[action.type]).join(', ')}
+                    {rule.stopProcessing ? ' - stop evaluating later rules' : ''}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    Last matched: {rule.lastMatchedAt ? new Date(rule.lastMatchedAt).toISOString().slice(0, 16) : 'never'}
+                  </p>
+                </div>
+                {canEdit ? (
+                  <div className="flex gap-2">
+                    <button className="btn btn-secondary" type="button" disabled={pending} onClick={() => toggleEnabled(rule)}>
+                      {rule.enabled ? 'Pause' : 'Enable'}
+                    </button>
+                    <button
+                      className="btn btn-secondary"
+                      type="button"
+                      disabled={pending}
+                      onClick={() => {
+                        setEditingId(rule.id);
+                        setDraft(toDraft(rule));
+                      }}
+                    >
+                      Edit
+                    </button>
+                    <button className="btn btn-secondary" type="button" disabled={pending} onClick={() => remove(rule)}>
+                      Delete
+                    </button>
+                  </div>
+                ) : null}
+              </div>
+            </article>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-400">No rules yet.</p>
+      )}
+
+      {canEdit ? (
+        <div className="space-y-4 rounded-lg border border-slate-800 p-3">
+          <p className="text-sm font-medium">{editingId ? 'Edit rule' : 'New rule'}</p>
+          <div className="grid gap-3 md:grid-cols-[1fr_120px]">
+            <input
+              className="input"
+              placeholder="Rule name"
+              value={draft.name}
+              onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+            />
+            <input
+              className="input"
+              type="number"
+              min={0}
+              placeholder="Order"
+              value={draft.position}
+              onChange={(event) => setDraft((prev) => ({ ...prev, position: event.target.value }))}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <p className="text-sm text-slate-300">Conditions (all must match; leave empty to match any)</p>
+            <div className="grid gap-3 md:grid-cols-2">
+              <div className="flex gap-2">
+                <select
+                  className="input"
+                  value={draft.minRating}
+                  onChange={(event) => setDraft((prev) => ({ ...prev, minRating: event.target.value }))}
+                >
+                  <option value="">Min rating</option>
+                  {[1, 2, 3, 4, 5].map((value) => (
+                    <option key={value} value={value}>
+                      {value}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className="input"
+                  value={draft.maxRating}
+                  onChange={(event) => setDraft((prev) => ({ ...prev, maxRating: event.target.value }))}
+                >
+                  <option value="">Max rating</option>
+                  {[1, 2, 3, 4, 5].map((value) => (
+                    <option key={value} value={value}>
+                      {value}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <input
+                className="input"
+                placeholder="Any of these tags (comma separated)"
+                value={draft.tags}
+                onChange={(event) => setDraft((prev) => ({ ...prev, tags: event.target.value }))}
+              />
+              <input
+                className="input"
+                placeholder="Languages (e.g. en, es)"
+                value={draft.languages}
+                onChange={(event) => setDraft((prev) => ({ ...prev, languages: event.target.value }))}
+              />
+              <input
+                className="input"
+                placeholder="Any of these keywords (comma separated)"
+                value={draft.keywords}
+                onChange={(event) => setDraft((prev) => ({ ...prev, keywords: event.target.value }))}
+              />
+            </div>
+            <div className="flex flex-wrap gap-3 text-sm text-slate-300">
+              {Object.values(ReviewSource).map((source) => (
+                <label key={source} className="inline-flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={draft.sources.includes(source)}
+                    onChange={(event) => setDraft((prev) => ({ ...prev, sources: toggle(prev.sources, source, event.target.checked) }))}
+                  />
+                  {source}
+                </label>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-3 text-sm text-slate-300">
+              {Object.values(Sentiment).map((sentiment) => (
+                <label key={sentiment} className="inline-flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={draft.sentiments.includes(sentiment)}
+                    onChange={(event) =>
+                      setDraft((prev) => ({ ...prev, sentiments: toggle(prev.sentiments, sentiment, event.target.checked) }))
+                    }
+                  />
+                  {sentiment}
+                </label>
+              ))}
+            </div>
+            {locations.length > 1 ? (
+              <div className="flex flex-wrap gap-3 text-sm text-slate-300">
+                {locations.map((location) => (
+                  <label key={location.id} className="inline-flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={draft.locationIds.includes(location.id)}
+                      onChange={(event) =>
+                        setDraft((prev) => ({ ...prev, locationIds: toggle(prev.locationIds, location.id, event.target.checked) }))
+                      }
+                    />
+                    {location.name}
+                  </label>
+                ))}
+              </div>
+            ) : null}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm text-slate-300">Actions (run in order)</p>
+            {draft.actions.map((action, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <select
+                  className="input max-w-[200px]"
+                  value={action.type}
+                  onChange={(event) => updateAction(index, defaultAction(event.target.value as RuleAction['type'], props))}
+                >
+                  {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                {action.type === 'generate_draft' ? (
+                  <>
+                    <select
+                      className="input max-w-[180px]"
+                      value={action.provider}
+                      onChange={(event) => updateAction(index, { ...action, provider: event.target.value as ProviderKey })}
+                    >
+                      <option value="openai">OpenAI</option>
+                      <option value="claude">Claude</option>
+                      <option value="gemini">Gemini</option>
+                      <option value="local">Local (self-hosted)</option>
+                      <option value="mock">Mock (offline)</option>
+                    </select>
+                    <select
+                      className="input max-w-[140px]"
+                      value={action.length}
+                      onChange={(event) => updateAction(index, { ...action, length: event.target.value as LengthKey })}
+                    >
+                      <option value="short">Short</option>
+                      <option value="medium">Medium</option>
+                      <option value="long">Long</option>
+                    </select>
+                  </>
+                ) : null}
+                {action.type === 'apply_template' ? (
+                  <select
+                    className="input max-w-[260px]"
+                    value={action.templateId}
+                    onChange={(event) => updateAction(index, { ...action, templateId: event.target.value })}
+                  >
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name}
+                      </option>
+                    ))}
+                  </select>
+                ) : null}
+                {action.type === 'set_tags' ? (
+                  <>
+                    <input
+                      key={`${editingId ?? 'new'}-${index}`}
+                      className="input max-w-[260px]"
+                      placeholder="Tags (comma separated)"
+                      defaultValue={action.tags.join(', ')}
+                      onBlur={(event) => updateAction(index, { ...action, tags: splitList(event.target.value) })}
+                    />
+                    <select
+                      className="input max-w-[140px]"
+                      value={action.mode}
+                      onChange={(event) => updateAction(index, { ...action, mode: event.target.value as 'add' | 'replace' })}
+                    >
+                      <option value="add">Add</option>
+                      <option value="replace">Replace</option>
+                    </select>
+                  </>
+                ) : null}
+                {action.type === 'assign' ? (
+                  <select
+                    className="input max-w-[260px]"
+                    value={action.userId}
+                    onChange={(event) => updateAction(index, { ...action, userId: event.target.value })}
+                  >
+                    {members.map((member) => (
+                      <option key={member.id} value={member.id}>
+                        {member.label}
+                      </option>
+                    ))}
+                  </select>
+                ) : null}
+                <button
+                  className="btn btn-secondary"
+                  type="button"
+                  disabled={draft.actions.length === 1}
+                  onClick={() => setDraft((prev) => ({ ...prev, actions: prev.actions.filter((_, position) => position !== index) }))}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            {draft.actions.length < 5 ? (
+              <button
+                className="btn btn-secondary"
+                type="button"
+                onClick={() => setDraft((prev) => ({ ...prev, actions: [...prev.actions, defaultAction('set_tags', props)] }))}
+              >
+                Add action
+              </button>
+            ) : null}
+          </div>
+
+          <div className="flex flex-wrap gap-4 text-sm text-slate-300">
+            <label className="inline-flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(event) => setDraft((prev) => ({ ...prev, enabled: event.target.checked }))}
+              />
+              Enabled
+            </label>
+            <label className="inline-flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={draft.stopProcessing}
+                onChange={(event) => setDraft((prev) => ({ ...prev, stopProcessing: event.target.checked }))}
+              />
+              Stop evaluating later rules when this one matches
+            </label>
+          </div>
+
+          <div className="flex gap-2">
+            <button className="btn btn-primary" type="button" disabled={pending || !draft.name.trim()} onClick={save}>
+              {pending ? 'Saving...' : editingId ? 'Save rule' : 'Create rule'}
+            </button>
+            {editingId ? (
+              <button className="btn btn-secondary" type="button" onClick={resetForm}>
+                Cancel
+              </button>
+            ) : null}
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-400">Only owners and admins can change automation rules.</p>
+      )}
+
+      {message ? <p className="text-sm text-emerald-300">{message}</p> : null}
+      {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+    </section>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useState, useTransition } from 'react';
+import { isJobFinished, JobSnapshot, pollJobs } from '@/lib/job-client';
+
+type Filters = {
+  status?: string;
+  source?: string;
+  sentiment?: string;
+  rating?: string;
+  tag?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  assignee?: string;
+  overdue?: string;
+  mentions?: string;
+};
+
+type BulkResult =
+  | { reviewId: string; status: 'drafted'; reply: string; model: string }
+  | { reviewId: string; status: 'failed'; error: string }
+  | { reviewId: string; status: 'skipped'; reason: string };
+
+type Props = {
+  workspaceId: string;
+  filters: Filters;
+  enabled: boolean;
+};
+
+export function BulkGeneratePanel({ workspaceId, filters, enabled }: Props) {
+  const router = useRouter();
+  const [provider, setProvider] = useState<'openai' | 'claude' | 'gemini' | 'local' | 'mock'>('openai');
+  const [length, setLength] = useState<'short' | 'medium' | 'long'>('medium');
+  const [limit, setLimit] = useState(25);
+  const [skipDrafted, setSkipDrafted] = useState(true);
+  const [runInBackground, setRunInBackground] = useState(false);
+  const [jobProgress, setJobProgress] = useState<{ done: number; total: number } | null>(null);
+  const [results, setResults] = useState<BulkResult[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  if (!enabled) {
+    return (
+      <section className="card p-4">
+        <h2 className="text-sm font-medium text-slate-300">Bulk AI drafting</h2>
+        <p className="mt-1 text-sm text-slate-400">Bulk tools are available on the Agency plan.</p>
+      </section>
+    );
+  }
+
+  function applyJobResults(jobs: JobSnapshot[], reviewIds: string[], skipped: BulkResult[]) {
+    const jobResults: BulkResult[] = jobs.map((job, index) => {
+      const reviewId = reviewIds[index];
+      if (job.status === 'SUCCEEDED') {
+        const result = job.result as { reply: string; model: string };
+        return { reviewId, status: 'drafted', reply: result.reply, model: result.model };
+      }
+      return { reviewId, status: 'failed', error: job.error || `Job ${job.status.toLowerCase()}` };
+    });
+    setResults([...jobResults, ...skipped]);
+    return jobResults.filter((item) => item.status === 'drafted').length;
+  }
+
+  function runBulk() {
+    setMessage(null);
+    setError(null);
+    setJobProgress(null);
+    startTransition(async () => {
+      const cleanedFilters = Object.fromEntries(Object.entries(filters).filter(([, value]) => Boolean(value)));
+      const response = await fetch('/api/reviews/generate/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          workspaceId,
+          filters: cleanedFilters,
+          limit,
+          skipDrafted,
+          provider,
+          length,
+          async: runInBackground
+        })
+      });
+      const json = await response.json();
+      if (!response.ok) {
+        setError(json.error || 'Bulk generation failed');
+        return;
+      }
+      if (json.jobs) {
+        const jobs = json.jobs as Array<JobSnapshot & { reviewId: string }>;
+        const reviewIds = jobs.map((job) => job.reviewId);
+        const skipped = (json.results || []) as BulkResult[];
+        setJobProgress({ done: 0, total: jobs.length });
+        try {
+          const finished = await pollJobs(
+            workspaceId,
+            jobs.map((job) => job.id),
+            (snapshots) => setJobProgress({ done: snapshots.filter(isJobFinished).length, total: jobs.length })
+          );
+          const drafted = applyJobResults(finished, reviewIds, skipped);
+          setMessage(`Drafted ${drafted} of ${json.requested} review(s) in the background. Skipped ${json.skipped}.`);
+        } catch (caught) {
+          setError(caught instanceof Error ? caught.message : 'Background drafting failed');
+        }
+        router.refresh();
+        return;
+      }
+      setResults(json.results || []);
+      setMessage(`Drafted ${json.drafted} of ${json.requested} review(s). Failed ${json.failed}, skipped ${json.skipped}.`);
+      router.refresh();
+    });
+  }
+
+  return (
+    <section className="card space-y-3 p-4">
+      <h2 className="text-sm font-medium text-slate-300">Bulk AI drafting</h2>
+      <p className="text-xs text-slate-400">Drafts replies for reviews matching the current filters, newest first.</p>
+      <div className="grid gap-3 md:grid-cols-4">
+        <select className="input" value={provider} onChange={(e) => setProvider(e.target.value as typeof provider)}>
+          <option value="openai">OpenAI</option>
+          <option value="claude">Claude</option>
+          <option value="gemini">Gemini</option>
+          <option value="local">Local (self-hosted)</option>
+          <option value="mock">Mock (offline)</option>
+        </select>
+        <select className="input" value={length} onChange={(e) => setLength(e.target.value as typeof length)}>
+          <option value="short">Short</option>
+          <option value="medium">Medium</option>
+          <option value="long">Long</option>
+        </select>
+        <input
+          className="input"
+          type="number"
+          min={1}
+          max={100}
+          value={limit}
+          onChange={(e) => setLimit(Math.min(100, Math.max(1, Number(e.target.value) || 1)))}
+        />
+        <button className="btn btn-primary" disabled={pending} onClick={runBulk} type="button">
+          {pending ? 'Drafting...' : 'Draft filtered reviews'}
+        </button>
+      </div>
+      <label className="inline-flex items-center gap-2 text-sm text-slate-300">
+        <input type="checkbox" checked={skipDrafted} onChange={(e) => setSkipDrafted(e.target.checked)} />
+        Skip reviews that already have a draft or are approved/sent/archived
+      </label>
+      <label className="inline-flex items-center gap-2 text-sm text-slate-300">
+        <input type="checkbox" checked={runInBackground} onChange={(e) => setRunInBackground(e.target.checked)} />
+        Run in background (survives slow providers)
+      </label>
+      {jobProgress ? (
+        <p className="text-xs text-slate-400">
+          Background jobs finished: {jobProgress.done} / {jobProgress.total}
+        </p>
+      ) : null}
+      {message ? <p className="text-sm text-emerald-300">{message}</p> : null}
+      {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+      {results.length ? (
+        <div className="max-h-64 space-y-1 overflow-y-auto text-xs">
+          {results.map((item) => (
+            <div key={item.reviewId} className="flex items-center justify-between gap-3 rounded-lg border border-slate-800 px-3 py-2">
+              <Link href={`/w/${workspaceId}/reviews/${item.reviewId}`} className="text-blue-300">
+                {item.reviewId}
+              </Link>
+              <span
+                className={
+                  item.status === 'drafted' ? 'text-emerald-300' : item.status === 'failed' ? 'text-rose-300' : 'text-slate-400'
+                }
+              >
+                {item.status === 'drafted' ? 'drafted' : item.status === 'failed' ? item.error : item.reason}
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { ApprovalProgress, ApprovalStatePayload } from '@/components/dashboard/approval-progress';
+import { StatusPill } from '@/components/dashboard/pills';
+
+type ClientReview = {
+  id: string;
+  location: { id: string; name: string };
+  source: string;
+  authorName: string;
+  rating: number;
+  text: string;
+  reviewDate: string;
+  status: string;
+  replyDraft: string | null;
+  approvedReply: string | null;
+};
+
+type Props = {
+  workspaceId: string;
+  review: ClientReview;
+  approval: ApprovalStatePayload;
+};
+
+/** Read-only review view for CLIENT approvers: they can sign off or send the reply back, nothing else. */
+export function ClientReviewPanel({ workspaceId, review: initialReview, approval: initialApproval }: Props) {
+  const [review, setReview] = useState(initialReview);
+  const [approval, setApproval] = useState(initialApproval);
+  const [reason, setReason] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  const reply = review.approvedReply || review.replyDraft;
+
+  function decide(path: 'approve' | 'reject', body: Record<string, string>, success: string) {
+    setMessage(null);
+    setError(null);
+    startTransition(async () => {
+      const response = await fetch(`/api/reviews/${review.id}/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workspaceId, ...body })
+      });
+      const json = await response.json();
+      if (!response.ok) {
+        setError(json.error || 'Unable to record your decision');
+        return;
+      }
+      setReview((prev) => ({ ...prev, status: json.status, approvedReply: json.approvedReply ?? prev.approvedReply }));
+      setApproval(json.approval);
+      setReason('');
+      setMessage(success);
+    });
+  }
+
+  return (
+    <div className="space-y-5">
+      <section className="card p-5">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold">{review.authorName || 'Anonymous reviewer'}</h1>
+            <p className="mt-1 text-sm text-slate-400">
+              {review.location.name} - {review.source} - {review.rating}/5 -{' '}
+              {new Date(review.reviewDate).toISOString().slice(0, 10)}
+            </p>
+          </div>
+          <StatusPill value={review.status} />
+        </div>
+        <p className="mt-4 whitespace-pre-wrap text-sm leading-6 text-slate-100">{review.text}</p>
+      </section>
+
+      <section className="card space-y-4 p-5">
+        <h2 className="text-lg font-semibold">Proposed reply</h2>
+        {reply ? (
+          <p className="whitespace-pre-wrap rounded-lg border border-slate-800 bg-slate-950/50 p-3 text-sm text-slate-100">
+            {reply}
+          </p>
+        ) : (
+          <p className="text-sm text-slate-400">No reply has been drafted yet.</p>
+        )}
+        <ApprovalProgress approval={approval} />
+        {reply && approval.canApprove ? (
+          <button
+            className="btn btn-primary"
+            disabled={pending}
+            onClick={() => decide('approve', {}, approval.lastSignOff ? 'Reply approved.' : 'Sign-off recorded.')}
+          >
+            Approve reply
+          </button>
+        ) : null}
+        {approval.canReject ? (
+          <div className="flex flex-wrap gap-2">
+            <input
+              className="input max-w-md"
+              placeholder="What should change?"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+            <button
+              className="btn btn-secondary"
+              disabled={pending || reason.trim().length < 3}
+              onClick={() => decide('reject', { reason }, 'Reply sent back to the team.')}
+            >
+              Request changes
+            </button>
+          </div>
+        ) : null}
+        {message ? <p className="text-sm text-emerald-300">{message}</p> : null}
+        {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+      </section>
+    </div>
+  );
+}
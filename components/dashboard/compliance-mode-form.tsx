@@ -0,0 +1,81 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+
+type ComplianceModeKey = 'OFF' | 'WARN' | 'BLOCK';
+
+type Props = {
+  workspaceId: string;
+  mode: ComplianceModeKey;
+  canEdit: boolean;
+};
+
+const MODE_OPTIONS: Array<{ value: ComplianceModeKey; label: string; description: string }> = [
+  { value: 'OFF', label: 'Off', description: 'Replies are not checked.' },
+  { value: 'WARN', label: 'Warn', description: 'Violations are shown in the editor but approval is allowed.' },
+  { value: 'BLOCK', label: 'Block', description: 'Replies with errors cannot be approved until they are fixed.' }
+];
+
+export function ComplianceModeForm({ workspaceId, mode, canEdit }: Props) {
+  const [value, setValue] = useState(mode);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  function save() {
+    setMessage(null);
+    setError(null);
+    startTransition(async () => {
+      const response = await fetch(`/api/workspaces/${workspaceId}/compliance`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode: value })
+      });
+      const json = await response.json();
+      if (!response.ok) {
+        setError(json.error || 'Unable to save compliance mode');
+        return;
+      }
+      setValue(json.mode);
+      setMessage('Compliance mode saved.');
+    });
+  }
+
+  return (
+    <section className="card space-y-3 p-4">
+      <div>
+        <h2 className="text-lg font-semibold">Brand voice compliance</h2>
+        <p className="mt-1 text-sm text-slate-400">
+          Generated and edited replies are checked for banned words, the sign-off, length, language and personal data.
+        </p>
+      </div>
+      <div className="space-y-2">
+        {MODE_OPTIONS.map((option) => (
+          <label key={option.value} className="flex items-start gap-2 text-sm">
+            <input
+              type="radio"
+              name="complianceMode"
+              value={option.value}
+              checked={value === option.value}
+              disabled={!canEdit}
+              onChange={() => setValue(option.value)}
+            />
+            <span>
+              <span className="font-medium">{option.label}</span>
+              <span className="block text-xs text-slate-400">{option.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+      {canEdit ? (
+        <button className="btn btn-primary" type="button" disabled={pending} onClick={save}>
+          {pending ? 'Saving...' : 'Save mode'}
+        </button>
+      ) : (
+        <p className="text-xs text-slate-400">Only owners and admins can change the compliance mode.</p>
+      )}
+      {message ? <p className="text-sm text-emerald-300">{message}</p> : null}
+      {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+    </section>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { Fragment } from 'react';
+
+export type ComplianceViolationPayload = {
+  code: string;
+  severity: 'error' | 'warning';
+  message: string;
+  matches: string[];
+};
+
+export type ComplianceReportPayload = {
+  mode: 'OFF' | 'WARN' | 'BLOCK';
+  passed: boolean;
+  blocking: boolean;
+  violations: ComplianceViolationPayload[];
+};
+
+type Props = {
+  text: string;
+  report: ComplianceReportPayload;
+};
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function highlight(text: string, violations: ComplianceViolationPayload[]) {
+  const matches = Array.from(new Set(violations.flatMap((violation) => violation.matches).filter(Boolean)));
+  if (!matches.length) return text;
+
+  // longest first so overlapping phrases highlight the full span
+  matches.sort((a, b) => b.length - a.length);
+  const matcher = new RegExp(`(${matches.map(escapeRegExp).join('|')})`, 'gi');
+  const lowered = new Set(matches.map((match) => match.toLowerCase()));
+  return text.split(matcher).map((part, index) =>
+    lowered.has(part.toLowerCase()) ? (
+      <mark key={index} className="rounded bg-rose-500/30 px-0.5 text-rose-100">
+        {part}
+      </mark>
+    ) : (
+      <Fragment key={index}>{part}</Fragment>
+    )
+  );
+}
+
+export function ComplianceReport({ text, report }: Props) {
+  if (report.mode === 'OFF') {
+    return <p className="text-xs text-slate-400">Brand voice compliance checks are turned off for this workspace.</p>;
+  }
+
+  if (!report.violations.length) {
+    return <p className="text-sm text-emerald-300">No brand voice issues found.</p>;
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-800 bg-slate-950/50 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium">Brand voice issues</p>
+        {report.blocking ? <span className="badge text-rose-300">Blocks approval</span> : null}
+      </div>
+      <ul className="space-y-1 text-sm">
+        {report.violations.map((violation, index) => (
+          <li key={`${violation.code}-${index}`} className={violation.severity === 'error' ? 'text-rose-300' : 'text-amber-200'}>
+            {violation.severity === 'error' ? 'Error' : 'Warning'}: {violation.message}
+          </li>
+        ))}
+      </ul>
+      {text ? <p className="whitespace-pre-wrap text-sm leading-6 text-slate-100">{highlight(text, report.violations)}</p> : null}
+    </div>
+  );
+}
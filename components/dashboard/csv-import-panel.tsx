@@ -0,0 +1,488 @@
+'use client';
+
+import { ReviewSource } from '@prisma/client';
+import { useState, useTransition } from 'react';
+
+type ImportMode = 'skip' | 'update' | 'create';
+
+type Settings = {
+  encoding?: string;
+  delimiter?: string;
+  mapping?: Record<string, string | null>;
+  defaultSource?: ReviewSource;
+};
+
+type Preview = {
+  fileName: string;
+  encoding: string;
+  delimiter: string;
+  headers: string[];
+  fields: string[];
+  mapping: Record<string, string | null>;
+  missing: string[];
+  defaultSource: ReviewSource | null;
+  total: number;
+  valid: number;
+  errors: Array<{ row: number; message: string }>;
+  sample: Array<{
+    row: number;
+    error: string | null;
+    review: {
+      externalId: string | null;
+      source: ReviewSource;
+      location: string | null;
+      authorName: string;
+      rating: number;
+      reviewDate: string;
+      text: string;
+    } | null;
+  }>;
+};
+
+type ImportReportRow = {
+  row: number;
+  outcome: 'skipped' | 'updated' | 'unchanged' | 'created';
+  reviewId: string;
+  duplicateOfId: string;
+  match: 'externalId' | 'fuzzy';
+  similarity: number;
+};
+
+type ImportResult = {
+  dryRun: boolean;
+  batchId: string | null;
+  imported: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  errors: Array<{ row: number; message: string }>;
+  report: ImportReportRow[];
+};
+
+export type ImportBatchItem = {
+  id: string;
+  fileName: string;
+  mode: string;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  createdBy: string | null;
+  createdAt: string;
+  rolledBackAt: string | null;
+};
+
+type LocationOption = {
+  id: string;
+  name: string;
+};
+
+type Props = {
+  workspaceId: string;
+  locations: LocationOption[];
+  batches: ImportBatchItem[];
+};
+
+const MODE_LABELS: Record<ImportMode, string> = {
+  skip: 'Skip reviews that were already imported',
+  update: 'Update already imported reviews (rating, text, author, URL)',
+  create: 'Import look-alike reviews as new ones'
+};
+
+const OUTCOME_LABELS: Record<ImportReportRow['outcome'], string> = {
+  skipped: 'Skipped',
+  updated: 'Merged into',
+  unchanged: 'Already up to date',
+  created: 'Created next to'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  id: 'Platform review id',
+  name: 'Author',
+  rating: 'Rating (required)',
+  date: 'Review date',
+  text: 'Review text (required)',
+  source: 'Source',
+  location: 'Location',
+  url: 'Review URL',
+  language: 'Language',
+  tags: 'Tags'
+};
+
+const ENCODINGS = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252'];
+
+const DELIMITERS: Array<{ value: string; label: string }> = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' }
+];
+
+export function CsvImportPanel({ workspaceId, locations, batches: initialBatches }: Props) {
+  const [file, setFile] = useState<File | null>(null);
+  const [locationId, setLocationId] = useState(locations[0]?.id ?? '');
+  const [mode, setMode] = useState<ImportMode>('skip');
+  const [settings, setSettings] = useState<Settings>({});
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [batches, setBatches] = useState(initialBatches);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  function run(action: () => Promise<void>) {
+    setMessage(null);
+    setError(null);
+    startTransition(async () => {
+      try {
+        await action();
+      } catch (caught) {
+        setError(caught instanceof Error ? caught.message : 'Unexpected error');
+      }
+    });
+  }
+
+  function buildForm(nextSettings: Settings) {
+    const form = new FormData();
+    form.append('workspaceId', workspaceId);
+    if (locationId) form.append('locationId', locationId);
+    form.append('settings', JSON.stringify(nextSettings));
+    if (file) form.append('file', file);
+    return form;
+  }
+
+  function loadPreview(nextSettings: Settings) {
+    if (!file) {
+      setError('Choose a CSV file first.');
+      return;
+    }
+    setSettings(nextSettings);
+    run(async () => {
+      const response = await fetch('/api/reviews/import/preview', { method: 'POST', body: buildForm(nextSettings) });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'Could not read the file');
+      setPreview(json as Preview);
+      setResult(null);
+    });
+  }
+
+  function submit(dryRun: boolean) {
+    if (!preview) return;
+    // pin what the preview detected so the import reads the file exactly the same way
+    const pinned: Settings = {
+      ...settings,
+      encoding: preview.encoding,
+      delimiter: preview.delimiter,
+      mapping: preview.mapping
+    };
+    run(async () => {
+      const form = buildForm(pinned);
+      form.append('mode', mode);
+      if (dryRun) form.append('dryRun', 'true');
+      const response = await fetch('/api/reviews/import', { method: 'POST', body: form });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'CSV import failed');
+      setResult(json as ImportResult);
+      if (dryRun) {
+        setMessage('Dry run finished. Nothing was saved.');
+        return;
+      }
+      setMessage(
+        `CSV import complete. Imported ${json.imported}, updated ${json.updated}, skipped ${json.skipped}, failed ${json.failed}.` +
+          (json.automation?.matches ? ` ${json.automation.matches} automation rule match(es).` : '')
+      );
+      setFile(null);
+      setPreview(null);
+      setSettings({});
+      await refreshBatches();
+    });
+  }
+
+  async function refreshBatches() {
+    const response = await fetch(`/api/workspaces/${workspaceId}/import-batches`, { cache: 'no-store' });
+    if (!response.ok) return;
+    const json = await response.json();
+    setBatches(json.batches as ImportBatchItem[]);
+  }
+
+  function rollback(batch: ImportBatchItem) {
+    if (!window.confirm(`Undo the import of ${batch.fileName}? Reviews it created are deleted with their drafts.`)) return;
+    run(async () => {
+      const response = await fetch(`/api/workspaces/${workspaceId}/import-batches/${batch.id}/rollback`, {
+        method: 'POST'
+      });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'Rollback failed');
+      setBatches((prev) => prev.map((item) => (item.id === batch.id ? (json.batch as ImportBatchItem) : item)));
+      if (result?.batchId === batch.id) setResult(null);
+      setMessage(`Import undone: ${json.deleted} review(s) removed, ${json.restored} restored.`);
+    });
+  }
+
+  const lastBatch = result?.batchId ? batches.find((item) => item.id === result.batchId) : null;
+
+  return (
+    <article className="card space-y-4 p-5">
+      <div>
+        <h2 className="text-lg font-semibold">Import CSV</h2>
+        <p className="mt-1 text-sm text-slate-400">
+          Any export works: preview the file, map its columns to review fields and check the rows before anything is
+          saved. Rows are imported together, and an import can be undone afterwards.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <input
+          className="input"
+          type="file"
+          accept=".csv,.tsv,text/csv,text/plain"
+          onChange={(event) => {
+            setFile(event.target.files?.[0] || null);
+            setPreview(null);
+            setResult(null);
+            setSettings({});
+          }}
+        />
+        <select className="input" value={locationId} onChange={(event) => setLocationId(event.target.value)}>
+          {locations.map((location) => (
+            <option key={location.id} value={location.id}>
+              Default location: {location.name}
+            </option>
+          ))}
+        </select>
+        <button className="btn btn-secondary w-full" type="button" disabled={pending || !file} onClick={() => loadPreview(settings)}>
+          {pending && !preview ? 'Reading...' : preview ? 'Preview again' : 'Preview file'}
+        </button>
+        <a href="/sample-reviews.csv" className="inline-flex text-sm text-blue-300">
+          Download sample CSV
+        </a>
+      </div>
+
+      {preview ? (
+        <div className="space-y-3">
+          {/* other headers after a new encoding or delimiter, so the mapping is suggested again */}
+          <div className="grid gap-2 sm:grid-cols-3">
+            <label className="text-xs text-slate-400">
+              Encoding
+              <select
+                className="input mt-1"
+                value={preview.encoding}
+                onChange={(event) => loadPreview({ ...settings, encoding: event.target.value, mapping: undefined })}
+              >
+                {ENCODINGS.map((encoding) => (
+                  <option key={encoding} value={encoding}>
+                    {encoding}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-slate-400">
+              Delimiter
+              <select
+                className="input mt-1"
+                value={preview.delimiter}
+                onChange={(event) => loadPreview({ ...settings, delimiter: event.target.value, mapping: undefined })}
+              >
+                {DELIMITERS.map((delimiter) => (
+                  <option key={delimiter.label} value={delimiter.value}>
+                    {delimiter.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-slate-400">
+              Source for rows without one
+              <select
+                className="input mt-1"
+                value={preview.defaultSource ?? ''}
+                onChange={(event) =>
+                  loadPreview({
+                    ...settings,
+                    mapping: preview.mapping,
+                    defaultSource: (event.target.value || undefined) as ReviewSource | undefined
+                  })
+                }
+              >
+                <option value="">OTHER</option>
+                {Object.values(ReviewSource).map((source) => (
+                  <option key={source} value={source}>
+                    {source}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="grid gap-2 sm:grid-cols-2">
+            {preview.fields.map((field) => (
+              <label key={field} className="text-xs text-slate-400">
+                {FIELD_LABELS[field] ?? field}
+                <select
+                  className="input mt-1"
+                  value={preview.mapping[field] ?? ''}
+                  onChange={(event) =>
+                    loadPreview({ ...settings, mapping: { ...preview.mapping, [field]: event.target.value || null } })
+                  }
+                >
+                  <option value="">Not in this file</option>
+                  {preview.headers.map((header) => (
+                    <option key={header} value={header}>
+                      {header}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <p className="text-sm text-slate-300">
+            {preview.valid} of {preview.total} row(s) are ready to import.
+          </p>
+          {preview.missing.length ? (
+            <p className="rounded-lg border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-sm text-amber-200">
+              Map a column to {preview.missing.join(' and ')} to import this file.
+            </p>
+          ) : null}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs">
+              <thead className="text-slate-400">
+                <tr>
+                  <th className="py-1 pr-2">Row</th>
+                  <th className="py-1 pr-2">Author</th>
+                  <th className="py-1 pr-2">Rating</th>
+                  <th className="py-1 pr-2">Date</th>
+                  <th className="py-1 pr-2">Source</th>
+                  <th className="py-1">Text</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.sample.map((item) => (
+                  <tr key={item.row} className="border-t border-slate-800 align-top">
+                    <td className="py-1 pr-2">{item.row}</td>
+                    {item.review ? (
+                      <>
+                        <td className="py-1 pr-2">{item.review.authorName}</td>
+                        <td className="py-1 pr-2">{item.review.rating}</td>
+                        <td className="py-1 pr-2">{new Date(item.review.reviewDate).toLocaleDateString()}</td>
+                        <td className="py-1 pr-2">{item.review.source}</td>
+                        <td className="py-1">{item.review.text}</td>
+                      </>
+                    ) : (
+                      <td className="py-1 text-rose-300" colSpan={5}>
+                        {item.error}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {preview.errors.length ? (
+            <details className="text-sm text-rose-300">
+              <summary>{preview.errors.length} row(s) will be skipped</summary>
+              <ul className="mt-2 space-y-1 text-xs">
+                {preview.errors.map((item) => (
+                  <li key={item.row}>
+                    Row {item.row}: {item.message}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          ) : null}
+
+          <select className="input" value={mode} onChange={(event) => setMode(event.target.value as ImportMode)}>
+            {(Object.keys(MODE_LABELS) as ImportMode[]).map((item) => (
+              <option key={item} value={item}>
+                {MODE_LABELS[item]}
+              </option>
+            ))}
+          </select>
+          <div className="flex flex-wrap gap-2">
+            <button
+              className="btn btn-secondary"
+              type="button"
+              disabled={pending || !!preview.missing.length}
+              onClick={() => submit(true)}
+            >
+              Dry run
+            </button>
+            <button
+              className="btn btn-primary"
+              type="button"
+              disabled={pending || !!preview.missing.length || !preview.valid}
+              onClick={() => submit(false)}
+            >
+              {pending ? 'Importing...' : `Import ${preview.valid} row(s)`}
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {result ? (
+        <div className="space-y-2 rounded-lg border border-slate-800 p-3 text-sm">
+          <p className="text-slate-300">
+            {result.dryRun ? 'Would import' : 'Imported'} {result.imported}, {result.dryRun ? 'update' : 'updated'}{' '}
+            {result.updated}, skip {result.skipped}, fail {result.failed}.
+          </p>
+          {result.report.length ? (
+            <ul className="space-y-1 text-slate-300">
+              {result.report.map((item) => (
+                <li key={item.row}>
+                  Row {item.row}: {OUTCOME_LABELS[item.outcome]}{' '}
+                  <a className="text-blue-300" href={`/w/${workspaceId}/reviews/${item.duplicateOfId}`}>
+                    existing review
+                  </a>{' '}
+                  <span className="text-xs text-slate-400">
+                    {item.match === 'externalId' ? '(same id)' : `(${Math.round(item.similarity * 100)}% similar text)`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : null}
+          {result.errors.length ? (
+            <ul className="space-y-1 text-xs text-rose-300">
+              {result.errors.map((item) => (
+                <li key={item.row}>
+                  Row {item.row}: {item.message}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+          {lastBatch && !lastBatch.rolledBackAt ? (
+            <button className="btn btn-secondary" type="button" disabled={pending} onClick={() => rollback(lastBatch)}>
+              Undo this import
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+
+      {batches.length ? (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Recent imports</h3>
+          <ul className="space-y-1 text-xs text-slate-400">
+            {batches.map((batch) => (
+              <li key={batch.id} className="flex flex-wrap items-center justify-between gap-2">
+                <span>
+                  {batch.fileName} - {new Date(batch.createdAt).toLocaleString()}
+                  {batch.createdBy ? ` by ${batch.createdBy}` : ''}: {batch.created} new, {batch.updated} updated,{' '}
+                  {batch.skipped} skipped
+                  {batch.rolledBackAt ? ` (undone ${new Date(batch.rolledBackAt).toLocaleString()})` : ''}
+                </span>
+                {batch.rolledBackAt ? null : (
+                  <button className="btn btn-secondary" type="button" disabled={pending} onClick={() => rollback(batch)}>
+                    Undo
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {message ? <p className="text-sm text-emerald-300">{message}</p> : null}
+      {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+    </article>
+  );
+}
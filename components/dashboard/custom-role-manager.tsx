@@ -0,0 +1,234 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+
+export type CustomRoleOption = {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  memberCount: number;
+};
+
+type Props = {
+  workspaceId: string;
+  roles: CustomRoleOption[];
+  // permission key -> description, from lib/permissions.ts
+  catalogue: Record<string, string>;
+  defaults: Record<string, string[]>;
+  allowed: boolean;
+  canEdit: boolean;
+};
+
+const TEMPLATES = ['ADMIN', 'MEMBER', 'CLIENT'];
+
+export function CustomRoleManager({ workspaceId, roles: initialRoles, catalogue, defaults, allowed, canEdit }: Props) {
+  const [roles, setRoles] = useState(initialRoles);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [permissions, setPermissions] = useState<string[]>(defaults.MEMBER ?? []);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  const editable = allowed && canEdit;
+  const groups = Object.keys(catalogue).reduce<Record<string, string[]>>((acc, key) => {
+    const group = key.split('.')[0];
+    acc[group] = [...(acc[group] ?? []), key];
+    return acc;
+  }, {});
+
+  function run(action: () => Promise<void>) {
+    setMessage(null);
+    setError(null);
+    startTransition(async () => {
+      try {
+        await action();
+      } catch (caught) {
+        setError(caught instanceof Error ? caught.message : 'Unexpected error');
+      }
+    });
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setName('');
+    setDescription('');
+    setPermissions(defaults.MEMBER ?? []);
+  }
+
+  function save() {
+    run(async () => {
+      const response = await fetch(
+        editingId ? `/api/workspaces/${workspaceId}/roles/${editingId}` : `/api/workspaces/${workspaceId}/roles`,
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name, description: description || null, permissions })
+        }
+      );
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'Failed to save role');
+      setRoles((prev) =>
+        editingId ? prev.map((item) => (item.id === editingId ? json : item)) : [...prev, json as CustomRoleOption]
+      );
+      setMessage(editingId ? 'Role updated.' : 'Role created.');
+      resetForm();
+    });
+  }
+
+  function remove(role: CustomRoleOption) {
+    run(async () => {
+      const response = await fetch(`/api/workspaces/${workspaceId}/roles/${role.id}`, { method: 'DELETE' });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'Failed to delete role');
+      setRoles((prev) => prev.filter((item) => item.id !== role.id));
+      if (editingId === role.id) resetForm();
+      setMessage('Role deleted. Its members are back on their default permissions.');
+    });
+  }
+
+  return (
+    <section className="card space-y-4 p-4">
+      <div>
+        <h2 className="text-lg font-semibold">Custom roles</h2>
+        <p className="mt-1 text-sm text-slate-400">
+          A custom role replaces the default permissions of the admins and members it is assigned to on the Team page.
+          Owners always keep every permission.
+        </p>
+        {!allowed ? (
+          <p className="mt-3 rounded-lg border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-sm text-amber-200">
+            Custom roles are available on the Agency plan.
+          </p>
+        ) : null}
+      </div>
+
+      <div className="space-y-2">
+        {roles.length ? (
+          roles.map((role) => (
+            <article key={role.id} className="rounded-lg border border-slate-800 p-3">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <p className="text-sm font-medium">
+                    {role.name} <span className="text-xs text-slate-400">({role.memberCount} members)</span>
+                  </p>
+                  {role.description ? <p className="text-xs text-slate-400">{role.description}</p> : null}
+                </div>
+                {editable ? (
+                  <div className="flex gap-2">
+                    <button
+                      className="btn btn-secondary"
+                      type="button"
+                      disabled={pending}
+                      onClick={() => {
+                        setEditingId(role.id);
+                        setName(role.name);
+                        setDescription(role.description ?? '');
+                        setPermissions(role.permissions);
+                      }}
+                    >
+                      Edit
+                    </button>
+                    <button className="btn btn-secondary" type="button" disabled={pending} onClick={() => remove(role)}>
+                      Delete
+                    </button>
+                  </div>
+                ) : null}
+              </div>
+              <div className="mt-2 flex flex-wrap gap-1">
+                {role.permissions.map((permission) => (
+                  <span key={permission} className="badge">
+                    {permission}
+                  </span>
+                ))}
+              </div>
+            </article>
+          ))
+        ) : (
+          <p className="text-sm text-slate-400">No custom roles yet.</p>
+        )}
+      </div>
+
+      {editable ? (
+        <div className="space-y-3 rounded-lg border border-slate-800 p-3">
+          <p className="text-sm font-medium">{editingId ? 'Edit role' : 'New role'}</p>
+          <div className="flex flex-wrap gap-2">
+            <input
+              className="input max-w-xs"
+              placeholder="Role name (e.g. Pharmacist)"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+            <input
+              className="input max-w-md"
+              placeholder="Description (optional)"
+              value={description}
+              onChange={(event) => setDescription(event.target.value)}
+            />
+            <select
+              className="input max-w-[200px]"
+              value=""
+              onChange={(event) => {
+                if (event.target.value) setPermissions(defaults[event.target.value] ?? []);
+              }}
+            >
+              <option value="">Start from...</option>
+              {TEMPLATES.map((role) => (
+                <option key={role} value={role}>
+                  {role.toLowerCase()} defaults
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid gap-3 md:grid-cols-2">
+            {Object.entries(groups).map(([group, keys]) => (
+              <fieldset key={group} className="rounded-lg border border-slate-800 bg-slate-950/50 p-3">
+                <legend className="px-1 text-xs uppercase tracking-wide text-slate-400">{group}</legend>
+                <div className="space-y-1 text-sm text-slate-300">
+                  {keys.map((key) => (
+                    <label key={key} className="flex items-start gap-2">
+                      <input
+                        type="checkbox"
+                        className="mt-1"
+                        checked={permissions.includes(key)}
+                        onChange={(event) =>
+                          setPermissions((prev) =>
+                            event.target.checked ? [...prev, key] : prev.filter((item) => item !== key)
+                          )
+                        }
+                      />
+                      <span>
+                        {catalogue[key]} <span className="text-xs text-slate-500">{key}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              className="btn btn-primary"
+              type="button"
+              disabled={pending || name.trim().length < 2}
+              onClick={save}
+            >
+              {pending ? 'Saving...' : editingId ? 'Save role' : 'Create role'}
+            </button>
+            {editingId ? (
+              <button className="btn btn-secondary" type="button" onClick={resetForm}>
+                Cancel
+              </button>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+
+      {message ? <p className="text-sm text-emerald-300">{message}</p> : null}
+      {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+    </section>
+  );
+}
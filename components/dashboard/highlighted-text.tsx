@@ -0,0 +1,18 @@
+import type { HighlightSegment } from '@/lib/review-search';
+
+/** Renders a search snippet, marking the words that matched the query. */
+export function HighlightedText({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.highlight ? (
+          <mark key={index} className="rounded bg-amber-400/25 px-0.5 text-amber-100">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
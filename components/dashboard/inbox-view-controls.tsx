@@ -0,0 +1,219 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useState, useTransition } from 'react';
+
+type Filters = Record<string, string | number>;
+
+type ActiveView = {
+  id: string;
+  name: string;
+  filters: Filters;
+  shared: boolean;
+  isDefault: boolean;
+  canEdit: boolean;
+  owner: { name: string | null; email: string };
+};
+
+type Props = {
+  workspaceId: string;
+  filters: Filters;
+  view: ActiveView | null;
+  canShare: boolean;
+};
+
+async function readJson(response: Response, fallback: string) {
+  const json = await response.json();
+  if (!response.ok) throw new Error(json.error || fallback);
+  return json;
+}
+
+function sameFilters(a: Filters, b: Filters) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every((key) => String(a[key] ?? '') === String(b[key] ?? ''));
+}
+
+/** Saves the current inbox filters as a named view, or updates, shares and deletes the open one. */
+export function InboxViewControls({ workspaceId, filters, view, canShare }: Props) {
+  const router = useRouter();
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const [makeDefault, setMakeDefault] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  const modified = view ? !sameFilters(view.filters, filters) : false;
+
+  function run(action: () => Promise<void>) {
+    setMessage(null);
+    setError(null);
+    startTransition(async () => {
+      try {
+        await action();
+      } catch (caught) {
+        setError(caught instanceof Error ? caught.message : 'Unexpected error');
+      }
+    });
+  }
+
+  async function setDefault(viewId: string | null) {
+    await readJson(
+      await fetch(`/api/workspaces/${workspaceId}/inbox-views/default`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ viewId })
+      }),
+      'Failed to update the default view'
+    );
+  }
+
+  function saveNew() {
+    run(async () => {
+      const created = await readJson(
+        await fetch(`/api/workspaces/${workspaceId}/inbox-views`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name, filters, shared })
+        }),
+        'Failed to save view'
+      );
+      if (makeDefault) await setDefault(created.id);
+      setName('');
+      setShared(false);
+      setMakeDefault(false);
+      router.push(created.href);
+      router.refresh();
+    });
+  }
+
+  function update() {
+    if (!view) return;
+    run(async () => {
+      const updated = await readJson(
+        await fetch(`/api/workspaces/${workspaceId}/inbox-views/${view.id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: view.name, filters, shared: view.shared })
+        }),
+        'Failed to update view'
+      );
+      router.push(updated.href);
+      router.refresh();
+      setMessage(`"${updated.name}" now uses these filters.`);
+    });
+  }
+
+  function toggleShared() {
+    if (!view) return;
+    run(async () => {
+      await readJson(
+        await fetch(`/api/workspaces/${workspaceId}/inbox-views/${view.id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: view.name, filters: view.filters, shared: !view.shared })
+        }),
+        'Failed to update view'
+      );
+      router.refresh();
+      setMessage(view.shared ? 'The view is personal again.' : 'The view is now shared with the workspace.');
+    });
+  }
+
+  function toggleDefault() {
+    if (!view) return;
+    run(async () => {
+      await setDefault(view.isDefault ? null : view.id);
+      router.refresh();
+      setMessage(view.isDefault ? 'The inbox opens without filters again.' : `The inbox now opens with "${view.name}".`);
+    });
+  }
+
+  function remove() {
+    if (!view || !window.confirm(`Delete the view "${view.name}"?`)) return;
+    run(async () => {
+      await readJson(
+        await fetch(`/api/workspaces/${workspaceId}/inbox-views/${view.id}`, { method: 'DELETE' }),
+        'Failed to delete view'
+      );
+      router.push(`/w/${workspaceId}/inbox?view=all`);
+      router.refresh();
+    });
+  }
+
+  function copyLink() {
+    run(async () => {
+      await navigator.clipboard.writeText(window.location.href);
+      setMessage('Link copied. It opens the inbox with these filters.');
+    });
+  }
+
+  return (
+    <section className="card space-y-3 p-4">
+      {view ? (
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <p className="text-sm font-medium">
+              {view.name}
+              {view.shared ? <span className="badge ml-2">Shared</span> : null}
+              {view.isDefault ? <span className="badge ml-2">Default</span> : null}
+            </p>
+            <p className="text-xs text-slate-400">
+              {view.shared ? `Shared by ${view.owner.name || view.owner.email}. ` : ''}
+              {modified ? 'The filters were changed since the view was saved.' : 'Showing the saved filters.'}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {view.canEdit && modified ? (
+              <button className="btn btn-primary" type="button" disabled={pending} onClick={update}>
+                Update view
+              </button>
+            ) : null}
+            <button className="btn btn-secondary" type="button" disabled={pending} onClick={toggleDefault}>
+              {view.isDefault ? 'Remove default' : 'Make default'}
+            </button>
+            {view.canEdit && canShare ? (
+              <button className="btn btn-secondary" type="button" disabled={pending} onClick={toggleShared}>
+                {view.shared ? 'Stop sharing' : 'Share with workspace'}
+              </button>
+            ) : null}
+            {view.canEdit ? (
+              <button className="btn btn-secondary" type="button" disabled={pending} onClick={remove}>
+                Delete
+              </button>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          className="input w-auto flex-1"
+          placeholder={view ? 'Save these filters as a new view' : 'Name these filters, e.g. Unanswered 1-2 stars'}
+          value={name}
+          maxLength={60}
+          onChange={(event) => setName(event.target.value)}
+        />
+        {canShare ? (
+          <label className="inline-flex items-center gap-2 text-sm text-slate-300">
+            <input type="checkbox" checked={shared} onChange={(event) => setShared(event.target.checked)} />
+            Share with workspace
+          </label>
+        ) : null}
+        <label className="inline-flex items-center gap-2 text-sm text-slate-300">
+          <input type="checkbox" checked={makeDefault} onChange={(event) => setMakeDefault(event.target.checked)} />
+          Open inbox with it
+        </label>
+        <button className="btn btn-primary" type="button" disabled={pending || !name.trim()} onClick={saveNew}>
+          {pending ? 'Saving...' : 'Save view'}
+        </button>
+        <button className="btn btn-secondary" type="button" disabled={pending} onClick={copyLink}>
+          Copy link
+        </button>
+      </div>
+
+      {message ? <p className="text-sm text-emerald-300">{message}</p> : null}
+      {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+    </section>
+  );
+}
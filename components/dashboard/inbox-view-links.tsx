@@ -0,0 +1,78 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname, useSearchParams } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+
+type ViewLink = {
+  id: string;
+  name: string;
+  href: string;
+  shared: boolean;
+  isDefault: boolean;
+};
+
+/**
+ * Saved inbox views under the workspace navigation. On the inbox page it also loads the number
+ * of reviews each view shows; other pages skip those queries.
+ */
+export function InboxViewLinks({ workspaceId, views }: { workspaceId: string; views: ViewLink[] }) {
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const onInbox = pathname === `/w/${workspaceId}/inbox`;
+  const activeId = onInbox ? searchParams.get('view') : null;
+  // null for views that are not counted (semantic searches, long lists)
+  const [counts, setCounts] = useState<Record<string, number | null> | null>(null);
+  const query = searchParams.toString();
+
+  useEffect(() => {
+    if (!onInbox) return;
+    let canceled = false;
+    fetch(`/api/workspaces/${workspaceId}/inbox-views?counts=true`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((json: { views: Array<{ id: string; count: number | null }> } | null) => {
+        if (!canceled && json) setCounts(Object.fromEntries(json.views.map((view) => [view.id, view.count])));
+      })
+      .catch(() => undefined);
+    return () => {
+      canceled = true;
+    };
+    // refetched after navigating within the inbox, where views may have been saved or changed
+  }, [onInbox, workspaceId, query]);
+
+  return (
+    <div className="mt-3 border-t border-slate-800 pt-3">
+      <p className="px-3 pb-1 text-xs uppercase tracking-wide text-slate-500">Saved views</p>
+      <nav className="grid gap-1">
+        <Link
+          href={`/w/${workspaceId}/inbox?view=all`}
+          className={cn(
+            'rounded-lg px-3 py-1.5 text-sm text-slate-300 transition hover:bg-slate-800 hover:text-slate-100',
+            activeId === 'all' ? 'bg-slate-800 text-slate-100' : ''
+          )}
+        >
+          All reviews
+        </Link>
+        {views.map((view) => (
+          <Link
+            key={view.id}
+            href={view.href}
+            title={view.shared ? 'Shared with the workspace' : 'Only visible to you'}
+            className={cn(
+              'flex items-center justify-between gap-2 rounded-lg px-3 py-1.5 text-sm text-slate-300 transition hover:bg-slate-800 hover:text-slate-100',
+              activeId === view.id ? 'bg-slate-800 text-slate-100' : ''
+            )}
+          >
+            <span className="truncate">
+              {view.name}
+              {view.isDefault ? <span className="ml-1 text-xs text-slate-500">(default)</span> : null}
+            </span>
+            {onInbox && counts ? <span className="badge shrink-0 text-xs">{counts[view.id] ?? '-'}</span> : null}
+          </Link>
+        ))}
+      </nav>
+      {!views.length ? <p className="px-3 pt-1 text-xs text-slate-500">Save inbox filters to list them here.</p> : null}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { FormEvent, useEffect, useMemo, useState, useTransition } from 'react';
+import { pollJob } from '@/lib/job-client';
 
 type MedicationItem = {
   id: string;
@@ -163,9 +164,9 @@ export function MedicationHub({
   const [error, setError] = useState<string | null>(null);
   const [message, setMessage] = useState<string | null>(null);
   const [pending, startTransition] = useTransition();
-  const [forecastProvider, setForecastProvider] = useState<'openai' | 'claude' | 'gemini'>('openai');
+  const [forecastProvider, setForecastProvider] = useState<'openai' | 'claude' | 'gemini' | 'local' | 'mock'>('openai');
   const [forecastHorizonDays, setForecastHorizonDays] = useState(30);
-  const [digestProvider, setDigestProvider] = useState<'openai' | 'claude' | 'gemini'>('openai');
+  const [digestProvider, setDigestProvider] = useState<'openai' | 'claude' | 'gemini' | 'local' | 'mock'>('openai');
   const [digestHorizonDays, setDigestHorizonDays] = useState(30);
 
   const [preferenceDraft, setPreferenceDraft] = useState({
@@ -368,7 +369,8 @@ export function MedicationHub({
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             provider: digestProvider,
-            horizonDays: digestHorizonDays
+            horizonDays: digestHorizonDays,
+            async: true
           })
         });
         const json = await response.json();
@@ -376,11 +378,21 @@ export function MedicationHub({
           setError(json.error || 'Nu am putut genera notificarea AI');
           return;
         }
-        setDigest(json.digest);
-        setDigestModel(json.ai?.model || null);
-        setPhonePreview(json.digest?.phoneAlertMessage || null);
+        setMessage('Digest AI in lucru in fundal...');
+        const job = await pollJob(workspaceId, json.job.id, (snapshot) =>
+          setMessage(`Digest AI in lucru in fundal (${snapshot.status.toLowerCase()}, incercarea ${snapshot.attempts}/${snapshot.maxAttempts})...`)
+        );
+        if (job.status !== 'SUCCEEDED') {
+          setMessage(null);
+          setError(job.error || 'Nu am putut genera notificarea AI');
+          return;
+        }
+        const result = job.result as { digest: AIDigestPayload; ai?: { model?: string; fallbackRulesUsed?: boolean } };
+        setDigest(result.digest);
+        setDigestModel(result.ai?.model || null);
+        setPhonePreview(result.digest?.phoneAlertMessage || null);
         setMessage(
-          json.ai?.fallbackRulesUsed
+          result.ai?.fallbackRulesUsed
             ? 'Digest salvat cu fallback pe reguli interne (AI partial).'
             : 'Digest AI generat: lista lipsuri, riscuri si pasi pentru personal.'
         );
@@ -632,6 +644,8 @@ export function MedicationHub({
                 <option value="openai">OpenAI</option>
                 <option value="claude">Claude</option>
                 <option value="gemini">Gemini</option>
+                <option value="local">Local (server propriu)</option>
+                <option value="mock">Mock (fara retea)</option>
               </select>
               <input
                 className="input"
@@ -701,6 +715,8 @@ export function MedicationHub({
                 <option value="openai">OpenAI</option>
                 <option value="claude">Claude</option>
                 <option value="gemini">Gemini</option>
+                <option value="local">Local (server propriu)</option>
+                <option value="mock">Mock (fara retea)</option>
               </select>
               <input
                 className="input"
@@ -7,13 +7,16 @@ import { cn } from '@/lib/utils';
 type NavItem = {
   href: string;
   label: string;
+  // hidden unless the member holds this permission, see lib/permissions.ts
+  permission: string;
 };
 
-export function NavLinks({ items }: { items: NavItem[] }) {
+export function NavLinks({ items, permissions }: { items: NavItem[]; permissions: string[] }) {
   const pathname = usePathname();
+  const visible = items.filter((item) => permissions.includes(item.permission));
   return (
     <nav className="grid gap-1">
-      {items.map((item) => {
+      {visible.map((item) => {
         const isActive = pathname === item.href || pathname.startsWith(`${item.href}/`);
         return (
           <Link
@@ -108,7 +108,7 @@ export function PsychosocialProfileManager({ workspaceId, initialProfiles }: Pro
   const [pending, startTransition] = useTransition();
   const [message, setMessage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [aiProvider, setAiProvider] = useState<'openai' | 'claude' | 'gemini'>('openai');
+  const [aiProvider, setAiProvider] = useState<'openai' | 'claude' | 'gemini' | 'local' | 'mock'>('openai');
   const [lastModel, setLastModel] = useState<string | null>(null);
 
   const [form, setForm] = useState({
@@ -291,6 +291,8 @@ export function PsychosocialProfileManager({ workspaceId, initialProfiles }: Pro
             <option value="openai">OpenAI</option>
             <option value="claude">Claude</option>
             <option value="gemini">Gemini</option>
+            <option value="local">Local (server propriu)</option>
+            <option value="mock">Mock (fara retea)</option>
           </select>
           <span className="text-xs text-slate-400">Model curent: {lastModel || 'inca nefolosit'}</span>
         </div>
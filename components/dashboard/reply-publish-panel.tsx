@@ -0,0 +1,152 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { JobSnapshot, pollJob } from '@/lib/job-client';
+
+export type PublishTarget = {
+  publisher: 'MANUAL' | 'WEBHOOK';
+  label: string;
+  sourceName: string | null;
+};
+
+type Props = {
+  workspaceId: string;
+  reviewId: string;
+  status: string;
+  approvedReply: string | null;
+  sentAt: string | null;
+  sentBy: string | null;
+  externalReplyId: string | null;
+  publishError: string | null;
+  target: PublishTarget;
+  canPublish: boolean;
+  onPublished: () => Promise<void>;
+};
+
+export function ReplyPublishPanel({
+  workspaceId,
+  reviewId,
+  status,
+  approvedReply,
+  sentAt,
+  sentBy,
+  externalReplyId,
+  publishError,
+  target,
+  canPublish,
+  onPublished
+}: Props) {
+  const [job, setJob] = useState<JobSnapshot | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  const publishable = status === 'APPROVED' && !!approvedReply;
+
+  function run(action: () => Promise<void>) {
+    setMessage(null);
+    setError(null);
+    startTransition(async () => {
+      try {
+        await action();
+      } catch (caught) {
+        setError(caught instanceof Error ? caught.message : 'Unexpected error');
+      }
+    });
+  }
+
+  function publish() {
+    run(async () => {
+      const response = await fetch(`/api/reviews/${reviewId}/publish`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workspaceId })
+      });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'Failed to publish');
+
+      if (json.status === 'QUEUED') {
+        const finished = await pollJob(workspaceId, json.job.id, setJob);
+        setJob(null);
+        await onPublished();
+        if (finished.status !== 'SUCCEEDED') throw new Error(finished.error || 'Publishing failed');
+      } else {
+        await onPublished();
+      }
+      setMessage('Reply marked as sent.');
+    });
+  }
+
+  function download() {
+    const blob = new Blob([approvedReply ?? ''], { type: 'text/plain;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `reply-${reviewId}.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <div className="space-y-2 rounded-lg border border-slate-800 bg-slate-950/50 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-medium">Publishing</p>
+        <span className="badge">
+          {target.label}
+          {target.sourceName ? ` - ${target.sourceName}` : ''}
+        </span>
+      </div>
+
+      {status === 'SENT' ? (
+        <p className="text-sm text-slate-300">
+          Sent{sentAt ? ` ${new Date(sentAt).toLocaleString()}` : ''}
+          {sentBy ? ` by ${sentBy}` : ''}
+          {externalReplyId ? <span className="text-xs text-slate-400"> (external id {externalReplyId})</span> : null}
+        </p>
+      ) : publishable ? (
+        <div className="flex flex-wrap gap-2">
+          {target.publisher === 'MANUAL' ? (
+            <>
+              <button
+                className="btn btn-secondary"
+                type="button"
+                onClick={() =>
+                  run(async () => {
+                    await navigator.clipboard.writeText(approvedReply ?? '');
+                    setMessage('Reply copied to clipboard. Mark it as sent once it is posted.');
+                  })
+                }
+              >
+                Copy reply
+              </button>
+              <button className="btn btn-secondary" type="button" onClick={download}>
+                Download .txt
+              </button>
+            </>
+          ) : null}
+          {canPublish ? (
+            <button className="btn btn-primary" type="button" disabled={pending} onClick={publish}>
+              {pending
+                ? job
+                  ? `Publishing (attempt ${Math.max(job.attempts, 1)} of ${job.maxAttempts})...`
+                  : 'Publishing...'
+                : target.publisher === 'MANUAL'
+                  ? 'Mark as sent'
+                  : publishError
+                    ? 'Retry publishing'
+                    : 'Publish reply'}
+            </button>
+          ) : null}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-400">Replies can be published once they are approved.</p>
+      )}
+
+      {publishError && status !== 'SENT' ? (
+        <p className="text-sm text-rose-300">Last publishing attempt failed: {publishError}</p>
+      ) : null}
+      {message ? <p className="text-sm text-emerald-300">{message}</p> : null}
+      {error && error !== publishError ? <p className="text-sm text-rose-300">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+'use client';
+
+import { Sentiment } from '@prisma/client';
+import { useState, useTransition } from 'react';
+
+export type TemplateOption = {
+  id: string;
+  name: string;
+  body: string;
+  locationId: string | null;
+  minRating: number | null;
+  maxRating: number | null;
+  sentiments: Sentiment[];
+  tags: string[];
+  system: boolean;
+};
+
+type LocationOption = {
+  id: string;
+  name: string;
+};
+
+type Props = {
+  workspaceId: string;
+  templates: TemplateOption[];
+  locations: LocationOption[];
+  customAllowed: boolean;
+  canEdit: boolean;
+};
+
+type Draft = {
+  name: string;
+  body: string;
+  locationId: string;
+  minRating: string;
+  maxRating: string;
+  sentiments: Sentiment[];
+  tags: string;
+};
+
+const EMPTY_DRAFT: Draft = { name: '', body: '', locationId: '', minRating: '', maxRating: '', sentiments: [], tags: '' };
+const VARIABLES = ['{{authorName}}', '{{locationName}}', '{{rating}}', '{{signOff}}'];
+
+function toDraft(template: TemplateOption): Draft {
+  return {
+    name: template.name,
+    body: template.body,
+    locationId: template.locationId ?? '',
+    minRating: template.minRating?.toString() ?? '',
+    maxRating: template.maxRating?.toString() ?? '',
+    sentiments: template.sentiments,
+    tags: template.tags.join(', ')
+  };
+}
+
+function describeRules(template: TemplateOption, locations: LocationOption[]) {
+  const rules: string[] = [];
+  if (template.minRating != null || template.maxRating != null) {
+    rules.push(`${template.minRating ?? 1}-${template.maxRating ?? 5} stars`);
+  }
+  if (template.sentiments.length) rules.push(template.sentiments.join('/'));
+  if (template.tags.length) rules.push(`tags: ${template.tags.join(', ')}`);
+  if (template.locationId) {
+    rules.push(locations.find((location) => location.id === template.locationId)?.name ?? 'one location');
+  }
+  return rules.length ? rules.join(' - ') : 'Any review';
+}
+
+export function ReplyTemplateManager({ workspaceId, templates: initialTemplates, locations, customAllowed, canEdit }: Props) {
+  const [templates, setTemplates] = useState(initialTemplates);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  const editable = customAllowed && canEdit;
+
+  function run(action: () => Promise<void>) {
+    setMessage(null);
+    setError(null);
+    startTransition(async () => {
+      try {
+        await action();
+      } catch (caught) {
+        setError(caught instanceof Error ? caught.message : 'Unexpected error');
+      }
+    });
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+  }
+
+  function save() {
+    run(async () => {
+      const response = await fetch(
+        editingId ? `/api/workspaces/${workspaceId}/templates/${editingId}` : `/api/workspaces/${workspaceId}/templates`,
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: draft.name,
+            body: draft.body,
+            locationId: draft.locationId || null,
+            minRating: draft.minRating ? Number(draft.minRating) : null,
+            maxRating: draft.maxRating ? Number(draft.maxRating) : null,
+            sentiments: draft.sentiments,
+            tags: draft.tags
+              .split(',')
+              .map((item) => item.trim())
+              .filter(Boolean)
+          })
+        }
+      );
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'Failed to save template');
+      setTemplates((prev) =>
+        editingId ? prev.map((item) => (item.id === editingId ? json : item)) : [...prev, json as TemplateOption]
+      );
+      setMessage(editingId ? 'Template updated.' : 'Template created.');
+      resetForm();
+    });
+  }
+
+  function remove(template: TemplateOption) {
+    run(async () => {
+      const response = await fetch(`/api/workspaces/${workspaceId}/templates/${template.id}`, { method: 'DELETE' });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'Failed to delete template');
+      setTemplates((prev) => prev.filter((item) => item.id !== template.id));
+      if (editingId === template.id) resetForm();
+      setMessage('Template deleted.');
+    });
+  }
+
+  return (
+    <section className="card space-y-4 p-5">
+      <div>
+        <h2 className="text-lg font-semibold">Reply templates</h2>
+        <p className="mt-1 text-sm text-slate-400">
+          Fill a reply draft without using an AI generation. Supported placeholders: {VARIABLES.join(', ')}.
+        </p>
+        {!customAllowed ? (
+          <p className="mt-3 rounded-lg border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-sm text-amber-200">
+            The Free plan includes the system templates below. Upgrade to Pro or Agency to create your own.
+          </p>
+        ) : null}
+      </div>
+
+      <div className="space-y-2">
+        {templates.map((template) => (
+          <article key={template.id} className="rounded-lg border border-slate-800 p-3">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <p className="text-sm font-medium">
+                  {template.name} {template.system ? <span className="badge ml-1">System</span> : null}
+                </p>
+                <p className="text-xs text-slate-400">{describeRules(template, locations)}</p>
+              </div>
+              {editable && !template.system ? (
+                <div className="flex gap-2">
+                  <button
+                    className="btn btn-secondary"
+                    type="button"
+                    disabled={pending}
+                    onClick={() => {
+                      setEditingId(template.id);
+                      setDraft(toDraft(template));
+                    }}
+                  >
+                    Edit
+                  </button>
+                  <button className="btn btn-secondary" type="button" disabled={pending} onClick={() => remove(template)}>
+                    Delete
+                  </button>
+                </div>
+              ) : null}
+            </div>
+            <p className="mt-2 whitespace-pre-wrap text-sm text-slate-300">{template.body}</p>
+          </article>
+        ))}
+      </div>
+
+      {editable ? (
+        <div className="space-y-3 rounded-lg border border-slate-800 p-3">
+          <p className="text-sm font-medium">{editingId ? 'Edit template' : 'New template'}</p>
+          <div className="grid gap-3 md:grid-cols-2">
+            <input
+              className="input"
+              placeholder="Template name"
+              value={draft.name}
+              onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+            />
+            <select
+              className="input"
+              value={draft.locationId}
+              onChange={(event) => setDraft((prev) => ({ ...prev, locationId: event.target.value }))}
+            >
+              <option value="">All locations</option>
+              {locations.map((location) => (
+                <option key={location.id} value={location.id}>
+                  {location.name}
+                </option>
+              ))}
+            </select>
+            <textarea
+              className="input min-h-[120px] md:col-span-2"
+              placeholder="Hi {{authorName}}, thank you for visiting {{locationName}}..."
+              value={draft.body}
+              onChange={(event) => setDraft((prev) => ({ ...prev, body: event.target.value }))}
+            />
+            <div className="flex gap-2">
+              <select
+                className="input"
+                value={draft.minRating}
+                onChange={(event) => setDraft((prev) => ({ ...prev, minRating: event.target.value }))}
+              >
+                <option value="">Min rating</option>
+                {[1, 2, 3, 4, 5].map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="input"
+                value={draft.maxRating}
+                onChange={(event) => setDraft((prev) => ({ ...prev, maxRating: event.target.value }))}
+              >
+                <option value="">Max rating</option>
+                {[1, 2, 3, 4, 5].map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <input
+              className="input"
+              placeholder="Match tags (comma separated)"
+              value={draft.tags}
+              onChange={(event) => setDraft((prev) => ({ ...prev, tags: event.target.value }))}
+            />
+            <div className="flex flex-wrap gap-3 text-sm text-slate-300 md:col-span-2">
+              {Object.values(Sentiment).map((value) => (
+                <label key={value} className="inline-flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={draft.sentiments.includes(value)}
+                    onChange={(event) =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        sentiments: event.target.checked
+                          ? [...prev.sentiments, value]
+                          : prev.sentiments.filter((item) => item !== value)
+                      }))
+                    }
+                  />
+                  {value}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              className="btn btn-primary"
+              type="button"
+              disabled={pending || !draft.name.trim() || !draft.body.trim()}
+              onClick={save}
+            >
+              {pending ? 'Saving...' : editingId ? 'Save template' : 'Create template'}
+            </button>
+            {editingId ? (
+              <button className="btn btn-secondary" type="button" onClick={resetForm}>
+                Cancel
+              </button>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+
+      {message ? <p className="text-sm text-emerald-300">{message}</p> : null}
+      {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+    </section>
+  );
+}
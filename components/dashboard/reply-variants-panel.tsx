@@ -0,0 +1,306 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+
+type ProviderKey = 'openai' | 'claude' | 'gemini' | 'local' | 'mock';
+type LengthKey = 'short' | 'medium' | 'long';
+type ToneKey = 'FRIENDLY' | 'PROFESSIONAL' | 'WARM' | 'FUNNY' | 'CALM';
+
+export type VariantGeneration = {
+  id: string;
+  provider: string;
+  model: string;
+  length: string;
+  tone: string | null;
+  targetLanguage: string | null;
+  replyText: string;
+  variantGroupId: string | null;
+  variantLabel: string | null;
+  selectedAt: string | null;
+};
+
+type GeneratedVariant = Pick<VariantGeneration, 'id' | 'provider' | 'model' | 'replyText' | 'tone'>;
+
+type VariantSpec = {
+  provider: ProviderKey;
+  length: LengthKey;
+  tone: ToneKey | '';
+};
+
+type Props = {
+  workspaceId: string;
+  reviewId: string;
+  initialGroupId: string | null;
+  initialVariants: VariantGeneration[];
+  escalation: boolean;
+  targetLanguage: string;
+  disabled: boolean;
+  onDraftChanged: () => Promise<void>;
+};
+
+const MAX_VARIANTS = 4;
+const TONES: ToneKey[] = ['FRIENDLY', 'PROFESSIONAL', 'WARM', 'FUNNY', 'CALM'];
+const DEFAULT_SPECS: VariantSpec[] = [
+  { provider: 'openai', length: 'medium', tone: '' },
+  { provider: 'openai', length: 'medium', tone: 'WARM' },
+  { provider: 'openai', length: 'short', tone: 'PROFESSIONAL' }
+];
+
+function specFromGeneration(generation: VariantGeneration): VariantSpec {
+  return {
+    provider: generation.provider.toLowerCase() as ProviderKey,
+    length: (generation.length as LengthKey) || 'medium',
+    tone: (generation.tone as ToneKey | null) ?? ''
+  };
+}
+
+export function ReplyVariantsPanel({
+  workspaceId,
+  reviewId,
+  initialGroupId,
+  initialVariants,
+  escalation,
+  targetLanguage,
+  disabled,
+  onDraftChanged
+}: Props) {
+  const [specs, setSpecs] = useState<VariantSpec[]>(DEFAULT_SPECS);
+  const [groupId, setGroupId] = useState(initialGroupId);
+  const [variants, setVariants] = useState(initialVariants);
+  const [failures, setFailures] = useState<string[]>([]);
+  const [mergeIds, setMergeIds] = useState<string[]>([]);
+  const [mergedText, setMergedText] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  function run(action: () => Promise<void>) {
+    setMessage(null);
+    setError(null);
+    startTransition(async () => {
+      try {
+        await action();
+      } catch (caught) {
+        setError(caught instanceof Error ? caught.message : 'Unexpected error');
+      }
+    });
+  }
+
+  async function requestVariants(requested: VariantSpec[], variantGroupId?: string) {
+    const response = await fetch(`/api/reviews/${reviewId}/variants`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        workspaceId,
+        escalation,
+        variantGroupId,
+        variants: requested.map((spec) => ({
+          provider: spec.provider,
+          length: spec.length,
+          tone: spec.tone || undefined,
+          targetLanguage: targetLanguage || undefined
+        }))
+      })
+    });
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to generate variants');
+    return json as {
+      variantGroupId: string;
+      results: Array<
+        | { status: 'generated'; label: string; generation: GeneratedVariant }
+        | { status: 'failed'; label: string; error: string }
+      >;
+    };
+  }
+
+  function toVariant(
+    result: { label: string; generation: GeneratedVariant },
+    spec: VariantSpec,
+    variantGroupId: string
+  ): VariantGeneration {
+    return {
+      ...result.generation,
+      length: spec.length,
+      targetLanguage: targetLanguage || null,
+      variantGroupId,
+      variantLabel: result.label,
+      selectedAt: null
+    };
+  }
+
+  function generateAll() {
+    run(async () => {
+      const json = await requestVariants(specs);
+      const next: VariantGeneration[] = [];
+      const failed: string[] = [];
+      json.results.forEach((result, index) => {
+        if (result.status === 'generated') next.push(toVariant(result, specs[index], json.variantGroupId));
+        else failed.push(`${result.label}: ${result.error}`);
+      });
+      setGroupId(json.variantGroupId);
+      setVariants(next);
+      setFailures(failed);
+      setMergeIds([]);
+      setMergedText(null);
+      setMessage(`Generated ${next.length} of ${specs.length} variant(s).`);
+    });
+  }
+
+  function regenerate(variant: VariantGeneration) {
+    run(async () => {
+      const spec = specFromGeneration(variant);
+      const json = await requestVariants([spec], groupId ?? undefined);
+      const [result] = json.results;
+      if (result.status === 'failed') throw new Error(`${result.label}: ${result.error}`);
+      setVariants((prev) => prev.map((item) => (item.id === variant.id ? toVariant(result, spec, json.variantGroupId) : item)));
+      setMergeIds((prev) => prev.filter((id) => id !== variant.id));
+      setMessage('Variant regenerated.');
+    });
+  }
+
+  function select(generationIds: string[], text?: string) {
+    run(async () => {
+      const response = await fetch(`/api/reviews/${reviewId}/variants/select`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workspaceId, generationIds, mergedText: text })
+      });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'Failed to select variant');
+      const selectedAt = new Date().toISOString();
+      setVariants((prev) => prev.map((item) => (generationIds.includes(item.id) ? { ...item, selectedAt } : item)));
+      setMergedText(null);
+      setMergeIds([]);
+      setMessage(text ? 'Merged reply saved as draft.' : 'Variant saved as draft.');
+      await onDraftChanged();
+    });
+  }
+
+  function startMerge() {
+    const selected = variants.filter((item) => mergeIds.includes(item.id));
+    setMergedText(selected.map((item) => item.replyText).join('\n\n'));
+  }
+
+  function updateSpec(index: number, patch: Partial<VariantSpec>) {
+    setSpecs((prev) => prev.map((spec, position) => (position === index ? { ...spec, ...patch } : spec)));
+  }
+
+  const busy = pending || disabled;
+
+  return (
+    <section className="card space-y-4 p-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold">Reply variants</h2>
+          <p className="text-sm text-slate-400">Generate up to {MAX_VARIANTS} variants, compare them side by side, then pick or merge.</p>
+        </div>
+        <button className="btn btn-primary" disabled={busy || !specs.length} onClick={generateAll}>
+          {pending ? 'Running...' : `Generate ${specs.length} variant(s)`}
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {specs.map((spec, index) => (
+          <div key={index} className="grid gap-2 md:grid-cols-[1fr_1fr_1fr_auto]">
+            <select className="input" value={spec.provider} onChange={(e) => updateSpec(index, { provider: e.target.value as ProviderKey })}>
+              <option value="openai">OpenAI</option>
+              <option value="claude">Claude</option>
+              <option value="gemini">Gemini</option>
+              <option value="local">Local (self-hosted)</option>
+              <option value="mock">Mock (offline)</option>
+            </select>
+            <select className="input" value={spec.length} onChange={(e) => updateSpec(index, { length: e.target.value as LengthKey })}>
+              <option value="short">Short</option>
+              <option value="medium">Medium</option>
+              <option value="long">Long</option>
+            </select>
+            <select className="input" value={spec.tone} onChange={(e) => updateSpec(index, { tone: e.target.value as ToneKey | '' })}>
+              <option value="">Brand voice tone</option>
+              {TONES.map((tone) => (
+                <option key={tone} value={tone}>
+                  {tone.toLowerCase()}
+                </option>
+              ))}
+            </select>
+            <button
+              className="btn btn-secondary"
+              disabled={specs.length === 1}
+              onClick={() => setSpecs((prev) => prev.filter((_, position) => position !== index))}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        {specs.length < MAX_VARIANTS ? (
+          <button className="btn btn-secondary" onClick={() => setSpecs((prev) => [...prev, { ...prev[prev.length - 1] }])}>
+            Add variant
+          </button>
+        ) : null}
+      </div>
+
+      {variants.length ? (
+        <div className={`grid gap-3 ${variants.length > 2 ? 'lg:grid-cols-3' : 'lg:grid-cols-2'}`}>
+          {variants.map((variant) => (
+            <article key={variant.id} className="flex flex-col gap-3 rounded-lg border border-slate-800 p-3">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="text-sm font-medium">{variant.variantLabel || variant.provider}</p>
+                  <p className="text-xs text-slate-400">{variant.model}</p>
+                </div>
+                {variant.selectedAt ? <span className="badge text-emerald-300">Selected</span> : null}
+              </div>
+              <p className="flex-1 whitespace-pre-wrap text-sm leading-6 text-slate-100">{variant.replyText}</p>
+              <label className="inline-flex items-center gap-2 text-xs text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={mergeIds.includes(variant.id)}
+                  onChange={(e) =>
+                    setMergeIds((prev) => (e.target.checked ? [...prev, variant.id] : prev.filter((id) => id !== variant.id)))
+                  }
+                />
+                Include in merge
+              </label>
+              <div className="flex gap-2">
+                <button className="btn btn-primary" disabled={busy} onClick={() => select([variant.id])}>
+                  Use this
+                </button>
+                <button className="btn btn-secondary" disabled={busy} onClick={() => regenerate(variant)}>
+                  Regenerate
+                </button>
+              </div>
+            </article>
+          ))}
+        </div>
+      ) : null}
+
+      {mergeIds.length > 1 && mergedText === null ? (
+        <button className="btn btn-secondary" disabled={busy} onClick={startMerge}>
+          Merge {mergeIds.length} variants
+        </button>
+      ) : null}
+
+      {mergedText !== null ? (
+        <div className="space-y-2">
+          <label className="block text-sm text-slate-300">Merged reply (edit before saving)</label>
+          <textarea className="input min-h-[160px]" value={mergedText} onChange={(e) => setMergedText(e.target.value)} />
+          <div className="flex gap-2">
+            <button className="btn btn-primary" disabled={busy || !mergedText.trim()} onClick={() => select(mergeIds, mergedText)}>
+              Save merged draft
+            </button>
+            <button className="btn btn-secondary" onClick={() => setMergedText(null)}>
+              Cancel merge
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {failures.map((failure) => (
+        <p key={failure} className="text-sm text-rose-300">
+          {failure}
+        </p>
+      ))}
+      {message ? <p className="text-sm text-emerald-300">{message}</p> : null}
+      {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+    </section>
+  );
+}
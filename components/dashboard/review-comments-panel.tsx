@@ -0,0 +1,281 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+
+type CommentAuthor = {
+  id: string;
+  name: string | null;
+  email: string;
+};
+
+export type ReviewCommentPayload = {
+  id: string;
+  parentId: string | null;
+  body: string | null;
+  author: CommentAuthor;
+  mentions: Array<{ id: string; label: string }>;
+  createdAt: string;
+  editedAt: string | null;
+  deletedAt: string | null;
+  canEdit: boolean;
+  canDelete: boolean;
+};
+
+export type ReviewCommentThread = ReviewCommentPayload & { replies: ReviewCommentPayload[] };
+
+type MentionOption = {
+  id: string;
+  label: string;
+  email: string;
+};
+
+type Props = {
+  reviewId: string;
+  comments: ReviewCommentThread[];
+  members: MentionOption[];
+};
+
+const MENTION_PATTERN = /(@[^\s@]+@[^\s@]+\.[a-z]{2,})/gi;
+
+function renderBody(body: string) {
+  return body.split(MENTION_PATTERN).map((part, index) =>
+    index % 2 === 1 ? (
+      <span key={index} className="rounded bg-blue-500/20 px-1 text-blue-200">
+        {part}
+      </span>
+    ) : (
+      part
+    )
+  );
+}
+
+export function ReviewCommentsPanel({ reviewId, comments: initialComments, members }: Props) {
+  const [comments, setComments] = useState(initialComments);
+  const [body, setBody] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  function run(action: () => Promise<void>) {
+    setError(null);
+    startTransition(async () => {
+      try {
+        await action();
+      } catch (caught) {
+        setError(caught instanceof Error ? caught.message : 'Unexpected error');
+      }
+    });
+  }
+
+  async function reload() {
+    const response = await fetch(`/api/reviews/${reviewId}/comments`);
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to load comments');
+    setComments(json.comments);
+  }
+
+  function submit(text: string, parentId: string | null, onDone: () => void) {
+    run(async () => {
+      const response = await fetch(`/api/reviews/${reviewId}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body: text, parentId })
+      });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'Failed to post comment');
+      onDone();
+      await reload();
+    });
+  }
+
+  function saveEdit(commentId: string) {
+    run(async () => {
+      const response = await fetch(`/api/reviews/${reviewId}/comments/${commentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body: editBody })
+      });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'Failed to update comment');
+      setEditingId(null);
+      await reload();
+    });
+  }
+
+  function remove(commentId: string) {
+    run(async () => {
+      const response = await fetch(`/api/reviews/${reviewId}/comments/${commentId}`, { method: 'DELETE' });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'Failed to delete comment');
+      await reload();
+    });
+  }
+
+  function mentionPicker(onPick: (handle: string) => void) {
+    if (!members.length) return null;
+    return (
+      <select
+        className="input max-w-[200px]"
+        value=""
+        onChange={(event) => {
+          if (event.target.value) onPick(`@${event.target.value} `);
+        }}
+      >
+        <option value="">@ Mention...</option>
+        {members.map((member) => (
+          <option key={member.id} value={member.email}>
+            {member.label}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  function renderComment(comment: ReviewCommentPayload) {
+    if (comment.deletedAt) {
+      return <p className="text-sm italic text-slate-500">Comment deleted.</p>;
+    }
+    return (
+      <div className="space-y-1">
+        <p className="text-xs text-slate-400">
+          {comment.author.name || comment.author.email} - {new Date(comment.createdAt).toISOString().slice(0, 16).replace('T', ' ')}
+          {comment.editedAt ? ' (edited)' : ''}
+        </p>
+        {editingId === comment.id ? (
+          <div className="space-y-2">
+            <textarea className="input min-h-[80px]" value={editBody} onChange={(e) => setEditBody(e.target.value)} />
+            <div className="flex gap-2">
+              <button
+                className="btn btn-primary"
+                type="button"
+                disabled={pending || !editBody.trim()}
+                onClick={() => saveEdit(comment.id)}
+              >
+                Save
+              </button>
+              <button className="btn btn-secondary" type="button" onClick={() => setEditingId(null)}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <p className="whitespace-pre-wrap text-sm text-slate-200">{renderBody(comment.body ?? '')}</p>
+        )}
+        <div className="flex gap-3 text-xs">
+          {comment.canEdit && editingId !== comment.id ? (
+            <button
+              type="button"
+              className="text-blue-300"
+              onClick={() => {
+                setEditingId(comment.id);
+                setEditBody(comment.body ?? '');
+              }}
+            >
+              Edit
+            </button>
+          ) : null}
+          {comment.canDelete ? (
+            <button type="button" className="text-rose-300" disabled={pending} onClick={() => remove(comment.id)}>
+              Delete
+            </button>
+          ) : null}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <section className="card space-y-4 p-5">
+      <div>
+        <h2 className="text-lg font-semibold">Internal comments</h2>
+        <p className="mt-1 text-sm text-slate-400">
+          Visible to workspace members only and never published or exported with the reply. Mention a teammate with
+          @their-email.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        {comments.length ? (
+          comments.map((thread) => (
+            <article key={thread.id} className="space-y-3 rounded-lg border border-slate-800 bg-slate-950/50 p-3">
+              {renderComment(thread)}
+              {thread.replies.length ? (
+                <div className="space-y-3 border-l border-slate-800 pl-4">
+                  {thread.replies.map((reply) => (
+                    <div key={reply.id}>{renderComment(reply)}</div>
+                  ))}
+                </div>
+              ) : null}
+              {replyTo === thread.id ? (
+                <div className="space-y-2 pl-4">
+                  <textarea
+                    className="input min-h-[70px]"
+                    placeholder="Reply to this thread"
+                    value={replyBody}
+                    onChange={(e) => setReplyBody(e.target.value)}
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      className="btn btn-primary"
+                      type="button"
+                      disabled={pending || !replyBody.trim()}
+                      onClick={() =>
+                        submit(replyBody, thread.id, () => {
+                          setReplyBody('');
+                          setReplyTo(null);
+                        })
+                      }
+                    >
+                      Reply
+                    </button>
+                    {mentionPicker((handle) => setReplyBody((prev) => `${prev}${handle}`))}
+                    <button className="btn btn-secondary" type="button" onClick={() => setReplyTo(null)}>
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  className="text-xs text-blue-300"
+                  onClick={() => {
+                    setReplyTo(thread.id);
+                    setReplyBody('');
+                  }}
+                >
+                  Reply
+                </button>
+              )}
+            </article>
+          ))
+        ) : (
+          <p className="text-sm text-slate-400">No comments yet.</p>
+        )}
+      </div>
+
+      <div className="space-y-2 border-t border-slate-800 pt-4">
+        <textarea
+          className="input min-h-[90px]"
+          placeholder="Start a discussion, e.g. @manager@example.com should we offer a refund?"
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+        />
+        <div className="flex flex-wrap gap-2">
+          <button
+            className="btn btn-primary"
+            type="button"
+            disabled={pending || !body.trim()}
+            onClick={() => submit(body, null, () => setBody(''))}
+          >
+            {pending ? 'Posting...' : 'Post comment'}
+          </button>
+          {mentionPicker((handle) => setBody((prev) => `${prev}${handle}`))}
+        </div>
+      </div>
+      {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+    </section>
+  );
+}
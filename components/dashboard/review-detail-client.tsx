@@ -1,8 +1,17 @@
 'use client';
 
-import { useMemo, useState, useTransition } from 'react';
+import { useMemo, useRef, useState, useTransition } from 'react';
 import { Sentiment } from '@prisma/client';
+import { ApprovalProgress, ApprovalStatePayload } from '@/components/dashboard/approval-progress';
+import { ComplianceReport, ComplianceReportPayload } from '@/components/dashboard/compliance-report';
 import { StatusPill, SentimentPill } from '@/components/dashboard/pills';
+import { ReplyVariantsPanel, VariantGeneration } from '@/components/dashboard/reply-variants-panel';
+import { PublishTarget, ReplyPublishPanel } from '@/components/dashboard/reply-publish-panel';
+import { ReviewCommentsPanel, ReviewCommentThread } from '@/components/dashboard/review-comments-panel';
+import { TagInput, TagOption } from '@/components/dashboard/tag-input';
+import { readEventStream } from '@/lib/sse-client';
+
+type ReviewAspectItem = { aspect: string; sentiment: Sentiment; quote: string | null };
 
 type ReviewPayload = {
   id: string;
@@ -17,12 +26,20 @@ type ReviewPayload = {
   status: string;
   tags: string[];
   sentiment: Sentiment;
+  aspects: ReviewAspectItem[];
   replyDraft: string | null;
   approvedReply: string | null;
   draftedBy: { id: string; name: string | null; email: string } | null;
   draftedAt: string | null;
   approvedBy: { id: string; name: string | null; email: string } | null;
   approvedAt: string | null;
+  sentBy: { id: string; name: string | null; email: string } | null;
+  sentAt: string | null;
+  externalReplyId: string | null;
+  publishError: string | null;
+  assigneeId: string | null;
+  dueAt: string | null;
+  approval?: ApprovalStatePayload;
   auditLogs: Array<{
     id: string;
     action: string;
@@ -30,39 +47,91 @@ type ReviewPayload = {
     actor: { id: string; name: string | null; email: string };
     metadata: unknown;
   }>;
-  generations: Array<{
-    id: string;
-    provider: string;
-    model: string;
-    promptVersion: string;
-    createdAt: string;
-    inputTokens: number | null;
-    outputTokens: number | null;
-    estimatedCostUsd: string | null;
-  }>;
+  generations: Array<
+    VariantGeneration & {
+      promptVersion: string;
+      createdAt: string;
+      inputTokens: number | null;
+      outputTokens: number | null;
+      estimatedCostUsd: string | null;
+    }
+  >;
+};
+
+type TemplateChoice = {
+  id: string;
+  name: string;
+  matches: boolean;
+};
+
+type MemberOption = {
+  id: string;
+  label: string;
+  email: string;
 };
 
 type Props = {
   workspaceId: string;
-  role: 'OWNER' | 'ADMIN' | 'MEMBER';
+  // permission keys of the current member, see lib/permissions.ts
+  permissions: string[];
+  currentUserId: string;
   review: ReviewPayload;
+  templates: TemplateChoice[];
+  // active taxonomy tags for autocomplete
+  tagOptions: TagOption[];
+  strictTags: boolean;
+  members: MemberOption[];
+  comments: ReviewCommentThread[];
+  approval: ApprovalStatePayload;
+  publishTarget: PublishTarget;
 };
 
-export function ReviewDetailClient({ workspaceId, role, review }: Props) {
+/** Formats an ISO timestamp for a datetime-local input, which expects local wall-clock time. */
+function toLocalInput(value: string | null) {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+export function ReviewDetailClient({
+  workspaceId,
+  permissions,
+  currentUserId,
+  review,
+  templates,
+  tagOptions,
+  strictTags,
+  members,
+  comments,
+  approval: initialApproval,
+  publishTarget
+}: Props) {
   const [state, setState] = useState(review);
   const [replyDraft, setReplyDraft] = useState(review.replyDraft || '');
   const [approvedReply, setApprovedReply] = useState(review.approvedReply || '');
   const [tagsInput, setTagsInput] = useState(review.tags.join(', '));
   const [sentiment, setSentiment] = useState<Sentiment>(review.sentiment);
-  const [provider, setProvider] = useState<'openai' | 'claude' | 'gemini'>('openai');
+  const [aspects, setAspects] = useState<ReviewAspectItem[]>(review.aspects);
+  const [provider, setProvider] = useState<'openai' | 'claude' | 'gemini' | 'local' | 'mock'>('openai');
   const [length, setLength] = useState<'short' | 'medium' | 'long'>('medium');
   const [targetLanguage, setTargetLanguage] = useState('');
   const [escalation, setEscalation] = useState(true);
+  const [templateId, setTemplateId] = useState(templates[0]?.id ?? '');
+  const [assigneeId, setAssigneeId] = useState(review.assigneeId ?? '');
+  const [dueAt, setDueAt] = useState(toLocalInput(review.dueAt));
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [pending, startTransition] = useTransition();
+  const [streaming, setStreaming] = useState(false);
+  const [approval, setApproval] = useState(initialApproval);
+  const [rejectReason, setRejectReason] = useState('');
+  const [compliance, setCompliance] = useState<{ text: string; report: ComplianceReportPayload } | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
 
-  const canApprove = role === 'OWNER' || role === 'ADMIN';
+  const canManage = permissions.includes('reviews.assign');
+  const isOverdue =
+    !!state.dueAt && new Date(state.dueAt).getTime() < Date.now() && (state.status === 'NEW' || state.status === 'DRAFTED');
+  const latestVariantGroupId = review.generations.find((item) => item.variantGroupId)?.variantGroupId ?? null;
   const parsedTags = useMemo(
     () =>
       tagsInput
@@ -81,6 +150,23 @@ export function ReviewDetailClient({ workspaceId, role, review }: Props) {
     setApprovedReply(next.approvedReply || '');
     setTagsInput(next.tags.join(', '));
     setSentiment(next.sentiment);
+    setAssigneeId(next.assigneeId ?? '');
+    setDueAt(toLocalInput(next.dueAt));
+    if (next.approval) setApproval(next.approval);
+  }
+
+  function saveAssignment(body: { assigneeId?: string | null; dueAt?: string | null }, message: string) {
+    withAction(async () => {
+      const response = await fetch(`/api/reviews/${state.id}/assignment`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workspaceId, ...body })
+      });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'Failed to update assignment');
+      setStatusMessage(message);
+      await refreshReview();
+    });
   }
 
   function withAction(action: () => Promise<void>) {
@@ -95,6 +181,65 @@ export function ReviewDetailClient({ workspaceId, role, review }: Props) {
     });
   }
 
+  async function streamReply() {
+    setStatusMessage(null);
+    setErrorMessage(null);
+    const previousDraft = replyDraft;
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+    setStreaming(true);
+    setReplyDraft('');
+    setCompliance(null);
+
+    try {
+      const response = await fetch('/api/reviews/generate/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          workspaceId,
+          reviewId: state.id,
+          provider,
+          length,
+          targetLanguage: targetLanguage || undefined,
+          escalation
+        }),
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        const json = await response.json();
+        throw new Error(json.error || 'Failed to generate');
+      }
+
+      let completed = false;
+      await readEventStream(response, ({ event, data }) => {
+        const payload = data as { text?: string; reply?: string; error?: string; compliance?: ComplianceReportPayload };
+        if (event === 'token') {
+          setReplyDraft((prev) => prev + (payload.text ?? ''));
+        } else if (event === 'done') {
+          completed = true;
+          setReplyDraft(payload.reply ?? '');
+          setCompliance(payload.compliance ? { text: payload.reply ?? '', report: payload.compliance } : null);
+        } else if (event === 'error') {
+          throw new Error(payload.error || 'Failed to generate');
+        }
+      });
+      if (!completed) throw new Error('Generation stopped before completion');
+
+      setStatusMessage('Reply draft generated.');
+      await refreshReview();
+    } catch (error) {
+      setReplyDraft(previousDraft);
+      if (controller.signal.aborted) {
+        setStatusMessage('Generation canceled. The previous draft was kept.');
+      } else {
+        setErrorMessage(error instanceof Error ? error.message : 'Unexpected error');
+      }
+    } finally {
+      streamAbortRef.current = null;
+      setStreaming(false);
+    }
+  }
+
   return (
     <div className="space-y-5">
       <section className="card p-5">
@@ -113,6 +258,68 @@ export function ReviewDetailClient({ workspaceId, role, review }: Props) {
         <p className="mt-4 whitespace-pre-wrap text-sm leading-6 text-slate-100">{state.text}</p>
       </section>
 
+      <section className="card space-y-3 p-5">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-lg font-semibold">Assignment</h2>
+          {isOverdue ? <span className="badge border-rose-500/40 text-rose-300">Overdue</span> : null}
+        </div>
+        <div className="grid gap-3 md:grid-cols-3">
+          <select
+            className="input"
+            value={assigneeId}
+            disabled={!canManage}
+            onChange={(e) => setAssigneeId(e.target.value)}
+          >
+            <option value="">Unassigned</option>
+            {members.map((member) => (
+              <option key={member.id} value={member.id}>
+                {member.label}
+              </option>
+            ))}
+          </select>
+          <input
+            className="input"
+            type="datetime-local"
+            value={dueAt}
+            disabled={!canManage}
+            onChange={(e) => setDueAt(e.target.value)}
+          />
+          <div className="flex gap-2">
+            {canManage ? (
+              <button
+                disabled={pending}
+                className="btn btn-secondary"
+                onClick={() =>
+                  saveAssignment(
+                    { assigneeId: assigneeId || null, dueAt: dueAt ? new Date(dueAt).toISOString() : null },
+                    'Assignment saved.'
+                  )
+                }
+              >
+                Save assignment
+              </button>
+            ) : null}
+            {state.assigneeId === currentUserId ? (
+              <button
+                disabled={pending}
+                className="btn btn-secondary"
+                onClick={() => saveAssignment({ assigneeId: null }, 'Review released.')}
+              >
+                Unassign me
+              </button>
+            ) : canManage || !state.assigneeId ? (
+              <button
+                disabled={pending}
+                className="btn btn-secondary"
+                onClick={() => saveAssignment({ assigneeId: currentUserId }, 'Review assigned to you.')}
+              >
+                Assign to me
+              </button>
+            ) : null}
+          </div>
+        </div>
+      </section>
+
       <section className="grid gap-5 lg:grid-cols-2">
         <article className="card space-y-4 p-5">
           <h2 className="text-lg font-semibold">Generate AI reply</h2>
@@ -121,6 +328,8 @@ export function ReviewDetailClient({ workspaceId, role, review }: Props) {
               <option value="openai">OpenAI</option>
               <option value="claude">Claude</option>
               <option value="gemini">Gemini</option>
+              <option value="local">Local (self-hosted)</option>
+              <option value="mock">Mock (offline)</option>
             </select>
             <select className="input" value={length} onChange={(e) => setLength(e.target.value as typeof length)}>
               <option value="short">Short</option>
@@ -138,33 +347,50 @@ export function ReviewDetailClient({ workspaceId, role, review }: Props) {
             <input type="checkbox" checked={escalation} onChange={(e) => setEscalation(e.target.checked)} />
             Enable escalation rules for low ratings/complaints
           </label>
-          <button
-            disabled={pending}
-            className="btn btn-primary"
-            onClick={() =>
-              withAction(async () => {
-                const response = await fetch('/api/reviews/generate', {
-                  method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify({
-                    workspaceId,
-                    reviewId: state.id,
-                    provider,
-                    length,
-                    targetLanguage: targetLanguage || undefined,
-                    escalation
-                  })
-                });
-                const json = await response.json();
-                if (!response.ok) throw new Error(json.error || 'Failed to generate');
-                setReplyDraft(json.reply || '');
-                setStatusMessage('Reply draft generated.');
-                await refreshReview();
-              })
-            }
-          >
-            {pending ? 'Running...' : 'Generate reply'}
-          </button>
+          <div className="flex gap-2">
+            <button disabled={pending || streaming} className="btn btn-primary" onClick={() => void streamReply()}>
+              {streaming ? 'Generating...' : 'Generate reply'}
+            </button>
+            {streaming ? (
+              <button className="btn btn-secondary" onClick={() => streamAbortRef.current?.abort()}>
+                Cancel
+              </button>
+            ) : null}
+          </div>
+          {templates.length ? (
+            <div className="space-y-2 border-t border-slate-800 pt-4">
+              <label className="block text-sm text-slate-300">Or start from a template (no AI generation used)</label>
+              <div className="flex gap-2">
+                <select className="input" value={templateId} onChange={(e) => setTemplateId(e.target.value)}>
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.matches ? `${template.name} (suggested)` : template.name}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  disabled={pending || streaming || !templateId}
+                  className="btn btn-secondary"
+                  onClick={() =>
+                    withAction(async () => {
+                      const response = await fetch(`/api/reviews/${state.id}/apply-template`, {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({ workspaceId, templateId })
+                      });
+                      const json = await response.json();
+                      if (!response.ok) throw new Error(json.error || 'Failed to apply template');
+                      setCompliance(null);
+                      setStatusMessage('Template applied to the draft.');
+                      await refreshReview();
+                    })
+                  }
+                >
+                  Apply template
+                </button>
+              </div>
+            </div>
+          ) : null}
         </article>
 
         <article className="card space-y-4 p-5">
@@ -183,6 +409,7 @@ export function ReviewDetailClient({ workspaceId, role, review }: Props) {
                 if (!response.ok) throw new Error(json.error || 'Failed to suggest tags');
                 setTagsInput((json.suggestion.tags || []).join(', '));
                 setSentiment(json.suggestion.sentiment || 'NEU');
+                setAspects(json.suggestion.aspects || []);
                 setStatusMessage('AI suggestion applied. Save to persist.');
               })
             }
@@ -192,7 +419,7 @@ export function ReviewDetailClient({ workspaceId, role, review }: Props) {
 
           <div>
             <label className="mb-1 block text-sm text-slate-300">Tags (comma separated)</label>
-            <input className="input" value={tagsInput} onChange={(e) => setTagsInput(e.target.value)} />
+            <TagInput value={tagsInput} onChange={setTagsInput} options={tagOptions} strict={strictTags} />
           </div>
 
           <div>
@@ -203,14 +430,47 @@ export function ReviewDetailClient({ workspaceId, role, review }: Props) {
               <option value="NEG">NEG</option>
             </select>
           </div>
+
+          <div>
+            <p className="mb-1 text-sm text-slate-300">Aspects</p>
+            {aspects.length ? (
+              <ul className="space-y-1 text-sm">
+                {aspects.map((item) => (
+                  <li key={item.aspect} className="flex items-center gap-2">
+                    <span className="min-w-[7rem]">{item.aspect}</span>
+                    <SentimentPill value={item.sentiment} />
+                    {item.quote ? <span className="truncate text-xs text-slate-400">&ldquo;{item.quote}&rdquo;</span> : null}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-slate-400">No aspects yet. Run a suggestion to rate staff, price, wait time and more.</p>
+            )}
+          </div>
         </article>
       </section>
 
+      <ReplyVariantsPanel
+        workspaceId={workspaceId}
+        reviewId={state.id}
+        initialGroupId={latestVariantGroupId}
+        initialVariants={latestVariantGroupId ? review.generations.filter((item) => item.variantGroupId === latestVariantGroupId) : []}
+        escalation={escalation}
+        targetLanguage={targetLanguage}
+        disabled={streaming}
+        onDraftChanged={refreshReview}
+      />
+
       <section className="card space-y-4 p-5">
         <h2 className="text-lg font-semibold">Reply editor</h2>
         <div>
           <label className="mb-1 block text-sm text-slate-300">Draft reply</label>
-          <textarea className="input min-h-[140px]" value={replyDraft} onChange={(e) => setReplyDraft(e.target.value)} />
+          <textarea
+            className="input min-h-[140px]"
+            value={replyDraft}
+            readOnly={streaming}
+            onChange={(e) => setReplyDraft(e.target.value)}
+          />
         </div>
         <div>
           <label className="mb-1 block text-sm text-slate-300">Approved reply</label>
@@ -243,52 +503,115 @@ export function ReviewDetailClient({ workspaceId, role, review }: Props) {
             Save edits
           </button>
 
-          {canApprove ? (
+          <button
+            disabled={pending || streaming || !(approvedReply || replyDraft).trim()}
+            className="btn btn-secondary"
+            onClick={() =>
+              withAction(async () => {
+                const text = approvedReply || replyDraft;
+                const response = await fetch(`/api/reviews/${state.id}/compliance`, {
+                  method: 'POST',
+                  headers: { 'Content-Type': 'application/json' },
+                  body: JSON.stringify({ workspaceId, text })
+                });
+                const json = await response.json();
+                if (!response.ok) throw new Error(json.error || 'Failed to check compliance');
+                setCompliance({ text, report: json });
+              })
+            }
+          >
+            Check compliance
+          </button>
+
+          {approval.canApprove ? (
             <button
               disabled={pending}
               className="btn btn-primary"
               onClick={() =>
                 withAction(async () => {
+                  const text = approvedReply || replyDraft;
                   const response = await fetch(`/api/reviews/${state.id}/approve`, {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ workspaceId, approvedReply: approvedReply || replyDraft })
+                    body: JSON.stringify({ workspaceId, approvedReply: text })
                   });
                   const json = await response.json();
+                  if (response.status === 422 && json.details?.violations) {
+                    setCompliance({
+                      text,
+                      report: { mode: 'BLOCK', passed: false, blocking: true, violations: json.details.violations }
+                    });
+                  }
                   if (!response.ok) throw new Error(json.error || 'Failed to approve');
-                  setStatusMessage('Reply approved.');
+                  setCompliance(json.compliance?.violations.length ? { text, report: json.compliance } : null);
+                  setApproval(json.approval);
+                  setStatusMessage(json.status === 'APPROVED' ? 'Reply approved.' : 'Sign-off recorded.');
                   await refreshReview();
                 })
               }
             >
-              Approve reply
+              {approval.lastSignOff ? 'Approve reply' : 'Sign off stage'}
             </button>
           ) : null}
-
-          <button
-            disabled={pending}
-            className="btn btn-secondary"
-            onClick={() =>
-              withAction(async () => {
-                const response = await fetch(`/api/reviews/${state.id}/status`, {
-                  method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify({ workspaceId, status: 'SENT' })
-                });
-                const json = await response.json();
-                if (!response.ok) throw new Error(json.error || 'Failed to mark sent');
-                setStatusMessage('Marked as SENT.');
-                await refreshReview();
-              })
-            }
-          >
-            Mark as sent
-          </button>
         </div>
+        {approval.configured || approval.stages.length > 1 || approval.lastRejection ? <ApprovalProgress approval={approval} /> : null}
+        {approval.canReject ? (
+          <div className="flex flex-wrap gap-2">
+            <input
+              className="input max-w-md"
+              placeholder="Reason for sending back to draft"
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+            />
+            <button
+              disabled={pending || rejectReason.trim().length < 3}
+              className="btn btn-secondary"
+              onClick={() =>
+                withAction(async () => {
+                  const response = await fetch(`/api/reviews/${state.id}/reject`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ workspaceId, reason: rejectReason })
+                  });
+                  const json = await response.json();
+                  if (!response.ok) throw new Error(json.error || 'Failed to reject');
+                  setApproval(json.approval);
+                  setRejectReason('');
+                  setStatusMessage('Reply sent back to draft.');
+                  await refreshReview();
+                })
+              }
+            >
+              Reject
+            </button>
+          </div>
+        ) : null}
+        <ReplyPublishPanel
+          workspaceId={workspaceId}
+          reviewId={state.id}
+          status={state.status}
+          approvedReply={state.approvedReply}
+          sentAt={state.sentAt}
+          sentBy={state.sentBy ? state.sentBy.name || state.sentBy.email : null}
+          externalReplyId={state.externalReplyId}
+          publishError={state.publishError}
+          target={publishTarget}
+          canPublish={permissions.includes('reviews.publish')}
+          onPublished={refreshReview}
+        />
+        {compliance ? <ComplianceReport text={compliance.text} report={compliance.report} /> : null}
         {statusMessage ? <p className="text-sm text-emerald-300">{statusMessage}</p> : null}
         {errorMessage ? <p className="text-sm text-rose-300">{errorMessage}</p> : null}
       </section>
 
+      {permissions.includes('comments.write') ? (
+        <ReviewCommentsPanel
+          reviewId={state.id}
+          comments={comments}
+          members={members.filter((member) => member.id !== currentUserId)}
+        />
+      ) : null}
+
       <section className="grid gap-5 lg:grid-cols-2">
         <article className="card p-5">
           <h2 className="mb-3 text-lg font-semibold">Generation metadata</h2>
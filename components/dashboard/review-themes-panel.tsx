@@ -0,0 +1,122 @@
+'use client';
+
+import Link from 'next/link';
+import { useState, useTransition } from 'react';
+import { pollJob } from '@/lib/job-client';
+
+export type ThemeItem = {
+  id: string;
+  label: string;
+  keywords: string[];
+  reviewCount: number;
+  previousCount: number;
+  trend: 'new' | 'up' | 'down' | 'flat';
+  sentiment: { POS: number; NEU: number; NEG: number };
+  sampleReviewIds: string[];
+  periodStart: string;
+  periodEnd: string;
+  computedAt: string;
+};
+
+type Props = {
+  workspaceId: string;
+  themes: ThemeItem[];
+  windowDays: number;
+  canRefresh: boolean;
+};
+
+const TRENDS: Record<ThemeItem['trend'], { arrow: string; className: string; label: string }> = {
+  new: { arrow: '●', className: 'text-blue-300', label: 'New this period' },
+  up: { arrow: '▲', className: 'text-amber-300', label: 'Mentioned more often' },
+  down: { arrow: '▼', className: 'text-slate-400', label: 'Mentioned less often' },
+  flat: { arrow: '▶', className: 'text-slate-400', label: 'About the same' }
+};
+
+export function ReviewThemesPanel({ workspaceId, themes: initialThemes, windowDays, canRefresh }: Props) {
+  const [themes, setThemes] = useState(initialThemes);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  function refresh() {
+    setMessage(null);
+    setError(null);
+    startTransition(async () => {
+      try {
+        const response = await fetch(`/api/workspaces/${workspaceId}/themes`, { method: 'POST' });
+        const json = await response.json();
+        if (!response.ok) throw new Error(json.error || 'Failed to refresh themes');
+        const job = await pollJob(workspaceId, json.job.id);
+        if (job.status !== 'SUCCEEDED') throw new Error(job.error || 'Theme clustering failed');
+
+        const listed = await fetch(`/api/workspaces/${workspaceId}/themes`, { cache: 'no-store' });
+        const listedJson = await listed.json();
+        if (!listed.ok) throw new Error(listedJson.error || 'Failed to load themes');
+        setThemes(listedJson.themes);
+        setMessage(`Found ${listedJson.themes.length} theme(s).`);
+      } catch (caught) {
+        setError(caught instanceof Error ? caught.message : 'Unexpected error');
+      }
+    });
+  }
+
+  return (
+    <article className="card space-y-3 p-5">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold">Recurring themes</h2>
+          <p className="text-xs text-slate-400">
+            Reviews of the last {windowDays} days grouped by shared tags and aspects, compared with the {windowDays} days
+            before.
+            {themes[0] ? ` Updated ${new Date(themes[0].computedAt).toLocaleString()}.` : ''}
+          </p>
+        </div>
+        {canRefresh ? (
+          <button className="btn btn-secondary" type="button" disabled={pending} onClick={refresh}>
+            {pending ? 'Clustering...' : 'Refresh themes'}
+          </button>
+        ) : null}
+      </div>
+
+      {themes.length ? (
+        <ul className="space-y-2">
+          {themes.map((theme) => {
+            const trend = TRENDS[theme.trend];
+            return (
+              <li key={theme.id} className="rounded-lg border border-slate-800 p-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="text-sm font-medium">{theme.label}</p>
+                  <p className="text-sm">
+                    <span className={trend.className} title={trend.label}>
+                      {trend.arrow}
+                    </span>{' '}
+                    {theme.reviewCount} review(s)
+                    <span className="text-xs text-slate-400"> (was {theme.previousCount})</span>
+                  </p>
+                </div>
+                <p className="mt-1 text-xs text-slate-400">
+                  {theme.keywords.join(', ')} - {theme.sentiment.POS} positive, {theme.sentiment.NEU} neutral,{' '}
+                  {theme.sentiment.NEG} negative
+                </p>
+                <div className="mt-1 flex flex-wrap gap-2 text-xs">
+                  {theme.sampleReviewIds.map((reviewId, index) => (
+                    <Link key={reviewId} className="text-blue-300 hover:underline" href={`/w/${workspaceId}/reviews/${reviewId}`}>
+                      Example {index + 1}
+                    </Link>
+                  ))}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-slate-400">
+          No themes yet. Themes need tag or aspect suggestions on at least a few reviews of the last {windowDays} days.
+        </p>
+      )}
+
+      {message ? <p className="text-sm text-emerald-300">{message}</p> : null}
+      {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+    </article>
+  );
+}
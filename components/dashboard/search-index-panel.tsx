@@ -0,0 +1,75 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { pollJob } from '@/lib/job-client';
+
+export type SearchIndexStatus = {
+  semanticAvailable: boolean;
+  model: string | null;
+  totalReviews: number;
+  indexedReviews: number;
+  pendingJobId: string | null;
+};
+
+type Props = {
+  workspaceId: string;
+  status: SearchIndexStatus;
+  canBuild: boolean;
+};
+
+export function SearchIndexPanel({ workspaceId, status: initialStatus, canBuild }: Props) {
+  const [status, setStatus] = useState(initialStatus);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  function build() {
+    setMessage(null);
+    setError(null);
+    startTransition(async () => {
+      try {
+        const response = await fetch(`/api/workspaces/${workspaceId}/search-index`, { method: 'POST' });
+        const json = await response.json();
+        if (!response.ok) throw new Error(json.error || 'Failed to start indexing');
+        const job = await pollJob(workspaceId, json.job.id, (snapshot) => setProgress(snapshot.progress));
+        setProgress(null);
+        if (job.status !== 'SUCCEEDED') throw new Error(job.error || 'Indexing failed');
+
+        const refreshed = await fetch(`/api/workspaces/${workspaceId}/search-index`, { cache: 'no-store' });
+        const refreshedJson = await refreshed.json();
+        if (!refreshed.ok) throw new Error(refreshedJson.error || 'Failed to load the index status');
+        setStatus(refreshedJson);
+        const result = job.result as { indexed: number };
+        setMessage(`Embedded ${result.indexed} review(s). Reload the search to use them.`);
+      } catch (caught) {
+        setProgress(null);
+        setError(caught instanceof Error ? caught.message : 'Unexpected error');
+      }
+    });
+  }
+
+  if (!status.semanticAvailable) {
+    return (
+      <p className="rounded-lg border border-amber-500/30 bg-amber-500/10 p-3 text-xs text-amber-200">
+        Semantic search needs an embedding model: set OPENAI_API_KEY, or LOCAL_LLM_BASE_URL with LOCAL_EMBEDDING_MODEL.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-slate-800 p-3 text-xs text-slate-400">
+      <span>
+        Semantic index: {status.indexedReviews} of {status.totalReviews} review(s) embedded with {status.model}. New reviews
+        and changed replies are picked up the next time the index is updated.
+      </span>
+      {canBuild ? (
+        <button className="btn btn-secondary" type="button" disabled={pending || Boolean(status.pendingJobId)} onClick={build}>
+          {pending ? `Indexing${progress !== null ? ` ${progress}%` : '...'}` : status.pendingJobId ? 'Indexing...' : 'Update index'}
+        </button>
+      ) : null}
+      {message ? <p className="w-full text-emerald-300">{message}</p> : null}
+      {error ? <p className="w-full text-rose-300">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,467 @@
+'use client';
+
+import { ReviewSource } from '@prisma/client';
+import { useEffect, useState, useTransition } from 'react';
+import { pollJob } from '@/lib/job-client';
+
+type Publisher = 'MANUAL' | 'WEBHOOK';
+type Fetcher = 'CSV_URL' | 'JSON_FEED' | 'WEBHOOK_PUSH';
+
+type SyncState = {
+  fetcher: Fetcher;
+  label: string;
+  pulls: boolean;
+  url: string | null;
+  locationId: string | null;
+  intervalMinutes: number | null;
+  cursor: string | null;
+  lastAttemptAt: string | null;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+  lastResult: { created: number; updated: number; unchanged: number; failed: number } | null;
+};
+
+export type SourceConnectionOption = {
+  id: string;
+  provider: ReviewSource;
+  displayName: string;
+  status: string;
+  publisher: Publisher;
+  publishUrl: string | null;
+  hasPublishSecret: boolean;
+  hasInboundSecret: boolean;
+  inboundPath: string;
+  sync: SyncState | null;
+};
+
+type LocationOption = {
+  id: string;
+  name: string;
+};
+
+type Props = {
+  workspaceId: string;
+  sources: SourceConnectionOption[];
+  locations: LocationOption[];
+  canEdit: boolean;
+};
+
+const PROVIDERS: ReviewSource[] = ['GOOGLE', 'FACEBOOK', 'YELP', 'TRUSTPILOT', 'OTHER'];
+
+const PUBLISHER_LABELS: Record<Publisher, string> = {
+  MANUAL: 'Copy / download, marked sent by hand',
+  WEBHOOK: 'Webhook to your posting service'
+};
+
+const FETCHER_LABELS: Record<Fetcher, string> = {
+  CSV_URL: 'CSV file URL (import format)',
+  JSON_FEED: 'JSON feed',
+  WEBHOOK_PUSH: 'Pushed by webhook'
+};
+
+const INTERVALS: Array<{ value: number | null; label: string }> = [
+  { value: null, label: 'Only when I click Sync now' },
+  { value: 15, label: 'Every 15 minutes' },
+  { value: 60, label: 'Every hour' },
+  { value: 360, label: 'Every 6 hours' },
+  { value: 1440, label: 'Every day' }
+];
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : 'never';
+}
+
+export function SourceConnectionManager({ workspaceId, sources: initialSources, locations, canEdit }: Props) {
+  const [sources, setSources] = useState(initialSources);
+  const [newSource, setNewSource] = useState({ provider: 'GOOGLE' as ReviewSource, displayName: '' });
+  const [editing, setEditing] = useState<{ id: string; section: 'publishing' | 'sync' } | null>(null);
+  const [form, setForm] = useState({ publisher: 'MANUAL' as Publisher, publishUrl: '', publishSecret: '' });
+  const [syncForm, setSyncForm] = useState({
+    fetcher: '' as Fetcher | '',
+    url: '',
+    locationId: '',
+    intervalMinutes: null as number | null
+  });
+  const [syncingId, setSyncingId] = useState<string | null>(null);
+  const [revealed, setRevealed] = useState<{ id: string; secret: string } | null>(null);
+  const [origin, setOrigin] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  useEffect(() => setOrigin(window.location.origin), []);
+
+  function run(action: () => Promise<void>) {
+    setMessage(null);
+    setError(null);
+    startTransition(async () => {
+      try {
+        await action();
+      } catch (caught) {
+        setError(caught instanceof Error ? caught.message : 'Unexpected error');
+      }
+    });
+  }
+
+  async function refreshSources() {
+    const response = await fetch(`/api/workspaces/${workspaceId}/sources`, { cache: 'no-store' });
+    if (!response.ok) return;
+    const json = await response.json();
+    setSources(json.sources as SourceConnectionOption[]);
+  }
+
+  function addSource() {
+    run(async () => {
+      const response = await fetch(`/api/workspaces/${workspaceId}/sources`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newSource)
+      });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'Failed to add source');
+      setSources((prev) => [...prev, json as SourceConnectionOption]);
+      setNewSource((prev) => ({ ...prev, displayName: '' }));
+      setMessage('Source added.');
+    });
+  }
+
+  function saveSource(source: SourceConnectionOption, body: Record<string, unknown>, success: string) {
+    run(async () => {
+      const response = await fetch(`/api/workspaces/${workspaceId}/sources/${source.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'Failed to save source settings');
+      setSources((prev) => prev.map((item) => (item.id === source.id ? (json as SourceConnectionOption) : item)));
+      setEditing(null);
+      setMessage(success);
+    });
+  }
+
+  function syncNow(source: SourceConnectionOption) {
+    run(async () => {
+      setSyncingId(source.id);
+      try {
+        const response = await fetch(`/api/workspaces/${workspaceId}/sources/${source.id}/sync`, { method: 'POST' });
+        const json = await response.json();
+        if (!response.ok) throw new Error(json.error || 'Failed to start sync');
+        const job = await pollJob(workspaceId, json.job.id);
+        await refreshSources();
+        if (job.status !== 'SUCCEEDED') throw new Error(job.error || 'Sync failed');
+        const result = job.result as { created: number; updated: number; unchanged: number; failed: number };
+        setMessage(
+          `Sync complete: ${result.created} new, ${result.updated} updated, ${result.unchanged} unchanged, ${result.failed} skipped.`
+        );
+      } finally {
+        setSyncingId(null);
+      }
+    });
+  }
+
+  function rotateInboundSecret(source: SourceConnectionOption) {
+    if (source.hasInboundSecret && !window.confirm('Rotate the secret? Requests signed with the old one will be refused.')) {
+      return;
+    }
+    run(async () => {
+      const response = await fetch(`/api/workspaces/${workspaceId}/sources/${source.id}/inbound-secret`, {
+        method: 'POST'
+      });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'Failed to create secret');
+      setRevealed({ id: source.id, secret: json.secret as string });
+      setSources((prev) => prev.map((item) => (item.id === source.id ? { ...item, hasInboundSecret: true } : item)));
+      setMessage('New inbound secret created. Copy it now, it will not be shown again.');
+    });
+  }
+
+  return (
+    <section className="card space-y-4 p-5">
+      <div>
+        <h2 className="text-lg font-semibold">Configured sources</h2>
+        <p className="mt-1 text-sm text-slate-400">
+          A source can fetch reviews from a CSV file or JSON feed on a schedule, or accept signed pushes from your own
+          systems, and decides how approved replies are published. The first source of a provider is used for publishing its reviews.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {sources.length ? (
+          sources.map((source) => (
+            <article key={source.id} className="space-y-2 rounded-lg border border-slate-800 p-3">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <p className="text-sm font-medium">
+                    {source.displayName} <span className="text-xs text-slate-400">({source.provider})</span>{' '}
+                    <span className="badge">{source.status}</span>
+                  </p>
+                  <p className="text-xs text-slate-400">
+                    Sync: {source.sync ? source.sync.label : 'manual imports only'}
+                    {source.sync?.url ? ` - ${source.sync.url}` : ''}
+                    {source.sync?.pulls
+                      ? ` - ${INTERVALS.find((item) => item.value === source.sync?.intervalMinutes)?.label ?? `every ${source.sync.intervalMinutes} minutes`}`
+                      : ''}
+                  </p>
+                  {source.sync?.pulls ? (
+                    <p className="text-xs text-slate-400">
+                      Last synced {formatDate(source.sync.lastSyncedAt)}
+                      {source.sync.lastResult
+                        ? ` (${source.sync.lastResult.created} new, ${source.sync.lastResult.updated} updated, ${source.sync.lastResult.failed} skipped)`
+                        : ''}
+                    </p>
+                  ) : null}
+                  {source.sync?.fetcher === 'WEBHOOK_PUSH' ? (
+                    <p className="text-xs text-slate-400">
+                      Inbound URL: <code>{`${origin}${source.inboundPath}`}</code>
+                      {source.hasInboundSecret ? '' : ' (generate a secret to start accepting reviews)'}
+                      {source.sync.lastSyncedAt ? ` - last received ${formatDate(source.sync.lastSyncedAt)}` : ''}
+                    </p>
+                  ) : null}
+                  {revealed?.id === source.id ? (
+                    <p className="break-all rounded-lg border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-xs text-amber-200">
+                      Signing secret: <code>{revealed.secret}</code>
+                    </p>
+                  ) : null}
+                  {source.sync?.lastError ? <p className="text-xs text-rose-300">{source.sync.lastError}</p> : null}
+                  <p className="text-xs text-slate-400">
+                    Publishing: {PUBLISHER_LABELS[source.publisher]}
+                    {source.publisher === 'WEBHOOK' && source.publishUrl ? ` - ${source.publishUrl}` : ''}
+                    {source.publisher === 'WEBHOOK' ? (source.hasPublishSecret ? ' (signed)' : ' (unsigned)') : ''}
+                  </p>
+                </div>
+                {canEdit ? (
+                  <div className="flex flex-wrap gap-2">
+                    {source.sync?.pulls ? (
+                      <button className="btn btn-primary" type="button" disabled={pending} onClick={() => syncNow(source)}>
+                        {syncingId === source.id ? 'Syncing...' : 'Sync now'}
+                      </button>
+                    ) : null}
+                    {source.sync?.fetcher === 'WEBHOOK_PUSH' ? (
+                      <button
+                        className="btn btn-secondary"
+                        type="button"
+                        disabled={pending}
+                        onClick={() => rotateInboundSecret(source)}
+                      >
+                        {source.hasInboundSecret ? 'Rotate secret' : 'Generate secret'}
+                      </button>
+                    ) : null}
+                    <button
+                      className="btn btn-secondary"
+                      type="button"
+                      disabled={pending}
+                      onClick={() => {
+                        setEditing({ id: source.id, section: 'sync' });
+                        setSyncForm({
+                          fetcher: source.sync?.fetcher ?? '',
+                          url: source.sync?.url ?? '',
+                          locationId: source.sync?.locationId ?? '',
+                          intervalMinutes: source.sync?.intervalMinutes ?? null
+                        });
+                      }}
+                    >
+                      Sync settings
+                    </button>
+                    <button
+                      className="btn btn-secondary"
+                      type="button"
+                      disabled={pending}
+                      onClick={() => {
+                        setEditing({ id: source.id, section: 'publishing' });
+                        setForm({ publisher: source.publisher, publishUrl: source.publishUrl ?? '', publishSecret: '' });
+                      }}
+                    >
+                      Publishing settings
+                    </button>
+                  </div>
+                ) : null}
+              </div>
+
+              {editing?.id === source.id && editing.section === 'sync' ? (
+                <div className="space-y-2">
+                  <select
+                    className="input max-w-sm"
+                    value={syncForm.fetcher}
+                    onChange={(event) => setSyncForm((prev) => ({ ...prev, fetcher: event.target.value as Fetcher | '' }))}
+                  >
+                    <option value="">No sync (manual and CSV imports)</option>
+                    {(Object.keys(FETCHER_LABELS) as Fetcher[]).map((fetcher) => (
+                      <option key={fetcher} value={fetcher}>
+                        {FETCHER_LABELS[fetcher]}
+                      </option>
+                    ))}
+                  </select>
+                  {syncForm.fetcher === 'CSV_URL' || syncForm.fetcher === 'JSON_FEED' ? (
+                    <>
+                      <input
+                        className="input"
+                        placeholder={
+                          syncForm.fetcher === 'CSV_URL'
+                            ? 'https://example.com/reviews.csv'
+                            : 'https://example.com/reviews.json (called with ?since=<cursor>)'
+                        }
+                        value={syncForm.url}
+                        onChange={(event) => setSyncForm((prev) => ({ ...prev, url: event.target.value }))}
+                      />
+                      <select
+                        className="input max-w-sm"
+                        value={syncForm.intervalMinutes ?? ''}
+                        onChange={(event) =>
+                          setSyncForm((prev) => ({
+                            ...prev,
+                            intervalMinutes: event.target.value ? Number(event.target.value) : null
+                          }))
+                        }
+                      >
+                        {INTERVALS.map((interval) => (
+                          <option key={interval.label} value={interval.value ?? ''}>
+                            {interval.label}
+                          </option>
+                        ))}
+                      </select>
+                    </>
+                  ) : null}
+                  {syncForm.fetcher ? (
+                    <select
+                      className="input max-w-sm"
+                      value={syncForm.locationId}
+                      onChange={(event) => setSyncForm((prev) => ({ ...prev, locationId: event.target.value }))}
+                    >
+                      <option value="">Items must name their location</option>
+                      {locations.map((location) => (
+                        <option key={location.id} value={location.id}>
+                          Default location: {location.name}
+                        </option>
+                      ))}
+                    </select>
+                  ) : null}
+                  <div className="flex gap-2">
+                    <button
+                      className="btn btn-primary"
+                      type="button"
+                      disabled={pending}
+                      onClick={() =>
+                        saveSource(
+                          source,
+                          {
+                            sync: {
+                              fetcher: syncForm.fetcher || null,
+                              url: syncForm.url || null,
+                              locationId: syncForm.locationId || null,
+                              intervalMinutes: syncForm.intervalMinutes
+                            }
+                          },
+                          'Sync settings saved.'
+                        )
+                      }
+                    >
+                      Save
+                    </button>
+                    <button className="btn btn-secondary" type="button" onClick={() => setEditing(null)}>
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : null}
+
+              {editing?.id === source.id && editing.section === 'publishing' ? (
+                <div className="space-y-2">
+                  <select
+                    className="input max-w-sm"
+                    value={form.publisher}
+                    onChange={(event) => setForm((prev) => ({ ...prev, publisher: event.target.value as Publisher }))}
+                  >
+                    {(Object.keys(PUBLISHER_LABELS) as Publisher[]).map((publisher) => (
+                      <option key={publisher} value={publisher}>
+                        {PUBLISHER_LABELS[publisher]}
+                      </option>
+                    ))}
+                  </select>
+                  {form.publisher === 'WEBHOOK' ? (
+                    <>
+                      <input
+                        className="input"
+                        placeholder="https://posting-service.example.com/replies"
+                        value={form.publishUrl}
+                        onChange={(event) => setForm((prev) => ({ ...prev, publishUrl: event.target.value }))}
+                      />
+                      <input
+                        className="input"
+                        type="password"
+                        placeholder={
+                          source.hasPublishSecret ? 'Signing secret (leave empty to keep the current one)' : 'Signing secret (16+ characters)'
+                        }
+                        value={form.publishSecret}
+                        onChange={(event) => setForm((prev) => ({ ...prev, publishSecret: event.target.value }))}
+                      />
+                    </>
+                  ) : null}
+                  <div className="flex gap-2">
+                    <button
+                      className="btn btn-primary"
+                      type="button"
+                      disabled={pending}
+                      onClick={() =>
+                        saveSource(
+                          source,
+                          {
+                            publisher: form.publisher,
+                            publishUrl: form.publishUrl || null,
+                            // an empty field keeps the stored secret
+                            ...(form.publishSecret ? { publishSecret: form.publishSecret } : {})
+                          },
+                          'Publishing settings saved.'
+                        )
+                      }
+                    >
+                      Save
+                    </button>
+                    <button className="btn btn-secondary" type="button" onClick={() => setEditing(null)}>
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : null}
+            </article>
+          ))
+        ) : (
+          <p className="text-sm text-slate-400">No sources yet. Replies are copied and marked sent by hand.</p>
+        )}
+      </div>
+
+      {canEdit ? (
+        <div className="flex flex-wrap gap-2">
+          <select
+            className="input max-w-[180px]"
+            value={newSource.provider}
+            onChange={(event) => setNewSource((prev) => ({ ...prev, provider: event.target.value as ReviewSource }))}
+          >
+            {PROVIDERS.map((provider) => (
+              <option key={provider} value={provider}>
+                {provider}
+              </option>
+            ))}
+          </select>
+          <input
+            className="input max-w-xs"
+            placeholder="Display name (e.g. Google - Downtown)"
+            value={newSource.displayName}
+            onChange={(event) => setNewSource((prev) => ({ ...prev, displayName: event.target.value }))}
+          />
+          <button
+            className="btn btn-secondary"
+            type="button"
+            disabled={pending || newSource.displayName.trim().length < 2}
+            onClick={addSource}
+          >
+            Add source
+          </button>
+        </div>
+      ) : null}
+
+      {message ? <p className="text-sm text-emerald-300">{message}</p> : null}
+      {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+    </section>
+  );
+}
@@ -2,26 +2,20 @@
 
 import { ReviewSource } from '@prisma/client';
 import { FormEvent, useState, useTransition } from 'react';
+import { CsvImportPanel, ImportBatchItem } from '@/components/dashboard/csv-import-panel';
 
 type LocationOption = {
   id: string;
   name: string;
 };
 
-type SourceOption = {
-  id: string;
-  provider: ReviewSource;
-  displayName: string;
-  status: string;
-};
-
 type Props = {
   workspaceId: string;
   locations: LocationOption[];
-  sources: SourceOption[];
+  batches: ImportBatchItem[];
 };
 
-export function SourceImportPanel({ workspaceId, locations, sources }: Props) {
+export function SourceImportPanel({ workspaceId, locations, batches }: Props) {
   const [manual, setManual] = useState({
     locationId: locations[0]?.id ?? '',
     source: 'GOOGLE' as ReviewSource,
@@ -31,8 +25,6 @@ export function SourceImportPanel({ workspaceId, locations, sources }: Props) {
     reviewDate: new Date().toISOString().slice(0, 10),
     reviewUrl: ''
   });
-  const [csvLocationId, setCsvLocationId] = useState(locations[0]?.id ?? '');
-  const [file, setFile] = useState<File | null>(null);
   const [message, setMessage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [pending, startTransition] = useTransition();
@@ -65,48 +57,15 @@ export function SourceImportPanel({ workspaceId, locations, sources }: Props) {
         setError(json.error || 'Manual import failed');
         return;
       }
-      setMessage('Manual review added.');
+      setMessage(
+        json.automation?.matches ? `Manual review added. ${json.automation.matches} automation rule(s) applied.` : 'Manual review added.'
+      );
       setManual((prev) => ({ ...prev, authorName: '', text: '', reviewUrl: '' }));
     });
   }
 
-  function submitCsv(event: FormEvent) {
-    event.preventDefault();
-    clearNotices();
-    if (!file) {
-      setError('Choose a CSV file first.');
-      return;
-    }
-    startTransition(async () => {
-      const form = new FormData();
-      form.append('workspaceId', workspaceId);
-      if (csvLocationId) form.append('locationId', csvLocationId);
-      form.append('file', file);
-      const response = await fetch('/api/reviews/import', { method: 'POST', body: form });
-      const json = await response.json();
-      if (!response.ok) {
-        setError(json.error || 'CSV import failed');
-        return;
-      }
-      setMessage(`CSV import complete. Imported ${json.imported} row(s), failed ${json.failed}.`);
-      setFile(null);
-    });
-  }
-
   return (
     <div className="space-y-5">
-      <section className="card p-5">
-        <h2 className="text-lg font-semibold">Configured sources</h2>
-        <p className="mt-1 text-sm text-slate-400">Manual imports only in this release (no direct platform API syncing).</p>
-        <div className="mt-3 flex flex-wrap gap-2">
-          {sources.map((source) => (
-            <span key={source.id} className="badge">
-              {source.displayName} ({source.status})
-            </span>
-          ))}
-        </div>
-      </section>
-
       <section className="grid gap-5 lg:grid-cols-2">
         <article className="card p-5">
           <h2 className="text-lg font-semibold">Add review manually</h2>
@@ -171,28 +130,7 @@ export function SourceImportPanel({ workspaceId, locations, sources }: Props) {
           </form>
         </article>
 
-        <article className="card p-5">
-          <h2 className="text-lg font-semibold">Import CSV</h2>
-          <p className="mt-1 text-sm text-slate-400">
-            Required columns: <code>name,rating,date,text,source,location,url</code>
-          </p>
-          <form className="mt-4 space-y-3" onSubmit={submitCsv}>
-            <select className="input" value={csvLocationId} onChange={(event) => setCsvLocationId(event.target.value)}>
-              {locations.map((location) => (
-                <option key={location.id} value={location.id}>
-                  Default location: {location.name}
-                </option>
-              ))}
-            </select>
-            <input className="input" type="file" accept=".csv,text/csv" onChange={(event) => setFile(event.target.files?.[0] || null)} />
-            <button className="btn btn-primary w-full" disabled={pending}>
-              {pending ? 'Importing...' : 'Import CSV'}
-            </button>
-          </form>
-          <a href="/sample-reviews.csv" className="mt-3 inline-flex text-sm text-blue-300">
-            Download sample CSV
-          </a>
-        </article>
+        <CsvImportPanel workspaceId={workspaceId} locations={locations} batches={batches} />
       </section>
 
       {message ? <p className="text-sm text-emerald-300">{message}</p> : null}
@@ -0,0 +1,101 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+
+export type TagOption = {
+  name: string;
+  color: string;
+  synonyms: string[];
+  description: string | null;
+};
+
+type Props = {
+  value: string;
+  onChange: (value: string) => void;
+  options: TagOption[];
+  strict: boolean;
+};
+
+const MAX_SUGGESTIONS = 8;
+
+/** Comma separated tag input that suggests taxonomy tags for the tag being typed. */
+export function TagInput({ value, onChange, options, strict }: Props) {
+  const [focused, setFocused] = useState(false);
+  const parts = value.split(',');
+  const current = parts[parts.length - 1].trim().toLowerCase();
+  const chosen = new Set(parts.slice(0, -1).map((item) => item.trim().toLowerCase()));
+  const byName = useMemo(() => new Map(options.map((option) => [option.name, option])), [options]);
+
+  const needle = current.replace(/\s+/g, '-');
+  const suggestions = needle
+    ? options
+        .filter((option) => !chosen.has(option.name))
+        .filter((option) => option.name.includes(needle) || option.synonyms.some((synonym) => synonym.includes(needle)))
+        .sort((a, b) => Number(b.name.startsWith(needle)) - Number(a.name.startsWith(needle)) || a.name.localeCompare(b.name))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  function pick(name: string) {
+    onChange([...parts.slice(0, -1).map((item) => item.trim()), name].filter(Boolean).join(', ') + ', ');
+  }
+
+  const typed = Array.from(new Set(parts.map((item) => item.trim().toLowerCase().replace(/\s+/g, '-')).filter(Boolean)));
+
+  return (
+    <div className="space-y-2">
+      <input
+        className="input"
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter' && suggestions[0]) {
+            event.preventDefault();
+            pick(suggestions[0].name);
+          }
+        }}
+      />
+      {focused && suggestions.length ? (
+        <div className="flex flex-wrap gap-2">
+          {suggestions.map((option) => (
+            <button
+              key={option.name}
+              type="button"
+              className="badge border-slate-700 bg-slate-950 px-2 py-1 text-xs"
+              title={option.description ?? undefined}
+              // mousedown fires before the input blurs and hides the list
+              onMouseDown={(event) => {
+                event.preventDefault();
+                pick(option.name);
+              }}
+            >
+              <span className="mr-1 inline-block h-2 w-2 rounded-full" style={{ backgroundColor: option.color }} />
+              {option.name}
+            </button>
+          ))}
+        </div>
+      ) : null}
+      {typed.length ? (
+        <div className="flex flex-wrap gap-1">
+          {typed.map((tag) => {
+            const option = byName.get(tag);
+            return (
+              <span
+                key={tag}
+                className={`badge px-2 py-0.5 text-xs ${option ? 'border-slate-700' : strict ? 'border-rose-500/60 text-rose-300' : 'border-slate-800 text-slate-400'}`}
+                title={option ? option.description ?? undefined : 'Not in the tag taxonomy'}
+              >
+                {option ? (
+                  <span className="mr-1 inline-block h-2 w-2 rounded-full" style={{ backgroundColor: option.color }} />
+                ) : null}
+                {tag}
+              </span>
+            );
+          })}
+        </div>
+      ) : null}
+      {strict ? <p className="text-xs text-slate-400">Strict mode: only tags from the workspace taxonomy are accepted.</p> : null}
+    </div>
+  );
+}
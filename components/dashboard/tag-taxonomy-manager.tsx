@@ -0,0 +1,332 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+
+export type TagItem = {
+  id: string;
+  name: string;
+  synonyms: string[];
+  color: string;
+  description: string | null;
+  archived: boolean;
+  reviewCount: number;
+  updatedAt: string;
+};
+
+type Props = {
+  workspaceId: string;
+  tags: TagItem[];
+  strict: boolean;
+  canEdit: boolean;
+};
+
+type Draft = { name: string; synonyms: string; color: string; description: string; archived: boolean };
+
+type RetagCounts = { reviews: number; templates: number; rules: number };
+
+const EMPTY_DRAFT: Draft = { name: '', synonyms: '', color: '#64748b', description: '', archived: false };
+
+function splitList(value: string) {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function describeRetag(updated: RetagCounts) {
+  return `${updated.reviews} review(s), ${updated.templates} template(s) and ${updated.rules} rule(s) updated.`;
+}
+
+async function readJson(response: Response, fallback: string) {
+  const json = await response.json();
+  if (!response.ok) throw new Error(json.error || fallback);
+  return json;
+}
+
+export function TagTaxonomyManager({ workspaceId, tags: initialTags, strict: initialStrict, canEdit }: Props) {
+  const [tags, setTags] = useState(initialTags);
+  const [strict, setStrict] = useState(initialStrict);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  const editing = tags.find((tag) => tag.id === editingId) ?? null;
+
+  function run(action: () => Promise<void>) {
+    setMessage(null);
+    setError(null);
+    startTransition(async () => {
+      try {
+        await action();
+      } catch (caught) {
+        setError(caught instanceof Error ? caught.message : 'Unexpected error');
+      }
+    });
+  }
+
+  async function reload() {
+    const json = await readJson(await fetch(`/api/workspaces/${workspaceId}/tags`, { cache: 'no-store' }), 'Failed to load tags');
+    setTags(json.tags);
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+  }
+
+  function save() {
+    run(async () => {
+      const notes: string[] = [];
+      let name = draft.name;
+      let synonyms = splitList(draft.synonyms);
+      // a new name retags reviews, so it goes through the rename endpoint before the other fields
+      if (editing && draft.name.trim() !== editing.name) {
+        const renamed = await readJson(
+          await fetch(`/api/workspaces/${workspaceId}/tags/${editing.id}/rename`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name: draft.name })
+          }),
+          'Failed to rename tag'
+        );
+        notes.push(`Renamed to "${renamed.tag.name}": ${describeRetag(renamed.updated)}`);
+        name = renamed.tag.name;
+        // the rename keeps the old name as a synonym; the PUT below would drop it again otherwise
+        synonyms = [...synonyms, editing.name];
+      }
+
+      await readJson(
+        await fetch(editing ? `/api/workspaces/${workspaceId}/tags/${editing.id}` : `/api/workspaces/${workspaceId}/tags`, {
+          method: editing ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name,
+            synonyms,
+            color: draft.color,
+            description: draft.description.trim() || null,
+            archived: draft.archived
+          })
+        }),
+        'Failed to save tag'
+      );
+      await reload();
+      setMessage([editing ? 'Tag updated.' : 'Tag created.', ...notes].join(' '));
+      resetForm();
+    });
+  }
+
+  function remove(tag: TagItem) {
+    run(async () => {
+      await readJson(await fetch(`/api/workspaces/${workspaceId}/tags/${tag.id}`, { method: 'DELETE' }), 'Failed to delete tag');
+      setTags((prev) => prev.filter((item) => item.id !== tag.id));
+      setSelected((prev) => prev.filter((id) => id !== tag.id));
+      if (editingId === tag.id) resetForm();
+      setMessage('Tag deleted. Reviews keep it as a free-form tag.');
+    });
+  }
+
+  function merge() {
+    run(async () => {
+      const json = await readJson(
+        await fetch(`/api/workspaces/${workspaceId}/tags/${mergeTargetId}/merge`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ tagIds: selected.filter((id) => id !== mergeTargetId) })
+        }),
+        'Failed to merge tags'
+      );
+      await reload();
+      setSelected([]);
+      setMergeTargetId('');
+      resetForm();
+      setMessage(`Merged ${json.merged.join(', ')} into "${json.tag.name}": ${describeRetag(json.updated)}`);
+    });
+  }
+
+  function toggleStrict(enabled: boolean) {
+    run(async () => {
+      const json = await readJson(
+        await fetch(`/api/workspaces/${workspaceId}/tags/strict-mode`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ enabled })
+        }),
+        'Failed to update strict mode'
+      );
+      setStrict(json.strict);
+      setMessage(json.strict ? 'Strict mode enabled.' : 'Strict mode disabled.');
+    });
+  }
+
+  const mergeSources = selected.filter((id) => id !== mergeTargetId);
+
+  return (
+    <section className="card space-y-4 p-5">
+      <div>
+        <h2 className="text-lg font-semibold">Tag taxonomy</h2>
+        <p className="mt-1 text-sm text-slate-400">
+          AI tag suggestions are mapped onto these tags: a suggested synonym is stored under its tag, so &quot;slow&quot;
+          and &quot;slow-service&quot; can both count as &quot;wait-time&quot;. Renaming or merging tags updates every
+          review, reply template and automation rule in one step.
+        </p>
+        <label className="mt-3 inline-flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={strict}
+            disabled={!canEdit || pending}
+            onChange={(event) => toggleStrict(event.target.checked)}
+          />
+          Strict mode: reviews may only use active taxonomy tags
+        </label>
+      </div>
+
+      {tags.length ? (
+        <ul className="space-y-2">
+          {tags.map((tag) => (
+            <li key={tag.id} className="flex flex-wrap items-start justify-between gap-2 rounded-lg border border-slate-800 p-3">
+              <div className="flex items-start gap-2">
+                {canEdit ? (
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    aria-label={`Select ${tag.name}`}
+                    checked={selected.includes(tag.id)}
+                    onChange={(event) =>
+                      setSelected((prev) => (event.target.checked ? [...prev, tag.id] : prev.filter((id) => id !== tag.id)))
+                    }
+                  />
+                ) : null}
+                <div>
+                  <p className="text-sm font-medium">
+                    <span className="mr-2 inline-block h-2.5 w-2.5 rounded-full" style={{ backgroundColor: tag.color }} />
+                    {tag.name}
+                    {tag.archived ? <span className="badge ml-2">Archived</span> : null}
+                    <span className="ml-2 text-xs text-slate-400">{tag.reviewCount} review(s)</span>
+                  </p>
+                  {tag.description ? <p className="text-xs text-slate-300">{tag.description}</p> : null}
+                  <p className="text-xs text-slate-400">
+                    {tag.synonyms.length ? `Synonyms: ${tag.synonyms.join(', ')}` : 'No synonyms'}
+                  </p>
+                </div>
+              </div>
+              {canEdit ? (
+                <div className="flex gap-2">
+                  <button
+                    className="btn btn-secondary"
+                    type="button"
+                    disabled={pending}
+                    onClick={() => {
+                      setEditingId(tag.id);
+                      setDraft({
+                        name: tag.name,
+                        synonyms: tag.synonyms.join(', '),
+                        color: tag.color,
+                        description: tag.description ?? '',
+                        archived: tag.archived
+                      });
+                    }}
+                  >
+                    Edit
+                  </button>
+                  <button className="btn btn-secondary" type="button" disabled={pending} onClick={() => remove(tag)}>
+                    Delete
+                  </button>
+                </div>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-slate-400">No tags yet. AI suggestions are stored exactly as the model returns them.</p>
+      )}
+
+      {canEdit && selected.length >= 2 ? (
+        <div className="flex flex-wrap items-center gap-2 rounded-lg border border-slate-800 p-3 text-sm">
+          <span>Merge {selected.length} selected tags into</span>
+          <select className="input w-auto" value={mergeTargetId} onChange={(event) => setMergeTargetId(event.target.value)}>
+            <option value="">Choose the tag to keep</option>
+            {tags
+              .filter((tag) => selected.includes(tag.id))
+              .map((tag) => (
+                <option key={tag.id} value={tag.id}>
+                  {tag.name}
+                </option>
+              ))}
+          </select>
+          <button
+            className="btn btn-primary"
+            type="button"
+            disabled={pending || !mergeTargetId || !mergeSources.length}
+            onClick={merge}
+          >
+            Merge
+          </button>
+        </div>
+      ) : null}
+
+      {canEdit ? (
+        <div className="space-y-3 rounded-lg border border-slate-800 p-3">
+          <p className="text-sm font-medium">{editing ? `Edit "${editing.name}"` : 'New tag'}</p>
+          <div className="grid gap-3 md:grid-cols-2">
+            <input
+              className="input"
+              placeholder="Tag, e.g. wait-time"
+              value={draft.name}
+              onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+            />
+            <input
+              className="input"
+              placeholder="Synonyms (comma separated)"
+              value={draft.synonyms}
+              onChange={(event) => setDraft((prev) => ({ ...prev, synonyms: event.target.value }))}
+            />
+            <input
+              className="input md:col-span-2"
+              placeholder="Description (optional)"
+              value={draft.description}
+              onChange={(event) => setDraft((prev) => ({ ...prev, description: event.target.value }))}
+            />
+            <label className="inline-flex items-center gap-2 text-sm text-slate-300">
+              Colour
+              <input
+                type="color"
+                value={draft.color}
+                onChange={(event) => setDraft((prev) => ({ ...prev, color: event.target.value }))}
+              />
+            </label>
+            <label className="inline-flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={draft.archived}
+                onChange={(event) => setDraft((prev) => ({ ...prev, archived: event.target.checked }))}
+              />
+              Archived (hidden from autocomplete, refused in strict mode)
+            </label>
+          </div>
+          {editing && draft.name.trim() !== editing.name ? (
+            <p className="text-xs text-amber-200">
+              Saving renames &quot;{editing.name}&quot; on {editing.reviewCount} review(s) and keeps the old name as a synonym.
+            </p>
+          ) : null}
+          <div className="flex gap-2">
+            <button className="btn btn-primary" type="button" disabled={pending || !draft.name.trim()} onClick={save}>
+              {pending ? 'Saving...' : editing ? 'Save tag' : 'Create tag'}
+            </button>
+            {editing ? (
+              <button className="btn btn-secondary" type="button" onClick={resetForm}>
+                Cancel
+              </button>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+
+      {message ? <p className="text-sm text-emerald-300">{message}</p> : null}
+      {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+    </section>
+  );
+}
@@ -6,6 +6,8 @@ import { useState, useTransition } from 'react';
 type Member = {
   id: string;
   role: Role;
+  locationIds: string[];
+  customRoleId: string | null;
   user: {
     id: string;
     name: string | null;
@@ -15,24 +17,65 @@ type Member = {
   joinedAt?: string | Date;
 };
 
+type LocationOption = {
+  id: string;
+  name: string;
+};
+
+type CustomRoleOption = {
+  id: string;
+  name: string;
+};
+
 type Props = {
   workspaceId: string;
   members: Member[];
+  locations: LocationOption[];
+  customRoles: CustomRoleOption[];
   canManageRoles: boolean;
   canInvite: boolean;
 };
 
-export function TeamManager({ workspaceId, members, canManageRoles, canInvite }: Props) {
+export function TeamManager({ workspaceId, members, locations, customRoles, canManageRoles, canInvite }: Props) {
   const [items, setItems] = useState(members);
   const [error, setError] = useState<string | null>(null);
   const [notice, setNotice] = useState<string | null>(null);
   const [pending, startTransition] = useTransition();
-  const [invite, setInvite] = useState<{ email: string; name: string; role: Role }>({
+  const [invite, setInvite] = useState<{ email: string; name: string; role: Role; locationIds: string[] }>({
     email: '',
     name: '',
-    role: Role.MEMBER
+    role: Role.MEMBER,
+    locationIds: []
   });
 
+  function locationPicker(selected: string[], onChange: (locationIds: string[]) => void) {
+    if (!locations.length) {
+      return <p className="mt-2 text-xs text-slate-400">Add a location before granting client access.</p>;
+    }
+    return (
+      <div className="mt-2 grid gap-1 text-xs text-slate-300">
+        {locations.map((location) => (
+          <label key={location.id} className="inline-flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={selected.includes(location.id)}
+              onChange={(event) =>
+                onChange(
+                  event.target.checked ? [...selected, location.id] : selected.filter((id) => id !== location.id)
+                )
+              }
+            />
+            {location.name}
+          </label>
+        ))}
+      </div>
+    );
+  }
+
+  function updateItem(memberId: string, patch: Partial<Member>) {
+    setItems((prev) => prev.map((row) => (row.id === memberId ? { ...row, ...patch } : row)));
+  }
+
   return (
     <section className="grid gap-5 lg:grid-cols-[1fr_320px]">
       <article className="card overflow-hidden">
@@ -52,25 +95,38 @@ export function TeamManager({ workspaceId, members, canManageRoles, canInvite }:
                 <td className="px-4 py-3 text-slate-300">{member.user.email}</td>
                 <td className="px-4 py-3">
                   {canManageRoles ? (
-                    <select
-                      className="input h-9 py-1"
-                      value={member.role}
-                      onChange={(event) =>
-                        setItems((prev) =>
-                          prev.map((row) =>
-                            row.id === member.id ? { ...row, role: event.target.value as Role } : row
-                          )
-                        )
-                      }
-                    >
-                      {Object.values(Role).map((role) => (
-                        <option key={role} value={role}>
-                          {role}
-                        </option>
-                      ))}
-                    </select>
+                    <>
+                      <select
+                        className="input h-9 py-1"
+                        value={member.role}
+                        onChange={(event) => updateItem(member.id, { role: event.target.value as Role })}
+                      >
+                        {Object.values(Role).map((role) => (
+                          <option key={role} value={role}>
+                            {role}
+                          </option>
+                        ))}
+                      </select>
+                      {member.role === Role.CLIENT
+                        ? locationPicker(member.locationIds, (locationIds) => updateItem(member.id, { locationIds }))
+                        : null}
+                      {customRoles.length && (member.role === Role.ADMIN || member.role === Role.MEMBER) ? (
+                        <select
+                          className="input mt-2 h-9 py-1"
+                          value={member.customRoleId ?? ''}
+                          onChange={(event) => updateItem(member.id, { customRoleId: event.target.value || null })}
+                        >
+                          <option value="">Default {member.role.toLowerCase()} permissions</option>
+                          {customRoles.map((role) => (
+                            <option key={role.id} value={role.id}>
+                              {role.name}
+                            </option>
+                          ))}
+                        </select>
+                      ) : null}
+                    </>
                   ) : (
-                    member.role
+                    customRoles.find((role) => role.id === member.customRoleId)?.name ?? member.role
                   )}
                 </td>
                 {canManageRoles ? (
@@ -85,7 +141,14 @@ export function TeamManager({ workspaceId, members, canManageRoles, canInvite }:
                             const response = await fetch(`/api/workspaces/${workspaceId}/team`, {
                               method: 'PATCH',
                               headers: { 'Content-Type': 'application/json' },
-                              body: JSON.stringify({ membershipId: member.id, role: member.role })
+                              body: JSON.stringify({
+                                membershipId: member.id,
+                                role: member.role,
+                                ...(member.role === Role.CLIENT ? { locationIds: member.locationIds } : {}),
+                                ...(member.role === Role.ADMIN || member.role === Role.MEMBER
+                                  ? { customRoleId: member.customRoleId }
+                                  : {})
+                              })
                             });
                             const json = await response.json();
                             if (!response.ok) {
@@ -132,7 +195,9 @@ export function TeamManager({ workspaceId, members, canManageRoles, canInvite }:
 
       <article className="card p-4">
         <h2 className="text-lg font-semibold">Invite member</h2>
-        <p className="mt-1 text-sm text-slate-400">Invite by email and assign a workspace role.</p>
+        <p className="mt-1 text-sm text-slate-400">
+          Invite by email and assign a workspace role. Clients only see and approve reviews of the locations you grant.
+        </p>
         {canInvite ? (
           <form
             className="mt-4 space-y-3"
@@ -152,7 +217,7 @@ export function TeamManager({ workspaceId, members, canManageRoles, canInvite }:
                   return;
                 }
                 setItems((prev) => [...prev, json]);
-                setInvite({ email: '', name: '', role: Role.MEMBER });
+                setInvite({ email: '', name: '', role: Role.MEMBER, locationIds: [] });
                 setNotice('Member added.');
               });
             }}
@@ -182,6 +247,9 @@ export function TeamManager({ workspaceId, members, canManageRoles, canInvite }:
                 </option>
               ))}
             </select>
+            {invite.role === Role.CLIENT
+              ? locationPicker(invite.locationIds, (locationIds) => setInvite((prev) => ({ ...prev, locationIds })))
+              : null}
             <button className="btn btn-primary w-full" disabled={pending}>
               {pending ? 'Inviting...' : 'Invite'}
             </button>
@@ -0,0 +1,8 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.JOB_WORKER_ENABLED === 'false') {
+    return;
+  }
+
+  const { startJobWorker } = await import('@/lib/jobs');
+  startJobWorker();
+}
@@ -0,0 +1,253 @@
+import type { AIProvider, GenerateReplyInput, GenerateReplyOutput, ReplyStream, StreamReplyInput } from '@/lib/ai';
+
+export const MOCK_MODEL = 'mock-deterministic-v1';
+
+type Urgency = 'high' | 'medium' | 'low';
+
+type PromptAlert = {
+  name: string;
+  type: string;
+  stockQuantity: number;
+  minStockThreshold: number;
+  unit: string;
+  categoryLabel?: string;
+  shelf?: string | null;
+};
+
+type PromptDigestItem = {
+  name: string;
+  unit: string;
+  dailyUsage: number | null;
+  predictedRunoutAt: string | null;
+};
+
+const MOCK_TAGS = ['service', 'staff friendliness', 'wait time', 'pricing', 'cleanliness', 'product quality', 'location', 'communication'];
+
+const MOCK_ASPECTS = ['staff', 'wait-time', 'price', 'cleanliness', 'quality'];
+
+const REPLY_OPENERS = [
+  'Thank you for taking the time to share your experience with us.',
+  'We really appreciate you leaving this review.',
+  'Thanks so much for your feedback.'
+];
+
+const REPLY_BODIES_POSITIVE = [
+  'It is great to hear that your visit went well, and we will pass your kind words on to the team.',
+  'We are glad everything met your expectations and hope to welcome you back soon.',
+  'Knowing that you enjoyed your experience means a lot to everyone here.'
+];
+
+const REPLY_BODIES_NEGATIVE = [
+  'We are sorry that your experience fell short of what you expected, and we take this feedback seriously.',
+  'This is not the standard we aim for, and we apologize for the frustration it caused.',
+  'We regret that things did not go as they should have and are reviewing what happened.'
+];
+
+/** FNV-1a hash so identical prompts always produce identical output. */
+function hashPrompt(prompt: string) {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < prompt.length; index += 1) {
+    hash ^= prompt.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Hashed bag-of-words vector: texts sharing words get similar vectors, which is enough to exercise
+ * semantic search offline.
+ */
+export function mockEmbedding(text: string, dimensions: number) {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  for (const word of words) {
+    const hash = hashPrompt(word);
+    vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm ? vector.map((value) => value / norm) : vector;
+}
+
+function pick<T>(items: T[], seed: number, offset = 0) {
+  return items[(seed + offset) % items.length];
+}
+
+function estimateTokens(text: string) {
+  return Math.max(1, Math.ceil(text.length / 4));
+}
+
+function readLine(prompt: string, label: string) {
+  const match = prompt.match(new RegExp(`${label}\\s*(.+)`));
+  return match?.[1]?.trim() ?? null;
+}
+
+function readJsonAfter<T>(prompt: string, label: string): T[] {
+  const index = prompt.indexOf(label);
+  if (index === -1) return [];
+  const line = prompt.slice(index + label.length).trimStart().split('\n')[0];
+  try {
+    const parsed = JSON.parse(line) as unknown;
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function alertUrgency(alert: PromptAlert): Urgency {
+  if (alert.type === 'OUT_OF_STOCK') return 'high';
+  if (alert.type === 'LOW_STOCK') return 'medium';
+  return 'low';
+}
+
+function restockQuantity(alert: PromptAlert) {
+  return Math.max(alert.minStockThreshold * 2 - alert.stockQuantity, 0);
+}
+
+function mockTagSentiment(prompt: string, seed: number) {
+  const rating = Number(readLine(prompt, 'Rating:')?.split('/')[0] ?? 3);
+  const sentiment = rating >= 4 ? 'POS' : rating <= 2 ? 'NEG' : 'NEU';
+  const tags = [pick(MOCK_TAGS, seed), pick(MOCK_TAGS, seed, 3), pick(MOCK_TAGS, seed, 5)].filter(
+    (tag, index, list) => list.indexOf(tag) === index
+  );
+  const aspects = [pick(MOCK_ASPECTS, seed), pick(MOCK_ASPECTS, seed, 2)]
+    .filter((aspect, index, list) => list.indexOf(aspect) === index)
+    .map((aspect) => ({ aspect, sentiment, quote: null }));
+  return JSON.stringify({ sentiment, tags, aspects });
+}
+
+function mockForecast(prompt: string) {
+  const horizonDays = Number(prompt.match(/Forecast horizon: (\d+) days/)?.[1] ?? 30);
+  const alerts = readJsonAfter<PromptAlert>(prompt, 'Current alerts:').filter(
+    (alert) => alert.type === 'OUT_OF_STOCK' || alert.type === 'LOW_STOCK'
+  );
+  const priorityOrders = alerts.slice(0, 10).map((alert) => ({
+    name: alert.name,
+    reason: `Stoc ${alert.stockQuantity}/${alert.minStockThreshold} ${alert.unit}; reaprovizionare necesara (mock).`,
+    recommendedQuantity: restockQuantity(alert),
+    estimatedUnitPriceRon: null,
+    estimatedTotalRon: null,
+    urgency: alertUrgency(alert)
+  }));
+  return JSON.stringify({
+    summary: `Forecast demo: ${priorityOrders.length} medicamente de comandat in urmatoarele ${horizonDays} zile.`,
+    totalEstimatedBudgetRon: null,
+    priorityOrders,
+    recommendations: ['Verifica stocurile marcate high inainte de comanda.', 'Confirma preturile la furnizori.']
+  });
+}
+
+function mockDigest(prompt: string) {
+  const workspaceName = readLine(prompt, '- Workspace:') ?? 'Workspace';
+  const horizonDays = Number(readLine(prompt, '- Orizont predictie:')?.split(' ')[0] ?? 30);
+  const alerts = readJsonAfter<PromptAlert>(prompt, 'Alerte active:').filter(
+    (alert) => alert.type === 'OUT_OF_STOCK' || alert.type === 'LOW_STOCK'
+  );
+  const items = readJsonAfter<PromptDigestItem>(prompt, 'Date inventar:');
+
+  const missingNow = alerts.slice(0, 12).map((alert) => ({
+    name: alert.name,
+    categoryLabel: alert.categoryLabel || 'altele',
+    shelf: alert.shelf ?? null,
+    stockQuantity: alert.stockQuantity,
+    threshold: alert.minStockThreshold,
+    unit: alert.unit,
+    recommendedRestockQuantity: restockQuantity(alert),
+    urgency: alertUrgency(alert),
+    note: 'Estimare demo generata local (mock).'
+  }));
+  const predictedShortages = items
+    .filter((item) => item.predictedRunoutAt)
+    .slice(0, 12)
+    .map((item) => ({
+      name: item.name,
+      runoutAt: item.predictedRunoutAt!.slice(0, 10),
+      reason: `Consum estimat ${item.dailyUsage ?? '-'} ${item.unit}/zi (mock).`,
+      urgency: 'medium' as Urgency
+    }));
+  const rows = missingNow.length
+    ? missingNow.slice(0, 5).map((row) => `- ${row.name}: ${row.stockQuantity}/${row.threshold} ${row.unit}`)
+    : ['- Nu exista lipsuri critice in acest moment.'];
+
+  return JSON.stringify({
+    summary: `Digest demo: ${missingNow.length} lipsuri active si ${predictedShortages.length} epuizari estimate in ${horizonDays} zile.`,
+    missingNow,
+    predictedShortages,
+    staffSteps: ['Verifica fizic stocurile cu urgenta ridicata.', 'Plaseaza comenzile recomandate.'],
+    phoneAlertMessage: [`Alerte stoc ${workspaceName}:`, ...rows].join('\n')
+  });
+}
+
+function mockPsychosocialProfile(prompt: string) {
+  const name = readLine(prompt, '- Beneficiar:') ?? 'Beneficiarul';
+  const communication = readLine(prompt, '- Comunicare:') ?? 'nespecificat';
+  const sleep = readLine(prompt, '- Somn:') ?? 'nespecificat';
+  const autonomy = readLine(prompt, '- Autonomie:') ?? 'nespecificat';
+  return JSON.stringify({
+    contextPersonal: `${name} este evaluat in cadrul centrului pentru un profil orientativ de sprijin. Datele sunt generate demonstrativ (mock).`,
+    emotionalProfile: `Nivel de comunicare observat: ${communication}. Calitatea somnului raportata: ${sleep}. Se recomanda observatie continua.`,
+    mainNeeds: ['Rutina zilnica predictibila', `Sprijin adaptat autonomiei (${autonomy})`],
+    risks: ['Retragere sociala in perioade de schimbare'],
+    staffRecommendations: ['Ton calm si explicatii pas cu pas', 'Activitati de grup de intensitate redusa'],
+    supportPlan: ['Reevaluare orientativa dupa 30 de zile', 'Discutie saptamanala cu responsabilul de caz']
+  });
+}
+
+function mockReply(prompt: string, seed: number) {
+  const rating = Number(readLine(prompt, 'Rating:')?.split('/')[0] ?? 3);
+  const length = prompt.match(/Write a (short|medium|long) quality response/)?.[1] ?? 'medium';
+  const signOff = readLine(prompt, '- Sign-off preference:') ?? 'Best regards';
+  const escalate = prompt.includes('Escalation required:');
+
+  const sentences = [pick(REPLY_OPENERS, seed), pick(rating >= 4 ? REPLY_BODIES_POSITIVE : REPLY_BODIES_NEGATIVE, seed, 1)];
+  if (escalate) {
+    sentences.push('Please contact our support team directly so we can look into this and make it right.');
+  }
+  if (length !== 'short') {
+    sentences.push('Feedback like yours helps us keep improving for every guest.');
+  }
+  if (length === 'long') {
+    sentences.push('We have shared your comments with the relevant team members so they can follow up internally.');
+  }
+  return `${sentences.join(' ')}\n\n${signOff}`;
+}
+
+/**
+ * Offline `mock` provider. Output is derived only from the prompt so the
+ * same input always yields the same, schema-valid response.
+ */
+export class MockReplyProvider implements AIProvider {
+  async generateReply(input: GenerateReplyInput): Promise<GenerateReplyOutput> {
+    const seed = hashPrompt(input.prompt);
+    let text: string;
+    if (input.prompt.includes('"sentiment":"POS|NEU|NEG"')) {
+      text = mockTagSentiment(input.prompt, seed);
+    } else if (input.prompt.includes('"totalEstimatedBudgetRon"')) {
+      text = mockForecast(input.prompt);
+    } else if (input.prompt.includes('"phoneAlertMessage"')) {
+      text = mockDigest(input.prompt);
+    } else if (input.prompt.includes('"contextPersonal"')) {
+      text = mockPsychosocialProfile(input.prompt);
+    } else {
+      text = mockReply(input.prompt, seed);
+    }
+
+    return {
+      text,
+      model: MOCK_MODEL,
+      inputTokens: estimateTokens(input.prompt),
+      outputTokens: estimateTokens(text),
+      estimatedCostUsd: 0
+    };
+  }
+
+  async *streamReply(input: StreamReplyInput): ReplyStream {
+    const output = await this.generateReply(input);
+    for (const token of output.text.match(/\S+\s*/g) ?? []) {
+      if (input.signal?.aborted) {
+        throw new Error('Mock stream aborted');
+      }
+      yield token;
+    }
+    return output;
+  }
+}
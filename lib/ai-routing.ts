@@ -0,0 +1,17 @@
+import { AIProvider as ProviderEnum } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { DEFAULT_PROVIDER_CHAIN, enumToProvider, Provider } from '@/lib/ai';
+
+export function chainFromEnums(chain: ProviderEnum[] | null | undefined): Provider[] {
+  const providers = (chain ?? []).map(enumToProvider);
+  return providers.length ? providers : DEFAULT_PROVIDER_CHAIN;
+}
+
+/** Ordered failover chain configured for the workspace (falls back to the default order). */
+export async function getWorkspaceProviderChain(workspaceId: string): Promise<Provider[]> {
+  const workspace = await prisma.workspace.findUnique({
+    where: { id: workspaceId },
+    select: { aiProviderChain: true }
+  });
+  return chainFromEnums(workspace?.aiProviderChain);
+}
@@ -3,12 +3,17 @@ import { GoogleGenerativeAI } from '@google/generative-ai';
 import { AIProvider as ProviderEnum } from '@prisma/client';
 import OpenAI from 'openai';
 import { HttpError } from '@/lib/http';
+import { MockReplyProvider } from '@/lib/ai-mock';
 
-export type Provider = 'openai' | 'claude' | 'gemini';
+export const PROVIDERS = ['openai', 'claude', 'gemini', 'local', 'mock'] as const;
+export type Provider = (typeof PROVIDERS)[number];
 export const REPLY_PROMPT_VERSION = 'v1.1.0';
 
+export const DEFAULT_PROVIDER_CHAIN: Provider[] = ['openai', 'claude', 'gemini'];
+
 const DEFAULT_MAX_TOKENS = 350;
 const DEFAULT_TEMPERATURE = 0.6;
+const DEFAULT_PROVIDER_TIMEOUT_MS = 45_000;
 
 export type GenerateReplyInput = {
   prompt: string;
@@ -24,8 +29,16 @@ export type GenerateReplyOutput = {
   estimatedCostUsd?: number;
 };
 
+export type StreamReplyInput = GenerateReplyInput & {
+  signal?: AbortSignal;
+};
+
+/** Yields text deltas as they arrive and returns the complete output once the provider finishes. */
+export type ReplyStream = AsyncGenerator<string, GenerateReplyOutput, void>;
+
 export interface AIProvider {
   generateReply(input: GenerateReplyInput): Promise<GenerateReplyOutput>;
+  streamReply(input: StreamReplyInput): ReplyStream;
 }
 
 function ensureText(text: string, providerName: string) {
@@ -40,6 +53,36 @@ function estimateCostUsd(inputTokens = 0, outputTokens = 0, inputPerMillion = 0.
   return Number(((inputTokens / 1_000_000) * inputPerMillion + (outputTokens / 1_000_000) * outputPerMillion).toFixed(6));
 }
 
+async function* streamChatCompletion(client: OpenAI, model: string, input: StreamReplyInput, providerName: string) {
+  const stream = await client.chat.completions.create(
+    {
+      model,
+      messages: [{ role: 'user', content: input.prompt }],
+      temperature: input.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: input.maxTokens ?? DEFAULT_MAX_TOKENS,
+      stream: true,
+      stream_options: { include_usage: true }
+    },
+    { signal: input.signal }
+  );
+
+  let text = '';
+  let inputTokens: number | undefined;
+  let outputTokens: number | undefined;
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      yield delta;
+    }
+    if (chunk.usage) {
+      inputTokens = chunk.usage.prompt_tokens;
+      outputTokens = chunk.usage.completion_tokens;
+    }
+  }
+  return { text: ensureText(text, providerName), inputTokens, outputTokens };
+}
+
 class OpenAIReplyProvider implements AIProvider {
   private client: OpenAI;
   private model: string;
@@ -71,6 +114,61 @@ class OpenAIReplyProvider implements AIProvider {
       estimatedCostUsd: estimateCostUsd(inputTokens, outputTokens, 0.15, 0.6)
     };
   }
+
+  async *streamReply(input: StreamReplyInput): ReplyStream {
+    const { text, inputTokens, outputTokens } = yield* streamChatCompletion(this.client, this.model, input, 'OpenAI');
+    return {
+      text,
+      model: this.model,
+      inputTokens,
+      outputTokens,
+      estimatedCostUsd: estimateCostUsd(inputTokens, outputTokens, 0.15, 0.6)
+    };
+  }
+}
+
+/**
+ * Any OpenAI-compatible chat completions server (Ollama, vLLM, llama.cpp server). Data never
+ * leaves the configured host, so usage is accounted at zero cost.
+ */
+class LocalReplyProvider implements AIProvider {
+  private client: OpenAI;
+  private model: string;
+
+  constructor() {
+    if (!process.env.LOCAL_LLM_BASE_URL) {
+      throw new HttpError(500, 'Missing LOCAL_LLM_BASE_URL');
+    }
+    this.client = new OpenAI({
+      baseURL: process.env.LOCAL_LLM_BASE_URL,
+      // most local servers ignore the key, but the SDK requires a non-empty value
+      apiKey: process.env.LOCAL_LLM_API_KEY || 'local'
+    });
+    this.model = process.env.LOCAL_LLM_MODEL ?? 'llama3.1:8b';
+  }
+
+  async generateReply(input: GenerateReplyInput): Promise<GenerateReplyOutput> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [{ role: 'user', content: input.prompt }],
+      temperature: input.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: input.maxTokens ?? DEFAULT_MAX_TOKENS
+    });
+
+    const text = ensureText(completion.choices[0]?.message?.content ?? '', 'Local LLM');
+    return {
+      text,
+      model: this.model,
+      inputTokens: completion.usage?.prompt_tokens,
+      outputTokens: completion.usage?.completion_tokens,
+      estimatedCostUsd: 0
+    };
+  }
+
+  async *streamReply(input: StreamReplyInput): ReplyStream {
+    const { text, inputTokens, outputTokens } = yield* streamChatCompletion(this.client, this.model, input, 'Local LLM');
+    return { text, model: this.model, inputTokens, outputTokens, estimatedCostUsd: 0 };
+  }
 }
 
 class ClaudeReplyProvider implements AIProvider {
@@ -110,6 +208,41 @@ class ClaudeReplyProvider implements AIProvider {
       estimatedCostUsd: estimateCostUsd(inputTokens, outputTokens, 3, 15)
     };
   }
+
+  async *streamReply(input: StreamReplyInput): ReplyStream {
+    const stream = await this.client.messages.create(
+      {
+        model: this.model,
+        temperature: input.temperature ?? DEFAULT_TEMPERATURE,
+        max_tokens: input.maxTokens ?? DEFAULT_MAX_TOKENS,
+        messages: [{ role: 'user', content: input.prompt }],
+        stream: true
+      },
+      { signal: input.signal }
+    );
+
+    let text = '';
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+    for await (const event of stream) {
+      if (event.type === 'message_start') {
+        inputTokens = event.message.usage.input_tokens;
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        text += event.delta.text;
+        yield event.delta.text;
+      } else if (event.type === 'message_delta') {
+        outputTokens = event.usage.output_tokens;
+      }
+    }
+
+    return {
+      text: ensureText(text, 'Claude'),
+      model: this.model,
+      inputTokens,
+      outputTokens,
+      estimatedCostUsd: estimateCostUsd(inputTokens, outputTokens, 3, 15)
+    };
+  }
 }
 
 class GeminiReplyProvider implements AIProvider {
@@ -145,14 +278,72 @@ class GeminiReplyProvider implements AIProvider {
       estimatedCostUsd: estimateCostUsd(inputTokens, outputTokens, 0.075, 0.3)
     };
   }
+
+  async *streamReply(input: StreamReplyInput): ReplyStream {
+    const model = this.client.getGenerativeModel({ model: this.model });
+    const result = await model.generateContentStream(
+      {
+        contents: [{ role: 'user', parts: [{ text: input.prompt }] }],
+        generationConfig: {
+          temperature: input.temperature ?? DEFAULT_TEMPERATURE,
+          maxOutputTokens: input.maxTokens ?? DEFAULT_MAX_TOKENS
+        }
+      },
+      { signal: input.signal }
+    );
+
+    let text = '';
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      if (delta) {
+        text += delta;
+        yield delta;
+      }
+    }
+
+    const response = await result.response;
+    const inputTokens = response.usageMetadata?.promptTokenCount;
+    const outputTokens = response.usageMetadata?.candidatesTokenCount;
+    return {
+      text: ensureText(text, 'Gemini'),
+      model: this.model,
+      inputTokens,
+      outputTokens,
+      estimatedCostUsd: estimateCostUsd(inputTokens, outputTokens, 0.075, 0.3)
+    };
+  }
 }
 
 export function providerToEnum(provider: Provider): ProviderEnum {
   if (provider === 'openai') return 'OPENAI';
   if (provider === 'claude') return 'CLAUDE';
+  if (provider === 'local') return 'LOCAL';
+  if (provider === 'mock') return 'MOCK';
   return 'GEMINI';
 }
 
+export function enumToProvider(provider: ProviderEnum): Provider {
+  if (provider === 'OPENAI') return 'openai';
+  if (provider === 'CLAUDE') return 'claude';
+  if (provider === 'LOCAL') return 'local';
+  if (provider === 'MOCK') return 'mock';
+  return 'gemini';
+}
+
+/** Provider used when a request does not name one; AI_DEFAULT_PROVIDER=mock runs everything offline. */
+export function defaultProvider(): Provider {
+  const configured = process.env.AI_DEFAULT_PROVIDER;
+  return PROVIDERS.find((provider) => provider === configured) ?? 'openai';
+}
+
+export function isProviderConfigured(provider: Provider) {
+  if (provider === 'mock') return true;
+  if (provider === 'openai') return Boolean(process.env.OPENAI_API_KEY);
+  if (provider === 'claude') return Boolean(process.env.ANTHROPIC_API_KEY);
+  if (provider === 'local') return Boolean(process.env.LOCAL_LLM_BASE_URL);
+  return Boolean(process.env.GEMINI_API_KEY);
+}
+
 export function createProvider(provider: Provider): AIProvider {
   switch (provider) {
     case 'openai':
@@ -161,23 +352,147 @@ export function createProvider(provider: Provider): AIProvider {
       return new ClaudeReplyProvider();
     case 'gemini':
       return new GeminiReplyProvider();
+    case 'local':
+      return new LocalReplyProvider();
+    case 'mock':
+      return new MockReplyProvider();
   }
 }
 
 export type GenerateTextArgs = {
   provider: Provider;
+  /** Providers tried in order when the preferred one errors or times out. */
+  fallbacks?: Provider[];
   prompt: string;
   maxTokens?: number;
   temperature?: number;
+  timeoutMs?: number;
+};
+
+export type ProviderFailure = {
+  provider: Provider;
+  error: string;
+};
+
+export type GenerateTextOutput = GenerateReplyOutput & {
+  /** Provider that actually served the request. */
+  provider: Provider;
+  failovers: ProviderFailure[];
 };
 
-export async function generateText({ provider, prompt, maxTokens, temperature }: GenerateTextArgs) {
-  const impl = createProvider(provider);
-  return impl.generateReply({
-    prompt,
-    maxTokens: maxTokens ?? DEFAULT_MAX_TOKENS,
-    temperature: temperature ?? DEFAULT_TEMPERATURE
+function providerTimeoutMs() {
+  const configured = Number(process.env.AI_PROVIDER_TIMEOUT_MS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_PROVIDER_TIMEOUT_MS;
+}
+
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, provider: Provider): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new HttpError(504, `${provider} timed out after ${timeoutMs}ms`)), timeoutMs);
   });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function buildProviderChain(provider: Provider, fallbacks: Provider[]): Provider[] {
+  // Local requests exist to keep data on-premises, so they never fail over to a cloud vendor.
+  if (provider === 'local') return [provider];
+  return [provider, ...fallbacks].filter((item, index, list) => list.indexOf(item) === index);
+}
+
+export async function generateText({
+  provider,
+  fallbacks = [],
+  prompt,
+  maxTokens,
+  temperature,
+  timeoutMs
+}: GenerateTextArgs): Promise<GenerateTextOutput> {
+  const chain = buildProviderChain(provider, fallbacks);
+  const failovers: ProviderFailure[] = [];
+  let lastError: unknown;
+
+  for (const candidate of chain) {
+    try {
+      const impl = createProvider(candidate);
+      const output = await withTimeout(
+        impl.generateReply({
+          prompt,
+          maxTokens: maxTokens ?? DEFAULT_MAX_TOKENS,
+          temperature: temperature ?? DEFAULT_TEMPERATURE
+        }),
+        timeoutMs ?? providerTimeoutMs(),
+        candidate
+      );
+      return { ...output, provider: candidate, failovers };
+    } catch (error) {
+      lastError = error;
+      failovers.push({ provider: candidate, error: error instanceof Error ? error.message : 'Unknown provider error' });
+    }
+  }
+
+  if (chain.length === 1) {
+    throw lastError;
+  }
+  throw new HttpError(502, 'All configured AI providers failed', { failovers });
+}
+
+export type StreamTextArgs = Omit<GenerateTextArgs, 'timeoutMs'> & {
+  signal?: AbortSignal;
+  /** Applies to the first token only; once text is flowing the stream is allowed to finish. */
+  firstTokenTimeoutMs?: number;
+};
+
+/**
+ * Streaming counterpart of generateText. Failover only happens before the first token is
+ * emitted; after that, errors surface to the caller so partial text is never mixed across vendors.
+ */
+export async function* streamText({
+  provider,
+  fallbacks = [],
+  prompt,
+  maxTokens,
+  temperature,
+  signal,
+  firstTokenTimeoutMs
+}: StreamTextArgs): AsyncGenerator<string, GenerateTextOutput, void> {
+  const chain = buildProviderChain(provider, fallbacks);
+  const failovers: ProviderFailure[] = [];
+  let lastError: unknown;
+
+  for (const candidate of chain) {
+    let iterator: ReplyStream;
+    let first: IteratorResult<string, GenerateReplyOutput>;
+    try {
+      iterator = createProvider(candidate).streamReply({
+        prompt,
+        maxTokens: maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: temperature ?? DEFAULT_TEMPERATURE,
+        signal
+      });
+      first = await withTimeout(iterator.next(), firstTokenTimeoutMs ?? providerTimeoutMs(), candidate);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      lastError = error;
+      failovers.push({ provider: candidate, error: error instanceof Error ? error.message : 'Unknown provider error' });
+      continue;
+    }
+
+    let next = first;
+    while (!next.done) {
+      yield next.value;
+      next = await iterator.next();
+    }
+    return { ...next.value, provider: candidate, failovers };
+  }
+
+  if (chain.length === 1) {
+    throw lastError;
+  }
+  throw new HttpError(502, 'All configured AI providers failed', { failovers });
 }
 
 export function extractJsonObject<T>(raw: string): T {
@@ -255,14 +570,40 @@ ${shouldEscalate ? 'Escalation required: apologize, acknowledge issue, provide n
 Return only reply text without markdown, JSON, labels, or quotes.`;
 }
 
-export function buildTagSentimentPrompt(reviewText: string, rating: number) {
+/** Fixed aspects the tag prompt rates separately, so they can be compared across reviews. */
+export const REVIEW_ASPECTS = [
+  'staff',
+  'service',
+  'wait-time',
+  'cleanliness',
+  'price',
+  'quality',
+  'ambience',
+  'location',
+  'booking',
+  'communication'
+] as const;
+
+export type ReviewAspectName = (typeof REVIEW_ASPECTS)[number];
+
+export type ParsedAspect = { aspect: ReviewAspectName; sentiment: 'POS' | 'NEU' | 'NEG'; quote: string | null };
+
+function parseSentiment(value: unknown) {
+  return value === 'POS' || value === 'NEG' ? value : ('NEU' as const);
+}
+
+/** `preferredTags` is the workspace taxonomy; the model is asked to reuse it before inventing tags. */
+export function buildTagSentimentPrompt(reviewText: string, rating: number, preferredTags: string[] = []) {
   return `Analyze this customer review and return strict JSON:
-{"sentiment":"POS|NEU|NEG","tags":["tag1","tag2","tag3"]}
+{"sentiment":"POS|NEU|NEG","tags":["tag1","tag2","tag3"],"aspects":[{"aspect":"staff","sentiment":"POS|NEU|NEG","quote":"short quote"}]}
 
 Rules:
 - sentiment should consider rating and text.
 - tags must be short lowercase phrases (max 3 words each), useful for operational categorization.
-- return 2-5 tags.
+- return 2-5 tags.${preferredTags.length ? `\n- prefer these tags when they fit: ${preferredTags.join(', ')}` : ''}
+- aspects lists only the aspects the review actually mentions, each with its own sentiment.
+- aspect must be one of: ${REVIEW_ASPECTS.join(', ')}.
+- quote is the few words of the review the aspect was read from.
 
 Rating: ${rating}/5
 Review: """${reviewText}"""`;
@@ -270,11 +611,23 @@ Review: """${reviewText}"""`;
 
 export function parseTagSentimentResponse(raw: string) {
   try {
-    const parsed = JSON.parse(raw) as { sentiment?: string; tags?: string[] };
-    const sentiment = parsed.sentiment === 'POS' || parsed.sentiment === 'NEG' ? parsed.sentiment : 'NEU';
+    const parsed = JSON.parse(raw) as { sentiment?: string; tags?: string[]; aspects?: unknown };
+    const sentiment = parseSentiment(parsed.sentiment);
     const tags = Array.isArray(parsed.tags) ? parsed.tags.filter(Boolean).slice(0, 5) : [];
-    return { sentiment, tags };
+    const aspects = new Map<ReviewAspectName, ParsedAspect>();
+    for (const item of Array.isArray(parsed.aspects) ? parsed.aspects : []) {
+      if (!item || typeof item !== 'object') continue;
+      const { aspect, sentiment: aspectSentiment, quote } = item as Record<string, unknown>;
+      const name = typeof aspect === 'string' ? aspect.trim().toLowerCase().replace(/[\s_]+/g, '-') : '';
+      if (!REVIEW_ASPECTS.includes(name as ReviewAspectName) || aspects.has(name as ReviewAspectName)) continue;
+      aspects.set(name as ReviewAspectName, {
+        aspect: name as ReviewAspectName,
+        sentiment: parseSentiment(aspectSentiment),
+        quote: typeof quote === 'string' && quote.trim() ? quote.trim().slice(0, 200) : null
+      });
+    }
+    return { sentiment, tags, aspects: Array.from(aspects.values()) };
   } catch {
-    return { sentiment: 'NEU' as const, tags: [] as string[] };
+    return { sentiment: 'NEU' as const, tags: [] as string[], aspects: [] as ParsedAspect[] };
   }
 }
@@ -1,73 +1,300 @@
-import { ReviewStatus, Sentiment } from '@prisma/client';
+import { Prisma, ReviewSource, ReviewStatus, Sentiment, WorkspaceMembership } from '@prisma/client';
+import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { PLAN_LIMITS } from '@/lib/plans';
+import { HttpError } from '@/lib/http';
+import { reviewScopeWhere } from '@/lib/tenant';
+import { loadTagLookup } from '@/lib/tag-taxonomy';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 90;
+const MAX_RANGE_DAYS = 2 * 366;
+const MAX_DAILY_RANGE_DAYS = 186;
+
+export const ANALYTICS_GRANULARITIES = ['day', 'week', 'month'] as const;
+
+export type AnalyticsGranularity = (typeof ANALYTICS_GRANULARITIES)[number];
+
+/** Query string of the analytics page and API; dates are inclusive calendar days in UTC. */
+export const analyticsQuerySchema = z.object({
+  dateFrom: z.string().date().optional(),
+  dateTo: z.string().date().optional(),
+  granularity: z.enum(ANALYTICS_GRANULARITIES).optional()
+});
+
+export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
+
+export type AnalyticsRange = {
+  from: Date;
+  // exclusive
+  to: Date;
+  granularity: AnalyticsGranularity;
+  previousFrom: Date;
+};
+
+type SummaryRow = {
+  total: number;
+  avgRating: number | null;
+  pos: number;
+  neu: number;
+  neg: number;
+  medianDraftSeconds: number | null;
+  medianApproveSeconds: number | null;
+  medianSendSeconds: number | null;
+};
+
+type AspectRow = { aspect: string; total: number; pos: number; neu: number; neg: number };
+
+type TrendRow = { bucket: Date; total: number; avgRating: number | null; pos: number; neu: number; neg: number };
+
+type BreakdownRow = {
+  key: string;
+  name: string;
+  total: number;
+  avgRating: number | null;
+  neg: number;
+  medianSendSeconds: number | null;
+};
 
 function toPercent(part: number, total: number) {
   if (!total) return 0;
   return Number(((part / total) * 100).toFixed(1));
 }
 
-export async function getWorkspaceAnalytics(workspaceId: string) {
-  const [workspace, reviews, draftedCount, approvedCount] = await Promise.all([
-    prisma.workspace.findUniqueOrThrow({ where: { id: workspaceId } }),
-    prisma.review.findMany({
-      where: { workspaceId },
-      select: { rating: true, tags: true, sentiment: true, status: true }
-    }),
-    prisma.review.count({ where: { workspaceId, status: ReviewStatus.DRAFTED } }),
-    prisma.review.count({ where: { workspaceId, status: ReviewStatus.APPROVED } })
-  ]);
-
-  const total = reviews.length;
-  const avgRating = total ? Number((reviews.reduce((sum, item) => sum + item.rating, 0) / total).toFixed(2)) : 0;
-  const sentimentCounts = reviews.reduce(
-    (acc, review) => {
-      acc[review.sentiment] += 1;
-      return acc;
-    },
-    { POS: 0, NEU: 0, NEG: 0 } as Record<Sentiment, number>
-  );
+function round(value: number | null, digits = 2) {
+  return value === null ? null : Number(value.toFixed(digits));
+}
 
-  const statusCounts = reviews.reduce(
-    (acc, review) => {
-      acc[review.status] = (acc[review.status] ?? 0) + 1;
-      return acc;
-    },
-    {} as Record<ReviewStatus, number>
+function toHours(seconds: number | null) {
+  return seconds === null ? null : round(seconds / 3600, 1);
+}
+
+function startOfUtcDay(date: Date) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/** Fills in the defaults: the last 90 days, bucketed by day, week or month depending on the span. */
+export function resolveAnalyticsRange(query: AnalyticsQuery, now = new Date()): AnalyticsRange {
+  const to = query.dateTo ? new Date(Date.parse(query.dateTo) + DAY_MS) : new Date(startOfUtcDay(now).getTime() + DAY_MS);
+  const from = query.dateFrom ? new Date(Date.parse(query.dateFrom)) : new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+  const days = Math.round((to.getTime() - from.getTime()) / DAY_MS);
+  if (days < 1) {
+    throw new HttpError(400, 'dateFrom must be on or before dateTo');
+  }
+  if (days > MAX_RANGE_DAYS) {
+    throw new HttpError(400, 'Analytics ranges are limited to two years');
+  }
+  const granularity = query.granularity ?? (days <= 31 ? 'day' : days <= 180 ? 'week' : 'month');
+  if (granularity === 'day' && days > MAX_DAILY_RANGE_DAYS) {
+    throw new HttpError(400, 'Use weekly or monthly buckets for ranges over six months');
+  }
+  return { from, to, granularity, previousFrom: new Date(from.getTime() - (to.getTime() - from.getTime())) };
+}
+
+// the buckets `date_trunc` produces, so empty periods still show up in the series
+function bucketStarts(range: AnalyticsRange) {
+  const first = startOfUtcDay(range.from);
+  if (range.granularity === 'week') {
+    first.setUTCDate(first.getUTCDate() - ((first.getUTCDay() + 6) % 7));
+  }
+  if (range.granularity === 'month') {
+    first.setUTCDate(1);
+  }
+  const starts: Date[] = [];
+  for (const cursor = first; cursor < range.to; ) {
+    starts.push(new Date(cursor));
+    if (range.granularity === 'day') cursor.setUTCDate(cursor.getUTCDate() + 1);
+    if (range.granularity === 'week') cursor.setUTCDate(cursor.getUTCDate() + 7);
+    if (range.granularity === 'month') cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  return starts;
+}
+
+function medianSeconds(from: string, to: string) {
+  // column names are fixed strings from this file, never user input
+  return Prisma.raw(
+    `percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM (r."${to}" - r."${from}"))) FILTER (WHERE r."${to}" IS NOT NULL)`
   );
+}
 
-  const tagMap = new Map<string, number>();
-  for (const review of reviews) {
-    for (const tag of review.tags) {
-      tagMap.set(tag, (tagMap.get(tag) ?? 0) + 1);
-    }
+function change(current: number | null, previous: number | null) {
+  if (current === null || previous === null) return null;
+  return { previous, delta: round(current - previous), percent: previous ? round(((current - previous) / previous) * 100, 1) : null };
+}
+
+/**
+ * Volume, ratings, sentiment and response times for a date range, with the same figures for the period
+ * just before it, a time series and per-location and per-source breakdowns. Everything is aggregated in
+ * SQL; reviews are bucketed by `reviewDate`, response times run from import (`createdAt`) to the milestone.
+ * Client approvers only see their granted locations.
+ */
+export async function getWorkspaceAnalytics(
+  workspaceId: string,
+  membership: Pick<WorkspaceMembership, 'role' | 'locationIds'>,
+  range: AnalyticsRange
+) {
+  const scope = reviewScopeWhere(membership);
+  const scopeSql =
+    membership.role === 'CLIENT'
+      ? membership.locationIds.length
+        ? Prisma.sql`AND r."locationId" IN (${Prisma.join(membership.locationIds)})`
+        : Prisma.sql`AND FALSE`
+      : Prisma.empty;
+  const inRange = (from: Date, to: Date) =>
+    Prisma.sql`r."workspaceId" = ${workspaceId} AND r."reviewDate" >= ${from} AND r."reviewDate" < ${to} ${scopeSql}`;
+
+  const summary = (from: Date, to: Date) => prisma.$queryRaw<SummaryRow[]>`
+    SELECT COUNT(*)::int AS "total",
+           AVG(r."rating")::float AS "avgRating",
+           COUNT(*) FILTER (WHERE r."sentiment" = 'POS')::int AS "pos",
+           COUNT(*) FILTER (WHERE r."sentiment" = 'NEU')::int AS "neu",
+           COUNT(*) FILTER (WHERE r."sentiment" = 'NEG')::int AS "neg",
+           ${medianSeconds('createdAt', 'draftedAt')} AS "medianDraftSeconds",
+           ${medianSeconds('createdAt', 'approvedAt')} AS "medianApproveSeconds",
+           ${medianSeconds('createdAt', 'sentAt')} AS "medianSendSeconds"
+    FROM "Review" r
+    WHERE ${inRange(from, to)}`;
+
+  const breakdown = (key: Prisma.Sql, name: Prisma.Sql, join: Prisma.Sql) => prisma.$queryRaw<BreakdownRow[]>`
+    SELECT ${key} AS "key",
+           ${name} AS "name",
+           COUNT(*)::int AS "total",
+           AVG(r."rating")::float AS "avgRating",
+           COUNT(*) FILTER (WHERE r."sentiment" = 'NEG')::int AS "neg",
+           ${medianSeconds('createdAt', 'sentAt')} AS "medianSendSeconds"
+    FROM "Review" r ${join}
+    WHERE ${inRange(range.from, range.to)}
+    GROUP BY 1, 2
+    ORDER BY "total" DESC`;
+
+  const [workspace, [current], [previous], trendRows, locationRows, sourceRows, tagRows, aspectRows, statusRows, lookup] =
+    await Promise.all([
+      prisma.workspace.findUniqueOrThrow({ where: { id: workspaceId } }),
+      summary(range.from, range.to),
+      summary(range.previousFrom, range.from),
+      prisma.$queryRaw<TrendRow[]>`
+        SELECT date_trunc(${range.granularity}, r."reviewDate") AS "bucket",
+               COUNT(*)::int AS "total",
+               AVG(r."rating")::float AS "avgRating",
+               COUNT(*) FILTER (WHERE r."sentiment" = 'POS')::int AS "pos",
+               COUNT(*) FILTER (WHERE r."sentiment" = 'NEU')::int AS "neu",
+               COUNT(*) FILTER (WHERE r."sentiment" = 'NEG')::int AS "neg"
+        FROM "Review" r
+        WHERE ${inRange(range.from, range.to)}
+        GROUP BY 1
+        ORDER BY 1`,
+      breakdown(Prisma.sql`r."locationId"`, Prisma.sql`l."name"`, Prisma.sql`JOIN "Location" l ON l."id" = r."locationId"`),
+      breakdown(Prisma.sql`r."source"::text`, Prisma.sql`r."source"::text`, Prisma.empty),
+      prisma.$queryRaw<Array<{ name: string; count: number }>>`
+        SELECT tag AS "name", COUNT(*)::int AS "count"
+        FROM "Review" r, unnest(r."tags") AS tag
+        WHERE ${inRange(range.from, range.to)}
+        GROUP BY tag
+        ORDER BY "count" DESC, tag ASC
+        LIMIT 50`,
+      prisma.$queryRaw<AspectRow[]>`
+        SELECT a."aspect" AS "aspect",
+               COUNT(*)::int AS "total",
+               COUNT(*) FILTER (WHERE a."sentiment" = 'POS')::int AS "pos",
+               COUNT(*) FILTER (WHERE a."sentiment" = 'NEU')::int AS "neu",
+               COUNT(*) FILTER (WHERE a."sentiment" = 'NEG')::int AS "neg"
+        FROM "ReviewAspect" a
+        JOIN "Review" r ON r."id" = a."reviewId"
+        WHERE ${inRange(range.from, range.to)}
+        GROUP BY 1
+        ORDER BY "total" DESC, 1`,
+      // the workflow backlog is a snapshot, not limited to the range
+      prisma.review.groupBy({ by: ['status'], where: { workspaceId, ...scope }, _count: { _all: true } }),
+      loadTagLookup(workspaceId)
+    ]);
+
+  const statusCounts = Object.fromEntries(statusRows.map((row) => [row.status, row._count._all])) as Partial<
+    Record<ReviewStatus, number>
+  >;
+  const sentimentCounts: Record<Sentiment, number> = { POS: current.pos, NEU: current.neu, NEG: current.neg };
+  const negativeShare = toPercent(current.neg, current.total);
+
+  const trendByBucket = new Map(trendRows.map((row) => [row.bucket.getTime(), row]));
+  const trend = bucketStarts(range).map((bucket) => {
+    const row = trendByBucket.get(bucket.getTime());
+    return {
+      bucket: bucket.toISOString(),
+      total: row?.total ?? 0,
+      avgRating: round(row?.avgRating ?? null),
+      sentiment: { POS: row?.pos ?? 0, NEU: row?.neu ?? 0, NEG: row?.neg ?? 0 }
+    };
+  });
+
+  const serializeBreakdown = (row: BreakdownRow) => ({
+    key: row.key,
+    name: row.name,
+    total: row.total,
+    avgRating: round(row.avgRating),
+    negativePercent: toPercent(row.neg, row.total),
+    medianSendHours: toHours(row.medianSendSeconds)
+  });
+
+  // tags stored before a synonym was added still count towards their canonical tag
+  const tagCounts = new Map<string, number>();
+  for (const row of tagRows) {
+    const name = lookup.get(row.name) ?? row.name;
+    tagCounts.set(name, (tagCounts.get(name) ?? 0) + row.count);
   }
-  const topTags = Array.from(tagMap.entries())
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 10)
-    .map(([name, count]) => ({ name, count }));
+  const topTags = Array.from(tagCounts, ([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, 10);
 
   const limits = PLAN_LIMITS[workspace.plan];
 
   return {
-    totalReviews: total,
-    avgRating,
-    draftedCount,
-    approvedCount,
+    range: {
+      from: range.from.toISOString(),
+      to: range.to.toISOString(),
+      previousFrom: range.previousFrom.toISOString(),
+      granularity: range.granularity
+    },
+    totalReviews: current.total,
+    avgRating: round(current.avgRating) ?? 0,
+    draftedCount: statusCounts.DRAFTED ?? 0,
+    approvedCount: statusCounts.APPROVED ?? 0,
     statusCounts,
+    deltas: {
+      totalReviews: change(current.total, previous.total),
+      avgRating: change(round(current.avgRating), round(previous.avgRating)),
+      negativePercent: change(negativeShare, previous.total ? toPercent(previous.neg, previous.total) : null)
+    },
+    responseTimes: {
+      draft: { medianHours: toHours(current.medianDraftSeconds), previousMedianHours: toHours(previous.medianDraftSeconds) },
+      approve: {
+        medianHours: toHours(current.medianApproveSeconds),
+        previousMedianHours: toHours(previous.medianApproveSeconds)
+      },
+      send: { medianHours: toHours(current.medianSendSeconds), previousMedianHours: toHours(previous.medianSendSeconds) }
+    },
+    trend,
+    locations: locationRows.map(serializeBreakdown),
+    sources: sourceRows.map((row) => ({ ...serializeBreakdown(row), key: row.key as ReviewSource })),
     generationUsage: {
       used: workspace.aiGenerationsUsed,
       limit: limits.monthlyGenerations,
       percent: toPercent(workspace.aiGenerationsUsed, limits.monthlyGenerations)
     },
     topTags,
+    aspects: aspectRows.map((row) => ({
+      aspect: row.aspect,
+      total: row.total,
+      sentiment: { POS: row.pos, NEU: row.neu, NEG: row.neg },
+      negativePercent: toPercent(row.neg, row.total)
+    })),
     sentiment: {
       counts: sentimentCounts,
       percentages: {
-        POS: toPercent(sentimentCounts.POS, total),
-        NEU: toPercent(sentimentCounts.NEU, total),
-        NEG: toPercent(sentimentCounts.NEG, total)
+        POS: toPercent(sentimentCounts.POS, current.total),
+        NEU: toPercent(sentimentCounts.NEU, current.total),
+        NEG: negativeShare
       }
     }
   };
 }
+
+export type WorkspaceAnalytics = Awaited<ReturnType<typeof getWorkspaceAnalytics>>;
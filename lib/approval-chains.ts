@@ -0,0 +1,304 @@
+import { ApprovalChain, Review, Role, WorkspaceMembership, WorkspaceRole } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { HttpError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { sanitizeText } from '@/lib/sanitize';
+import { hasPermission } from '@/lib/permissions';
+
+export const approvalStageSchema = z
+  .object({
+    name: z.string().min(2).max(60),
+    roles: z.array(z.nativeEnum(Role)).max(4).default([]),
+    userIds: z.array(z.string().min(1)).max(20).default([]),
+    requiredApprovals: z.number().int().min(1).max(5).default(1),
+    // the stage only applies to reviews rated at or below this value
+    maxRating: z.number().int().min(1).max(5).nullable().default(null)
+  })
+  .refine((stage) => stage.roles.length || stage.userIds.length, {
+    message: 'Each stage needs at least one approver role or user',
+    path: ['roles']
+  });
+
+export const approvalChainSchema = z.object({
+  locationId: z.string().min(1).nullable().default(null),
+  stages: z.array(approvalStageSchema).min(1).max(5)
+});
+
+export type ApprovalStage = z.infer<typeof approvalStageSchema>;
+
+type Approver = Pick<WorkspaceMembership, 'userId' | 'role'> & {
+  customRole?: Pick<WorkspaceRole, 'permissions'> | null;
+};
+
+type ReviewForApproval = Pick<Review, 'id' | 'workspaceId' | 'locationId' | 'rating' | 'approvalRound'>;
+
+/** Used when neither the location nor the workspace has a chain: one owner/admin sign-off, as before chains existed. */
+export const DEFAULT_APPROVAL_STAGES: ApprovalStage[] = [
+  { name: 'Admin approval', roles: [Role.OWNER, Role.ADMIN], userIds: [], requiredApprovals: 1, maxRating: null }
+];
+
+/** Appended to the default stages for locations that have client approvers. */
+const CLIENT_APPROVAL_STAGE: ApprovalStage = {
+  name: 'Client sign-off',
+  roles: [Role.CLIENT],
+  userIds: [],
+  requiredApprovals: 1,
+  maxRating: null
+};
+
+/** Sanitizes a parsed chain and checks its location and named approvers belong to the workspace. */
+export async function cleanChainInput(
+  workspaceId: string,
+  parsed: z.infer<typeof approvalChainSchema>,
+  existingId?: string
+) {
+  if (parsed.locationId) {
+    const location = await prisma.location.findUnique({ where: { id: parsed.locationId } });
+    if (!location || location.workspaceId !== workspaceId) {
+      throw new HttpError(404, 'Location not found');
+    }
+  }
+
+  const duplicate = await prisma.approvalChain.findFirst({ where: { workspaceId, locationId: parsed.locationId } });
+  if (duplicate && duplicate.id !== existingId) {
+    throw new HttpError(409, parsed.locationId ? 'This location already has an approval chain' : 'Workspace approval chain already exists');
+  }
+
+  const userIds = Array.from(new Set(parsed.stages.flatMap((stage) => stage.userIds)));
+  if (userIds.length) {
+    const count = await prisma.workspaceMembership.count({ where: { workspaceId, userId: { in: userIds } } });
+    if (count !== userIds.length) {
+      throw new HttpError(404, 'Approver is not a member of this workspace');
+    }
+  }
+
+  const stages = parsed.stages.map((stage) => {
+    if (!stage.roles.length && stage.requiredApprovals > stage.userIds.length) {
+      throw new HttpError(400, `Stage "${stage.name}" requires more approvals than it has approvers`);
+    }
+    return {
+      ...stage,
+      name: sanitizeText(stage.name, 60),
+      roles: Array.from(new Set(stage.roles)),
+      userIds: Array.from(new Set(stage.userIds))
+    };
+  });
+
+  return { locationId: parsed.locationId, stages };
+}
+
+export function parseStages(chain: Pick<ApprovalChain, 'stages'>) {
+  const parsed = z.array(approvalStageSchema).safeParse(chain.stages);
+  return parsed.success && parsed.data.length ? parsed.data : DEFAULT_APPROVAL_STAGES;
+}
+
+export function serializeChain(chain: ApprovalChain) {
+  return {
+    id: chain.id,
+    locationId: chain.locationId,
+    stages: parseStages(chain),
+    createdAt: chain.createdAt.toISOString(),
+    updatedAt: chain.updatedAt.toISOString()
+  };
+}
+
+/** The location's own chain wins over the workspace-wide one. */
+export async function findApprovalChain(workspaceId: string, locationId: string) {
+  const chains = await prisma.approvalChain.findMany({
+    where: { workspaceId, OR: [{ locationId }, { locationId: null }] }
+  });
+  return chains.find((chain) => chain.locationId === locationId) ?? chains.find((chain) => !chain.locationId) ?? null;
+}
+
+async function hasClientApprovers(review: Pick<Review, 'workspaceId' | 'locationId'>) {
+  const clients = await prisma.workspaceMembership.count({
+    where: { workspaceId: review.workspaceId, role: Role.CLIENT, locationIds: { has: review.locationId } }
+  });
+  return clients > 0;
+}
+
+/** Without a chain, clients granted the location sign off after the team, so their approval is not skipped. */
+async function defaultApprovalStages(review: Pick<Review, 'workspaceId' | 'locationId'>) {
+  return (await hasClientApprovers(review)) ? [...DEFAULT_APPROVAL_STAGES, CLIENT_APPROVAL_STAGE] : DEFAULT_APPROVAL_STAGES;
+}
+
+/** A stage names who may sign off, but only members whose role grants `reviews.approve` can. */
+function isStageApprover(stage: ApprovalStage, approver: Approver) {
+  return (
+    hasPermission(approver, 'reviews.approve') &&
+    (stage.userIds.includes(approver.userId) || stage.roles.includes(approver.role))
+  );
+}
+
+/**
+ * Works out where a review is in its chain for the current round. Stages with a `maxRating`
+ * are skipped for reviews rated above it, which is how low ratings get an extra sign-off.
+ */
+async function loadApprovalProgress(review: ReviewForApproval, viewer?: Approver) {
+  const chain = await findApprovalChain(review.workspaceId, review.locationId);
+  const stages = chain ? parseStages(chain) : await defaultApprovalStages(review);
+
+  const decisions = await prisma.reviewApproval.findMany({
+    where: { reviewId: review.id },
+    include: { approver: { select: { id: true, name: true, email: true } } },
+    orderBy: { createdAt: 'asc' }
+  });
+  const approvals = decisions.filter((item) => item.round === review.approvalRound && item.decision === 'APPROVED');
+  const lastRejection = decisions.filter((item) => item.decision === 'REJECTED').at(-1) ?? null;
+
+  const applicable = stages.flatMap((stage, index) =>
+    stage.maxRating == null || review.rating <= stage.maxRating ? [{ ...stage, index }] : []
+  );
+  const progress = applicable.map((stage) => {
+    const stageApprovals = approvals.filter((item) => item.stageIndex === stage.index);
+    return {
+      index: stage.index,
+      name: stage.name,
+      roles: stage.roles,
+      userIds: stage.userIds,
+      requiredApprovals: stage.requiredApprovals,
+      maxRating: stage.maxRating,
+      approvals: stageApprovals.map((item) => ({
+        approverId: item.approverId,
+        label: item.approver.name || item.approver.email,
+        createdAt: item.createdAt.toISOString()
+      })),
+      complete: stageApprovals.length >= stage.requiredApprovals
+    };
+  });
+  const current = progress.find((stage) => !stage.complete) ?? null;
+  const currentStage = current ? applicable.find((stage) => stage.index === current.index) ?? null : null;
+  const alreadyApproved = !!viewer && approvals.some((item) => item.approverId === viewer.userId);
+
+  const state = {
+    configured: !!chain,
+    chainId: chain?.id ?? null,
+    round: review.approvalRound,
+    stages: progress,
+    currentStageIndex: current?.index ?? null,
+    // true when one more sign-off on the current stage finishes the whole chain
+    lastSignOff:
+      !!current &&
+      progress.filter((stage) => !stage.complete).length === 1 &&
+      current.approvals.length + 1 >= current.requiredApprovals,
+    canApprove: !!viewer && !!currentStage && !alreadyApproved && isStageApprover(currentStage, viewer),
+    canReject: !!viewer && !!currentStage && isStageApprover(currentStage, viewer),
+    lastRejection: lastRejection
+      ? {
+          reason: lastRejection.reason,
+          stageName: lastRejection.stageName,
+          by: lastRejection.approver.name || lastRejection.approver.email,
+          createdAt: lastRejection.createdAt.toISOString()
+        }
+      : null
+  };
+  return { state, currentStage };
+}
+
+export async function getApprovalState(review: ReviewForApproval, viewer?: Approver) {
+  return (await loadApprovalProgress(review, viewer)).state;
+}
+
+export type ApprovalState = Awaited<ReturnType<typeof getApprovalState>>;
+
+/**
+ * Records the approver's sign-off on the current stage. Returns `complete: true` when that
+ * sign-off finished the last applicable stage and the caller should publish the approval.
+ */
+export async function recordApprovalStep(review: ReviewForApproval, approver: Approver) {
+  const { state, currentStage: stage } = await loadApprovalProgress(review, approver);
+  if (!stage) {
+    throw new HttpError(409, 'Review has no pending approval stage');
+  }
+  if (!isStageApprover(stage, approver)) {
+    throw new HttpError(403, `You are not an approver for the "${stage.name}" stage`);
+  }
+  if (!state.canApprove) {
+    throw new HttpError(409, 'You have already signed off on this review');
+  }
+
+  await prisma.reviewApproval.create({
+    data: {
+      workspaceId: review.workspaceId,
+      reviewId: review.id,
+      round: review.approvalRound,
+      stageIndex: stage.index,
+      stageName: stage.name,
+      approverId: approver.userId,
+      decision: 'APPROVED'
+    }
+  });
+
+  const approvals = (state.stages.find((item) => item.index === stage.index)?.approvals.length ?? 0) + 1;
+  return {
+    stage: { index: stage.index, name: stage.name, approvals, requiredApprovals: stage.requiredApprovals },
+    complete: state.lastSignOff
+  };
+}
+
+/** Rejection sends the review back to DRAFTED and starts a new round, discarding earlier sign-offs. */
+export async function rejectReview(input: { review: ReviewForApproval; approver: Approver; reason: string }) {
+  const { currentStage: stage } = await loadApprovalProgress(input.review, input.approver);
+  if (!stage) {
+    throw new HttpError(409, 'Review has no pending approval stage');
+  }
+  if (!isStageApprover(stage, input.approver)) {
+    throw new HttpError(403, `You are not an approver for the "${stage.name}" stage`);
+  }
+
+  const reason = sanitizeText(input.reason, 500);
+  await prisma.reviewApproval.create({
+    data: {
+      workspaceId: input.review.workspaceId,
+      reviewId: input.review.id,
+      round: input.review.approvalRound,
+      stageIndex: stage.index,
+      stageName: stage.name,
+      approverId: input.approver.userId,
+      decision: 'REJECTED',
+      reason
+    }
+  });
+
+  const updated = await prisma.review.update({
+    where: { id: input.review.id },
+    data: { status: 'DRAFTED', approvalRound: { increment: 1 } }
+  });
+
+  await logAudit({
+    workspaceId: input.review.workspaceId,
+    reviewId: input.review.id,
+    actorId: input.approver.userId,
+    action: 'APPROVAL_REJECTED',
+    metadata: { round: input.review.approvalRound, stage: stage.name, stageIndex: stage.index, reason }
+  });
+
+  return updated;
+}
+
+/** Starts a new round when the draft changes, so nobody's sign-off carries over to text they have not seen. */
+export async function resetApprovalRound(review: Pick<Review, 'id' | 'approvalRound'>) {
+  const approvals = await prisma.reviewApproval.count({
+    where: { reviewId: review.id, round: review.approvalRound, decision: 'APPROVED' }
+  });
+  if (!approvals) return;
+  await prisma.review.update({ where: { id: review.id }, data: { approvalRound: { increment: 1 } } });
+}
+
+/** Without a chain, a direct status change to APPROVED follows the default stage's approvers. */
+export function assertDefaultApprover(approver: Approver) {
+  if (!DEFAULT_APPROVAL_STAGES.every((stage) => isStageApprover(stage, approver))) {
+    throw new HttpError(403, 'Only admin/owner can approve');
+  }
+}
+
+/** Direct status changes to APPROVED would bypass a configured chain or the client sign-off. */
+export async function assertNoApprovalChain(review: Pick<Review, 'workspaceId' | 'locationId'>) {
+  if (await findApprovalChain(review.workspaceId, review.locationId)) {
+    throw new HttpError(409, 'This review needs sign-off through its approval chain');
+  }
+  if (await hasClientApprovers(review)) {
+    throw new HttpError(409, 'This review needs client sign-off through the approval chain');
+  }
+}
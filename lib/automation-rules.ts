@@ -0,0 +1,300 @@
+import { AutomationRule, Review, ReviewSource, Sentiment } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { PROVIDERS } from '@/lib/ai';
+import { PLAN_LIMITS } from '@/lib/plans';
+import { HttpError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { enqueueJob } from '@/lib/jobs';
+import { applyReplyTemplate } from '@/lib/reply-templates';
+import { assertAssignableMember, assignReview } from '@/lib/review-assignment';
+import { sanitizeTags, sanitizeText } from '@/lib/sanitize';
+import { resolveReviewTags } from '@/lib/tag-taxonomy';
+import { releaseGenerations, reserveGenerations } from '@/lib/tenant';
+
+export const ruleConditionsSchema = z
+  .object({
+    minRating: z.number().int().min(1).max(5).nullable().optional(),
+    maxRating: z.number().int().min(1).max(5).nullable().optional(),
+    sources: z.array(z.nativeEnum(ReviewSource)).max(10).default([]),
+    locationIds: z.array(z.string().min(1)).max(50).default([]),
+    tags: z.array(z.string().max(40)).max(20).default([]),
+    sentiments: z.array(z.nativeEnum(Sentiment)).max(3).default([]),
+    languages: z.array(z.string().min(2).max(32)).max(20).default([]),
+    keywords: z.array(z.string().min(1).max(80)).max(30).default([])
+  })
+  .refine((value) => value.minRating == null || value.maxRating == null || value.minRating <= value.maxRating, {
+    message: 'minRating must not exceed maxRating',
+    path: ['minRating']
+  });
+
+export const ruleActionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('generate_draft'),
+    provider: z.enum(PROVIDERS),
+    length: z.enum(['short', 'medium', 'long']).default('medium'),
+    targetLanguage: z.string().max(32).optional(),
+    escalation: z.boolean().default(true)
+  }),
+  z.object({ type: z.literal('apply_template'), templateId: z.string().min(1) }),
+  z.object({
+    type: z.literal('set_tags'),
+    tags: z.array(z.string().max(40)).min(1).max(20),
+    mode: z.enum(['add', 'replace']).default('add')
+  }),
+  z.object({ type: z.literal('assign'), userId: z.string().min(1) }),
+  z.object({ type: z.literal('archive') })
+]);
+
+export const automationRuleSchema = z.object({
+  name: z.string().min(2).max(80),
+  enabled: z.boolean().default(true),
+  position: z.number().int().min(0).max(1000).default(0),
+  stopProcessing: z.boolean().default(false),
+  conditions: ruleConditionsSchema,
+  actions: z.array(ruleActionSchema).min(1).max(5)
+});
+
+export type RuleConditions = z.infer<typeof ruleConditionsSchema>;
+export type RuleAction = z.infer<typeof ruleActionSchema>;
+
+type ActionOutcome = {
+  type: RuleAction['type'];
+  status: 'done' | 'failed';
+  detail?: string;
+};
+
+export type AutomationSummary = {
+  rulesEvaluated: number;
+  matches: number;
+  actionsFailed: number;
+};
+
+const EMPTY_SUMMARY: AutomationSummary = { rulesEvaluated: 0, matches: 0, actionsFailed: 0 };
+
+/**
+ * Sanitizes a parsed rule and checks that referenced locations, templates and members belong to
+ * the workspace. Tags the rule sets are resolved against the taxonomy like tags set by hand.
+ */
+export async function cleanRuleInput(workspaceId: string, parsed: z.infer<typeof automationRuleSchema>) {
+  const conditions: RuleConditions = {
+    ...parsed.conditions,
+    tags: sanitizeTags(parsed.conditions.tags),
+    languages: parsed.conditions.languages.map((language) => sanitizeText(language, 32).toLowerCase()).filter(Boolean),
+    keywords: parsed.conditions.keywords.map((keyword) => sanitizeText(keyword, 80)).filter(Boolean)
+  };
+
+  if (conditions.locationIds.length) {
+    const count = await prisma.location.count({ where: { workspaceId, id: { in: conditions.locationIds } } });
+    if (count !== new Set(conditions.locationIds).size) {
+      throw new HttpError(404, 'Location not found');
+    }
+  }
+
+  const workspace = await prisma.workspace.findUniqueOrThrow({ where: { id: workspaceId } });
+  const actions: RuleAction[] = [];
+  for (const action of parsed.actions) {
+    if (action.type === 'apply_template' && !action.templateId.startsWith('system:')) {
+      const template = await prisma.replyTemplate.findUnique({ where: { id: action.templateId } });
+      if (!template || template.workspaceId !== workspaceId) {
+        throw new HttpError(404, 'Template not found');
+      }
+    }
+    if (action.type === 'assign') {
+      await assertAssignableMember(workspaceId, action.userId);
+    }
+    if (action.type === 'set_tags') {
+      const tags = await resolveReviewTags(workspace, action.tags);
+      if (!tags.length) {
+        throw new HttpError(400, 'Set tags needs at least one tag');
+      }
+      actions.push({ ...action, tags });
+      continue;
+    }
+    actions.push(action);
+  }
+
+  return {
+    name: sanitizeText(parsed.name, 80),
+    enabled: parsed.enabled,
+    position: parsed.position,
+    stopProcessing: parsed.stopProcessing,
+    conditions,
+    actions
+  };
+}
+
+export function serializeRule(rule: AutomationRule) {
+  return {
+    ...rule,
+    createdAt: rule.createdAt.toISOString(),
+    updatedAt: rule.updatedAt.toISOString(),
+    lastMatchedAt: rule.lastMatchedAt?.toISOString() ?? null
+  };
+}
+
+export function ruleMatchesReview(conditions: RuleConditions, review: Review) {
+  if (conditions.minRating != null && review.rating < conditions.minRating) return false;
+  if (conditions.maxRating != null && review.rating > conditions.maxRating) return false;
+  if (conditions.sources.length && !conditions.sources.includes(review.source)) return false;
+  if (conditions.locationIds.length && !conditions.locationIds.includes(review.locationId)) return false;
+  if (conditions.sentiments.length && !conditions.sentiments.includes(review.sentiment)) return false;
+  if (conditions.tags.length && !conditions.tags.some((tag) => review.tags.includes(tag))) return false;
+
+  if (conditions.languages.length) {
+    const language = review.language?.toLowerCase();
+    if (!language || !conditions.languages.some((code) => language === code || language.startsWith(`${code}-`))) {
+      return false;
+    }
+  }
+
+  if (conditions.keywords.length) {
+    const text = review.text.toLowerCase();
+    if (!conditions.keywords.some((keyword) => text.includes(keyword.toLowerCase()))) return false;
+  }
+
+  return true;
+}
+
+async function runAction(
+  action: RuleAction,
+  review: Review,
+  rule: AutomationRule,
+  actorId: string,
+  resolveTags: (tags: string[]) => Promise<string[]>
+): Promise<Review> {
+  switch (action.type) {
+    case 'generate_draft': {
+      // reserved up front so a burst of imports cannot queue more drafts than the plan allows
+      await reserveGenerations(review.workspaceId, 1);
+      try {
+        await enqueueJob({
+          workspaceId: review.workspaceId,
+          createdById: actorId,
+          type: 'REPLY_GENERATION',
+          payload: {
+            reviewId: review.id,
+            provider: action.provider,
+            length: action.length,
+            targetLanguage: action.targetLanguage,
+            escalation: action.escalation,
+            reserved: true,
+            auditMetadata: { automationRuleId: rule.id }
+          }
+        });
+      } catch (error) {
+        await releaseGenerations(review.workspaceId, 1);
+        throw error;
+      }
+      return review;
+    }
+    case 'apply_template':
+      return applyReplyTemplate({
+        workspaceId: review.workspaceId,
+        reviewId: review.id,
+        templateId: action.templateId,
+        actorId
+      });
+    case 'set_tags': {
+      const resolved = await resolveTags(action.tags);
+      const tags = action.mode === 'replace' ? resolved : Array.from(new Set([...review.tags, ...resolved]));
+      return prisma.review.update({ where: { id: review.id }, data: { tags } });
+    }
+    case 'assign':
+      return assignReview({
+        workspaceId: review.workspaceId,
+        reviewId: review.id,
+        assigneeId: action.userId,
+        actorId,
+        metadata: { automationRuleId: rule.id }
+      });
+    case 'archive':
+      return prisma.review.update({ where: { id: review.id }, data: { status: 'ARCHIVED' } });
+  }
+}
+
+/**
+ * Evaluates the workspace's enabled rules, in position order, against freshly imported reviews.
+ * Failures are recorded per action in the audit log and never fail the import itself.
+ */
+export async function runAutomationRules(input: {
+  workspaceId: string;
+  reviewIds: string[];
+  actorId: string;
+}): Promise<AutomationSummary> {
+  if (!input.reviewIds.length) return EMPTY_SUMMARY;
+
+  const workspace = await prisma.workspace.findUniqueOrThrow({ where: { id: input.workspaceId } });
+  if (!PLAN_LIMITS[workspace.plan].hasAutomationRules) return EMPTY_SUMMARY;
+
+  const rules = await prisma.automationRule.findMany({
+    where: { workspaceId: input.workspaceId, enabled: true },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }]
+  });
+  const parsedRules = rules.flatMap((rule) => {
+    const conditions = ruleConditionsSchema.safeParse(rule.conditions);
+    const actions = z.array(ruleActionSchema).safeParse(rule.actions);
+    return conditions.success && actions.success ? [{ rule, conditions: conditions.data, actions: actions.data }] : [];
+  });
+  if (!parsedRules.length) return EMPTY_SUMMARY;
+
+  const reviews = await prisma.review.findMany({
+    where: { workspaceId: input.workspaceId, id: { in: input.reviewIds } }
+  });
+
+  // the taxonomy may have changed since a rule was saved, so its tags are resolved again, once per run;
+  // a tag strict mode no longer allows fails the action
+  const resolvedTags = new Map<string, Promise<string[]>>();
+  const resolveTags = (tags: string[]) => {
+    const key = tags.join('\n');
+    if (!resolvedTags.has(key)) resolvedTags.set(key, resolveReviewTags(workspace, tags));
+    return resolvedTags.get(key)!;
+  };
+
+  const summary: AutomationSummary = { rulesEvaluated: parsedRules.length, matches: 0, actionsFailed: 0 };
+  const matchedRuleIds = new Set<string>();
+
+  for (let review of reviews) {
+    for (const { rule, conditions, actions } of parsedRules) {
+      if (review.status === 'ARCHIVED') break;
+      if (!ruleMatchesReview(conditions, review)) continue;
+
+      summary.matches += 1;
+      matchedRuleIds.add(rule.id);
+
+      const outcomes: ActionOutcome[] = [];
+      for (const action of actions) {
+        try {
+          review = await runAction(action, review, rule, input.actorId, resolveTags);
+          outcomes.push({ type: action.type, status: 'done' });
+        } catch (error) {
+          summary.actionsFailed += 1;
+          outcomes.push({
+            type: action.type,
+            status: 'failed',
+            detail: error instanceof Error ? error.message : 'Unknown automation error'
+          });
+        }
+      }
+
+      await logAudit({
+        workspaceId: input.workspaceId,
+        reviewId: review.id,
+        actorId: input.actorId,
+        action: 'AUTOMATION_RULE_APPLIED',
+        metadata: { ruleId: rule.id, ruleName: rule.name, actions: outcomes }
+      });
+
+      if (rule.stopProcessing) break;
+    }
+  }
+
+  if (matchedRuleIds.size) {
+    await prisma.automationRule.updateMany({
+      where: { id: { in: Array.from(matchedRuleIds) } },
+      data: { lastMatchedAt: new Date() }
+    });
+  }
+
+  return summary;
+}
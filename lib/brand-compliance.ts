@@ -0,0 +1,236 @@
+import { BrandVoice, ComplianceMode } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { HttpError } from '@/lib/http';
+
+export type ComplianceViolationCode =
+  | 'BANNED_WORD'
+  | 'DONT_LIST'
+  | 'MISSING_SIGN_OFF'
+  | 'LENGTH'
+  | 'LANGUAGE'
+  | 'PERSONAL_DATA';
+
+export type ComplianceViolation = {
+  code: ComplianceViolationCode;
+  severity: 'error' | 'warning';
+  message: string;
+  /** Exact substrings of the reply that triggered the violation, for highlighting. */
+  matches: string[];
+};
+
+export type ComplianceReport = {
+  mode: ComplianceMode;
+  passed: boolean;
+  blocking: boolean;
+  violations: ComplianceViolation[];
+};
+
+type ComplianceInput = {
+  text: string;
+  brandVoice?: Pick<BrandVoice, 'bannedWords' | 'dontList' | 'signOff'> | null;
+  length?: string | null;
+  targetLanguage?: string | null;
+};
+
+// Word-count bands with some slack around the prompt instructions in buildReplyPrompt.
+const LENGTH_BANDS: Record<string, { min: number; max: number }> = {
+  short: { min: 5, max: 90 },
+  medium: { min: 60, max: 180 },
+  long: { min: 110, max: 270 }
+};
+
+const LANGUAGE_STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'you', 'your', 'for', 'with', 'we', 'our', 'thank', 'this', 'that', 'are'],
+  es: ['el', 'la', 'los', 'las', 'que', 'por', 'para', 'con', 'gracias', 'nuestro', 'su', 'una'],
+  fr: ['le', 'la', 'les', 'des', 'est', 'pour', 'avec', 'vous', 'votre', 'merci', 'nous', 'une'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'mit', 'sie', 'ihr', 'wir', 'danke', 'für', 'nicht'],
+  it: ['il', 'lo', 'gli', 'che', 'per', 'con', 'grazie', 'nostro', 'una', 'sono', 'della', 'siamo'],
+  pt: ['o', 'os', 'que', 'para', 'com', 'obrigado', 'obrigada', 'nosso', 'uma', 'você', 'não', 'muito'],
+  ro: ['si', 'și', 'pentru', 'cu', 'multumim', 'mulțumim', 'nostru', 'este', 'sunt', 'va', 'vă', 'din'],
+  nl: ['de', 'het', 'een', 'en', 'voor', 'met', 'u', 'uw', 'wij', 'bedankt', 'niet', 'zijn']
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  english: 'en',
+  spanish: 'es',
+  espanol: 'es',
+  español: 'es',
+  french: 'fr',
+  francais: 'fr',
+  français: 'fr',
+  german: 'de',
+  deutsch: 'de',
+  italian: 'it',
+  italiano: 'it',
+  portuguese: 'pt',
+  portugues: 'pt',
+  português: 'pt',
+  romanian: 'ro',
+  romana: 'ro',
+  română: 'ro',
+  dutch: 'nl',
+  nederlands: 'nl'
+};
+
+const PERSONAL_DATA_PATTERNS: Array<{ label: string; pattern: RegExp; minDigits?: number }> = [
+  { label: 'email address', pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+  // dates such as 2024-01-15 also look like this, hence the digit threshold
+  { label: 'phone number', pattern: /\+?\d[\d\s().-]{7,}\d/g, minDigits: 9 },
+  { label: 'payment card number', pattern: /\b(?:\d[ -]?){13,19}\b/g, minDigits: 13 },
+  { label: 'IBAN', pattern: /\b[A-Z]{2}\d{2}[A-Z0-9]{11,30}\b/g }
+];
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function findPhrase(text: string, phrase: string) {
+  const trimmed = phrase.trim();
+  if (!trimmed) return [];
+  const matcher = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(trimmed)}(?![\\p{L}\\p{N}])`, 'giu');
+  return Array.from(text.matchAll(matcher), (match) => match[0]);
+}
+
+function countWords(text: string) {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function normalizeLanguage(value: string) {
+  const key = value.trim().toLowerCase();
+  if (LANGUAGE_STOPWORDS[key]) return key;
+  const prefix = key.split(/[-_]/)[0];
+  if (LANGUAGE_STOPWORDS[prefix]) return prefix;
+  return LANGUAGE_ALIASES[key] ?? null;
+}
+
+/** Scores the reply against small stopword lists; returns null when the text is too ambiguous. */
+export function detectLanguage(text: string) {
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  if (words.length < 8) return null;
+
+  let best: { code: string; score: number } | null = null;
+  let runnerUp = 0;
+  for (const [code, stopwords] of Object.entries(LANGUAGE_STOPWORDS)) {
+    const set = new Set(stopwords);
+    const score = words.filter((word) => set.has(word)).length;
+    if (!best || score > best.score) {
+      runnerUp = best?.score ?? 0;
+      best = { code, score };
+    } else if (score > runnerUp) {
+      runnerUp = score;
+    }
+  }
+  if (!best || best.score < 2 || best.score === runnerUp) return null;
+  return best.code;
+}
+
+export function checkReplyCompliance(input: ComplianceInput): ComplianceViolation[] {
+  const violations: ComplianceViolation[] = [];
+  const text = input.text;
+
+  for (const word of input.brandVoice?.bannedWords ?? []) {
+    const matches = findPhrase(text, word);
+    if (matches.length) {
+      violations.push({ code: 'BANNED_WORD', severity: 'error', message: `Uses banned word "${word}"`, matches });
+    }
+  }
+
+  for (const phrase of input.brandVoice?.dontList ?? []) {
+    const matches = findPhrase(text, phrase);
+    if (matches.length) {
+      violations.push({ code: 'DONT_LIST', severity: 'warning', message: `Contains avoided phrase "${phrase}"`, matches });
+    }
+  }
+
+  const signOff = input.brandVoice?.signOff?.trim();
+  if (signOff && !text.toLowerCase().includes(signOff.toLowerCase())) {
+    violations.push({ code: 'MISSING_SIGN_OFF', severity: 'error', message: `Missing sign-off "${signOff}"`, matches: [] });
+  }
+
+  const band = input.length ? LENGTH_BANDS[input.length] : undefined;
+  if (band) {
+    const words = countWords(text);
+    if (words < band.min || words > band.max) {
+      violations.push({
+        code: 'LENGTH',
+        severity: 'warning',
+        message: `${words} words is outside the ${input.length} range (${band.min}-${band.max})`,
+        matches: []
+      });
+    }
+  }
+
+  const expectedLanguage = input.targetLanguage ? normalizeLanguage(input.targetLanguage) : null;
+  if (expectedLanguage) {
+    const detected = detectLanguage(text);
+    if (detected && detected !== expectedLanguage) {
+      violations.push({
+        code: 'LANGUAGE',
+        severity: 'error',
+        message: `Reply looks like "${detected}" but "${input.targetLanguage}" was requested`,
+        matches: []
+      });
+    }
+  }
+
+  for (const { label, pattern, minDigits = 0 } of PERSONAL_DATA_PATTERNS) {
+    const matches = Array.from(text.matchAll(pattern), (match) => match[0]).filter(
+      (match) => match.replace(/\D/g, '').length >= minDigits
+    );
+    if (matches.length) {
+      violations.push({ code: 'PERSONAL_DATA', severity: 'error', message: `Contains a possible ${label}`, matches });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Runs the checker with the review's effective brand voice and the settings of its latest
+ * generation, and decides whether the workspace compliance mode blocks approval.
+ */
+export async function checkReviewReplyCompliance(input: { workspaceId: string; reviewId: string; text: string }): Promise<ComplianceReport> {
+  const [workspace, review, latestGeneration] = await Promise.all([
+    prisma.workspace.findUniqueOrThrow({
+      where: { id: input.workspaceId },
+      select: { complianceMode: true, brandVoice: true }
+    }),
+    prisma.review.findUniqueOrThrow({
+      where: { id: input.reviewId },
+      select: { location: { select: { brandVoice: true } } }
+    }),
+    prisma.replyGeneration.findFirst({
+      where: { reviewId: input.reviewId },
+      orderBy: { createdAt: 'desc' },
+      select: { length: true, targetLanguage: true }
+    })
+  ]);
+
+  if (workspace.complianceMode === 'OFF') {
+    return { mode: workspace.complianceMode, passed: true, blocking: false, violations: [] };
+  }
+
+  const violations = checkReplyCompliance({
+    text: input.text,
+    brandVoice: review.location.brandVoice ?? workspace.brandVoice,
+    length: latestGeneration?.length,
+    targetLanguage: latestGeneration?.targetLanguage
+  });
+  const hasErrors = violations.some((violation) => violation.severity === 'error');
+
+  return {
+    mode: workspace.complianceMode,
+    passed: !hasErrors,
+    blocking: hasErrors && workspace.complianceMode === 'BLOCK',
+    violations
+  };
+}
+
+/** Runs the compliance check on a reply about to be approved; in BLOCK mode errors stop the approval. */
+export async function assertApprovableReply(input: { workspaceId: string; reviewId: string; text: string }) {
+  const compliance = await checkReviewReplyCompliance(input);
+  if (compliance.blocking) {
+    throw new HttpError(422, 'Reply violates brand voice rules', { violations: compliance.violations });
+  }
+  return compliance;
+}
@@ -0,0 +1,38 @@
+import { Location, Review } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { HttpError } from '@/lib/http';
+
+/**
+ * What an external CLIENT approver may see of a review: the customer's review and the reply
+ * awaiting sign-off. Generation metadata, audit trail, tags and internal comments stay hidden.
+ */
+export function serializeClientReview(review: Review & { location: Pick<Location, 'id' | 'name'> }) {
+  return {
+    id: review.id,
+    workspaceId: review.workspaceId,
+    location: { id: review.location.id, name: review.location.name },
+    source: review.source,
+    authorName: review.authorName,
+    rating: review.rating,
+    text: review.text,
+    reviewUrl: review.reviewUrl,
+    reviewDate: review.reviewDate.toISOString(),
+    status: review.status,
+    replyDraft: review.replyDraft,
+    approvedReply: review.approvedReply,
+    approvedAt: review.approvedAt?.toISOString() ?? null
+  };
+}
+
+export type ClientReviewView = ReturnType<typeof serializeClientReview>;
+
+/** Checks that every granted location belongs to the workspace and drops duplicates. */
+export async function cleanClientLocationIds(workspaceId: string, locationIds: string[]) {
+  const unique = Array.from(new Set(locationIds));
+  if (!unique.length) return unique;
+  const count = await prisma.location.count({ where: { workspaceId, id: { in: unique } } });
+  if (count !== unique.length) {
+    throw new HttpError(404, 'Location not found');
+  }
+  return unique;
+}
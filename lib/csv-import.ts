@@ -0,0 +1,445 @@
+import { Prisma, ReviewImportBatch, ReviewSource, Sentiment, Workspace } from '@prisma/client';
+import { parse } from 'csv-parse/sync';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { HttpError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { runAutomationRules } from '@/lib/automation-rules';
+import { autoAssignReviews } from '@/lib/review-assignment';
+import { ImportMode, ImportedReview, importReview, reviewFromCsvRow, validateImportedReview } from '@/lib/review-import';
+
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 2000;
+
+/** Review fields a CSV column can be mapped to; the names are the columns of the documented format. */
+export const IMPORT_FIELDS = ['id', 'name', 'rating', 'date', 'text', 'source', 'location', 'url', 'language', 'tags'] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+const REQUIRED_FIELDS: ImportField[] = ['rating', 'text'];
+
+export const CSV_ENCODINGS = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252'] as const;
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+
+// lower-cased header names with everything but letters and digits removed
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  id: ['id', 'reviewid', 'externalid', 'referenceid', 'reference'],
+  name: ['name', 'author', 'authorname', 'reviewer', 'reviewername', 'displayname', 'reviewconsumerusername', 'consumername'],
+  rating: ['rating', 'stars', 'starrating', 'reviewstars', 'score'],
+  date: ['date', 'reviewdate', 'createtime', 'createdat', 'reviewcreatedutc', 'reviewcreated', 'publishedat'],
+  text: ['text', 'comment', 'review', 'reviewcontent', 'content', 'reviewtext', 'body'],
+  source: ['source', 'platform', 'site'],
+  location: ['location', 'locationname', 'business', 'businessname', 'store', 'branch'],
+  url: ['url', 'reviewurl', 'link', 'reviewlink'],
+  language: ['language', 'lang', 'reviewlanguage', 'locale'],
+  tags: ['tags', 'tag', 'labels']
+};
+
+// Google exports spell star ratings out
+const RATING_WORDS: Record<string, string> = { ONE: '1', TWO: '2', THREE: '3', FOUR: '4', FIVE: '5' };
+
+/** How to read a file; anything omitted is detected or suggested from the headers. */
+export const csvImportSettingsSchema = z.object({
+  encoding: z.enum(CSV_ENCODINGS).optional(),
+  delimiter: z.enum(CSV_DELIMITERS).optional(),
+  // review field -> CSV header, null leaves the field empty
+  mapping: z.record(z.enum(IMPORT_FIELDS), z.string().max(200).nullable()).optional(),
+  // for files without a source column, such as Trustpilot exports
+  defaultSource: z.nativeEnum(ReviewSource).optional()
+});
+
+export type CsvImportSettings = z.infer<typeof csvImportSettingsSchema>;
+
+/** Reads the `settings` form field of an upload; an empty field means detect everything. */
+export function parseImportSettings(value: FormDataEntryValue | null): CsvImportSettings {
+  if (!value) return {};
+  let json: unknown;
+  try {
+    json = JSON.parse(String(value));
+  } catch {
+    throw new HttpError(400, 'settings must be JSON');
+  }
+  return csvImportSettingsSchema.parse(json);
+}
+
+export type ColumnMapping = Record<ImportField, string | null>;
+
+type MappedRow = { row: number; review: ImportedReview | null; error: string | null };
+
+function normalizeHeader(header: string) {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/** Honors a byte order mark, then tries strict UTF-8 and falls back to Windows-1252 (Excel's default). */
+function decodeCsv(bytes: Uint8Array, encoding?: (typeof CSV_ENCODINGS)[number]) {
+  if (encoding) {
+    return { text: new TextDecoder(encoding).decode(bytes), encoding };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes), encoding: 'utf-16le' as const };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes), encoding: 'utf-16be' as const };
+  }
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' as const };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'windows-1252' as const };
+  }
+}
+
+/** Picks the delimiter that appears the same, non-zero number of times on most of the first lines. */
+function detectDelimiter(text: string) {
+  const lines = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .slice(0, 10)
+    .map((line) => line.replace(/"[^"]*"/g, ''));
+  let best: { delimiter: (typeof CSV_DELIMITERS)[number]; score: number } = { delimiter: ',', score: 0 };
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = lines.map((line) => line.split(delimiter).length - 1);
+    const header = counts[0] ?? 0;
+    if (!header) continue;
+    const score = counts.filter((count) => count === header).length * 100 + header;
+    if (score > best.score) best = { delimiter, score };
+  }
+  return best.delimiter;
+}
+
+export function suggestMapping(headers: string[]): ColumnMapping {
+  const taken = new Set<string>();
+  const mapping = {} as ColumnMapping;
+  for (const field of IMPORT_FIELDS) {
+    const header = headers.find((item) => !taken.has(item) && HEADER_ALIASES[field].includes(normalizeHeader(item)));
+    mapping[field] = header ?? null;
+    if (header) taken.add(header);
+  }
+  return mapping;
+}
+
+function normalizeRating(value: string) {
+  const word = RATING_WORDS[value.trim().toUpperCase()];
+  if (word) return word;
+  const number = value.match(/\d+(\.\d+)?/);
+  return number ? String(Math.round(Number(number[0]))) : value;
+}
+
+/** Decodes and parses an uploaded file, and settles the mapping the rows are read with. */
+export function readCsvImport(bytes: Uint8Array, settings: CsvImportSettings) {
+  if (bytes.byteLength > MAX_IMPORT_BYTES) {
+    throw new HttpError(413, `CSV files are limited to ${MAX_IMPORT_BYTES / 1024 / 1024} MB`);
+  }
+  const { text, encoding } = decodeCsv(bytes, settings.encoding);
+  const delimiter = settings.delimiter ?? detectDelimiter(text);
+
+  let records: string[][];
+  try {
+    records = parse(text, { delimiter, skip_empty_lines: true, trim: true, relax_column_count: true, bom: true });
+  } catch (error) {
+    throw new HttpError(400, `Could not read the CSV file: ${error instanceof Error ? error.message : 'parse error'}`);
+  }
+  const [headerRow, ...dataRows] = records;
+  if (!headerRow?.length) throw new HttpError(400, 'The CSV file is empty');
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    throw new HttpError(413, `Imports are limited to ${MAX_IMPORT_ROWS} rows per file`);
+  }
+
+  const headers = headerRow.map((header, index) => header || `Column ${index + 1}`);
+  const suggested = suggestMapping(headers);
+  const mapping = settings.mapping
+    ? (Object.fromEntries(IMPORT_FIELDS.map((field) => [field, settings.mapping?.[field] ?? null])) as ColumnMapping)
+    : suggested;
+  for (const [field, header] of Object.entries(mapping)) {
+    if (header && !headers.includes(header)) {
+      throw new HttpError(400, `Column "${header}" mapped to ${field} is not in the file`);
+    }
+  }
+
+  const rows = dataRows.map((values) => Object.fromEntries(headers.map((header, index) => [header, values[index] ?? ''])));
+  const missing = REQUIRED_FIELDS.filter((field) => !mapping[field]);
+  return { encoding, delimiter, headers, mapping, missing, defaultSource: settings.defaultSource ?? null, rows };
+}
+
+export type CsvImportFile = ReturnType<typeof readCsvImport>;
+
+/** Maps every row to a review and validates it with the import sanitizers, without writing anything. */
+export function mapCsvRows(file: CsvImportFile, defaultLocationId?: string): MappedRow[] {
+  return file.rows.map((values, index) => {
+    const row: Record<string, string> = {};
+    for (const field of IMPORT_FIELDS) {
+      const header = file.mapping[field];
+      row[field] = header ? values[header] ?? '' : '';
+    }
+    if (row.rating) row.rating = normalizeRating(row.rating);
+    if (!row.source && file.defaultSource) row.source = file.defaultSource;
+
+    try {
+      const review = reviewFromCsvRow(row, defaultLocationId);
+      validateImportedReview(review);
+      return { row: index + 1, review, error: null };
+    } catch (error) {
+      return { row: index + 1, review: null, error: error instanceof Error ? error.message : 'Invalid row' };
+    }
+  });
+}
+
+export type ImportReportRow = {
+  row: number;
+  outcome: 'skipped' | 'updated' | 'unchanged' | 'created';
+  reviewId: string;
+  duplicateOfId: string;
+  match: 'externalId' | 'fuzzy';
+  similarity: number;
+};
+
+type CommitSummary = {
+  batchId: string | null;
+  created: string[];
+  updated: string[];
+  skipped: number;
+  errors: Array<{ row: number; message: string }>;
+  report: ImportReportRow[];
+  // audit entries to write once the transaction is committed
+  audits: Array<{ reviewId: string; created: boolean; metadata: Record<string, unknown> }>;
+};
+
+// thrown to roll a dry run back after it has seen everything a real import would
+class DryRunRollback extends Error {
+  constructor(readonly summary: CommitSummary) {
+    super('Dry run');
+  }
+}
+
+/**
+ * Imports all valid rows in one transaction: either every row lands or none does. Row-level problems
+ * (bad values, unknown locations, plan limits) are reported per row; anything else aborts the import.
+ * With `dryRun` the transaction is rolled back at the end, so the summary shows exactly what would happen.
+ */
+export async function commitCsvImport(input: {
+  workspace: Workspace;
+  actorId: string;
+  fileName: string;
+  mode: ImportMode;
+  file: CsvImportFile;
+  rows: MappedRow[];
+  dryRun: boolean;
+}) {
+  if (input.file.missing.length) {
+    throw new HttpError(400, `Map a column to ${input.file.missing.join(' and ')} first`);
+  }
+
+  let summary: CommitSummary;
+  try {
+    summary = await prisma.$transaction(
+      async (tx) => {
+        const batch = await tx.reviewImportBatch.create({
+          data: {
+            workspaceId: input.workspace.id,
+            createdById: input.actorId,
+            fileName: input.fileName.slice(0, 200),
+            mode: input.mode,
+            settings: {
+              encoding: input.file.encoding,
+              delimiter: input.file.delimiter,
+              mapping: input.file.mapping,
+              defaultSource: input.file.defaultSource
+            }
+          }
+        });
+
+        const result: CommitSummary = {
+          batchId: batch.id,
+          created: [],
+          updated: [],
+          skipped: 0,
+          errors: [],
+          report: [],
+          audits: []
+        };
+        // the first version seen of each updated review, in case a file updates it twice
+        const previous = new Map<string, Record<string, unknown>>();
+        for (const item of input.rows) {
+          if (!item.review) {
+            result.errors.push({ row: item.row, message: item.error ?? 'Invalid row' });
+            continue;
+          }
+          try {
+            const { review, outcome, duplicate } = await importReview(input.workspace, item.review, input.mode, {
+              db: tx,
+              importBatchId: batch.id
+            });
+            if (duplicate) {
+              result.report.push({
+                row: item.row,
+                outcome,
+                reviewId: review.id,
+                duplicateOfId: duplicate.review.id,
+                match: duplicate.match,
+                similarity: Math.round(duplicate.similarity * 100) / 100
+              });
+            }
+            if (outcome === 'skipped' || outcome === 'unchanged') {
+              result.skipped += 1;
+              continue;
+            }
+            if (outcome === 'created') result.created.push(review.id);
+            else result.updated.push(review.id);
+            if (outcome === 'updated' && duplicate && !previous.has(review.id)) {
+              const { id, rating, text, authorName, reviewUrl, sentiment } = duplicate.review;
+              previous.set(id, { id, rating, text, authorName, reviewUrl, sentiment });
+            }
+            result.audits.push({
+              reviewId: review.id,
+              created: outcome === 'created',
+              metadata: {
+                source: review.source,
+                row: item.row,
+                mode: input.mode,
+                importBatchId: batch.id,
+                ...(duplicate ? { duplicateOfId: duplicate.review.id, match: duplicate.match } : {})
+              }
+            });
+          } catch (error) {
+            // only checks that run before a write can fail here without aborting the transaction
+            if (!(error instanceof HttpError)) throw error;
+            result.errors.push({ row: item.row, message: error.message });
+          }
+        }
+
+        await tx.reviewImportBatch.update({
+          where: { id: batch.id },
+          data: {
+            created: result.created.length,
+            updated: result.updated.length,
+            skipped: result.skipped,
+            failed: result.errors.length,
+            previous: previous.size ? ([...previous.values()] as Prisma.InputJsonValue) : Prisma.DbNull
+          }
+        });
+        if (input.dryRun) throw new DryRunRollback({ ...result, batchId: null });
+        return result;
+      },
+      { maxWait: 10_000, timeout: 120_000 }
+    );
+  } catch (error) {
+    if (error instanceof DryRunRollback) return serializeCommit(error.summary, null);
+    throw error;
+  }
+
+  for (const audit of summary.audits) {
+    await logAudit({
+      workspaceId: input.workspace.id,
+      reviewId: audit.reviewId,
+      actorId: input.actorId,
+      action: audit.created ? 'REVIEW_IMPORTED' : 'REVIEW_EDITED',
+      metadata: audit.metadata
+    });
+  }
+  const assigned = await autoAssignReviews({
+    workspaceId: input.workspace.id,
+    reviewIds: summary.created,
+    actorId: input.actorId
+  });
+  const automation = await runAutomationRules({
+    workspaceId: input.workspace.id,
+    reviewIds: summary.created,
+    actorId: input.actorId
+  });
+  return serializeCommit(summary, { assigned, automation });
+}
+
+function serializeCommit(
+  summary: CommitSummary,
+  followUp: { assigned: unknown; automation: unknown } | null
+) {
+  return {
+    dryRun: !followUp,
+    batchId: summary.batchId,
+    imported: summary.created.length,
+    updated: summary.updated.length,
+    skipped: summary.skipped,
+    failed: summary.errors.length,
+    errors: summary.errors,
+    report: summary.report,
+    assigned: followUp?.assigned ?? null,
+    automation: followUp?.automation ?? null
+  };
+}
+
+export function serializeImportBatch(batch: ReviewImportBatch & { createdBy: { name: string | null; email: string } | null }) {
+  return {
+    id: batch.id,
+    fileName: batch.fileName,
+    mode: batch.mode,
+    created: batch.created,
+    updated: batch.updated,
+    skipped: batch.skipped,
+    failed: batch.failed,
+    createdBy: batch.createdBy ? batch.createdBy.name || batch.createdBy.email : null,
+    createdAt: batch.createdAt.toISOString(),
+    rolledBackAt: batch.rolledBackAt?.toISOString() ?? null
+  };
+}
+
+export async function loadImportBatch(workspaceId: string, batchId: string) {
+  const batch = await prisma.reviewImportBatch.findUnique({
+    where: { id: batchId },
+    include: { createdBy: { select: { name: true, email: true } } }
+  });
+  if (!batch || batch.workspaceId !== workspaceId) {
+    throw new HttpError(404, 'Import not found');
+  }
+  return batch;
+}
+
+/**
+ * Undoes an import: deletes the reviews it created and puts back the fields of the ones it updated.
+ * Refused once a created review has a sent reply, since that reply is already public.
+ */
+export async function rollbackImportBatch(batch: ReviewImportBatch, actorId: string) {
+  if (batch.rolledBackAt) {
+    throw new HttpError(409, 'This import was already rolled back');
+  }
+  const sent = await prisma.review.count({ where: { importBatchId: batch.id, status: 'SENT' } });
+  if (sent) {
+    throw new HttpError(409, `${sent} imported review(s) already have sent replies; the import can no longer be rolled back`);
+  }
+
+  const previous = z
+    .array(
+      z.object({
+        id: z.string(),
+        rating: z.number(),
+        text: z.string(),
+        authorName: z.string(),
+        reviewUrl: z.string().nullable(),
+        sentiment: z.nativeEnum(Sentiment)
+      })
+    )
+    .catch([])
+    .parse(batch.previous ?? []);
+
+  const result = await prisma.$transaction(async (tx) => {
+    const deleted = await tx.review.deleteMany({ where: { importBatchId: batch.id } });
+    let restored = 0;
+    for (const { id, ...fields } of previous) {
+      const updated = await tx.review.updateMany({ where: { id, workspaceId: batch.workspaceId }, data: fields });
+      restored += updated.count;
+    }
+    const rolledBack = await tx.reviewImportBatch.update({
+      where: { id: batch.id },
+      data: { rolledBackAt: new Date() },
+      include: { createdBy: { select: { name: true, email: true } } }
+    });
+    return { deleted: deleted.count, restored, batch: rolledBack };
+  });
+
+  await logAudit({
+    workspaceId: batch.workspaceId,
+    actorId,
+    action: 'REVIEW_IMPORT_ROLLED_BACK',
+    metadata: { importBatchId: batch.id, fileName: batch.fileName, deleted: result.deleted, restored: result.restored }
+  });
+  return result;
+}
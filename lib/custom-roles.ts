@@ -0,0 +1,54 @@
+import { WorkspaceRole } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { HttpError } from '@/lib/http';
+import { sanitizeOptionalText, sanitizeText } from '@/lib/sanitize';
+import { PERMISSION_KEYS, Permission } from '@/lib/permissions';
+
+export const customRoleSchema = z.object({
+  name: z.string().min(2).max(40),
+  description: z.string().max(200).nullable().optional(),
+  permissions: z.array(z.enum(PERMISSION_KEYS as [Permission, ...Permission[]])).max(PERMISSION_KEYS.length)
+});
+
+/** Sanitizes a parsed role; nobody can hand out a permission they do not hold themselves. */
+export async function cleanCustomRoleInput(
+  workspaceId: string,
+  parsed: z.infer<typeof customRoleSchema>,
+  actorPermissions: Permission[],
+  existingId?: string
+) {
+  const permissions = PERMISSION_KEYS.filter((permission) => parsed.permissions.includes(permission));
+  const escalated = permissions.find((permission) => !actorPermissions.includes(permission));
+  if (escalated) {
+    throw new HttpError(403, `You cannot grant a permission you do not hold: ${escalated}`);
+  }
+
+  const name = sanitizeText(parsed.name, 40);
+  const duplicate = await prisma.workspaceRole.findUnique({ where: { workspaceId_name: { workspaceId, name } } });
+  if (duplicate && duplicate.id !== existingId) {
+    throw new HttpError(409, 'A role with this name already exists');
+  }
+
+  return { name, description: sanitizeOptionalText(parsed.description, 200), permissions };
+}
+
+export async function loadCustomRole(workspaceId: string, roleId: string) {
+  const role = await prisma.workspaceRole.findUnique({ where: { id: roleId } });
+  if (!role || role.workspaceId !== workspaceId) {
+    throw new HttpError(404, 'Role not found');
+  }
+  return role;
+}
+
+export function serializeCustomRole(role: WorkspaceRole & { _count?: { memberships: number } }) {
+  return {
+    id: role.id,
+    name: role.name,
+    description: role.description,
+    permissions: role.permissions,
+    memberCount: role._count?.memberships ?? 0,
+    createdAt: role.createdAt.toISOString(),
+    updatedAt: role.updatedAt.toISOString()
+  };
+}
@@ -0,0 +1,69 @@
+import OpenAI from 'openai';
+import { HttpError } from '@/lib/http';
+import { defaultProvider } from '@/lib/ai';
+import { mockEmbedding } from '@/lib/ai-mock';
+
+/** OpenAI embeddings are shortened to this size; it keeps stored vectors and in-memory ranking small. */
+export const EMBEDDING_DIMENSIONS = 256;
+
+export type EmbeddingBackend = { model: string; embed: (texts: string[]) => Promise<number[][]> };
+
+function openAICompatible(client: OpenAI, model: string, dimensions?: number): EmbeddingBackend {
+  return {
+    model,
+    async embed(texts) {
+      const response = await client.embeddings.create({ model, input: texts, ...(dimensions ? { dimensions } : {}) });
+      return response.data.sort((a, b) => a.index - b.index).map((item) => item.embedding);
+    }
+  };
+}
+
+/**
+ * Picks the embedding backend: the mock when it is the default provider, OpenAI when a key is set, otherwise a
+ * self-hosted OpenAI-compatible server when LOCAL_EMBEDDING_MODEL is set. Returns null when none
+ * is configured, which turns semantic search off.
+ */
+export function getEmbeddingBackend(): EmbeddingBackend | null {
+  if (defaultProvider() === 'mock') {
+    return {
+      model: `mock-embedding-${EMBEDDING_DIMENSIONS}`,
+      embed: async (texts) => texts.map((text) => mockEmbedding(text, EMBEDDING_DIMENSIONS))
+    };
+  }
+  if (process.env.OPENAI_API_KEY) {
+    return openAICompatible(
+      new OpenAI({ apiKey: process.env.OPENAI_API_KEY }),
+      process.env.OPENAI_EMBEDDING_MODEL ?? 'text-embedding-3-small',
+      EMBEDDING_DIMENSIONS
+    );
+  }
+  if (process.env.LOCAL_LLM_BASE_URL && process.env.LOCAL_EMBEDDING_MODEL) {
+    // local servers pick their own vector size, so no `dimensions` is sent
+    return openAICompatible(
+      new OpenAI({ baseURL: process.env.LOCAL_LLM_BASE_URL, apiKey: process.env.LOCAL_LLM_API_KEY || 'local' }),
+      process.env.LOCAL_EMBEDDING_MODEL
+    );
+  }
+  return null;
+}
+
+export function requireEmbeddingBackend() {
+  const backend = getEmbeddingBackend();
+  if (!backend) {
+    throw new HttpError(503, 'Semantic search needs OPENAI_API_KEY or LOCAL_EMBEDDING_MODEL to be configured');
+  }
+  return backend;
+}
+
+export function cosineSimilarity(a: number[], b: number[]) {
+  if (a.length !== b.length || !a.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < a.length; index += 1) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,227 @@
+import { InboxView, Prisma, Role, User, WorkspaceMembership, WorkspaceRole } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { HttpError } from '@/lib/http';
+import { hasPermission } from '@/lib/permissions';
+import { reviewScopeSql, reviewScopeWhere } from '@/lib/tenant';
+import { sanitizeText } from '@/lib/sanitize';
+import { buildReviewFilterSql, buildReviewWhere, reviewFiltersSchema } from '@/lib/review-filters';
+import { findSearchMatches, reviewSearchSchema, SearchScope } from '@/lib/review-search';
+
+/** Everything the inbox can filter by; saved views store the same keys the inbox URL uses. */
+export const inboxFiltersSchema = reviewFiltersSchema.merge(reviewSearchSchema);
+
+export type InboxFilters = z.infer<typeof inboxFiltersSchema>;
+
+export const inboxViewSchema = z.object({
+  name: z.string().min(1).max(60),
+  filters: inboxFiltersSchema,
+  shared: z.boolean().default(false)
+});
+
+const MAX_VIEWS_PER_USER = 30;
+
+// counting runs a query per view, so a long list only gets counts for its first views
+const MAX_COUNTED_VIEWS = 10;
+
+type ViewMember = Pick<WorkspaceMembership, 'userId' | 'workspaceId' | 'role' | 'locationIds' | 'defaultInboxViewId'> & {
+  customRole?: Pick<WorkspaceRole, 'permissions'> | null;
+};
+
+type ViewWithOwner = InboxView & { owner: Pick<User, 'id' | 'name' | 'email'> };
+
+/** Drops unset values so stored filters and links only carry what was chosen. */
+export function compactFilters(filters: InboxFilters) {
+  const compact: Record<string, string | number> = {};
+  for (const [key, value] of Object.entries(filters)) {
+    if (value === undefined || value === '') continue;
+    // the search mode only matters next to a query
+    if (key === 'searchMode' && !filters.q) continue;
+    compact[key] = value;
+  }
+  return compact;
+}
+
+/**
+ * Reads inbox filters from URL params. Values that do not parse are dropped instead of failing
+ * the page, so an old or hand-edited link still opens.
+ */
+export function parseInboxFilters(params: Record<string, string | string[] | undefined>): InboxFilters {
+  const filters: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(inboxFiltersSchema.shape)) {
+    const value = params[key];
+    if (typeof value !== 'string' || !value.trim()) continue;
+    const parsed = field.safeParse(value);
+    if (parsed.success && parsed.data !== undefined) filters[key] = parsed.data;
+  }
+  return inboxFiltersSchema.parse(filters);
+}
+
+export function filtersToQuery(filters: InboxFilters) {
+  return new URLSearchParams(
+    Object.entries(compactFilters(filters)).map(([key, value]) => [key, String(value)])
+  ).toString();
+}
+
+/** Inbox link that applies the view's filters and marks it as the active view. */
+export function inboxViewHref(workspaceId: string, view: Pick<InboxView, 'id' | 'filters'>) {
+  const query = filtersToQuery(readViewFilters(view));
+  return `/w/${workspaceId}/inbox?${query ? `${query}&` : ''}view=${view.id}`;
+}
+
+export function readViewFilters(view: Pick<InboxView, 'filters'>) {
+  const parsed = inboxFiltersSchema.safeParse(view.filters);
+  return parsed.success ? parsed.data : inboxFiltersSchema.parse({});
+}
+
+/**
+ * The review query of the inbox for this member. Clients see their own locations only and have
+ * no assignee or mention filters.
+ */
+function memberFilters(member: ViewMember, filters: InboxFilters) {
+  return member.role === Role.CLIENT ? { ...filters, assignee: undefined, mentions: undefined } : filters;
+}
+
+export function inboxWhere(member: ViewMember, filters: InboxFilters): Prisma.ReviewWhereInput {
+  return { AND: [buildReviewWhere(member.workspaceId, memberFilters(member, filters), member.userId), reviewScopeWhere(member)] };
+}
+
+/** inboxWhere together with its SQL form, for searching the inbox. */
+export function inboxSearchScope(member: ViewMember, filters: InboxFilters): SearchScope {
+  const sql = buildReviewFilterSql(member.workspaceId, memberFilters(member, filters), member.userId);
+  return { where: inboxWhere(member, filters), sql: Prisma.sql`${sql} AND ${reviewScopeSql(member)}` };
+}
+
+/** Clients only see their own views; shared views may use team filters and internal names. */
+function visibleViewsWhere(member: ViewMember): Prisma.InboxViewWhereInput {
+  return member.role === Role.CLIENT
+    ? { workspaceId: member.workspaceId, ownerId: member.userId }
+    : { workspaceId: member.workspaceId, OR: [{ ownerId: member.userId }, { shared: true }] };
+}
+
+export function canEditView(member: ViewMember, view: Pick<InboxView, 'ownerId' | 'shared'>) {
+  return view.ownerId === member.userId || (view.shared && hasPermission(member, 'views.share'));
+}
+
+export function serializeInboxView(member: ViewMember, view: ViewWithOwner, count: number | null = null) {
+  return {
+    id: view.id,
+    name: view.name,
+    filters: compactFilters(readViewFilters(view)),
+    shared: view.shared,
+    owner: { id: view.owner.id, name: view.owner.name, email: view.owner.email },
+    isDefault: member.defaultInboxViewId === view.id,
+    canEdit: canEditView(member, view),
+    href: inboxViewHref(view.workspaceId, view),
+    count,
+    updatedAt: view.updatedAt.toISOString()
+  };
+}
+
+export type InboxViewItem = ReturnType<typeof serializeInboxView>;
+
+/**
+ * Number of reviews each view currently shows the member, or null for views that are not counted.
+ * Only the first views are counted, the plain ones in a single batch. Semantic views are skipped,
+ * since that would embed the query on every load.
+ */
+async function countViewReviews(member: ViewMember, views: InboxView[]) {
+  const filters = views.slice(0, MAX_COUNTED_VIEWS).map(readViewFilters);
+  const plain = filters.flatMap((item, index) => (item.q ? [] : [index]));
+  const plainCounts = await prisma.$transaction(
+    plain.map((index) => prisma.review.count({ where: inboxWhere(member, filters[index]) }))
+  );
+
+  const counts: Array<number | null> = views.map(() => null);
+  plain.forEach((index, position) => {
+    counts[index] = plainCounts[position];
+  });
+  for (const [index, item] of filters.entries()) {
+    if (!item.q || item.searchMode === 'semantic') continue;
+    counts[index] = (await findSearchMatches(member.workspaceId, inboxSearchScope(member, item), item.q, 'keyword')).total;
+  }
+  return counts;
+}
+
+/** The member's own views followed by the views shared by others, with review counts when asked for. */
+export async function listInboxViews(member: ViewMember, options: { counts?: boolean } = {}) {
+  const views = await prisma.inboxView.findMany({
+    where: visibleViewsWhere(member),
+    include: { owner: { select: { id: true, name: true, email: true } } },
+    orderBy: { name: 'asc' }
+  });
+  views.sort((a, b) => Number(b.ownerId === member.userId) - Number(a.ownerId === member.userId));
+
+  const counts = options.counts ? await countViewReviews(member, views) : views.map(() => null);
+  return views.map((view, index) => serializeInboxView(member, view, counts[index]));
+}
+
+export async function loadVisibleView(member: ViewMember, viewId: string) {
+  const view = await prisma.inboxView.findFirst({
+    where: { AND: [{ id: viewId }, visibleViewsWhere(member)] },
+    include: { owner: { select: { id: true, name: true, email: true } } }
+  });
+  if (!view) {
+    throw new HttpError(404, 'View not found');
+  }
+  return view;
+}
+
+export async function loadEditableView(member: ViewMember, viewId: string) {
+  const view = await loadVisibleView(member, viewId);
+  if (!canEditView(member, view)) {
+    throw new HttpError(403, 'You cannot change this view');
+  }
+  return view;
+}
+
+/** Validates a view for `ownerId`: sharing needs `views.share`, and names are unique per owner. */
+export async function cleanInboxViewInput(
+  member: ViewMember,
+  ownerId: string,
+  parsed: z.infer<typeof inboxViewSchema>,
+  existingId?: string
+) {
+  const name = sanitizeText(parsed.name, 60);
+  if (!name) throw new HttpError(400, 'View name is required');
+  if (parsed.shared && !hasPermission(member, 'views.share')) {
+    throw new HttpError(403, 'Missing permission: views.share');
+  }
+
+  const [clash, owned] = await Promise.all([
+    prisma.inboxView.findFirst({
+      where: { workspaceId: member.workspaceId, ownerId, name, ...(existingId ? { id: { not: existingId } } : {}) },
+      select: { id: true }
+    }),
+    existingId ? 0 : prisma.inboxView.count({ where: { workspaceId: member.workspaceId, ownerId } })
+  ]);
+  if (clash) {
+    throw new HttpError(409, `A view named "${name}" already exists`);
+  }
+  if (owned >= MAX_VIEWS_PER_USER) {
+    throw new HttpError(400, `A member can save at most ${MAX_VIEWS_PER_USER} views`);
+  }
+
+  return { name, filters: compactFilters(parsed.filters), shared: parsed.shared };
+}
+
+/**
+ * Saves a view's changes. When a shared view becomes personal again, other members who opened
+ * the inbox with it by default fall back to the unfiltered inbox.
+ */
+export async function updateInboxView(view: InboxView, data: Awaited<ReturnType<typeof cleanInboxViewInput>>) {
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.inboxView.update({
+      where: { id: view.id },
+      data,
+      include: { owner: { select: { id: true, name: true, email: true } } }
+    });
+    if (view.shared && !updated.shared) {
+      await tx.workspaceMembership.updateMany({
+        where: { defaultInboxViewId: view.id, userId: { not: view.ownerId } },
+        data: { defaultInboxViewId: null }
+      });
+    }
+    return updated;
+  });
+}
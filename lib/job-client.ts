@@ -0,0 +1,55 @@
+export type JobSnapshot = {
+  id: string;
+  type: string;
+  status: 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'CANCELED';
+  progress: number;
+  attempts: number;
+  maxAttempts: number;
+  result: unknown;
+  error: string | null;
+};
+
+const TERMINAL_STATUSES = new Set<JobSnapshot['status']>(['SUCCEEDED', 'FAILED', 'CANCELED']);
+const POLL_INTERVAL_MS = 1_500;
+const POLL_TIMEOUT_MS = 10 * 60 * 1000;
+
+export function isJobFinished(job: JobSnapshot) {
+  return TERMINAL_STATUSES.has(job.status);
+}
+
+/**
+ * Polls the workspace job endpoint until every job reaches a terminal status.
+ * `onUpdate` receives each snapshot so callers can render progress.
+ */
+export async function pollJobs(
+  workspaceId: string,
+  jobIds: string[],
+  onUpdate?: (jobs: JobSnapshot[]) => void
+): Promise<JobSnapshot[]> {
+  const startedAt = Date.now();
+  let jobs: JobSnapshot[] = [];
+
+  while (Date.now() - startedAt < POLL_TIMEOUT_MS) {
+    const response = await fetch(`/api/workspaces/${workspaceId}/jobs?ids=${jobIds.join(',')}`, { cache: 'no-store' });
+    const json = await response.json();
+    if (!response.ok) {
+      throw new Error(json.error || 'Could not load job status');
+    }
+    const byId = new Map((json.jobs as JobSnapshot[]).map((job) => [job.id, job]));
+    jobs = jobIds.map((id) => byId.get(id)).filter((job): job is JobSnapshot => Boolean(job));
+    onUpdate?.(jobs);
+    if (jobs.length >= jobIds.length && jobs.every(isJobFinished)) {
+      return jobs;
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  throw new Error('Timed out waiting for background jobs');
+}
+
+export async function pollJob(workspaceId: string, jobId: string, onUpdate?: (job: JobSnapshot) => void) {
+  const [job] = await pollJobs(workspaceId, [jobId], (jobs) => {
+    if (jobs[0]) onUpdate?.(jobs[0]);
+  });
+  return job;
+}
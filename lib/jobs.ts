@@ -0,0 +1,416 @@
+import { Job, JobType, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { Provider } from '@/lib/ai';
+import { HttpError } from '@/lib/http';
+import { hasPermission, Permission } from '@/lib/permissions';
+import { assertGenerationLimit, consumeGeneration, releaseGenerations } from '@/lib/tenant';
+import { assertDraftable, draftReplyForReview, loadReviewForDraft, ReplyLength } from '@/lib/reply-drafts';
+import { suggestTagsAndSentiment } from '@/lib/review-suggestions';
+import { generateMedicationDigest } from '@/lib/medication-digest';
+import { createPsychosocialProfileWithAI, PsychosocialProfileDraft } from '@/lib/psychosocial-ai';
+import { publishReview, recordPublishFailure } from '@/lib/reply-publishing';
+import {
+  findPendingSyncJob,
+  findSyncActor,
+  listDueSourceSyncs,
+  recordSyncFailure,
+  syncSourceConnection
+} from '@/lib/source-sync';
+import { clusterReviewThemes } from '@/lib/review-themes';
+import { indexReviewEmbeddings } from '@/lib/review-search';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const BASE_RETRY_DELAY_MS = 5_000;
+const STALE_LOCK_MS = 10 * 60 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 2_000;
+const MAX_JOBS_PER_DRAIN = 25;
+const SYNC_SCHEDULE_INTERVAL_MS = 60_000;
+
+export type JobPayloads = {
+  REPLY_GENERATION: {
+    reviewId: string;
+    provider: Provider;
+    length: ReplyLength;
+    targetLanguage?: string;
+    escalation: boolean;
+    restartApproval?: boolean;
+    // true when the caller already reserved the generation (bulk batches)
+    reserved?: boolean;
+    auditMetadata?: Record<string, unknown>;
+  };
+  TAG_SUGGESTION: {
+    reviewId: string;
+    provider: Provider;
+  };
+  MEDICATION_DIGEST: {
+    provider: Provider;
+    horizonDays: number;
+  };
+  PSYCHOSOCIAL_PROFILE: {
+    provider: Provider;
+    draft: Omit<PsychosocialProfileDraft, 'assessmentDate'> & { assessmentDate: string };
+  };
+  REPLY_PUBLISH: {
+    reviewId: string;
+  };
+  SOURCE_SYNC: {
+    sourceConnectionId: string;
+  };
+  THEME_CLUSTERING: Record<string, never>;
+  REVIEW_EMBEDDINGS: Record<string, never>;
+};
+
+type JobContext = {
+  job: Job;
+  actorId: string;
+  reportProgress: (progress: number) => Promise<void>;
+};
+
+type JobHandler<T extends JobType> = {
+  run: (payload: JobPayloads[T], context: JobContext) => Promise<unknown>;
+  onFinalFailure?: (payload: JobPayloads[T], job: Job) => Promise<void>;
+  /** What is kept of the payload once the job has finished, for payloads that hold personal data. */
+  finishedPayload?: (payload: JobPayloads[T]) => Prisma.InputJsonValue;
+};
+
+const JOB_HANDLERS: { [T in JobType]: JobHandler<T> } = {
+  REPLY_GENERATION: {
+    async run(payload, { job, actorId, reportProgress }) {
+      if (!payload.reserved) {
+        await assertGenerationLimit(job.workspaceId);
+      }
+      const review = await loadReviewForDraft(job.workspaceId, payload.reviewId);
+      assertDraftable(review, payload.restartApproval);
+      await reportProgress(30);
+      const generated = await draftReplyForReview({
+        review,
+        actorId,
+        options: {
+          provider: payload.provider,
+          length: payload.length,
+          targetLanguage: payload.targetLanguage,
+          escalation: payload.escalation,
+          restartApproval: payload.restartApproval
+        },
+        auditMetadata: { ...payload.auditMetadata, jobId: job.id }
+      });
+      if (!payload.reserved) {
+        await consumeGeneration(job.workspaceId);
+      }
+      return {
+        reviewId: review.id,
+        reply: generated.text,
+        model: generated.model,
+        provider: generated.provider,
+        usage: {
+          inputTokens: generated.inputTokens,
+          outputTokens: generated.outputTokens,
+          estimatedCostUsd: generated.estimatedCostUsd
+        }
+      };
+    },
+    async onFinalFailure(payload, job) {
+      if (payload.reserved) {
+        await releaseGenerations(job.workspaceId, 1);
+      }
+    }
+  },
+  TAG_SUGGESTION: {
+    async run(payload, { job, actorId }) {
+      await assertGenerationLimit(job.workspaceId);
+      const result = await suggestTagsAndSentiment({
+        workspaceId: job.workspaceId,
+        reviewId: payload.reviewId,
+        actorId,
+        provider: payload.provider
+      });
+      await consumeGeneration(job.workspaceId);
+      return { reviewId: result.review.id, suggestion: result.suggestion };
+    }
+  },
+  MEDICATION_DIGEST: {
+    async run(payload, { job }) {
+      const workspace = await prisma.workspace.findUniqueOrThrow({ where: { id: job.workspaceId } });
+      return generateMedicationDigest({
+        workspaceId: job.workspaceId,
+        workspaceName: workspace.name,
+        provider: payload.provider,
+        horizonDays: payload.horizonDays
+      });
+    }
+  },
+  PSYCHOSOCIAL_PROFILE: {
+    async run(payload, { job, actorId }) {
+      return createPsychosocialProfileWithAI({
+        workspaceId: job.workspaceId,
+        actorId,
+        provider: payload.provider,
+        draft: { ...payload.draft, assessmentDate: new Date(payload.draft.assessmentDate) }
+      });
+    },
+    // the intake answers live on the profile once it is created; the job only keeps the provider
+    finishedPayload: (payload) => ({ provider: payload.provider })
+  },
+  REPLY_PUBLISH: {
+    async run(payload, { job, actorId }) {
+      const review = await publishReview({ workspaceId: job.workspaceId, reviewId: payload.reviewId, actorId, jobId: job.id });
+      return { reviewId: review.id, externalReplyId: review.externalReplyId };
+    },
+    async onFinalFailure(payload, job) {
+      await recordPublishFailure(job, payload.reviewId);
+    }
+  },
+  SOURCE_SYNC: {
+    async run(payload, { job, actorId }) {
+      return syncSourceConnection({ sourceConnectionId: payload.sourceConnectionId, actorId, jobId: job.id });
+    },
+    async onFinalFailure(payload, job) {
+      await recordSyncFailure(job, payload.sourceConnectionId);
+    }
+  },
+  THEME_CLUSTERING: {
+    async run(_payload, { job }) {
+      return clusterReviewThemes(job.workspaceId);
+    }
+  },
+  REVIEW_EMBEDDINGS: {
+    async run(_payload, { job, reportProgress }) {
+      return indexReviewEmbeddings(job.workspaceId, reportProgress);
+    }
+  }
+};
+
+export async function enqueueJob<T extends JobType>(input: {
+  workspaceId: string;
+  createdById: string;
+  type: T;
+  payload: JobPayloads[T];
+  maxAttempts?: number;
+}) {
+  const job = await prisma.job.create({
+    data: {
+      workspaceId: input.workspaceId,
+      createdById: input.createdById,
+      type: input.type,
+      payload: input.payload as Prisma.InputJsonValue,
+      maxAttempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+    }
+  });
+  void drainJobQueue().catch(() => undefined);
+  return job;
+}
+
+export async function cancelJob(workspaceId: string, jobId: string) {
+  const job = await prisma.job.findUnique({ where: { id: jobId } });
+  if (!job || job.workspaceId !== workspaceId) {
+    throw new HttpError(404, 'Job not found');
+  }
+
+  const canceled = await prisma.job.updateMany({
+    where: { id: job.id, status: 'QUEUED' },
+    data: { status: 'CANCELED', finishedAt: new Date(), ...finishedPayloadData(job) }
+  });
+  if (!canceled.count) {
+    throw new HttpError(409, `Job is ${job.status.toLowerCase()} and can no longer be canceled`);
+  }
+
+  await runFinalFailureHook(job);
+  return prisma.job.findUniqueOrThrow({ where: { id: job.id } });
+}
+
+/**
+ * Permission a member needs to see what a job produced. `jobs.read` alone shows the status of
+ * every job, but medication and psychosocial outputs stay behind their own read permissions.
+ */
+const JOB_RESULT_PERMISSIONS: Record<JobType, Permission> = {
+  REPLY_GENERATION: 'reviews.read',
+  TAG_SUGGESTION: 'reviews.read',
+  MEDICATION_DIGEST: 'medications.read',
+  PSYCHOSOCIAL_PROFILE: 'psychosocial.read',
+  REPLY_PUBLISH: 'reviews.read',
+  SOURCE_SYNC: 'settings.read',
+  THEME_CLUSTERING: 'analytics.read',
+  REVIEW_EMBEDDINGS: 'reviews.read'
+};
+
+export function canReadJobResult(membership: Parameters<typeof hasPermission>[0], job: Pick<Job, 'type'>) {
+  return hasPermission(membership, JOB_RESULT_PERMISSIONS[job.type]);
+}
+
+/** `withResult: false` leaves out the output, for callers who may only see the job status. */
+export function serializeJob(job: Job, withResult = true) {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    progress: job.progress,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    result: withResult ? job.result : null,
+    error: job.error,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString() ?? null,
+    finishedAt: job.finishedAt?.toISOString() ?? null
+  };
+}
+
+function isRetryable(error: unknown) {
+  if (error instanceof HttpError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return true;
+}
+
+function finishedPayloadData(job: Job): Prisma.JobUpdateManyMutationInput {
+  const handler = JOB_HANDLERS[job.type] as JobHandler<JobType>;
+  return handler.finishedPayload ? { payload: handler.finishedPayload(job.payload as JobPayloads[JobType]) } : {};
+}
+
+async function runFinalFailureHook(job: Job) {
+  const handler = JOB_HANDLERS[job.type] as JobHandler<JobType>;
+  if (!handler.onFinalFailure) return;
+  try {
+    await handler.onFinalFailure(job.payload as JobPayloads[JobType], job);
+  } catch {
+    // failure hooks only release reservations; the job outcome is already recorded.
+  }
+}
+
+async function claimNextJob() {
+  const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+    UPDATE "Job"
+    SET "status" = 'RUNNING',
+        "lockedAt" = NOW(),
+        "startedAt" = COALESCE("startedAt", NOW()),
+        "attempts" = "attempts" + 1,
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "Job"
+      WHERE "status" = 'QUEUED' AND "runAfter" <= NOW()
+      ORDER BY "runAfter" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id"`;
+  if (!rows.length) return null;
+  return prisma.job.findUnique({ where: { id: rows[0].id } });
+}
+
+async function requeueStaleJobs() {
+  await prisma.job.updateMany({
+    where: { status: 'RUNNING', lockedAt: { lt: new Date(Date.now() - STALE_LOCK_MS) } },
+    data: { status: 'QUEUED', lockedAt: null }
+  });
+}
+
+async function runJob(job: Job) {
+  const handler = JOB_HANDLERS[job.type] as JobHandler<JobType>;
+  const context: JobContext = {
+    job,
+    actorId: job.createdById ?? '',
+    reportProgress: async (progress) => {
+      await prisma.job.updateMany({
+        where: { id: job.id, status: 'RUNNING' },
+        data: { progress: Math.max(0, Math.min(99, Math.round(progress))) }
+      });
+    }
+  };
+
+  try {
+    if (!job.createdById) {
+      throw new HttpError(410, 'Job creator no longer exists');
+    }
+    const result = await handler.run(job.payload as JobPayloads[JobType], context);
+    await prisma.job.updateMany({
+      where: { id: job.id, status: 'RUNNING' },
+      data: {
+        status: 'SUCCEEDED',
+        progress: 100,
+        result: (result ?? null) as Prisma.InputJsonValue,
+        error: null,
+        lockedAt: null,
+        finishedAt: new Date(),
+        ...finishedPayloadData(job)
+      }
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown job error';
+    if (job.attempts < job.maxAttempts && isRetryable(error)) {
+      await prisma.job.updateMany({
+        where: { id: job.id, status: 'RUNNING' },
+        data: {
+          status: 'QUEUED',
+          error: message,
+          lockedAt: null,
+          runAfter: new Date(Date.now() + BASE_RETRY_DELAY_MS * 2 ** (job.attempts - 1))
+        }
+      });
+      return;
+    }
+
+    await prisma.job.updateMany({
+      where: { id: job.id, status: 'RUNNING' },
+      data: { status: 'FAILED', error: message, lockedAt: null, finishedAt: new Date(), ...finishedPayloadData(job) }
+    });
+    await runFinalFailureHook(job);
+  }
+}
+
+let lastSyncScheduleAt = 0;
+
+/** Queues syncs for sources whose schedule is due; checked at most once a minute. */
+async function scheduleDueSourceSyncs() {
+  if (Date.now() - lastSyncScheduleAt < SYNC_SCHEDULE_INTERVAL_MS) return;
+  lastSyncScheduleAt = Date.now();
+  for (const { source, config } of await listDueSourceSyncs(STALE_LOCK_MS)) {
+    if (await findPendingSyncJob(source.id)) continue;
+    const actorId = await findSyncActor(source, config);
+    // whoever scheduled the sync has left the workspace; a member has to save the settings again
+    if (!actorId) continue;
+    await prisma.job.create({
+      data: {
+        workspaceId: source.workspaceId,
+        createdById: actorId,
+        type: 'SOURCE_SYNC',
+        payload: { sourceConnectionId: source.id },
+        maxAttempts: DEFAULT_MAX_ATTEMPTS
+      }
+    });
+  }
+}
+
+let draining = false;
+
+export async function drainJobQueue(maxJobs = MAX_JOBS_PER_DRAIN) {
+  if (draining) return 0;
+  draining = true;
+  try {
+    await requeueStaleJobs();
+    await scheduleDueSourceSyncs();
+    let processed = 0;
+    while (processed < maxJobs) {
+      const job = await claimNextJob();
+      if (!job) break;
+      await runJob(job);
+      processed += 1;
+    }
+    return processed;
+  } finally {
+    draining = false;
+  }
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var jobWorkerTimer: ReturnType<typeof setInterval> | undefined;
+}
+
+export function startJobWorker(intervalMs = Number(process.env.JOB_WORKER_INTERVAL_MS ?? DEFAULT_POLL_INTERVAL_MS)) {
+  if (global.jobWorkerTimer) return;
+  global.jobWorkerTimer = setInterval(
+    () => {
+      void drainJobQueue().catch(() => undefined);
+    },
+    Number.isFinite(intervalMs) && intervalMs > 0 ? intervalMs : DEFAULT_POLL_INTERVAL_MS
+  );
+}
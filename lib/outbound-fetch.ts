@@ -0,0 +1,79 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { HttpError } from '@/lib/http';
+
+// loopback, private, link-local, carrier-grade NAT and other ranges that are not on the public internet
+const BLOCKED_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+function isBlockedAddress(address: string) {
+  // IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked as the IPv4 address they carry
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return BLOCKED_RANGES.check(mapped[1], 'ipv4');
+  return BLOCKED_RANGES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Rejects URLs that are not http(s) or whose host resolves to a private, loopback or link-local
+ * address, so workspace-configured URLs cannot reach the server's own network.
+ */
+export async function assertPublicUrl(value: string, label: string) {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new HttpError(422, `${label} is not a valid URL`);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new HttpError(422, `${label} must use http or https`);
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((item) => item.address);
+  } catch {
+    throw new HttpError(502, `${label} host could not be resolved`);
+  }
+  if (!addresses.length || addresses.some(isBlockedAddress)) {
+    throw new HttpError(422, `${label} must point to a public address`);
+  }
+  return url;
+}
+
+/**
+ * fetch() for workspace-configured URLs: the host is checked first and redirects are refused,
+ * since a redirect could lead to an address the check would have rejected.
+ */
+export async function fetchPublicUrl(value: string, label: string, init: RequestInit) {
+  const url = await assertPublicUrl(value, label);
+  const response = await fetch(url, { ...init, redirect: 'manual' });
+  if (response.status >= 300 && response.status < 400) {
+    throw new HttpError(422, `${label} redirected (${response.status}); use the final URL instead`);
+  }
+  return response;
+}
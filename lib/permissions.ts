@@ -0,0 +1,83 @@
+import { Role, WorkspaceMembership, WorkspaceRole } from '@prisma/client';
+
+/** Every permission a route or page can require. Custom roles store these keys. */
+export const PERMISSIONS = {
+  'reviews.read': 'View the inbox and reviews',
+  'reviews.write': 'Import reviews and edit drafts, tags and status',
+  'reviews.generate': 'Generate AI drafts, variants and tag suggestions',
+  'reviews.approve': 'Sign off or reject replies in approval chains',
+  'reviews.publish': 'Publish approved replies to their source',
+  'reviews.assign': 'Reassign reviews and change due dates',
+  'reviews.export': 'Export reviews to CSV',
+  'views.share': 'Share saved inbox views with the workspace and edit shared views',
+  'comments.write': 'Read and post internal comments',
+  'comments.moderate': "Delete other members' comments",
+  'analytics.read': 'View analytics',
+  'jobs.read': 'View background jobs',
+  'jobs.manage': "Cancel other members' background jobs",
+  'settings.read': 'View workspace configuration',
+  'settings.manage': 'Edit AI routing, compliance mode, assignment and approval chains',
+  'templates.manage': 'Create and edit reply templates',
+  'automation.manage': 'Create and edit automation rules',
+  'tags.manage': 'Edit the tag taxonomy and refresh review themes',
+  'brand_voice.manage': 'Edit brand voice settings',
+  'locations.manage': 'Add and edit locations',
+  'sources.manage': 'Connect review sources',
+  'team.read': 'View team members',
+  'team.manage': 'Invite and remove members and change their roles',
+  'roles.manage': 'Create and edit custom roles',
+  'billing.read': 'View the plan and usage',
+  'billing.manage': 'Change the subscription',
+  'medications.read': 'View medication stock, forecasts and alerts',
+  'medications.manage': 'Add and edit medication items and preferences',
+  'medications.purchase': 'Record medication purchases',
+  'psychosocial.read': 'View psychosocial profiles',
+  'psychosocial.write': 'Create psychosocial profiles'
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_KEYS = Object.keys(PERMISSIONS) as Permission[];
+
+/** The built-in roles keep the access they had when routes checked role lists. */
+export const DEFAULT_ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  OWNER: PERMISSION_KEYS,
+  ADMIN: PERMISSION_KEYS,
+  MEMBER: [
+    'reviews.read',
+    'reviews.write',
+    'reviews.generate',
+    'reviews.export',
+    'views.share',
+    'comments.write',
+    'analytics.read',
+    'jobs.read',
+    'settings.read',
+    'team.read',
+    'billing.read',
+    'medications.read',
+    'psychosocial.read',
+    'psychosocial.write'
+  ],
+  CLIENT: ['reviews.read', 'reviews.approve', 'analytics.read']
+};
+
+type PermissionHolder = Pick<WorkspaceMembership, 'role'> & {
+  customRole?: Pick<WorkspaceRole, 'permissions'> | null;
+};
+
+export function isPermission(value: string): value is Permission {
+  return Object.prototype.hasOwnProperty.call(PERMISSIONS, value);
+}
+
+/** A custom role replaces the defaults of the member's role; owners always keep every permission. */
+export function resolvePermissions(membership: PermissionHolder): Permission[] {
+  if (membership.role === Role.OWNER || !membership.customRole) {
+    return DEFAULT_ROLE_PERMISSIONS[membership.role];
+  }
+  return membership.customRole.permissions.filter(isPermission);
+}
+
+export function hasPermission(membership: PermissionHolder, permission: Permission) {
+  return resolvePermissions(membership).includes(permission);
+}
@@ -11,6 +11,8 @@ export type PlanLimits = {
   hasExports: boolean;
   hasPrioritySettings: boolean;
   hasBasicTemplatesOnly: boolean;
+  hasAutomationRules: boolean;
+  hasCustomRoles: boolean;
 };
 
 export const PLAN_LIMITS: Record<Plan, PlanLimits> = {
@@ -24,7 +26,9 @@ export const PLAN_LIMITS: Record<Plan, PlanLimits> = {
     hasBulkTools: false,
     hasExports: false,
     hasPrioritySettings: false,
-    hasBasicTemplatesOnly: true
+    hasBasicTemplatesOnly: true,
+    hasAutomationRules: false,
+    hasCustomRoles: false
   },
   PRO: {
     maxWorkspaces: 5,
@@ -36,7 +40,9 @@ export const PLAN_LIMITS: Record<Plan, PlanLimits> = {
     hasBulkTools: false,
     hasExports: false,
     hasPrioritySettings: false,
-    hasBasicTemplatesOnly: false
+    hasBasicTemplatesOnly: false,
+    hasAutomationRules: false,
+    hasCustomRoles: false
   },
   AGENCY: {
     maxWorkspaces: Number.MAX_SAFE_INTEGER,
@@ -48,7 +54,9 @@ export const PLAN_LIMITS: Record<Plan, PlanLimits> = {
     hasBulkTools: true,
     hasExports: true,
     hasPrioritySettings: true,
-    hasBasicTemplatesOnly: false
+    hasBasicTemplatesOnly: false,
+    hasAutomationRules: true,
+    hasCustomRoles: true
   }
 };
 
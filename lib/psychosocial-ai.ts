@@ -0,0 +1,211 @@
+import { z } from 'zod';
+import { logAudit } from '@/lib/audit';
+import { extractJsonObject, generateText, Provider } from '@/lib/ai';
+import { generatePsychosocialProfile, profileContainsDiagnosticLanguage, PsychosocialInput } from '@/lib/psychosocial';
+import { prisma } from '@/lib/prisma';
+import { getWorkspaceProviderChain } from '@/lib/ai-routing';
+
+export type PsychosocialProfileDraft = PsychosocialInput & {
+  photoConsent: boolean;
+  photoReference: string | null;
+  signatureResponsible: string | null;
+};
+
+const aiGeneratedSchema = z.object({
+  contextPersonal: z.string().min(20).max(2500),
+  emotionalProfile: z.string().min(20).max(2500),
+  mainNeeds: z.array(z.string().min(2).max(180)).min(1).max(7),
+  risks: z.array(z.string().min(2).max(180)).min(1).max(7),
+  staffRecommendations: z.array(z.string().min(2).max(220)).min(1).max(9),
+  supportPlan: z.array(z.string().min(2).max(220)).min(1).max(7)
+});
+
+function boolText(value: boolean | null | undefined) {
+  if (value === null || value === undefined) return 'nespecificat';
+  return value ? 'da' : 'nu';
+}
+
+function buildPsychosocialAIPrompt(input: PsychosocialInput) {
+  return `Esti asistent pentru fise psihosociale in centru de ingrijire.
+Scopul este ORIENTATIV de sprijin pentru personal.
+Nu formula diagnostice clinice. Nu folosi expresii de diagnostic (ex: "depresie severa").
+Foloseste formulare observationale si de suport.
+
+Date reale evaluare:
+- Beneficiar: ${input.internalName}
+- Varsta: ${input.age}
+- Sex: ${input.sex}
+- Locatie/Centru: ${input.locationCenter}
+- Data evaluarii: ${input.assessmentDate.toISOString()}
+- Responsabil: ${input.responsiblePerson}
+- Acord date medicale optionale: ${input.medicalConsent ? 'da' : 'nu'}
+- Familie: ${input.familySupport}
+- Locuire: ${input.housingStatus}
+- Contact familie: ${input.familyContactFrequency ?? 'nespecificat'}
+- Istoric institutionalizare: ${input.institutionalizationHistory ?? 'nespecificat'}
+- Boli cunoscute: ${boolText(input.knownDiseases)}
+- Medicatie: ${input.medicationInfo ?? 'nespecificat'}
+- Limitari: ${input.limitations ?? 'nespecificat'}
+- Evaluare psihologica anterioara: ${boolText(input.previousPsychEvaluation)}
+- Comunicare: ${input.communicationLevel}
+- Reactie la stres: ${input.stressReaction}
+- Relationare: ${input.relationshipStyle}
+- Autonomie: ${input.autonomyLevel}
+- Somn: ${input.sleepQuality}
+- Apetit: ${input.appetite}
+- Indicatori emotionali: tristete=${input.sadnessFrequent}, anxietate=${input.anxiety}, furie=${input.anger}, apatie=${input.apathy}, speranta/motivatie=${input.hopeMotivation}
+- Observatii suplimentare: ${input.observations ?? 'fara observatii suplimentare'}
+
+Returneaza STRICT JSON (fara markdown) cu forma:
+{
+  "contextPersonal": "text 2-4 fraze",
+  "emotionalProfile": "text 2-4 fraze",
+  "mainNeeds": ["nevoie 1", "nevoie 2"],
+  "risks": ["risc 1", "risc 2"],
+  "staffRecommendations": ["recomandare 1", "recomandare 2"],
+  "supportPlan": ["pas 1", "pas 2"]
+}
+
+Reguli:
+- limba romana
+- max 7 puncte per lista
+- recomandari concrete pentru personal (ton calm, structura, evitarea conflictului, activitati recomandate cand relevant)
+- fara etichete de diagnostic
+- daca acord date medicale optionale = nu, mentioneaza explicit doar ca datele medicale nu au fost incluse in evaluarea curenta.`;
+}
+
+export function serializeProfile(profile: {
+  id: string;
+  internalName: string;
+  age: number;
+  sex: string;
+  locationCenter: string;
+  assessmentDate: Date;
+  responsiblePerson: string;
+  familySupport: string;
+  housingStatus: string;
+  communicationLevel: string;
+  stressReaction: string;
+  relationshipStyle: string;
+  autonomyLevel: string;
+  sleepQuality: string;
+  appetite: string;
+  sadnessFrequent: boolean;
+  anxiety: boolean;
+  anger: boolean;
+  apathy: boolean;
+  hopeMotivation: boolean;
+  contextPersonal: string;
+  emotionalProfile: string;
+  mainNeeds: string[];
+  risks: string[];
+  staffRecommendations: string[];
+  supportPlan: string[];
+  observations: string | null;
+  signatureResponsible: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  return {
+    ...profile,
+    assessmentDate: profile.assessmentDate.toISOString(),
+    createdAt: profile.createdAt.toISOString(),
+    updatedAt: profile.updatedAt.toISOString()
+  };
+}
+
+/**
+ * Generates the AI support sections for an already sanitized intake and stores the profile.
+ * Falls back to the rule-based profile when the AI output is invalid or uses diagnostic language.
+ */
+export async function createPsychosocialProfileWithAI(input: {
+  workspaceId: string;
+  actorId: string;
+  provider: Provider;
+  draft: PsychosocialProfileDraft;
+}) {
+  const { draft } = input;
+  const aiPrompt = buildPsychosocialAIPrompt(draft);
+  const generatedText = await generateText({
+    provider: input.provider,
+    fallbacks: await getWorkspaceProviderChain(input.workspaceId),
+    prompt: aiPrompt,
+    maxTokens: 1200,
+    temperature: 0.2
+  });
+
+  const fallbackGenerated = generatePsychosocialProfile(draft);
+  let generated = fallbackGenerated;
+  let usedFallback = false;
+  try {
+    const parsedAi = aiGeneratedSchema.parse(extractJsonObject(generatedText.text));
+    if (profileContainsDiagnosticLanguage(parsedAi)) {
+      throw new Error('AI output contains diagnostic language');
+    }
+    generated = parsedAi;
+  } catch {
+    usedFallback = true;
+  }
+
+  const profile = await prisma.psychosocialProfile.create({
+    data: {
+      workspaceId: input.workspaceId,
+      createdById: input.actorId,
+      internalName: draft.internalName,
+      age: draft.age,
+      sex: draft.sex,
+      locationCenter: draft.locationCenter,
+      assessmentDate: draft.assessmentDate,
+      responsiblePerson: draft.responsiblePerson,
+      medicalConsent: draft.medicalConsent,
+      familySupport: draft.familySupport,
+      housingStatus: draft.housingStatus,
+      familyContactFrequency: draft.familyContactFrequency ?? null,
+      institutionalizationHistory: draft.institutionalizationHistory ?? null,
+      knownDiseases: draft.knownDiseases ?? null,
+      medicationInfo: draft.medicationInfo ?? null,
+      limitations: draft.limitations ?? null,
+      previousPsychEvaluation: draft.previousPsychEvaluation ?? null,
+      communicationLevel: draft.communicationLevel,
+      stressReaction: draft.stressReaction,
+      relationshipStyle: draft.relationshipStyle,
+      autonomyLevel: draft.autonomyLevel,
+      sleepQuality: draft.sleepQuality,
+      appetite: draft.appetite,
+      sadnessFrequent: draft.sadnessFrequent,
+      anxiety: draft.anxiety,
+      anger: draft.anger,
+      apathy: draft.apathy,
+      hopeMotivation: draft.hopeMotivation,
+      photoConsent: draft.photoConsent,
+      photoReference: draft.photoReference,
+      contextPersonal: generated.contextPersonal,
+      emotionalProfile: generated.emotionalProfile,
+      mainNeeds: generated.mainNeeds,
+      risks: generated.risks,
+      staffRecommendations: generated.staffRecommendations,
+      supportPlan: generated.supportPlan,
+      observations: draft.observations ?? null,
+      signatureResponsible: draft.signatureResponsible
+    }
+  });
+
+  await logAudit({
+    workspaceId: input.workspaceId,
+    actorId: input.actorId,
+    action: 'PSYCHOSOCIAL_PROFILE_CREATED',
+    metadata: {
+      profileId: profile.id,
+      internalName: profile.internalName
+    }
+  });
+
+  return {
+    profile: serializeProfile(profile),
+    ai: {
+      provider: generatedText.provider,
+      model: generatedText.model,
+      fallbackRulesUsed: usedFallback
+    }
+  };
+}
@@ -0,0 +1,214 @@
+import { Prisma, Review, Tone } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { chainFromEnums } from '@/lib/ai-routing';
+import {
+  buildReplyPrompt,
+  generateText,
+  GenerateTextOutput,
+  providerToEnum,
+  Provider,
+  REPLY_PROMPT_VERSION,
+  streamText
+} from '@/lib/ai';
+import { HttpError } from '@/lib/http';
+import { sanitizeOptionalText } from '@/lib/sanitize';
+import { logAudit } from '@/lib/audit';
+
+export type ReplyLength = 'short' | 'medium' | 'long';
+
+export type DraftReplyOptions = {
+  provider: Provider;
+  length: ReplyLength;
+  targetLanguage?: string;
+  escalation: boolean;
+  /** Overrides the brand voice tone for this generation only (used by reply variants). */
+  tone?: Tone;
+  /** Allows replacing an approved reply, which sends it through approval again. */
+  restartApproval?: boolean;
+};
+
+export const draftReviewInclude = {
+  location: { include: { brandVoice: true } },
+  workspace: { include: { brandVoice: true } }
+} satisfies Prisma.ReviewInclude;
+
+export type DraftableReview = Prisma.ReviewGetPayload<{ include: typeof draftReviewInclude }>;
+
+export async function loadReviewForDraft(workspaceId: string, reviewId: string) {
+  const review = await prisma.review.findUnique({
+    where: { id: reviewId },
+    include: draftReviewInclude
+  });
+  if (!review || review.workspaceId !== workspaceId) {
+    throw new HttpError(404, 'Review not found');
+  }
+  return review;
+}
+
+/**
+ * A sent reply is never replaced, and an approved one only when the caller explicitly restarts
+ * its approval.
+ */
+export function assertDraftable(review: Pick<Review, 'status'>, restartApproval = false) {
+  if (review.status === 'SENT') {
+    throw new HttpError(409, 'Reply was already sent');
+  }
+  if (review.status === 'APPROVED' && !restartApproval) {
+    throw new HttpError(409, 'Reply is approved. Restart its approval to replace it.');
+  }
+}
+
+/**
+ * Writes a new draft and starts a new approval round. The status is checked again in the update,
+ * so a reply approved or sent while the draft was being prepared is left untouched.
+ */
+export async function writeReplyDraft(
+  tx: Prisma.TransactionClient,
+  reviewId: string,
+  data: Omit<Prisma.ReviewUncheckedUpdateManyInput, 'status' | 'approvalRound'>,
+  restartApproval = false
+) {
+  const { count } = await tx.review.updateMany({
+    where: { id: reviewId, status: { notIn: restartApproval ? ['SENT'] : ['APPROVED', 'SENT'] } },
+    data: { ...data, status: 'DRAFTED', approvalRound: { increment: 1 } }
+  });
+  if (!count) {
+    throw new HttpError(409, 'Reply was approved or sent in the meantime');
+  }
+  return tx.review.findUniqueOrThrow({ where: { id: reviewId } });
+}
+
+export function buildDraftPrompt(review: DraftableReview, options: DraftReplyOptions) {
+  const brandVoice = review.location.brandVoice ?? review.workspace.brandVoice;
+  return buildReplyPrompt({
+    reviewText: review.text,
+    rating: review.rating,
+    source: review.source,
+    length: options.length,
+    targetLanguage: sanitizeOptionalText(options.targetLanguage, 32) ?? undefined,
+    escalation: options.escalation,
+    brandVoice: brandVoice
+      ? {
+          tone: options.tone ?? brandVoice.tone,
+          doList: brandVoice.doList,
+          dontList: brandVoice.dontList,
+          examples: brandVoice.examples,
+          bannedWords: brandVoice.bannedWords,
+          signOff: brandVoice.signOff
+        }
+      : options.tone
+        ? { tone: options.tone, doList: [], dontList: [], examples: [], bannedWords: [], signOff: null }
+        : null
+  });
+}
+
+/**
+ * Generates a reply for one review and persists it as the current draft, together with its
+ * ReplyGeneration row and REVIEW_DRAFTED audit entry. Usage accounting is left to the caller.
+ */
+export async function draftReplyForReview(input: {
+  review: DraftableReview;
+  actorId: string;
+  options: DraftReplyOptions;
+  auditMetadata?: Record<string, unknown>;
+}) {
+  const { review, options } = input;
+  const generated = await generateText({
+    provider: options.provider,
+    fallbacks: chainFromEnums(review.workspace.aiProviderChain),
+    prompt: buildDraftPrompt(review, options)
+  });
+  await saveGeneratedDraft({ ...input, generated });
+  return generated;
+}
+
+/**
+ * Streaming variant of draftReplyForReview: yields text deltas and only persists the draft once
+ * the provider has finished. Aborting the signal discards the partial text.
+ */
+export async function* streamReplyForReview(input: {
+  review: DraftableReview;
+  actorId: string;
+  options: DraftReplyOptions;
+  auditMetadata?: Record<string, unknown>;
+  signal?: AbortSignal;
+}): AsyncGenerator<string, GenerateTextOutput, void> {
+  const { review, options } = input;
+  const generated = yield* streamText({
+    provider: options.provider,
+    fallbacks: chainFromEnums(review.workspace.aiProviderChain),
+    prompt: buildDraftPrompt(review, options),
+    signal: input.signal
+  });
+  if (input.signal?.aborted) {
+    throw new HttpError(499, 'Generation canceled');
+  }
+  await saveGeneratedDraft({ ...input, generated });
+  return generated;
+}
+
+async function saveGeneratedDraft(input: {
+  review: DraftableReview;
+  actorId: string;
+  options: DraftReplyOptions;
+  generated: GenerateTextOutput;
+  auditMetadata?: Record<string, unknown>;
+}) {
+  const { review, options, generated } = input;
+  const now = new Date();
+
+  await prisma.$transaction(async (tx) => {
+    await writeReplyDraft(
+      tx,
+      review.id,
+      {
+        replyDraft: generated.text,
+        draftedById: input.actorId,
+        draftedAt: now,
+        editedById: input.actorId,
+        editedAt: now
+      },
+      options.restartApproval
+    );
+    await tx.replyGeneration.create({
+      data: buildGenerationRecord({ review, actorId: input.actorId, options, generated })
+    });
+  });
+
+  await logAudit({
+    workspaceId: review.workspaceId,
+    reviewId: review.id,
+    actorId: input.actorId,
+    action: 'REVIEW_DRAFTED',
+    metadata: {
+      provider: generated.provider,
+      model: generated.model,
+      ...(generated.failovers.length ? { requestedProvider: options.provider, failovers: generated.failovers } : {}),
+      ...input.auditMetadata
+    }
+  });
+}
+
+export function buildGenerationRecord(input: {
+  review: DraftableReview;
+  actorId: string;
+  options: DraftReplyOptions;
+  generated: GenerateTextOutput;
+}): Prisma.ReplyGenerationUncheckedCreateInput {
+  return {
+    workspaceId: input.review.workspaceId,
+    reviewId: input.review.id,
+    createdById: input.actorId,
+    provider: providerToEnum(input.generated.provider),
+    model: input.generated.model,
+    promptVersion: REPLY_PROMPT_VERSION,
+    length: input.options.length,
+    targetLanguage: sanitizeOptionalText(input.options.targetLanguage, 32),
+    escalation: input.options.escalation,
+    tone: input.options.tone ?? null,
+    inputTokens: input.generated.inputTokens,
+    outputTokens: input.generated.outputTokens,
+    estimatedCostUsd: input.generated.estimatedCostUsd,
+    replyText: input.generated.text
+  };
+}
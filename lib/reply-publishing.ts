@@ -0,0 +1,200 @@
+import { createHmac } from 'crypto';
+import { Job, Location, ReplyPublisher, Review, ReviewSource, SourceConnection } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { HttpError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { fetchPublicUrl } from '@/lib/outbound-fetch';
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+type PublishInput = {
+  review: Review & { location: Pick<Location, 'id' | 'name'> };
+  text: string;
+  connection: SourceConnection | null;
+};
+
+type ReplyConnector = {
+  label: string;
+  // queued connectors run on the job worker so failed deliveries are retried with backoff
+  queued: boolean;
+  publish: (input: PublishInput) => Promise<{ externalReplyId: string | null }>;
+};
+
+function signPayload(secret: string, body: string) {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+const CONNECTORS: Record<ReplyPublisher, ReplyConnector> = {
+  // the reply was copied or downloaded and posted by hand; publishing only records it
+  MANUAL: {
+    label: 'Copy / download',
+    queued: false,
+    async publish() {
+      return { externalReplyId: null };
+    }
+  },
+  WEBHOOK: {
+    label: 'Webhook',
+    queued: true,
+    async publish({ review, text, connection }) {
+      if (!connection?.publishUrl) {
+        throw new HttpError(400, 'Webhook publishing needs an endpoint URL');
+      }
+
+      const body = JSON.stringify({
+        event: 'review.reply',
+        workspaceId: review.workspaceId,
+        review: {
+          id: review.id,
+          source: review.source,
+          location: review.location,
+          authorName: review.authorName,
+          rating: review.rating,
+          reviewUrl: review.reviewUrl,
+          reviewDate: review.reviewDate.toISOString()
+        },
+        reply: text
+      });
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        // retries of the same approval round carry the same key so the receiver can drop duplicates
+        'Idempotency-Key': `${review.id}:${review.approvalRound}`
+      };
+      if (connection.publishSecret) {
+        headers['X-Reply-Signature'] = signPayload(connection.publishSecret, body);
+      }
+
+      let response: Response;
+      try {
+        response = await fetchPublicUrl(connection.publishUrl, 'Publishing webhook URL', {
+          method: 'POST',
+          headers,
+          body,
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+        });
+      } catch (error) {
+        if (error instanceof HttpError) throw error;
+        throw new HttpError(502, `Publishing webhook unreachable: ${error instanceof Error ? error.message : 'network error'}`);
+      }
+      if (!response.ok) {
+        const status = response.status === 429 ? 429 : response.status >= 500 ? 502 : 422;
+        throw new HttpError(status, `Publishing webhook responded with ${response.status}`);
+      }
+
+      const json = (await response.json().catch(() => null)) as { externalReplyId?: unknown; id?: unknown } | null;
+      const externalReplyId = json?.externalReplyId ?? json?.id;
+      return { externalReplyId: typeof externalReplyId === 'string' ? externalReplyId.slice(0, 200) : null };
+    }
+  }
+};
+
+/** The oldest connection for the review's source decides how its replies are published. */
+export async function resolveSourceConnection(workspaceId: string, source: ReviewSource) {
+  return prisma.sourceConnection.findFirst({ where: { workspaceId, provider: source }, orderBy: { createdAt: 'asc' } });
+}
+
+export function getReplyConnector(connection: Pick<SourceConnection, 'publisher'> | null) {
+  const publisher = connection?.publisher ?? ReplyPublisher.MANUAL;
+  return { publisher, ...CONNECTORS[publisher] };
+}
+
+export function assertPublishable(review: Pick<Review, 'status' | 'approvedReply'>) {
+  if (review.status === 'SENT') {
+    throw new HttpError(409, 'Reply was already sent');
+  }
+  if (review.status !== 'APPROVED' || !review.approvedReply) {
+    throw new HttpError(409, 'Only approved replies can be published');
+  }
+}
+
+/** SENT is only reached through publishing, which records who sent the reply and where. */
+export function assertNotDirectSend(review: Pick<Review, 'status'>, nextStatus: string | undefined) {
+  if (nextStatus === 'SENT' && review.status !== 'SENT') {
+    throw new HttpError(409, 'Use the publish action to send a reply');
+  }
+}
+
+export async function findPendingPublishJob(workspaceId: string, reviewId: string) {
+  return prisma.job.findFirst({
+    where: {
+      workspaceId,
+      type: 'REPLY_PUBLISH',
+      status: { in: ['QUEUED', 'RUNNING'] },
+      payload: { path: ['reviewId'], equals: reviewId }
+    }
+  });
+}
+
+/**
+ * Posts the approved reply through the connector of the review's source and marks the review SENT.
+ * Errors are kept on `publishError` so the editor can show why the last attempt failed.
+ */
+export async function publishReview(input: { workspaceId: string; reviewId: string; actorId: string; jobId?: string }) {
+  const review = await prisma.review.findUnique({
+    where: { id: input.reviewId },
+    include: { location: { select: { id: true, name: true } } }
+  });
+  if (!review || review.workspaceId !== input.workspaceId) {
+    throw new HttpError(404, 'Review not found');
+  }
+  // a retried job may find the reply already delivered by an earlier attempt
+  if (review.status === 'SENT' && input.jobId) {
+    return review;
+  }
+  assertPublishable(review);
+
+  const connection = await resolveSourceConnection(review.workspaceId, review.source);
+  const connector = getReplyConnector(connection);
+  let externalReplyId: string | null;
+  try {
+    ({ externalReplyId } = await connector.publish({ review, text: review.approvedReply ?? '', connection }));
+  } catch (error) {
+    await prisma.review.update({
+      where: { id: review.id },
+      data: { publishError: error instanceof Error ? error.message : 'Publishing failed' }
+    });
+    throw error;
+  }
+
+  // only the reply that was posted is marked sent; an edit or new approval round made while the
+  // connector call was in flight keeps the review out of SENT
+  const { count } = await prisma.review.updateMany({
+    where: { id: review.id, status: 'APPROVED', approvalRound: review.approvalRound },
+    data: {
+      status: 'SENT',
+      sentAt: new Date(),
+      sentById: input.actorId,
+      externalReplyId,
+      publishError: null
+    }
+  });
+  if (!count) {
+    const message = 'The reply changed while it was being published; check the reply on the source before publishing again';
+    await prisma.review.update({ where: { id: review.id }, data: { publishError: message } });
+    throw new HttpError(409, message);
+  }
+  const updated = await prisma.review.findUniqueOrThrow({ where: { id: review.id } });
+
+  await logAudit({
+    workspaceId: review.workspaceId,
+    reviewId: review.id,
+    actorId: input.actorId,
+    action: 'REPLY_PUBLISHED',
+    metadata: { publisher: connector.publisher, sourceConnectionId: connection?.id ?? null, externalReplyId, jobId: input.jobId }
+  });
+
+  return updated;
+}
+
+/** Called once a publish job gives up (or is canceled); retries in between are only visible on the job. */
+export async function recordPublishFailure(job: Job, reviewId: string) {
+  if (!job.createdById) return;
+  const review = await prisma.review.findUnique({ where: { id: reviewId }, select: { publishError: true } });
+  await logAudit({
+    workspaceId: job.workspaceId,
+    reviewId,
+    actorId: job.createdById,
+    action: 'REPLY_PUBLISH_FAILED',
+    metadata: { jobId: job.id, error: review?.publishError ?? 'Publishing job canceled' }
+  });
+}
@@ -0,0 +1,242 @@
+import { Plan, ReplyTemplate, Sentiment } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { PLAN_LIMITS } from '@/lib/plans';
+import { HttpError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { sanitizeTags, sanitizeText } from '@/lib/sanitize';
+import { assertDraftable, draftReviewInclude, DraftableReview, writeReplyDraft } from '@/lib/reply-drafts';
+
+export const TEMPLATE_VARIABLES = ['authorName', 'locationName', 'rating', 'signOff'] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+const SYSTEM_TEMPLATE_PREFIX = 'system:';
+const PLACEHOLDER = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+export type ReplyTemplateView = Pick<
+  ReplyTemplate,
+  'id' | 'name' | 'body' | 'locationId' | 'minRating' | 'maxRating' | 'sentiments' | 'tags'
+> & { system: boolean };
+
+/** Curated templates available on every plan; the only ones Free workspaces can use. */
+export const SYSTEM_REPLY_TEMPLATES: ReplyTemplateView[] = [
+  {
+    id: `${SYSTEM_TEMPLATE_PREFIX}positive-thanks`,
+    name: 'Positive - thank you',
+    body: 'Hi {{authorName}}, thank you for the {{rating}}-star review! We are glad you enjoyed your visit to {{locationName}} and hope to see you again soon.\n\n{{signOff}}',
+    locationId: null,
+    minRating: 4,
+    maxRating: 5,
+    sentiments: [],
+    tags: [],
+    system: true
+  },
+  {
+    id: `${SYSTEM_TEMPLATE_PREFIX}neutral-feedback`,
+    name: 'Neutral - feedback noted',
+    body: 'Hi {{authorName}}, thanks for sharing your feedback about {{locationName}}. We appreciate the honest review and will use it to keep improving.\n\n{{signOff}}',
+    locationId: null,
+    minRating: 3,
+    maxRating: 3,
+    sentiments: [],
+    tags: [],
+    system: true
+  },
+  {
+    id: `${SYSTEM_TEMPLATE_PREFIX}negative-apology`,
+    name: 'Negative - apology and follow-up',
+    body: 'Hi {{authorName}}, we are sorry your experience at {{locationName}} did not meet expectations. Please contact us directly so we can look into what happened and make it right.\n\n{{signOff}}',
+    locationId: null,
+    minRating: 1,
+    maxRating: 2,
+    sentiments: [],
+    tags: [],
+    system: true
+  }
+];
+
+export const replyTemplateSchema = z
+  .object({
+    name: z.string().min(2).max(80),
+    body: z
+      .string()
+      .min(1)
+      .max(2000)
+      .refine((body) => !findUnknownVariables(body).length, {
+        message: `Only ${TEMPLATE_VARIABLES.map((name) => `{{${name}}}`).join(', ')} placeholders are supported`
+      }),
+    locationId: z.string().nullable().optional(),
+    minRating: z.number().int().min(1).max(5).nullable().optional(),
+    maxRating: z.number().int().min(1).max(5).nullable().optional(),
+    sentiments: z.array(z.nativeEnum(Sentiment)).max(3).default([]),
+    tags: z.array(z.string().max(40)).max(10).default([])
+  })
+  .refine((value) => value.minRating == null || value.maxRating == null || value.minRating <= value.maxRating, {
+    message: 'minRating must not exceed maxRating',
+    path: ['minRating']
+  });
+
+/** Sanitizes a parsed template and checks that its name and location fit the workspace. */
+export async function cleanTemplateInput(
+  workspaceId: string,
+  parsed: z.infer<typeof replyTemplateSchema>,
+  existingId?: string
+) {
+  const name = sanitizeText(parsed.name, 80);
+  const duplicate = await prisma.replyTemplate.findUnique({ where: { workspaceId_name: { workspaceId, name } } });
+  if (duplicate && duplicate.id !== existingId) {
+    throw new HttpError(409, 'Template with this name already exists');
+  }
+
+  if (parsed.locationId) {
+    const location = await prisma.location.findUnique({ where: { id: parsed.locationId } });
+    if (!location || location.workspaceId !== workspaceId) {
+      throw new HttpError(404, 'Location not found');
+    }
+  }
+
+  return {
+    name,
+    body: sanitizeText(parsed.body, 2000),
+    locationId: parsed.locationId ?? null,
+    minRating: parsed.minRating ?? null,
+    maxRating: parsed.maxRating ?? null,
+    sentiments: Array.from(new Set(parsed.sentiments)),
+    tags: sanitizeTags(parsed.tags)
+  };
+}
+
+export function findUnknownVariables(body: string) {
+  const known = new Set<string>(TEMPLATE_VARIABLES);
+  return Array.from(body.matchAll(PLACEHOLDER), (match) => match[1]).filter((name) => !known.has(name));
+}
+
+export function renderReplyTemplate(body: string, variables: Record<TemplateVariable, string>) {
+  return body.replace(PLACEHOLDER, (placeholder, name: string) =>
+    name in variables ? variables[name as TemplateVariable] : placeholder
+  );
+}
+
+export function templateMatchesReview(
+  template: ReplyTemplateView,
+  review: Pick<DraftableReview, 'locationId' | 'rating' | 'sentiment' | 'tags'>
+) {
+  if (template.locationId && template.locationId !== review.locationId) return false;
+  if (template.minRating != null && review.rating < template.minRating) return false;
+  if (template.maxRating != null && review.rating > template.maxRating) return false;
+  if (template.sentiments.length && !template.sentiments.includes(review.sentiment)) return false;
+  if (template.tags.length && !template.tags.some((tag) => review.tags.includes(tag))) return false;
+  return true;
+}
+
+export function canUseCustomTemplates(plan: Plan) {
+  return !PLAN_LIMITS[plan].hasBasicTemplatesOnly;
+}
+
+export function assertCustomTemplates(plan: Plan) {
+  if (!canUseCustomTemplates(plan)) {
+    throw new HttpError(403, 'Custom reply templates are not available on the current plan');
+  }
+}
+
+export function serializeTemplate(template: ReplyTemplate): ReplyTemplateView {
+  return {
+    id: template.id,
+    name: template.name,
+    body: template.body,
+    locationId: template.locationId,
+    minRating: template.minRating,
+    maxRating: template.maxRating,
+    sentiments: template.sentiments,
+    tags: template.tags,
+    system: false
+  };
+}
+
+/** System templates first, then the workspace's own templates when the plan allows them. */
+export async function listReplyTemplates(workspaceId: string, plan: Plan) {
+  if (!canUseCustomTemplates(plan)) {
+    return SYSTEM_REPLY_TEMPLATES;
+  }
+  const custom = await prisma.replyTemplate.findMany({
+    where: { workspaceId },
+    orderBy: { name: 'asc' }
+  });
+  return [...SYSTEM_REPLY_TEMPLATES, ...custom.map(serializeTemplate)];
+}
+
+async function findTemplate(workspaceId: string, plan: Plan, templateId: string) {
+  if (templateId.startsWith(SYSTEM_TEMPLATE_PREFIX)) {
+    const template = SYSTEM_REPLY_TEMPLATES.find((item) => item.id === templateId);
+    if (!template) throw new HttpError(404, 'Template not found');
+    return template;
+  }
+
+  assertCustomTemplates(plan);
+  const template = await prisma.replyTemplate.findUnique({ where: { id: templateId } });
+  if (!template || template.workspaceId !== workspaceId) {
+    throw new HttpError(404, 'Template not found');
+  }
+  return serializeTemplate(template);
+}
+
+/**
+ * Fills the review draft from a template. No AI provider is called, so the workspace's
+ * monthly generation allowance is left untouched.
+ */
+export async function applyReplyTemplate(input: {
+  workspaceId: string;
+  reviewId: string;
+  templateId: string;
+  actorId: string;
+  restartApproval?: boolean;
+}) {
+  const review = await prisma.review.findUnique({
+    where: { id: input.reviewId },
+    include: draftReviewInclude
+  });
+  if (!review || review.workspaceId !== input.workspaceId) {
+    throw new HttpError(404, 'Review not found');
+  }
+  assertDraftable(review, input.restartApproval);
+
+  const template = await findTemplate(input.workspaceId, review.workspace.plan, input.templateId);
+  if (template.locationId && template.locationId !== review.locationId) {
+    throw new HttpError(400, 'Template belongs to a different location');
+  }
+
+  const brandVoice = review.location.brandVoice ?? review.workspace.brandVoice;
+  const replyDraft = renderReplyTemplate(template.body, {
+    authorName: review.authorName || 'there',
+    locationName: review.location.name,
+    rating: String(review.rating),
+    signOff: brandVoice?.signOff ?? 'Best regards'
+  }).trim();
+
+  const now = new Date();
+  const updated = await prisma.$transaction((tx) =>
+    writeReplyDraft(
+      tx,
+      review.id,
+      {
+        replyDraft,
+        draftedById: input.actorId,
+        draftedAt: now,
+        editedById: input.actorId,
+        editedAt: now
+      },
+      input.restartApproval
+    )
+  );
+
+  await logAudit({
+    workspaceId: input.workspaceId,
+    reviewId: review.id,
+    actorId: input.actorId,
+    action: 'REPLY_TEMPLATE_APPLIED',
+    metadata: { templateId: template.id, templateName: template.name, system: template.system }
+  });
+
+  return updated;
+}
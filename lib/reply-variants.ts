@@ -0,0 +1,170 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { generateText } from '@/lib/ai';
+import { chainFromEnums } from '@/lib/ai-routing';
+import { HttpError } from '@/lib/http';
+import { sanitizeText } from '@/lib/sanitize';
+import { logAudit } from '@/lib/audit';
+import {
+  assertDraftable,
+  buildDraftPrompt,
+  buildGenerationRecord,
+  DraftableReview,
+  DraftReplyOptions,
+  writeReplyDraft
+} from '@/lib/reply-drafts';
+
+export const MAX_REPLY_VARIANTS = 4;
+
+const PROVIDER_LABELS: Record<DraftReplyOptions['provider'], string> = {
+  openai: 'OpenAI',
+  claude: 'Claude',
+  gemini: 'Gemini',
+  local: 'Local',
+  mock: 'Mock'
+};
+
+export function describeVariant(options: DraftReplyOptions) {
+  return [PROVIDER_LABELS[options.provider], options.length, options.tone?.toLowerCase(), options.targetLanguage]
+    .filter(Boolean)
+    .join(' / ');
+}
+
+export type VariantResult =
+  | {
+      status: 'generated';
+      label: string;
+      generation: { id: string; provider: string; model: string; replyText: string; tone: string | null };
+    }
+  | { status: 'failed'; label: string; error: string };
+
+/**
+ * Generates each requested variant as its own ReplyGeneration row in one variant group.
+ * The review draft is left untouched until a variant is selected. Usage accounting is left to the caller.
+ */
+export async function generateReplyVariants(input: {
+  review: DraftableReview;
+  actorId: string;
+  variants: DraftReplyOptions[];
+  variantGroupId?: string;
+}) {
+  const { review } = input;
+  const variantGroupId = input.variantGroupId ?? randomUUID();
+  const fallbacks = chainFromEnums(review.workspace.aiProviderChain);
+
+  const settled = await Promise.allSettled(
+    input.variants.map(async (options) => {
+      const generated = await generateText({ provider: options.provider, fallbacks, prompt: buildDraftPrompt(review, options) });
+      return prisma.replyGeneration.create({
+        data: {
+          ...buildGenerationRecord({ review, actorId: input.actorId, options, generated }),
+          variantGroupId,
+          variantLabel: describeVariant({ ...options, provider: generated.provider })
+        }
+      });
+    })
+  );
+
+  const results: VariantResult[] = settled.map((outcome, index) => {
+    const label = describeVariant(input.variants[index]);
+    if (outcome.status === 'fulfilled') {
+      const generation = outcome.value;
+      return {
+        status: 'generated',
+        label: generation.variantLabel ?? label,
+        generation: {
+          id: generation.id,
+          provider: generation.provider,
+          model: generation.model,
+          replyText: generation.replyText,
+          tone: generation.tone
+        }
+      };
+    }
+    return {
+      status: 'failed',
+      label,
+      error: outcome.reason instanceof Error ? outcome.reason.message : 'Unknown generation error'
+    };
+  });
+
+  await logAudit({
+    workspaceId: review.workspaceId,
+    reviewId: review.id,
+    actorId: input.actorId,
+    action: 'REPLY_VARIANTS_GENERATED',
+    metadata: {
+      variantGroupId,
+      labels: results.map((item) => item.label),
+      failed: results.filter((item) => item.status === 'failed').length
+    }
+  });
+
+  return { variantGroupId, results };
+}
+
+/**
+ * Makes a variant (or a merge of several) the current draft and marks the source generations as selected.
+ */
+export async function selectReplyVariant(input: {
+  workspaceId: string;
+  reviewId: string;
+  actorId: string;
+  generationIds: string[];
+  mergedText?: string;
+  restartApproval?: boolean;
+}) {
+  const review = await prisma.review.findUnique({ where: { id: input.reviewId } });
+  if (!review || review.workspaceId !== input.workspaceId) {
+    throw new HttpError(404, 'Review not found');
+  }
+  assertDraftable(review, input.restartApproval);
+
+  const generations = await prisma.replyGeneration.findMany({
+    where: { id: { in: input.generationIds }, reviewId: review.id }
+  });
+  if (generations.length !== new Set(input.generationIds).size) {
+    throw new HttpError(404, 'Variant not found');
+  }
+
+  const replyDraft = input.mergedText ? sanitizeText(input.mergedText, 5000) : generations[0].replyText;
+  if (generations.length > 1 && !input.mergedText) {
+    throw new HttpError(400, 'Provide mergedText when selecting more than one variant');
+  }
+
+  const now = new Date();
+  const updated = await prisma.$transaction(async (tx) => {
+    const drafted = await writeReplyDraft(
+      tx,
+      review.id,
+      {
+        replyDraft,
+        draftedById: input.actorId,
+        draftedAt: now,
+        editedById: input.actorId,
+        editedAt: now
+      },
+      input.restartApproval
+    );
+    await tx.replyGeneration.updateMany({
+      where: { id: { in: generations.map((item) => item.id) } },
+      data: { selectedAt: now }
+    });
+    return drafted;
+  });
+
+  await logAudit({
+    workspaceId: input.workspaceId,
+    reviewId: review.id,
+    actorId: input.actorId,
+    action: 'REPLY_VARIANT_SELECTED',
+    metadata: {
+      generationIds: generations.map((item) => item.id),
+      variantGroupId: generations[0].variantGroupId,
+      labels: generations.map((item) => item.variantLabel),
+      merged: Boolean(input.mergedText)
+    }
+  });
+
+  return updated;
+}
@@ -0,0 +1,121 @@
+import { AssignmentStrategy, Prisma, ReviewStatus, Role, Workspace } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { HttpError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+
+/** Reviews in these statuses still need someone to work on them. */
+export const OPEN_REVIEW_STATUSES: ReviewStatus[] = ['NEW', 'DRAFTED'];
+
+const ASSIGNABLE_ROLES: Role[] = [Role.OWNER, Role.ADMIN, Role.MEMBER];
+
+export function computeDueAt(workspace: Pick<Workspace, 'responseSlaHours'>, from = new Date()) {
+  if (!workspace.responseSlaHours) return null;
+  return new Date(from.getTime() + workspace.responseSlaHours * 60 * 60 * 1000);
+}
+
+export function overdueWhere(now = new Date()): Prisma.ReviewWhereInput {
+  return { dueAt: { lt: now }, status: { in: OPEN_REVIEW_STATUSES } };
+}
+
+export async function assertAssignableMember(workspaceId: string, userId: string) {
+  const membership = await prisma.workspaceMembership.findUnique({
+    where: { userId_workspaceId: { userId, workspaceId } }
+  });
+  if (!membership || !ASSIGNABLE_ROLES.includes(membership.role)) {
+    throw new HttpError(404, 'Assignee is not a member of this workspace');
+  }
+  return membership;
+}
+
+async function listAssignableMemberIds(workspaceId: string) {
+  const memberships = await prisma.workspaceMembership.findMany({
+    where: { workspaceId, role: { in: ASSIGNABLE_ROLES } },
+    orderBy: [{ joinedAt: 'asc' }, { userId: 'asc' }],
+    select: { userId: true }
+  });
+  return memberships.map((membership) => membership.userId);
+}
+
+/**
+ * Picks the next assignee for a workspace. Round-robin walks members in join order using a
+ * persisted cursor; load-based picks whoever has the fewest open assigned reviews.
+ */
+export async function pickAssignee(workspace: Pick<Workspace, 'id' | 'assignmentStrategy'>) {
+  if (workspace.assignmentStrategy === AssignmentStrategy.MANUAL) return null;
+
+  const memberIds = await listAssignableMemberIds(workspace.id);
+  if (!memberIds.length) return null;
+
+  if (workspace.assignmentStrategy === AssignmentStrategy.ROUND_ROBIN) {
+    const updated = await prisma.workspace.update({
+      where: { id: workspace.id },
+      data: { assignmentCursor: { increment: 1 } },
+      select: { assignmentCursor: true }
+    });
+    return memberIds[(updated.assignmentCursor - 1) % memberIds.length];
+  }
+
+  const loads = await prisma.review.groupBy({
+    by: ['assigneeId'],
+    where: { workspaceId: workspace.id, assigneeId: { in: memberIds }, status: { in: OPEN_REVIEW_STATUSES } },
+    _count: { _all: true }
+  });
+  const loadByMember = new Map(loads.map((row) => [row.assigneeId, row._count._all]));
+  return memberIds.reduce((best, memberId) =>
+    (loadByMember.get(memberId) ?? 0) < (loadByMember.get(best) ?? 0) ? memberId : best
+  );
+}
+
+export async function assignReview(input: {
+  workspaceId: string;
+  reviewId: string;
+  assigneeId: string | null;
+  actorId: string;
+  metadata?: Record<string, unknown>;
+}) {
+  const review = await prisma.review.findUnique({ where: { id: input.reviewId } });
+  if (!review || review.workspaceId !== input.workspaceId) {
+    throw new HttpError(404, 'Review not found');
+  }
+  if (review.assigneeId === input.assigneeId) return review;
+
+  if (input.assigneeId) {
+    await assertAssignableMember(input.workspaceId, input.assigneeId);
+  }
+
+  const updated = await prisma.review.update({
+    where: { id: review.id },
+    data: { assigneeId: input.assigneeId }
+  });
+
+  await logAudit({
+    workspaceId: input.workspaceId,
+    reviewId: review.id,
+    actorId: input.actorId,
+    action: input.assigneeId ? 'REVIEW_ASSIGNED' : 'REVIEW_UNASSIGNED',
+    metadata: { from: review.assigneeId, to: input.assigneeId, ...input.metadata }
+  });
+
+  return updated;
+}
+
+/** Assigns freshly imported reviews according to the workspace strategy; a no-op for MANUAL. */
+export async function autoAssignReviews(input: { workspaceId: string; reviewIds: string[]; actorId: string }) {
+  const workspace = await prisma.workspace.findUniqueOrThrow({ where: { id: input.workspaceId } });
+  if (workspace.assignmentStrategy === AssignmentStrategy.MANUAL) return 0;
+
+  let assigned = 0;
+  for (const reviewId of input.reviewIds) {
+    const assigneeId = await pickAssignee(workspace);
+    if (!assigneeId) break;
+    await assignReview({
+      workspaceId: input.workspaceId,
+      reviewId,
+      assigneeId,
+      actorId: input.actorId,
+      metadata: { strategy: workspace.assignmentStrategy }
+    });
+    assigned += 1;
+  }
+  return assigned;
+}
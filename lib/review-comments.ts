@@ -0,0 +1,225 @@
+import { Prisma, Role } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { HttpError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { sanitizeText } from '@/lib/sanitize';
+import { assertPermission } from '@/lib/tenant';
+import { Permission, resolvePermissions } from '@/lib/permissions';
+
+/** Mentions are written as `@` followed by the member's email, e.g. `@jane@example.com`. */
+const MENTION_PATTERN = /@([^\s@]+@[^\s@]+\.[a-z]{2,})/gi;
+
+export const commentBodySchema = z.string().min(1).max(2000);
+
+const commentInclude = {
+  author: { select: { id: true, name: true, email: true } },
+  mentions: { include: { user: { select: { id: true, name: true, email: true } } } }
+} satisfies Prisma.ReviewCommentInclude;
+
+type CommentWithRelations = Prisma.ReviewCommentGetPayload<{ include: typeof commentInclude }>;
+
+type Viewer = { userId: string; permissions: Permission[] };
+
+/** Loads the review and checks the caller may take part in its internal discussion. */
+export async function loadReviewForComments(reviewId: string, userId: string) {
+  const review = await prisma.review.findUnique({ where: { id: reviewId }, select: { id: true, workspaceId: true } });
+  if (!review) throw new HttpError(404, 'Review not found');
+  const membership = await assertPermission(userId, review.workspaceId, 'comments.write');
+  return { review, viewer: { userId, permissions: resolvePermissions(membership) } satisfies Viewer };
+}
+
+export function extractMentionEmails(body: string) {
+  return Array.from(new Set(Array.from(body.matchAll(MENTION_PATTERN), (match) => match[1].toLowerCase())));
+}
+
+/** Resolves mention handles to workspace members; unknown emails and self-mentions are ignored. */
+async function resolveMentionedUserIds(workspaceId: string, body: string, authorId: string) {
+  const emails = extractMentionEmails(body);
+  if (!emails.length) return [];
+  const memberships = await prisma.workspaceMembership.findMany({
+    // clients never see internal comments, so they cannot be mentioned
+    where: { workspaceId, role: { not: Role.CLIENT }, user: { email: { in: emails } } },
+    select: { userId: true }
+  });
+  return memberships.map((membership) => membership.userId).filter((userId) => userId !== authorId);
+}
+
+function canModerate(viewer: Viewer) {
+  return viewer.permissions.includes('comments.moderate');
+}
+
+function serializeComment(comment: CommentWithRelations, viewer: Viewer) {
+  const deleted = !!comment.deletedAt;
+  return {
+    id: comment.id,
+    parentId: comment.parentId,
+    body: deleted ? null : comment.body,
+    author: comment.author,
+    mentions: comment.mentions.map((mention) => ({
+      id: mention.user.id,
+      label: mention.user.name || mention.user.email
+    })),
+    createdAt: comment.createdAt.toISOString(),
+    editedAt: comment.editedAt?.toISOString() ?? null,
+    deletedAt: comment.deletedAt?.toISOString() ?? null,
+    canEdit: !deleted && comment.authorId === viewer.userId,
+    canDelete: !deleted && (comment.authorId === viewer.userId || canModerate(viewer))
+  };
+}
+
+export type ReviewCommentView = ReturnType<typeof serializeComment>;
+
+/** Top-level comments oldest first, each with its replies; threads are one level deep. */
+export async function listReviewComments(reviewId: string, viewer: Viewer) {
+  const comments = await prisma.reviewComment.findMany({
+    where: { reviewId },
+    include: commentInclude,
+    orderBy: { createdAt: 'asc' }
+  });
+  const views = comments.map((comment) => serializeComment(comment, viewer));
+  return views
+    .filter((comment) => !comment.parentId)
+    .map((comment) => ({ ...comment, replies: views.filter((reply) => reply.parentId === comment.id) }))
+    .filter((thread) => !thread.deletedAt || thread.replies.some((reply) => !reply.deletedAt));
+}
+
+async function findComment(reviewId: string, commentId: string) {
+  const comment = await prisma.reviewComment.findUnique({ where: { id: commentId }, include: commentInclude });
+  if (!comment || comment.reviewId !== reviewId || comment.deletedAt) {
+    throw new HttpError(404, 'Comment not found');
+  }
+  return comment;
+}
+
+async function syncMentions(workspaceId: string, commentId: string, userIds: string[]) {
+  await prisma.reviewCommentMention.deleteMany({ where: { commentId, userId: { notIn: userIds } } });
+  if (userIds.length) {
+    await prisma.reviewCommentMention.createMany({
+      data: userIds.map((userId) => ({ workspaceId, commentId, userId })),
+      skipDuplicates: true
+    });
+  }
+}
+
+export async function createReviewComment(input: {
+  workspaceId: string;
+  reviewId: string;
+  parentId?: string | null;
+  body: string;
+  viewer: Viewer;
+}) {
+  let parentId: string | null = null;
+  if (input.parentId) {
+    const parent = await findComment(input.reviewId, input.parentId);
+    // replies to a reply join the root thread
+    parentId = parent.parentId ?? parent.id;
+  }
+
+  const body = sanitizeText(input.body, 2000);
+  if (!body) throw new HttpError(400, 'Comment cannot be empty');
+  const mentionedUserIds = await resolveMentionedUserIds(input.workspaceId, body, input.viewer.userId);
+
+  const comment = await prisma.reviewComment.create({
+    data: { workspaceId: input.workspaceId, reviewId: input.reviewId, authorId: input.viewer.userId, parentId, body }
+  });
+  await syncMentions(input.workspaceId, comment.id, mentionedUserIds);
+
+  await logAudit({
+    workspaceId: input.workspaceId,
+    reviewId: input.reviewId,
+    actorId: input.viewer.userId,
+    action: 'REVIEW_COMMENT_ADDED',
+    metadata: { commentId: comment.id, parentId, mentions: mentionedUserIds }
+  });
+
+  return serializeComment(await findComment(input.reviewId, comment.id), input.viewer);
+}
+
+/** Only the author may edit; mentions are re-resolved so newly added members get notified. */
+export async function updateReviewComment(input: {
+  workspaceId: string;
+  reviewId: string;
+  commentId: string;
+  body: string;
+  viewer: Viewer;
+}) {
+  const existing = await findComment(input.reviewId, input.commentId);
+  if (existing.authorId !== input.viewer.userId) {
+    throw new HttpError(403, 'Only the author can edit this comment');
+  }
+
+  const body = sanitizeText(input.body, 2000);
+  if (!body) throw new HttpError(400, 'Comment cannot be empty');
+  const mentionedUserIds = await resolveMentionedUserIds(input.workspaceId, body, input.viewer.userId);
+
+  await prisma.reviewComment.update({ where: { id: existing.id }, data: { body, editedAt: new Date() } });
+  await syncMentions(input.workspaceId, existing.id, mentionedUserIds);
+
+  await logAudit({
+    workspaceId: input.workspaceId,
+    reviewId: input.reviewId,
+    actorId: input.viewer.userId,
+    action: 'REVIEW_COMMENT_EDITED',
+    metadata: { commentId: existing.id, mentions: mentionedUserIds }
+  });
+
+  return serializeComment(await findComment(input.reviewId, existing.id), input.viewer);
+}
+
+/**
+ * Authors can delete their own comments, members with `comments.moderate` can delete any. The row is kept as a
+ * tombstone so replies in the thread stay attached; its body and mentions are removed.
+ */
+export async function deleteReviewComment(input: {
+  workspaceId: string;
+  reviewId: string;
+  commentId: string;
+  viewer: Viewer;
+}) {
+  const existing = await findComment(input.reviewId, input.commentId);
+  if (existing.authorId !== input.viewer.userId && !canModerate(input.viewer)) {
+    throw new HttpError(403, 'Only the author or a moderator can delete this comment');
+  }
+
+  await prisma.reviewComment.update({ where: { id: existing.id }, data: { body: '', deletedAt: new Date() } });
+  await prisma.reviewCommentMention.deleteMany({ where: { commentId: existing.id } });
+
+  await logAudit({
+    workspaceId: input.workspaceId,
+    reviewId: input.reviewId,
+    actorId: input.viewer.userId,
+    action: 'REVIEW_COMMENT_DELETED',
+    metadata: { commentId: existing.id, authorId: existing.authorId }
+  });
+}
+
+export function unreadMentionsWhere(userId: string): Prisma.ReviewWhereInput {
+  return { comments: { some: { deletedAt: null, mentions: { some: { userId, readAt: null } } } } };
+}
+
+export function countUnreadMentions(workspaceId: string, userId: string) {
+  return prisma.reviewCommentMention.count({
+    where: { workspaceId, userId, readAt: null, comment: { deletedAt: null } }
+  });
+}
+
+export async function markReviewMentionsRead(reviewId: string, userId: string) {
+  await prisma.reviewCommentMention.updateMany({
+    where: { userId, readAt: null, comment: { reviewId } },
+    data: { readAt: new Date() }
+  });
+}
+
+/** Guards the public reply fields against an internal comment being pasted in verbatim. */
+export async function assertNotInternalComment(reviewId: string, text: string | null | undefined) {
+  const normalized = text?.trim();
+  if (!normalized) return;
+  const match = await prisma.reviewComment.findFirst({
+    where: { reviewId, deletedAt: null, body: normalized },
+    select: { id: true }
+  });
+  if (match) {
+    throw new HttpError(422, 'Internal comments cannot be used as the public reply');
+  }
+}
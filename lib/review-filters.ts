@@ -0,0 +1,82 @@
+import { Prisma, ReviewSource, ReviewStatus, Sentiment } from '@prisma/client';
+import { z } from 'zod';
+import { OPEN_REVIEW_STATUSES, overdueWhere } from '@/lib/review-assignment';
+import { unreadMentionsWhere } from '@/lib/review-comments';
+
+export const reviewFiltersSchema = z.object({
+  status: z.nativeEnum(ReviewStatus).optional(),
+  source: z.nativeEnum(ReviewSource).optional(),
+  sentiment: z.nativeEnum(Sentiment).optional(),
+  tag: z.string().optional(),
+  rating: z.coerce.number().int().min(1).max(5).optional(),
+  dateFrom: z.string().optional(),
+  dateTo: z.string().optional(),
+  // "me", "unassigned" or a member's user id
+  assignee: z.string().optional(),
+  overdue: z.enum(['true', 'false']).optional(),
+  // reviews with comments mentioning the viewer that they have not opened yet
+  mentions: z.enum(['unread']).optional()
+});
+
+export type ReviewFilters = z.infer<typeof reviewFiltersSchema>;
+
+export function buildAssigneeWhere(assignee: string | undefined, viewerId?: string): Prisma.ReviewWhereInput {
+  if (!assignee) return {};
+  if (assignee === 'unassigned') return { assigneeId: null };
+  if (assignee === 'me') return { assigneeId: viewerId ?? null };
+  return { assigneeId: assignee };
+}
+
+/** `viewerId` resolves the "me" assignee and unread mentions filters to the requesting user. */
+export function buildReviewWhere(workspaceId: string, filters: ReviewFilters, viewerId?: string): Prisma.ReviewWhereInput {
+  return {
+    workspaceId,
+    ...buildAssigneeWhere(filters.assignee, viewerId),
+    ...(filters.overdue === 'true' ? { AND: [overdueWhere()] } : {}),
+    ...(filters.mentions === 'unread' && viewerId ? unreadMentionsWhere(viewerId) : {}),
+    ...(filters.status ? { status: filters.status } : {}),
+    ...(filters.source ? { source: filters.source } : {}),
+    ...(filters.sentiment ? { sentiment: filters.sentiment } : {}),
+    ...(filters.tag ? { tags: { has: filters.tag } } : {}),
+    ...(filters.rating ? { rating: filters.rating } : {}),
+    ...((filters.dateFrom || filters.dateTo)
+      ? {
+          reviewDate: {
+            ...(filters.dateFrom ? { gte: new Date(filters.dateFrom) } : {}),
+            ...(filters.dateTo ? { lte: new Date(filters.dateTo) } : {})
+          }
+        }
+      : {})
+  };
+}
+
+/**
+ * The same filters as buildReviewWhere, as a condition on the review alias `r` for raw queries
+ * such as full-text search. Keep the two in step.
+ */
+export function buildReviewFilterSql(workspaceId: string, filters: ReviewFilters, viewerId?: string): Prisma.Sql {
+  const conditions = [Prisma.sql`r."workspaceId" = ${workspaceId}`];
+  if (filters.assignee === 'unassigned' || (filters.assignee === 'me' && !viewerId)) {
+    conditions.push(Prisma.sql`r."assigneeId" IS NULL`);
+  } else if (filters.assignee) {
+    conditions.push(Prisma.sql`r."assigneeId" = ${filters.assignee === 'me' ? viewerId : filters.assignee}`);
+  }
+  if (filters.overdue === 'true') {
+    conditions.push(Prisma.sql`r."dueAt" < ${new Date()} AND r."status"::text IN (${Prisma.join(OPEN_REVIEW_STATUSES)})`);
+  }
+  if (filters.mentions === 'unread' && viewerId) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "ReviewComment" c
+      JOIN "ReviewCommentMention" m ON m."commentId" = c."id"
+      WHERE c."reviewId" = r."id" AND c."deletedAt" IS NULL AND m."userId" = ${viewerId} AND m."readAt" IS NULL
+    )`);
+  }
+  if (filters.status) conditions.push(Prisma.sql`r."status"::text = ${filters.status}`);
+  if (filters.source) conditions.push(Prisma.sql`r."source"::text = ${filters.source}`);
+  if (filters.sentiment) conditions.push(Prisma.sql`r."sentiment"::text = ${filters.sentiment}`);
+  if (filters.tag) conditions.push(Prisma.sql`${filters.tag} = ANY(r."tags")`);
+  if (filters.rating) conditions.push(Prisma.sql`r."rating" = ${filters.rating}`);
+  if (filters.dateFrom) conditions.push(Prisma.sql`r."reviewDate" >= ${new Date(filters.dateFrom)}`);
+  if (filters.dateTo) conditions.push(Prisma.sql`r."reviewDate" <= ${new Date(filters.dateTo)}`);
+  return Prisma.join(conditions, ' AND ');
+}
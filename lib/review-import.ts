@@ -0,0 +1,264 @@
+import { Prisma, Review, ReviewSource, Sentiment, Workspace } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { HttpError } from '@/lib/http';
+import { assertLocationLimit } from '@/lib/tenant';
+import { sanitizeOptionalText, sanitizeTags, sanitizeText, sanitizeUrl } from '@/lib/sanitize';
+import { computeDueAt } from '@/lib/review-assignment';
+
+/** A review as read from a CSV row, feed item or manual form, before sanitizing. */
+export type ImportedReview = {
+  externalId?: string | null;
+  source: ReviewSource;
+  locationId?: string;
+  locationName?: string;
+  authorName: string;
+  rating: number;
+  text: string;
+  reviewDate: Date;
+  reviewUrl?: string | null;
+  language?: string | null;
+  tags?: string[];
+};
+
+export function sentimentFromRating(rating: number): Sentiment {
+  if (rating >= 4) return Sentiment.POS;
+  if (rating === 3) return Sentiment.NEU;
+  return Sentiment.NEG;
+}
+
+export async function resolveLocation(
+  workspaceId: string,
+  locationId?: string,
+  locationName?: string,
+  db: Prisma.TransactionClient = prisma
+) {
+  if (locationId) {
+    const existing = await db.location.findUnique({ where: { id: locationId } });
+    if (!existing || existing.workspaceId !== workspaceId) {
+      throw new HttpError(404, 'Location not found');
+    }
+    return existing;
+  }
+
+  const safeName = sanitizeOptionalText(locationName, 100);
+  if (!safeName) {
+    throw new HttpError(400, 'locationId or locationName is required');
+  }
+
+  const existingByName = await db.location.findUnique({
+    where: { workspaceId_name: { workspaceId, name: safeName } }
+  });
+  if (existingByName) return existingByName;
+
+  await assertLocationLimit(workspaceId, 1, db);
+  return db.location.create({ data: { workspaceId, name: safeName } });
+}
+
+/** Maps a row of the documented CSV format (`source`, `rating`, `text`, `name`, `date`, `url`, ...). */
+export function reviewFromCsvRow(row: Record<string, string>, defaultLocationId?: string): ImportedReview {
+  const sourceRaw = row.source?.toUpperCase();
+  const source = sourceRaw && sourceRaw in ReviewSource ? (sourceRaw as ReviewSource) : ReviewSource.OTHER;
+  const rating = Number(row.rating || 0);
+  if (!Number.isFinite(rating) || rating < 1 || rating > 5) {
+    throw new HttpError(400, 'Invalid rating');
+  }
+  const reviewDate = row.date ? new Date(row.date) : new Date();
+  if (Number.isNaN(reviewDate.getTime())) {
+    throw new HttpError(400, 'Invalid date');
+  }
+
+  return {
+    externalId: row.id || null,
+    source,
+    locationId: row.locationId || defaultLocationId || undefined,
+    locationName: row.location,
+    authorName: row.name || 'Anonymous',
+    rating,
+    text: row.text || '',
+    reviewDate,
+    reviewUrl: row.url,
+    language: row.language,
+    tags: row.tags ? row.tags.split('|').flatMap((item) => item.split(',')) : []
+  };
+}
+
+/** Runs the same checks an import would, without touching the database; throws a 400 for a bad row. */
+export function validateImportedReview(input: ImportedReview) {
+  sanitizeImportedReview(input);
+  if (!input.locationId && !sanitizeOptionalText(input.locationName, 100)) {
+    throw new HttpError(400, 'locationId or locationName is required');
+  }
+}
+
+function sanitizeImportedReview(input: ImportedReview) {
+  const text = sanitizeText(input.text, 5000);
+  if (text.length < 3) throw new HttpError(400, 'Review text is too short');
+  return {
+    externalId: sanitizeOptionalText(input.externalId, 200),
+    source: input.source,
+    authorName: sanitizeText(input.authorName || 'Anonymous', 120),
+    rating: input.rating,
+    text,
+    reviewDate: input.reviewDate,
+    reviewUrl: sanitizeUrl(input.reviewUrl),
+    language: sanitizeOptionalText(input.language, 32),
+    tags: sanitizeTags(input.tags ?? []),
+    sentiment: sentimentFromRating(input.rating)
+  };
+}
+
+export async function createImportedReview(workspace: Pick<Workspace, 'id' | 'responseSlaHours'>, input: ImportedReview) {
+  const data = sanitizeImportedReview(input);
+  if (data.externalId) {
+    const duplicate = await prisma.review.findFirst({
+      where: { workspaceId: workspace.id, source: data.source, externalId: data.externalId }
+    });
+    if (duplicate) throw new HttpError(409, 'A review with this id was already imported');
+  }
+  const location = await resolveLocation(workspace.id, input.locationId, input.locationName);
+  return prisma.review.create({
+    data: { ...data, workspaceId: workspace.id, locationId: location.id, dueAt: computeDueAt(workspace) }
+  });
+}
+
+export const IMPORT_MODES = ['skip', 'update', 'create'] as const;
+
+export type ImportMode = (typeof IMPORT_MODES)[number];
+
+// rows without an id count as duplicates at this text similarity or above
+const FUZZY_MATCH_THRESHOLD = 0.9;
+const FUZZY_DATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+function normalizeForMatch(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/** Dice coefficient over character bigrams, 0 (nothing shared) to 1 (same text). */
+export function textSimilarity(left: string, right: string) {
+  const a = normalizeForMatch(left);
+  const b = normalizeForMatch(right);
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let index = 0; index < a.length - 1; index += 1) {
+    const bigram = a.slice(index, index + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  let shared = 0;
+  for (let index = 0; index < b.length - 1; index += 1) {
+    const bigram = b.slice(index, index + 2);
+    const count = bigrams.get(bigram) ?? 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      shared += 1;
+    }
+  }
+  return (2 * shared) / (a.length + b.length - 2);
+}
+
+type DuplicateMatch = { review: Review; match: 'externalId' | 'fuzzy'; similarity: number };
+
+/**
+ * Finds the review a row was already imported as: by external id when the row has one, otherwise the
+ * same author within a day of the review date whose text is at least 90% similar.
+ */
+async function findDuplicateReview(
+  workspaceId: string,
+  data: ReturnType<typeof sanitizeImportedReview>,
+  db: Prisma.TransactionClient
+): Promise<DuplicateMatch | null> {
+  if (data.externalId) {
+    const review = await db.review.findFirst({
+      where: { workspaceId, source: data.source, externalId: data.externalId }
+    });
+    return review ? { review, match: 'externalId', similarity: 1 } : null;
+  }
+
+  const candidates = await db.review.findMany({
+    where: {
+      workspaceId,
+      source: data.source,
+      authorName: { equals: data.authorName, mode: 'insensitive' },
+      reviewDate: {
+        gte: new Date(data.reviewDate.getTime() - FUZZY_DATE_WINDOW_MS),
+        lte: new Date(data.reviewDate.getTime() + FUZZY_DATE_WINDOW_MS)
+      }
+    },
+    orderBy: { createdAt: 'asc' },
+    take: 20
+  });
+  let best: DuplicateMatch | null = null;
+  for (const review of candidates) {
+    const similarity = textSimilarity(review.text, data.text);
+    if (similarity >= FUZZY_MATCH_THRESHOLD && (!best || similarity > best.similarity)) {
+      best = { review, match: 'fuzzy', similarity };
+    }
+  }
+  return best;
+}
+
+/**
+ * Imports one review, deciding what to do with a duplicate by `mode`: `skip` leaves the existing review,
+ * `update` refreshes its platform-owned fields (drafts and status are kept), `create` adds a second review
+ * anyway. Rows whose external id is already taken can never be created twice and are skipped instead.
+ * Pass a transaction client as `db` to import several rows atomically.
+ */
+export async function importReview(
+  workspace: Pick<Workspace, 'id' | 'responseSlaHours'>,
+  input: ImportedReview,
+  mode: ImportMode,
+  options: { db?: Prisma.TransactionClient; importBatchId?: string } = {}
+) {
+  const db = options.db ?? prisma;
+  const data = sanitizeImportedReview(input);
+  const duplicate = await findDuplicateReview(workspace.id, data, db);
+  const create = async () => {
+    const location = await resolveLocation(workspace.id, input.locationId, input.locationName, db);
+    return db.review.create({
+      data: {
+        ...data,
+        workspaceId: workspace.id,
+        locationId: location.id,
+        dueAt: computeDueAt(workspace),
+        importBatchId: options.importBatchId
+      }
+    });
+  };
+
+  if (!duplicate) {
+    return { review: await create(), outcome: 'created' as const, duplicate: null };
+  }
+  if (mode === 'create' && duplicate.match === 'fuzzy') {
+    return { review: await create(), outcome: 'created' as const, duplicate };
+  }
+  const existing = duplicate.review;
+  if (mode !== 'update') {
+    return { review: existing, outcome: 'skipped' as const, duplicate };
+  }
+
+  const changed =
+    existing.rating !== data.rating ||
+    existing.text !== data.text ||
+    existing.authorName !== data.authorName ||
+    existing.reviewUrl !== data.reviewUrl;
+  if (!changed) {
+    return { review: existing, outcome: 'unchanged' as const, duplicate };
+  }
+
+  const review = await db.review.update({
+    where: { id: existing.id },
+    data: {
+      rating: data.rating,
+      text: data.text,
+      authorName: data.authorName,
+      reviewUrl: data.reviewUrl,
+      // sentiment follows the new rating unless someone already set it by hand
+      ...(existing.sentiment === sentimentFromRating(existing.rating) ? { sentiment: data.sentiment } : {})
+    }
+  });
+  return { review, outcome: 'updated' as const, duplicate };
+}
@@ -0,0 +1,232 @@
+import { createHash } from 'crypto';
+import { Prisma, Review } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { HttpError } from '@/lib/http';
+import { cosineSimilarity, getEmbeddingBackend, requireEmbeddingBackend } from '@/lib/embeddings';
+
+export const SEARCH_MODES = ['keyword', 'semantic'] as const;
+
+export type SearchMode = (typeof SEARCH_MODES)[number];
+
+export const reviewSearchSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  searchMode: z.enum(SEARCH_MODES).default('keyword')
+});
+
+/** A search returns at most this many reviews, best match first; the total still counts every match. */
+export const MAX_SEARCH_MATCHES = 1000;
+
+const MAX_SEMANTIC_CANDIDATES = 5000;
+
+// below this cosine similarity a review is considered unrelated to the query
+const MIN_SIMILARITY = 0.25;
+
+const EMBEDDING_BATCH = 64;
+
+// ts_headline marks matches with these control characters, which never occur in review text
+const START_SEL = '\u0002';
+const STOP_SEL = '\u0003';
+
+const SNIPPET_OPTIONS = `StartSel=${START_SEL}, StopSel=${STOP_SEL}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+const NAME_OPTIONS = `StartSel=${START_SEL}, StopSel=${STOP_SEL}, HighlightAll=true`;
+
+export type SearchMatch = { id: string; score: number };
+
+export type SearchResult = { matches: SearchMatch[]; total: number };
+
+/** The reviews a search runs over: a Prisma filter, and the same filter as SQL on the review alias `r`. */
+export type SearchScope = { where: Prisma.ReviewWhereInput; sql: Prisma.Sql };
+
+export type HighlightSegment = { text: string; highlight: boolean };
+
+export type SearchHighlights = {
+  text?: HighlightSegment[];
+  authorName?: HighlightSegment[];
+  reply?: HighlightSegment[];
+};
+
+// keeps in step with the generated "searchVector" column of the review_search migration
+const SEARCH_CONFIG = Prisma.sql`CASE
+  WHEN lower(coalesce(r."language", '')) LIKE 'ro%' THEN 'romanian'::regconfig
+  WHEN lower(coalesce(r."language", '')) LIKE 'en%' THEN 'english'::regconfig
+  ELSE 'simple'::regconfig
+END`;
+
+/** The query is parsed with every config, so it matches stemmed Romanian, stemmed English and raw words. */
+function searchQuery(q: string) {
+  return Prisma.sql`(websearch_to_tsquery('romanian', ${q}) || websearch_to_tsquery('english', ${q}) || websearch_to_tsquery('simple', ${q}))`;
+}
+
+/**
+ * Full-text matches within the caller's filters and scope. Both run in the same query, so the
+ * limit only cuts the weakest matches and `total` counts all of them.
+ */
+async function keywordMatches(filterSql: Prisma.Sql, q: string): Promise<SearchResult> {
+  const [matches, counted] = await Promise.all([
+    prisma.$queryRaw<SearchMatch[]>`
+      SELECT r."id", ts_rank_cd(r."searchVector", s."query")::float8 AS "score"
+      FROM "Review" r, (SELECT ${searchQuery(q)} AS "query") s
+      WHERE r."searchVector" @@ s."query" AND ${filterSql}
+      ORDER BY "score" DESC, r."reviewDate" DESC
+      LIMIT ${MAX_SEARCH_MATCHES}`,
+    prisma.$queryRaw<Array<{ total: number }>>`
+      SELECT COUNT(*)::int AS "total"
+      FROM "Review" r, (SELECT ${searchQuery(q)} AS "query") s
+      WHERE r."searchVector" @@ s."query" AND ${filterSql}`
+  ]);
+  return { matches, total: counted[0]?.total ?? 0 };
+}
+
+/**
+ * Ranks the embedded reviews that pass `where` by similarity to the query. Candidates are taken
+ * newest first, so a very large workspace compares its most recent reviews.
+ */
+async function semanticMatches(workspaceId: string, where: Prisma.ReviewWhereInput, q: string): Promise<SearchResult> {
+  const backend = requireEmbeddingBackend();
+  const candidates = await prisma.reviewEmbedding.findMany({
+    where: { workspaceId, model: backend.model, review: where },
+    select: { reviewId: true, vector: true },
+    orderBy: { review: { reviewDate: 'desc' } },
+    take: MAX_SEMANTIC_CANDIDATES
+  });
+  if (!candidates.length) {
+    const indexed = await prisma.reviewEmbedding.count({ where: { workspaceId, model: backend.model } });
+    if (!indexed) {
+      throw new HttpError(409, 'No reviews are indexed for semantic search yet. Build the search index first.');
+    }
+    return { matches: [], total: 0 };
+  }
+
+  const [queryVector] = await backend.embed([q]);
+  const ranked = candidates
+    .map((candidate) => ({ id: candidate.reviewId, score: cosineSimilarity(queryVector, candidate.vector) }))
+    .filter((match) => match.score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score);
+  return { matches: ranked.slice(0, MAX_SEARCH_MATCHES), total: ranked.length };
+}
+
+/**
+ * Reviews matching `q` within `scope`, best match first, plus how many match in total. Keyword
+ * mode uses the Postgres full-text index; semantic mode compares the query embedding with the
+ * stored review embeddings. The filters are applied before ranking and limiting.
+ */
+export async function findSearchMatches(
+  workspaceId: string,
+  scope: SearchScope,
+  q: string,
+  mode: SearchMode
+): Promise<SearchResult> {
+  if (mode === 'semantic') return semanticMatches(workspaceId, scope.where, q);
+  return keywordMatches(Prisma.sql`r."workspaceId" = ${workspaceId} AND ${scope.sql}`, q);
+}
+
+function toSegments(headline: string | null): HighlightSegment[] | undefined {
+  if (!headline || !headline.includes(START_SEL)) return undefined;
+  return headline
+    .split(new RegExp(`(${START_SEL}[^${STOP_SEL}]*${STOP_SEL})`))
+    .filter(Boolean)
+    .map((part) =>
+      part.startsWith(START_SEL) ? { text: part.slice(1, -1), highlight: true } : { text: part, highlight: false }
+    );
+}
+
+/**
+ * Snippets of the review text, author and reply with the words matching `q` marked. Fields
+ * without a match are left out. The markers are parsed here, so no HTML reaches the client.
+ */
+export async function loadSearchHighlights(reviewIds: string[], q: string) {
+  const highlights = new Map<string, SearchHighlights>();
+  if (!reviewIds.length) return highlights;
+
+  const rows = await prisma.$queryRaw<Array<{ id: string; text: string | null; authorName: string | null; reply: string | null }>>`
+    SELECT
+      r."id",
+      ts_headline(${SEARCH_CONFIG}, r."text", s."query", ${SNIPPET_OPTIONS}) AS "text",
+      ts_headline('simple'::regconfig, r."authorName", s."query", ${NAME_OPTIONS}) AS "authorName",
+      ts_headline(${SEARCH_CONFIG}, coalesce(r."approvedReply", r."replyDraft", ''), s."query", ${SNIPPET_OPTIONS}) AS "reply"
+    FROM "Review" r, (SELECT ${searchQuery(q)} AS "query") s
+    WHERE r."id" IN (${Prisma.join(reviewIds)})`;
+
+  for (const row of rows) {
+    highlights.set(row.id, {
+      text: toSegments(row.text),
+      authorName: toSegments(row.authorName),
+      reply: toSegments(row.reply)
+    });
+  }
+  return highlights;
+}
+
+/** What gets embedded for a review: its text and the reply it got, if any. */
+export function embeddingText(review: Pick<Review, 'text' | 'replyDraft' | 'approvedReply'>) {
+  return [review.text, review.approvedReply ?? review.replyDraft].filter(Boolean).join('\n\n');
+}
+
+function hashText(text: string) {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+export async function findPendingEmbeddingJob(workspaceId: string) {
+  return prisma.job.findFirst({
+    where: { workspaceId, type: 'REVIEW_EMBEDDINGS', status: { in: ['QUEUED', 'RUNNING'] } }
+  });
+}
+
+export async function getSearchIndexStatus(workspaceId: string) {
+  const backend = getEmbeddingBackend();
+  const [totalReviews, indexedReviews, pendingJob] = await Promise.all([
+    prisma.review.count({ where: { workspaceId } }),
+    backend ? prisma.reviewEmbedding.count({ where: { workspaceId, model: backend.model } }) : 0,
+    findPendingEmbeddingJob(workspaceId)
+  ]);
+  return {
+    semanticAvailable: Boolean(backend),
+    model: backend?.model ?? null,
+    totalReviews,
+    indexedReviews,
+    pendingJobId: pendingJob?.id ?? null
+  };
+}
+
+/**
+ * Embeds every review of the workspace that has no embedding yet, was embedded with another
+ * model or whose text or reply changed since (detected by the text hash).
+ */
+export async function indexReviewEmbeddings(workspaceId: string, reportProgress: (progress: number) => Promise<void>) {
+  const backend = requireEmbeddingBackend();
+  const reviews = await prisma.review.findMany({
+    where: { workspaceId },
+    select: {
+      id: true,
+      text: true,
+      replyDraft: true,
+      approvedReply: true,
+      embedding: { select: { model: true, textHash: true } }
+    }
+  });
+
+  const stale = reviews
+    .map((review) => {
+      const text = embeddingText(review);
+      return { id: review.id, text, textHash: hashText(text), embedding: review.embedding };
+    })
+    .filter((review) => review.embedding?.model !== backend.model || review.embedding.textHash !== review.textHash);
+
+  for (let index = 0; index < stale.length; index += EMBEDDING_BATCH) {
+    const batch = stale.slice(index, index + EMBEDDING_BATCH);
+    const vectors = await backend.embed(batch.map((review) => review.text));
+    await prisma.$transaction(
+      batch.map((review, position) =>
+        prisma.reviewEmbedding.upsert({
+          where: { reviewId: review.id },
+          create: { workspaceId, reviewId: review.id, model: backend.model, vector: vectors[position], textHash: review.textHash },
+          update: { model: backend.model, vector: vectors[position], textHash: review.textHash, createdAt: new Date() }
+        })
+      )
+    );
+    await reportProgress(Math.round(((index + batch.length) / stale.length) * 100));
+  }
+
+  return { model: backend.model, indexed: stale.length, unchanged: reviews.length - stale.length };
+}
@@ -0,0 +1,79 @@
+import { Sentiment } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getWorkspaceProviderChain } from '@/lib/ai-routing';
+import { buildTagSentimentPrompt, generateText, parseTagSentimentResponse, Provider } from '@/lib/ai';
+import { HttpError } from '@/lib/http';
+import { listActiveTagNames, loadTagLookup, normalizeTags } from '@/lib/tag-taxonomy';
+import { logAudit } from '@/lib/audit';
+
+/**
+ * Asks the provider for tags, sentiment and per-aspect sentiment, stores them on the review and
+ * writes the matching audit entries. Tags are mapped onto the workspace taxonomy first; in strict
+ * mode tags outside it are dropped. Usage accounting is left to the caller.
+ */
+export async function suggestTagsAndSentiment(input: {
+  workspaceId: string;
+  reviewId: string;
+  actorId: string;
+  provider: Provider;
+}) {
+  const review = await prisma.review.findUnique({
+    where: { id: input.reviewId },
+    include: { workspace: { select: { strictTags: true } } }
+  });
+  if (!review || review.workspaceId !== input.workspaceId) {
+    throw new HttpError(404, 'Review not found');
+  }
+
+  const [lookup, active] = await Promise.all([loadTagLookup(input.workspaceId), listActiveTagNames(input.workspaceId)]);
+  const prompt = buildTagSentimentPrompt(review.text, review.rating, active);
+  const generated = await generateText({
+    provider: input.provider,
+    fallbacks: await getWorkspaceProviderChain(input.workspaceId),
+    prompt
+  });
+  const parsedResult = parseTagSentimentResponse(generated.text);
+  const normalized = normalizeTags(parsedResult.tags, lookup);
+  const tags = review.workspace.strictTags ? normalized.filter((tag) => active.includes(tag)) : normalized;
+  const sentiment = parsedResult.sentiment as Sentiment;
+  const aspects = parsedResult.aspects;
+
+  const [updated] = await prisma.$transaction([
+    prisma.review.update({
+      where: { id: review.id },
+      data: {
+        tags,
+        sentiment
+      }
+    }),
+    prisma.reviewAspect.deleteMany({ where: { reviewId: review.id } }),
+    prisma.reviewAspect.createMany({
+      data: aspects.map((item) => ({
+        workspaceId: input.workspaceId,
+        reviewId: review.id,
+        aspect: item.aspect,
+        sentiment: item.sentiment,
+        quote: item.quote
+      }))
+    })
+  ]);
+
+  await Promise.all([
+    logAudit({
+      workspaceId: input.workspaceId,
+      reviewId: review.id,
+      actorId: input.actorId,
+      action: 'TAGS_UPDATED',
+      metadata: { tags }
+    }),
+    logAudit({
+      workspaceId: input.workspaceId,
+      reviewId: review.id,
+      actorId: input.actorId,
+      action: 'SENTIMENT_UPDATED',
+      metadata: { sentiment, aspects: aspects.map((item) => `${item.aspect}:${item.sentiment}`) }
+    })
+  ]);
+
+  return { review: updated, suggestion: { tags, sentiment, aspects }, provider: generated.provider, model: generated.model };
+}
@@ -0,0 +1,172 @@
+import { ReviewTheme, Sentiment } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { loadTagLookup, normalizeTags } from '@/lib/tag-taxonomy';
+
+/** Themes cover the last WINDOW_DAYS and are compared with the WINDOW_DAYS before. */
+export const THEME_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_REVIEWS = 5_000;
+// a term has to show up in this many reviews of the window before it can shape a theme
+const MIN_TERM_REVIEWS = 3;
+const MIN_THEME_REVIEWS = 3;
+const MAX_THEMES = 20;
+// Jaccard similarity between a review's terms and the core terms of a theme
+const SIMILARITY_THRESHOLD = 0.34;
+const CORE_TERMS = 3;
+
+export type ThemeTrend = 'new' | 'up' | 'down' | 'flat';
+
+type ThemeReview = { id: string; reviewDate: Date; sentiment: Sentiment; terms: string[] };
+
+type Cluster = { counts: Map<string, number>; reviews: ThemeReview[]; previousCount: number };
+
+function topTerms(cluster: Cluster, limit: number) {
+  return Array.from(cluster.counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([term]) => term);
+}
+
+function similarity(terms: string[], core: string[]) {
+  const intersection = terms.filter((term) => core.includes(term)).length;
+  return intersection / new Set([...terms, ...core]).size;
+}
+
+function bestCluster(terms: string[], clusters: Cluster[]) {
+  let best: Cluster | null = null;
+  let bestScore = SIMILARITY_THRESHOLD;
+  for (const cluster of clusters) {
+    const score = similarity(terms, topTerms(cluster, CORE_TERMS));
+    if (score >= bestScore) {
+      best = cluster;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function themeTrend(theme: Pick<ReviewTheme, 'reviewCount' | 'previousCount'>): ThemeTrend {
+  if (!theme.previousCount) return 'new';
+  const ratio = theme.reviewCount / theme.previousCount;
+  if (ratio >= 1.2) return 'up';
+  if (ratio <= 0.8) return 'down';
+  return 'flat';
+}
+
+export function serializeTheme(theme: ReviewTheme) {
+  return {
+    id: theme.id,
+    label: theme.label,
+    keywords: theme.keywords,
+    reviewCount: theme.reviewCount,
+    previousCount: theme.previousCount,
+    trend: themeTrend(theme),
+    sentiment: { POS: theme.positive, NEU: theme.neutral, NEG: theme.negative },
+    sampleReviewIds: theme.sampleReviewIds,
+    periodStart: theme.periodStart.toISOString(),
+    periodEnd: theme.periodEnd.toISOString(),
+    computedAt: theme.createdAt.toISOString()
+  };
+}
+
+export async function listReviewThemes(workspaceId: string) {
+  const themes = await prisma.reviewTheme.findMany({
+    where: { workspaceId },
+    orderBy: [{ reviewCount: 'desc' }, { label: 'asc' }]
+  });
+  return themes.map(serializeTheme);
+}
+
+export async function findPendingClusteringJob(workspaceId: string) {
+  return prisma.job.findFirst({
+    where: { workspaceId, type: 'THEME_CLUSTERING', status: { in: ['QUEUED', 'RUNNING'] } }
+  });
+}
+
+/**
+ * Groups the reviews of the last window into recurring themes. A review is described by its
+ * normalized tags plus the aspects found in it; terms rarer than MIN_TERM_REVIEWS are dropped,
+ * then reviews are clustered greedily (newest first) by their overlap with each theme's core
+ * terms. Reviews of the previous window are matched against the finished themes to get the
+ * trend. The stored themes of the workspace are replaced in one transaction.
+ */
+export async function clusterReviewThemes(workspaceId: string, now = new Date()) {
+  const periodEnd = now;
+  const periodStart = new Date(now.getTime() - THEME_WINDOW_DAYS * DAY_MS);
+  const previousStart = new Date(periodStart.getTime() - THEME_WINDOW_DAYS * DAY_MS);
+
+  const [lookup, rows] = await Promise.all([
+    loadTagLookup(workspaceId),
+    prisma.review.findMany({
+      where: { workspaceId, reviewDate: { gte: previousStart, lt: periodEnd } },
+      select: { id: true, reviewDate: true, sentiment: true, tags: true, aspects: { select: { aspect: true } } },
+      orderBy: { reviewDate: 'desc' },
+      take: MAX_REVIEWS
+    })
+  ]);
+
+  const reviews: ThemeReview[] = rows.map((row) => ({
+    id: row.id,
+    reviewDate: row.reviewDate,
+    sentiment: row.sentiment,
+    terms: Array.from(new Set([...normalizeTags(row.tags, lookup), ...row.aspects.map((item) => item.aspect)]))
+  }));
+  const current = reviews.filter((review) => review.reviewDate >= periodStart);
+  const previous = reviews.filter((review) => review.reviewDate < periodStart);
+
+  const frequency = new Map<string, number>();
+  for (const review of current) {
+    for (const term of review.terms) frequency.set(term, (frequency.get(term) ?? 0) + 1);
+  }
+  const keep = (review: ThemeReview) => ({
+    ...review,
+    terms: review.terms.filter((term) => (frequency.get(term) ?? 0) >= MIN_TERM_REVIEWS)
+  });
+
+  const clusters: Cluster[] = [];
+  for (const review of current.map(keep)) {
+    if (!review.terms.length) continue;
+    let cluster = bestCluster(review.terms, clusters);
+    if (!cluster) {
+      cluster = { counts: new Map(), reviews: [], previousCount: 0 };
+      clusters.push(cluster);
+    }
+    cluster.reviews.push(review);
+    for (const term of review.terms) cluster.counts.set(term, (cluster.counts.get(term) ?? 0) + 1);
+  }
+
+  const themes = clusters
+    .filter((cluster) => cluster.reviews.length >= MIN_THEME_REVIEWS)
+    .sort((a, b) => b.reviews.length - a.reviews.length)
+    .slice(0, MAX_THEMES);
+  for (const review of previous.map(keep)) {
+    if (!review.terms.length) continue;
+    const cluster = bestCluster(review.terms, themes);
+    if (cluster) cluster.previousCount += 1;
+  }
+
+  const data = themes.map((cluster) => {
+    const count = (sentiment: Sentiment) => cluster.reviews.filter((review) => review.sentiment === sentiment).length;
+    return {
+      workspaceId,
+      label: topTerms(cluster, 2).join(' / '),
+      keywords: topTerms(cluster, 6),
+      reviewCount: cluster.reviews.length,
+      previousCount: cluster.previousCount,
+      positive: count(Sentiment.POS),
+      neutral: count(Sentiment.NEU),
+      negative: count(Sentiment.NEG),
+      sampleReviewIds: cluster.reviews.slice(0, 5).map((review) => review.id),
+      periodStart,
+      periodEnd
+    };
+  });
+
+  await prisma.$transaction([
+    prisma.reviewTheme.deleteMany({ where: { workspaceId } }),
+    prisma.reviewTheme.createMany({ data })
+  ]);
+
+  return { themes: data.length, reviews: current.length, previousReviews: previous.length };
+}
@@ -0,0 +1,96 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { ReplyPublisher, SourceConnection } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { HttpError } from '@/lib/http';
+import { sanitizeText } from '@/lib/sanitize';
+import { parseSyncConfig, serializeSyncConfig, sourceSyncSettingsSchema } from '@/lib/source-sync';
+
+export const updateSourceConnectionSchema = z.object({
+  displayName: z.string().min(2).max(80).optional(),
+  publisher: z.nativeEnum(ReplyPublisher).optional(),
+  publishUrl: z.string().url().max(500).nullable().optional(),
+  // omitted keeps the stored secret, null clears it
+  publishSecret: z.string().min(16).max(200).nullable().optional(),
+  // null fetcher turns syncing off again
+  sync: sourceSyncSettingsSchema.optional()
+});
+
+export async function loadSourceConnection(workspaceId: string, sourceId: string) {
+  const source = await prisma.sourceConnection.findUnique({ where: { id: sourceId } });
+  if (!source || source.workspaceId !== workspaceId) {
+    throw new HttpError(404, 'Source not found');
+  }
+  return source;
+}
+
+/** Merges a parsed update into the stored connection; webhook publishers need an http(s) endpoint. */
+export function cleanSourceConnectionUpdate(
+  source: SourceConnection,
+  parsed: z.infer<typeof updateSourceConnectionSchema>
+) {
+  const publisher = parsed.publisher ?? source.publisher;
+  const publishUrl = parsed.publishUrl === undefined ? source.publishUrl : parsed.publishUrl;
+  if (publisher === ReplyPublisher.WEBHOOK) {
+    if (!publishUrl) {
+      throw new HttpError(400, 'Webhook publishing needs an endpoint URL');
+    }
+    if (!/^https?:\/\//i.test(publishUrl)) {
+      throw new HttpError(400, 'Webhook endpoint must be an http(s) URL');
+    }
+  }
+
+  return {
+    displayName: parsed.displayName === undefined ? source.displayName : sanitizeText(parsed.displayName, 80),
+    publisher,
+    publishUrl,
+    publishSecret: parsed.publishSecret === undefined ? source.publishSecret : parsed.publishSecret
+  };
+}
+
+const INBOUND_TOLERANCE_SECONDS = 5 * 60;
+
+export function inboundPath(sourceId: string) {
+  return `/api/sources/${sourceId}/inbound`;
+}
+
+export function generateInboundSecret() {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Checks `X-Review-Signature: sha256=<hex>`, an HMAC of `<X-Review-Timestamp>.<raw body>` with the
+ * source's inbound secret. Timestamps older than five minutes are refused so captured requests cannot be replayed.
+ */
+export function verifyInboundSignature(secret: string, headers: Headers, rawBody: string, now = Date.now()) {
+  const timestamp = headers.get('x-review-timestamp') ?? '';
+  const signature = headers.get('x-review-signature')?.replace(/^sha256=/, '') ?? '';
+  const seconds = Number(timestamp);
+  if (!/^\d+$/.test(timestamp) || Math.abs(now / 1000 - seconds) > INBOUND_TOLERANCE_SECONDS) {
+    throw new HttpError(401, 'Missing or expired X-Review-Timestamp');
+  }
+
+  const expected = Buffer.from(createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex'), 'hex');
+  const given = Buffer.from(/^[0-9a-f]+$/i.test(signature) ? signature : '', 'hex');
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new HttpError(401, 'Invalid X-Review-Signature');
+  }
+}
+
+/** The signing secrets never leave the server; the UI only learns whether one is set. */
+export function serializeSourceConnection(source: SourceConnection) {
+  return {
+    id: source.id,
+    provider: source.provider,
+    displayName: source.displayName,
+    status: source.status,
+    publisher: source.publisher,
+    publishUrl: source.publishUrl,
+    hasPublishSecret: !!source.publishSecret,
+    hasInboundSecret: !!source.inboundSecret,
+    inboundPath: inboundPath(source.id),
+    sync: serializeSyncConfig(parseSyncConfig(source)),
+    createdAt: source.createdAt.toISOString(),
+    updatedAt: source.updatedAt.toISOString()
+  };
+}
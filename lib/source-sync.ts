@@ -0,0 +1,501 @@
+import { Job, Prisma, SourceConnection, Workspace } from '@prisma/client';
+import { parse } from 'csv-parse/sync';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { HttpError } from '@/lib/http';
+import { logAudit } from '@/lib/audit';
+import { MAX_IMPORT_BYTES } from '@/lib/csv-import';
+import { fetchPublicUrl } from '@/lib/outbound-fetch';
+import { runAutomationRules } from '@/lib/automation-rules';
+import { autoAssignReviews } from '@/lib/review-assignment';
+import { ImportedReview, importReview, reviewFromCsvRow } from '@/lib/review-import';
+
+const FETCH_TIMEOUT_MS = 15_000;
+const MAX_ITEMS_PER_SYNC = 500;
+
+export const SOURCE_FETCHERS = ['CSV_URL', 'JSON_FEED', 'WEBHOOK_PUSH'] as const;
+
+export type SourceFetcher = (typeof SOURCE_FETCHERS)[number];
+
+/** What a JSON feed item looks like; dates are ISO strings. */
+export const reviewPayloadSchema = z.object({
+  id: z.union([z.string().min(1).max(200), z.number()]).optional(),
+  authorName: z.string().max(120).default('Anonymous'),
+  rating: z.number().int().min(1).max(5),
+  text: z.string().min(3).max(5000),
+  reviewDate: z.coerce.date(),
+  reviewUrl: z.string().url().max(500).nullable().optional(),
+  language: z.string().max(32).nullable().optional(),
+  locationId: z.string().min(1).optional(),
+  location: z.string().max(100).optional(),
+  tags: z.array(z.string().max(40)).max(20).default([])
+});
+
+const syncResultSchema = z.object({
+  created: z.number(),
+  updated: z.number(),
+  unchanged: z.number(),
+  failed: z.number()
+});
+
+const syncConfigSchema = z.object({
+  fetcher: z.enum(SOURCE_FETCHERS),
+  url: z.string().nullable().default(null),
+  // used for items that do not name a location
+  locationId: z.string().nullable().default(null),
+  // null syncs on demand only
+  intervalMinutes: z.number().int().nullable().default(null),
+  // scheduled syncs run as the member who last saved the settings
+  configuredById: z.string().nullable().default(null),
+  cursor: z.string().nullable().default(null),
+  lastAttemptAt: z.string().nullable().default(null),
+  lastSyncedAt: z.string().nullable().default(null),
+  lastError: z.string().nullable().default(null),
+  lastResult: syncResultSchema.nullable().default(null)
+});
+
+export type SourceSyncConfig = z.infer<typeof syncConfigSchema>;
+
+export const sourceSyncSettingsSchema = z.object({
+  fetcher: z.enum(SOURCE_FETCHERS).nullable(),
+  url: z.string().url().max(1000).nullable().default(null),
+  locationId: z.string().min(1).nullable().default(null),
+  intervalMinutes: z
+    .number()
+    .int()
+    .min(15)
+    .max(7 * 24 * 60)
+    .nullable()
+    .default(null)
+});
+
+type FetchedBatch = {
+  items: ImportedReview[];
+  failed: Array<{ item: number; message: string }>;
+  cursor: string | null;
+};
+
+type SourceFetcherImpl = {
+  label: string;
+  // pushed sources have nothing to fetch; reviews arrive as they are sent
+  pulls: boolean;
+  fetch: (config: SourceSyncConfig, source: SourceConnection) => Promise<FetchedBatch>;
+};
+
+function newestCursor(items: ImportedReview[], previous: string | null) {
+  const newest = items.reduce<Date | null>((max, item) => (!max || item.reviewDate > max ? item.reviewDate : max), null);
+  if (!newest) return previous;
+  return previous && new Date(previous) > newest ? previous : newest.toISOString();
+}
+
+async function fetchFeed(url: string) {
+  let response: Response;
+  try {
+    response = await fetchPublicUrl(url, 'Source URL', {
+      headers: { Accept: 'application/json, text/csv' },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+    });
+  } catch (error) {
+    if (error instanceof HttpError) throw error;
+    throw new HttpError(502, `Source unreachable: ${error instanceof Error ? error.message : 'network error'}`);
+  }
+  if (!response.ok) {
+    const status = response.status === 429 ? 429 : response.status >= 500 ? 502 : 422;
+    throw new HttpError(status, `Source responded with ${response.status}`);
+  }
+  return response;
+}
+
+/** Reads the body as text, stopping as soon as it passes the import size limit. */
+async function readFeedText(response: Response) {
+  const tooLarge = () => new HttpError(422, `Source response is larger than ${MAX_IMPORT_BYTES / 1024 / 1024} MB`);
+  if (Number(response.headers.get('content-length')) > MAX_IMPORT_BYTES) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > MAX_IMPORT_BYTES) {
+        await reader.cancel();
+        throw tooLarge();
+      }
+      chunks.push(value);
+    }
+  } catch (error) {
+    if (error instanceof HttpError) throw error;
+    throw new HttpError(502, `Source unreachable: ${error instanceof Error ? error.message : 'network error'}`);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+const FETCHERS: Record<SourceFetcher, SourceFetcherImpl> = {
+  // a CSV in the import format, re-read in full on every sync; upserts keep it idempotent
+  CSV_URL: {
+    label: 'CSV file URL',
+    pulls: true,
+    async fetch(config) {
+      const text = await readFeedText(await fetchFeed(config.url ?? ''));
+      let rows: Record<string, string>[];
+      try {
+        rows = parse(text, { columns: true, skip_empty_lines: true, trim: true });
+      } catch {
+        throw new HttpError(422, 'Source did not return a readable CSV file');
+      }
+
+      const items: ImportedReview[] = [];
+      const failed: FetchedBatch['failed'] = [];
+      for (const [index, row] of rows.slice(0, MAX_ITEMS_PER_SYNC).entries()) {
+        try {
+          items.push(reviewFromCsvRow(row, config.locationId ?? undefined));
+        } catch (error) {
+          failed.push({ item: index + 1, message: error instanceof Error ? error.message : 'Invalid row' });
+        }
+      }
+      return { items, failed, cursor: newestCursor(items, config.cursor) };
+    }
+  },
+  // GET <url>?since=<cursor>, answering `[...]` or `{ reviews: [...], cursor }`
+  JSON_FEED: {
+    label: 'JSON feed',
+    pulls: true,
+    async fetch(config, source) {
+      const url = new URL(config.url ?? '');
+      if (config.cursor) url.searchParams.set('since', config.cursor);
+      const text = await readFeedText(await fetchFeed(url.toString()));
+      let json: unknown;
+      try {
+        json = JSON.parse(text);
+      } catch {
+        json = null;
+      }
+      const body = Array.isArray(json) ? { reviews: json } : (json as { reviews?: unknown; cursor?: unknown } | null);
+      if (!body || !Array.isArray(body.reviews)) {
+        throw new HttpError(422, 'Source did not return a reviews array');
+      }
+
+      const items: ImportedReview[] = [];
+      const failed: FetchedBatch['failed'] = [];
+      for (const [index, raw] of body.reviews.slice(0, MAX_ITEMS_PER_SYNC).entries()) {
+        const parsed = reviewPayloadSchema.safeParse(raw);
+        if (!parsed.success) {
+          failed.push({ item: index + 1, message: parsed.error.issues[0]?.message ?? 'Invalid item' });
+          continue;
+        }
+        items.push(reviewFromPayload(parsed.data, source, config));
+      }
+      const cursor = typeof body.cursor === 'string' ? body.cursor.slice(0, 200) : newestCursor(items, config.cursor);
+      return { items, failed, cursor };
+    }
+  },
+  WEBHOOK_PUSH: {
+    label: 'Pushed by webhook',
+    pulls: false,
+    async fetch(config) {
+      return { items: [], failed: [], cursor: config.cursor };
+    }
+  }
+};
+
+export function reviewFromPayload(
+  payload: z.infer<typeof reviewPayloadSchema>,
+  source: Pick<SourceConnection, 'provider'>,
+  config: Pick<SourceSyncConfig, 'locationId'> | null
+): ImportedReview {
+  return {
+    externalId: payload.id === undefined ? null : String(payload.id),
+    source: source.provider,
+    locationId: payload.locationId ?? (payload.location ? undefined : config?.locationId ?? undefined),
+    locationName: payload.location,
+    authorName: payload.authorName,
+    rating: payload.rating,
+    text: payload.text,
+    reviewDate: payload.reviewDate,
+    reviewUrl: payload.reviewUrl,
+    language: payload.language,
+    tags: payload.tags
+  };
+}
+
+export function fetcherLabel(fetcher: SourceFetcher) {
+  return FETCHERS[fetcher].label;
+}
+
+export function parseSyncConfig(source: Pick<SourceConnection, 'config'>) {
+  const parsed = syncConfigSchema.safeParse(source.config);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Checks new sync settings; changing the fetcher or URL starts again from an empty cursor.
+ * Leaving WEBHOOK_PUSH drops the inbound secret, so a later switch back needs a fresh one.
+ */
+export async function cleanSyncSettings(
+  source: SourceConnection,
+  parsed: z.infer<typeof sourceSyncSettingsSchema>,
+  actorId: string
+) {
+  if (!parsed.fetcher) {
+    return { status: 'MANUAL', config: Prisma.DbNull, inboundSecret: null };
+  }
+  if (FETCHERS[parsed.fetcher].pulls) {
+    if (!parsed.url || !/^https?:\/\//i.test(parsed.url)) {
+      throw new HttpError(400, 'This fetcher needs an http(s) URL');
+    }
+  }
+  if (parsed.locationId) {
+    const location = await prisma.location.findUnique({ where: { id: parsed.locationId } });
+    if (!location || location.workspaceId !== source.workspaceId) {
+      throw new HttpError(404, 'Location not found');
+    }
+  }
+
+  const previous = parseSyncConfig(source);
+  const url = FETCHERS[parsed.fetcher].pulls ? parsed.url : null;
+  const sameFeed = previous?.fetcher === parsed.fetcher && previous.url === url;
+  const config: SourceSyncConfig = {
+    fetcher: parsed.fetcher,
+    url,
+    locationId: parsed.locationId,
+    intervalMinutes: FETCHERS[parsed.fetcher].pulls ? parsed.intervalMinutes : null,
+    configuredById: actorId,
+    cursor: sameFeed ? previous.cursor : null,
+    lastAttemptAt: previous?.lastAttemptAt ?? null,
+    lastSyncedAt: previous?.lastSyncedAt ?? null,
+    lastError: sameFeed ? previous.lastError : null,
+    lastResult: previous?.lastResult ?? null
+  };
+  return {
+    status: source.status === 'MANUAL' ? 'OK' : source.status,
+    config,
+    ...(parsed.fetcher === 'WEBHOOK_PUSH' ? {} : { inboundSecret: null })
+  };
+}
+
+export function serializeSyncConfig(config: SourceSyncConfig | null) {
+  if (!config) return null;
+  return {
+    fetcher: config.fetcher,
+    label: FETCHERS[config.fetcher].label,
+    pulls: FETCHERS[config.fetcher].pulls,
+    url: config.url,
+    locationId: config.locationId,
+    intervalMinutes: config.intervalMinutes,
+    cursor: config.cursor,
+    lastAttemptAt: config.lastAttemptAt,
+    lastSyncedAt: config.lastSyncedAt,
+    lastError: config.lastError,
+    lastResult: config.lastResult
+  };
+}
+
+export function assertSyncable(config: SourceSyncConfig | null): asserts config is SourceSyncConfig {
+  if (!config) {
+    throw new HttpError(409, 'Configure a fetcher for this source first');
+  }
+  if (!FETCHERS[config.fetcher].pulls) {
+    throw new HttpError(409, 'Pushed sources receive reviews as they are sent; there is nothing to sync');
+  }
+}
+
+export async function findPendingSyncJob(sourceId: string) {
+  return prisma.job.findFirst({
+    where: {
+      type: 'SOURCE_SYNC',
+      status: { in: ['QUEUED', 'RUNNING'] },
+      payload: { path: ['sourceConnectionId'], equals: sourceId }
+    }
+  });
+}
+
+/** Syncs and pushed reviews run as the member who saved the settings, while they are still a member. */
+export async function findSyncActor(source: Pick<SourceConnection, 'workspaceId'>, config: SourceSyncConfig | null) {
+  if (!config?.configuredById) return null;
+  const member = await prisma.workspaceMembership.findUnique({
+    where: { userId_workspaceId: { userId: config.configuredById, workspaceId: source.workspaceId } }
+  });
+  return member ? member.userId : null;
+}
+
+/**
+ * Pulling sources whose interval has passed since their last attempt, with the member to run them as.
+ * A source still SYNCING after `staleAfterMs` lost its worker mid-sync and is due again.
+ */
+export async function listDueSourceSyncs(staleAfterMs: number, now = new Date()) {
+  const sources = await prisma.sourceConnection.findMany({ where: { status: { not: 'MANUAL' } } });
+  return sources.flatMap((source) => {
+    const config = parseSyncConfig(source);
+    if (!config?.intervalMinutes || !FETCHERS[config.fetcher].pulls) return [];
+    const lastAttempt = config.lastAttemptAt ? new Date(config.lastAttemptAt).getTime() : 0;
+    if (source.status === 'SYNCING' && lastAttempt + staleAfterMs > now.getTime()) return [];
+    if (lastAttempt + config.intervalMinutes * 60_000 > now.getTime()) return [];
+    return [{ source, config }];
+  });
+}
+
+async function saveSyncState(sourceId: string, status: string, config: SourceSyncConfig) {
+  await prisma.sourceConnection.update({
+    where: { id: sourceId },
+    data: { status, config: config as Prisma.InputJsonValue }
+  });
+}
+
+/**
+ * Fetches new reviews for one source and upserts them. Reviews created by the sync go through
+ * auto-assignment and automation rules like any other import; fetch errors are kept in `config.lastError`.
+ */
+export async function syncSourceConnection(input: { sourceConnectionId: string; actorId: string; jobId?: string }) {
+  const source = await prisma.sourceConnection.findUnique({
+    where: { id: input.sourceConnectionId },
+    include: { workspace: true }
+  });
+  if (!source) throw new HttpError(404, 'Source not found');
+  const config = parseSyncConfig(source);
+  assertSyncable(config);
+
+  const startedAt = new Date().toISOString();
+  await saveSyncState(source.id, 'SYNCING', { ...config, lastAttemptAt: startedAt });
+
+  let batch: FetchedBatch;
+  try {
+    batch = await FETCHERS[config.fetcher].fetch(config, source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Sync failed';
+    await saveSyncState(source.id, 'ERROR', { ...config, lastAttemptAt: startedAt, lastError: message });
+    throw error;
+  }
+
+  const result = await importBatch(source.workspace, batch, source, { ...input, via: 'sync' });
+  const failures = [...batch.failed.map((item) => `item ${item.item}: ${item.message}`), ...result.errors];
+  await saveSyncState(source.id, 'OK', {
+    ...config,
+    cursor: batch.cursor,
+    lastAttemptAt: startedAt,
+    lastSyncedAt: new Date().toISOString(),
+    lastError: failures.length ? `${failures.length} item(s) skipped, first: ${failures[0]}` : null,
+    lastResult: {
+      created: result.created.length,
+      updated: result.updated,
+      unchanged: result.unchanged,
+      failed: failures.length
+    }
+  });
+
+  const summary = {
+    sourceConnectionId: source.id,
+    created: result.created.length,
+    updated: result.updated,
+    unchanged: result.unchanged,
+    failed: failures.length,
+    assigned: result.assigned,
+    automation: result.automation
+  };
+  await logAudit({
+    workspaceId: source.workspaceId,
+    actorId: input.actorId,
+    action: 'SOURCE_SYNC_COMPLETED',
+    metadata: { ...summary, jobId: input.jobId }
+  });
+  return summary;
+}
+
+async function importBatch(
+  workspace: Workspace,
+  batch: FetchedBatch,
+  source: SourceConnection,
+  input: { actorId: string; jobId?: string; via: 'sync' | 'inbound' }
+) {
+  const created: string[] = [];
+  const errors: string[] = [];
+  let updated = 0;
+  let unchanged = 0;
+
+  for (const [index, item] of batch.items.entries()) {
+    try {
+      const { review, outcome } = await importReview(workspace, item, 'update');
+      if (outcome === 'unchanged' || outcome === 'skipped') {
+        unchanged += 1;
+        continue;
+      }
+      if (outcome === 'created') created.push(review.id);
+      else updated += 1;
+      await logAudit({
+        workspaceId: workspace.id,
+        reviewId: review.id,
+        actorId: input.actorId,
+        action: outcome === 'created' ? 'REVIEW_IMPORTED' : 'REVIEW_EDITED',
+        metadata: { source: review.source, sourceConnectionId: source.id, via: input.via, jobId: input.jobId }
+      });
+    } catch (error) {
+      errors.push(`item ${index + 1}: ${error instanceof Error ? error.message : 'Unknown import error'}`);
+    }
+  }
+
+  const assigned = await autoAssignReviews({ workspaceId: workspace.id, reviewIds: created, actorId: input.actorId });
+  const automation = await runAutomationRules({ workspaceId: workspace.id, reviewIds: created, actorId: input.actorId });
+  return { created, updated, unchanged, errors, assigned, automation };
+}
+
+/** Imports reviews a source's own system pushed to its inbound URL; same upsert rules as a sync. */
+export async function importPushedReviews(
+  source: SourceConnection & { workspace: Workspace },
+  payloads: unknown[],
+  actorId: string
+) {
+  const config = parseSyncConfig(source);
+  const items: ImportedReview[] = [];
+  const failed: FetchedBatch['failed'] = [];
+  for (const [index, raw] of payloads.entries()) {
+    const parsed = reviewPayloadSchema.safeParse(raw);
+    if (parsed.success) items.push(reviewFromPayload(parsed.data, source, config));
+    else failed.push({ item: index + 1, message: parsed.error.issues[0]?.message ?? 'Invalid item' });
+  }
+
+  const result = await importBatch(source.workspace, { items, failed, cursor: null }, source, { actorId, via: 'inbound' });
+  const errors = [...failed.map((item) => `item ${item.item}: ${item.message}`), ...result.errors];
+  if (config) {
+    await saveSyncState(source.id, 'OK', {
+      ...config,
+      lastSyncedAt: new Date().toISOString(),
+      lastError: errors.length ? `${errors.length} item(s) skipped, first: ${errors[0]}` : null,
+      lastResult: {
+        created: result.created.length,
+        updated: result.updated,
+        unchanged: result.unchanged,
+        failed: errors.length
+      }
+    });
+  }
+  return {
+    created: result.created.length,
+    updated: result.updated,
+    unchanged: result.unchanged,
+    failed: errors.length,
+    errors
+  };
+}
+
+/** Called once a sync job gives up; earlier attempts only show up as `lastError`. */
+export async function recordSyncFailure(job: Job, sourceConnectionId: string) {
+  if (!job.createdById) return;
+  const source = await prisma.sourceConnection.findUnique({ where: { id: sourceConnectionId } });
+  if (!source) return;
+  const config = parseSyncConfig(source);
+  if (source.status === 'SYNCING' && config) {
+    // canceled before it ran, or the worker died mid-sync
+    await saveSyncState(source.id, 'ERROR', { ...config, lastError: config.lastError ?? 'Sync did not finish' });
+  }
+  await logAudit({
+    workspaceId: source.workspaceId,
+    actorId: job.createdById,
+    action: 'SOURCE_SYNC_FAILED',
+    metadata: { sourceConnectionId: source.id, jobId: job.id, error: config?.lastError ?? null }
+  });
+}
@@ -0,0 +1,37 @@
+export type ServerSentEvent = {
+  event: string;
+  data: unknown;
+};
+
+/** Reads a `text/event-stream` response body and calls `onEvent` for every complete event. */
+export async function readEventStream(response: Response, onEvent: (event: ServerSentEvent) => void) {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let separator = buffer.indexOf('\n\n');
+    while (separator !== -1) {
+      const raw = buffer.slice(0, separator);
+      buffer = buffer.slice(separator + 2);
+      separator = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      const dataLines: string[] = [];
+      for (const line of raw.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+      }
+      if (!dataLines.length) continue;
+      onEvent({ event, data: JSON.parse(dataLines.join('\n')) });
+    }
+  }
+}
@@ -0,0 +1,237 @@
+import { Prisma, PrismaClient, Tag, Workspace } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { HttpError } from '@/lib/http';
+import { sanitizeOptionalText, sanitizeTag, sanitizeTags } from '@/lib/sanitize';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export const tagSchema = z.object({
+  name: z.string().min(1).max(40),
+  synonyms: z.array(z.string().max(40)).max(30).default([]),
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, 'Colour must be a hex value like #22c55e')
+    .default('#64748b'),
+  description: z.string().max(280).nullable().optional(),
+  archived: z.boolean().default(false)
+});
+
+export const tagRenameSchema = z.object({
+  name: z.string().min(1).max(40),
+  // keeps AI suggestions of the old spelling mapped onto the new name
+  keepOldAsSynonym: z.boolean().default(true)
+});
+
+export const tagMergeSchema = z.object({
+  tagIds: z.array(z.string().min(1)).min(1).max(20)
+});
+
+export function serializeTag(tag: Tag, reviewCount = 0) {
+  return {
+    id: tag.id,
+    name: tag.name,
+    synonyms: tag.synonyms,
+    color: tag.color,
+    description: tag.description,
+    archived: tag.archived,
+    reviewCount,
+    updatedAt: tag.updatedAt.toISOString()
+  };
+}
+
+/** Taxonomy tags with the number of reviews carrying each one. */
+export async function listTags(workspaceId: string) {
+  const [tags, counts] = await Promise.all([
+    prisma.tag.findMany({ where: { workspaceId }, orderBy: { name: 'asc' } }),
+    prisma.$queryRaw<Array<{ name: string; count: number }>>`
+      SELECT tag AS "name", COUNT(*)::int AS "count"
+      FROM "Review" r, unnest(r."tags") AS tag
+      WHERE r."workspaceId" = ${workspaceId}
+      GROUP BY tag`
+  ]);
+  const byName = new Map(counts.map((row) => [row.name, row.count]));
+  return tags.map((tag) => serializeTag(tag, byName.get(tag.name) ?? 0));
+}
+
+export async function loadTag(workspaceId: string, tagId: string) {
+  const tag = await prisma.tag.findUnique({ where: { id: tagId } });
+  if (!tag || tag.workspaceId !== workspaceId) {
+    throw new HttpError(404, 'Tag not found');
+  }
+  return tag;
+}
+
+/**
+ * Sanitizes a parsed tag and makes sure neither its name nor a synonym is already claimed by
+ * another tag of the workspace, so every spelling maps to exactly one canonical tag.
+ */
+export async function cleanTagInput(
+  workspaceId: string,
+  parsed: Pick<z.infer<typeof tagSchema>, 'name' | 'synonyms'>,
+  existingId?: string
+) {
+  const name = sanitizeTag(parsed.name);
+  if (!name) throw new HttpError(400, 'Tag name must contain letters or digits');
+  const synonyms = sanitizeTags(parsed.synonyms).filter((synonym) => synonym !== name);
+
+  const others = await prisma.tag.findMany({
+    where: { workspaceId, ...(existingId ? { id: { not: existingId } } : {}) },
+    select: { name: true, synonyms: true }
+  });
+  for (const other of others) {
+    const spellings = new Set([other.name, ...other.synonyms]);
+    if (spellings.has(name)) {
+      throw new HttpError(409, `"${name}" is already used by the tag "${other.name}"`);
+    }
+    const taken = synonyms.find((synonym) => spellings.has(synonym));
+    if (taken) {
+      throw new HttpError(409, `Synonym "${taken}" is already used by the tag "${other.name}"`);
+    }
+  }
+
+  return { name, synonyms };
+}
+
+export function cleanTagDetails(parsed: z.infer<typeof tagSchema>) {
+  return {
+    color: parsed.color.toLowerCase(),
+    description: sanitizeOptionalText(parsed.description, 280),
+    archived: parsed.archived
+  };
+}
+
+/** Maps every name and synonym of the workspace taxonomy to its canonical tag name. */
+export async function loadTagLookup(workspaceId: string, db: Db = prisma) {
+  const tags = await db.tag.findMany({ where: { workspaceId }, select: { name: true, synonyms: true } });
+  const lookup = new Map<string, string>();
+  for (const tag of tags) {
+    lookup.set(tag.name, tag.name);
+    for (const synonym of tag.synonyms) lookup.set(synonym, tag.name);
+  }
+  return lookup;
+}
+
+/** Sanitizes tags and replaces known synonyms with their canonical name; unknown tags are kept. */
+export function normalizeTags(tags: string[], lookup: Map<string, string>) {
+  return Array.from(new Set(sanitizeTags(tags).map((tag) => lookup.get(tag) ?? tag)));
+}
+
+/** Names of the tags that can still be added to reviews. */
+export async function listActiveTagNames(workspaceId: string) {
+  const tags = await prisma.tag.findMany({
+    where: { workspaceId, archived: false },
+    select: { name: true },
+    orderBy: { name: 'asc' }
+  });
+  return tags.map((tag) => tag.name);
+}
+
+/**
+ * Normalizes tags set by a member. In strict mode every tag has to be an active taxonomy tag
+ * (or one of its synonyms); otherwise unknown tags are kept as typed.
+ */
+export async function resolveReviewTags(workspace: Pick<Workspace, 'id' | 'strictTags'>, tags: string[]) {
+  const lookup = await loadTagLookup(workspace.id);
+  const normalized = normalizeTags(tags, lookup);
+  if (!workspace.strictTags) return normalized;
+
+  const active = new Set(await listActiveTagNames(workspace.id));
+  const rejected = normalized.filter((tag) => !active.has(tag));
+  if (rejected.length) {
+    throw new HttpError(400, `Tags not in the workspace taxonomy: ${rejected.join(', ')}`, { tags: rejected });
+  }
+  return normalized;
+}
+
+function replaceInList(list: string[], from: Set<string>, to: string) {
+  return Array.from(new Set(list.map((tag) => (from.has(tag) ? to : tag))));
+}
+
+/**
+ * Replaces the `from` tags with `to` on every review, reply template and automation rule of the
+ * workspace, keeping tag order and dropping duplicates. Meant to run inside the rename/merge
+ * transaction.
+ */
+export async function retagWorkspace(tx: Prisma.TransactionClient, workspaceId: string, from: string[], to: string) {
+  const replaced = (table: 'Review' | 'ReplyTemplate') => tx.$executeRaw`
+    UPDATE ${Prisma.raw(`"${table}"`)} AS t
+    SET "tags" = (
+      SELECT array_agg(u."tag" ORDER BY u."first")
+      FROM (
+        SELECT CASE WHEN x."tag" = ANY(${from}::text[]) THEN ${to} ELSE x."tag" END AS "tag", MIN(x."ord") AS "first"
+        FROM unnest(t."tags") WITH ORDINALITY AS x("tag", "ord")
+        GROUP BY 1
+      ) u
+    ),
+    "updatedAt" = NOW()
+    WHERE t."workspaceId" = ${workspaceId} AND t."tags" && ${from}::text[]`;
+
+  const reviews = await replaced('Review');
+  const templates = await replaced('ReplyTemplate');
+
+  const fromSet = new Set(from);
+  const rules = await tx.automationRule.findMany({ where: { workspaceId } });
+  let updatedRules = 0;
+  for (const rule of rules) {
+    const conditions = rule.conditions as { tags?: string[] };
+    const actions = rule.actions as Array<{ type: string; tags?: string[] }>;
+    const touched =
+      conditions.tags?.some((tag) => fromSet.has(tag)) ||
+      actions.some((action) => action.tags?.some((tag) => fromSet.has(tag)));
+    if (!touched) continue;
+    await tx.automationRule.update({
+      where: { id: rule.id },
+      data: {
+        conditions: conditions.tags ? { ...conditions, tags: replaceInList(conditions.tags, fromSet, to) } : conditions,
+        actions: actions.map((action) => (action.tags ? { ...action, tags: replaceInList(action.tags, fromSet, to) } : action))
+      }
+    });
+    updatedRules += 1;
+  }
+
+  return { reviews, templates, rules: updatedRules };
+}
+
+/** Renames a tag and moves every review, template and rule to the new name in one transaction. */
+export async function renameTag(tag: Tag, parsed: z.infer<typeof tagRenameSchema>) {
+  const synonyms = parsed.keepOldAsSynonym ? [...tag.synonyms, tag.name] : tag.synonyms;
+  const data = await cleanTagInput(tag.workspaceId, { name: parsed.name, synonyms }, tag.id);
+  if (data.name === tag.name) {
+    throw new HttpError(400, 'The new name is the same as the current one');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const renamed = await tx.tag.update({ where: { id: tag.id }, data });
+    const updated = await retagWorkspace(tx, tag.workspaceId, [tag.name], renamed.name);
+    return { tag: renamed, updated };
+  });
+}
+
+/**
+ * Folds the other tags into `target`: their names and synonyms become synonyms of the target,
+ * reviews, templates and rules switch to the target name and the merged tags are deleted, all in
+ * one transaction.
+ */
+export async function mergeTags(target: Tag, tagIds: string[]) {
+  const ids = Array.from(new Set(tagIds));
+  if (ids.includes(target.id)) {
+    throw new HttpError(400, 'A tag cannot be merged into itself');
+  }
+  const sources = await prisma.tag.findMany({ where: { id: { in: ids }, workspaceId: target.workspaceId } });
+  if (sources.length !== ids.length) {
+    throw new HttpError(404, 'Tag not found');
+  }
+
+  const names = sources.map((source) => source.name);
+  const synonyms = sanitizeTags([...target.synonyms, ...names, ...sources.flatMap((source) => source.synonyms)]).filter(
+    (synonym) => synonym !== target.name
+  );
+
+  return prisma.$transaction(async (tx) => {
+    await tx.tag.deleteMany({ where: { id: { in: ids } } });
+    const merged = await tx.tag.update({ where: { id: target.id }, data: { synonyms } });
+    const updated = await retagWorkspace(tx, target.workspaceId, names, target.name);
+    return { tag: merged, merged: names, updated };
+  });
+}
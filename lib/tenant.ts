@@ -1,24 +1,48 @@
-import { Plan, Role } from '@prisma/client';
+import { Plan, Prisma, Review, Role, WorkspaceMembership } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { PLAN_LIMITS, getMonthBucket } from '@/lib/plans';
 import { HttpError } from '@/lib/http';
+import { Permission, hasPermission } from '@/lib/permissions';
 
 export async function getMembership(userId: string, workspaceId: string) {
   return prisma.workspaceMembership.findUnique({
     where: { userId_workspaceId: { userId, workspaceId } },
-    include: { workspace: true, user: true }
+    include: { workspace: true, user: true, customRole: true }
   });
 }
 
-export async function assertWorkspaceAccess(userId: string, workspaceId: string, roles?: Role[]) {
+export async function assertPermission(userId: string, workspaceId: string, permission: Permission) {
   const membership = await getMembership(userId, workspaceId);
 
   if (!membership) throw new HttpError(403, 'Workspace access denied');
-  if (roles && !roles.includes(membership.role)) throw new HttpError(403, 'Insufficient role');
+  if (!hasPermission(membership, permission)) throw new HttpError(403, `Missing permission: ${permission}`);
 
   return membership;
 }
 
+/**
+ * CLIENT members only see reviews of the locations they were granted. Spread into every
+ * review query a client can reach; it is a no-op for the other roles.
+ */
+export function reviewScopeWhere(membership: Pick<WorkspaceMembership, 'role' | 'locationIds'>): Prisma.ReviewWhereInput {
+  return membership.role === Role.CLIENT ? { locationId: { in: membership.locationIds } } : {};
+}
+
+/** SQL form of reviewScopeWhere, as a condition on the review alias `r` for raw queries. */
+export function reviewScopeSql(membership: Pick<WorkspaceMembership, 'role' | 'locationIds'>) {
+  if (membership.role !== Role.CLIENT) return Prisma.sql`TRUE`;
+  return membership.locationIds.length ? Prisma.sql`r."locationId" IN (${Prisma.join(membership.locationIds)})` : Prisma.sql`FALSE`;
+}
+
+export function assertReviewInScope(
+  membership: Pick<WorkspaceMembership, 'role' | 'locationIds'>,
+  review: Pick<Review, 'locationId'>
+) {
+  if (membership.role === Role.CLIENT && !membership.locationIds.includes(review.locationId)) {
+    throw new HttpError(404, 'Review not found');
+  }
+}
+
 export async function assertWorkspaceLimit(userId: string, requestedPlan: Plan = 'FREE') {
   const memberships = await prisma.workspaceMembership.findMany({
     where: { userId },
@@ -37,9 +61,9 @@ export async function assertWorkspaceLimit(userId: string, requestedPlan: Plan =
   }
 }
 
-export async function assertLocationLimit(workspaceId: string, extra = 1) {
-  const workspace = await prisma.workspace.findUniqueOrThrow({ where: { id: workspaceId } });
-  const count = await prisma.location.count({ where: { workspaceId } });
+export async function assertLocationLimit(workspaceId: string, extra = 1, db: Prisma.TransactionClient = prisma) {
+  const workspace = await db.workspace.findUniqueOrThrow({ where: { id: workspaceId } });
+  const count = await db.location.count({ where: { workspaceId } });
   const limits = PLAN_LIMITS[workspace.plan];
   if (count + extra > limits.maxLocations) {
     throw new HttpError(403, `Plan limit reached: max ${limits.maxLocations} locations`);
@@ -83,7 +107,43 @@ export async function consumeGeneration(workspaceId: string, amount = 1) {
   });
 }
 
-type PlanFeatureFlag = 'hasBrandVoice' | 'hasApprovalWorkflow' | 'hasBulkTools' | 'hasExports' | 'hasPrioritySettings';
+export async function reserveGenerations(workspaceId: string, amount: number) {
+  const workspace = await refreshWorkspaceGenerationBucket(workspaceId);
+  const limits = PLAN_LIMITS[workspace.plan];
+  const reserved = await prisma.workspace.updateMany({
+    where: {
+      id: workspaceId,
+      monthBucket: workspace.monthBucket,
+      aiGenerationsUsed: { lte: limits.monthlyGenerations - amount }
+    },
+    data: { aiGenerationsUsed: { increment: amount } }
+  });
+
+  if (!reserved.count) {
+    const remaining = Math.max(0, limits.monthlyGenerations - workspace.aiGenerationsUsed);
+    throw new HttpError(403, `Monthly AI generation limit reached (${limits.monthlyGenerations})`, {
+      requested: amount,
+      remaining
+    });
+  }
+}
+
+export async function releaseGenerations(workspaceId: string, amount: number) {
+  if (amount <= 0) return;
+  await prisma.workspace.updateMany({
+    where: { id: workspaceId, aiGenerationsUsed: { gte: amount } },
+    data: { aiGenerationsUsed: { decrement: amount } }
+  });
+}
+
+type PlanFeatureFlag =
+  | 'hasBrandVoice'
+  | 'hasApprovalWorkflow'
+  | 'hasBulkTools'
+  | 'hasExports'
+  | 'hasPrioritySettings'
+  | 'hasAutomationRules'
+  | 'hasCustomRoles';
 
 export async function assertFeature(workspaceId: string, feature: PlanFeatureFlag) {
   const workspace = await prisma.workspace.findUniqueOrThrow({ where: { id: workspaceId } });
@@ -3,7 +3,7 @@ import { prisma } from '@/lib/prisma';
 export async function listUserWorkspaces(userId: string) {
   return prisma.workspaceMembership.findMany({
     where: { userId },
-    include: { workspace: true },
+    include: { workspace: true, customRole: true },
     orderBy: [{ role: 'asc' }, { workspace: { createdAt: 'asc' } }]
   });
 }
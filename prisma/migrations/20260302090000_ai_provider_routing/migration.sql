@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'AI_ROUTING_UPDATED';
+
+-- AlterTable
+ALTER TABLE "Workspace" ADD COLUMN "aiProviderChain" "AIProvider"[] DEFAULT ARRAY['OPENAI', 'CLAUDE', 'GEMINI']::"AIProvider"[];
@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'REPLY_VARIANTS_GENERATED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'REPLY_VARIANT_SELECTED';
+
+-- AlterTable
+ALTER TABLE "ReplyGeneration" ADD COLUMN "variantGroupId" TEXT,
+ADD COLUMN "variantLabel" TEXT,
+ADD COLUMN "tone" "Tone",
+ADD COLUMN "selectedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "ReplyGeneration_reviewId_variantGroupId_idx" ON "ReplyGeneration"("reviewId", "variantGroupId");
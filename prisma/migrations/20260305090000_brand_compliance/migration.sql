@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "ComplianceMode" AS ENUM ('OFF', 'WARN', 'BLOCK');
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'COMPLIANCE_MODE_UPDATED';
+
+-- AlterTable
+ALTER TABLE "Workspace" ADD COLUMN "complianceMode" "ComplianceMode" NOT NULL DEFAULT 'WARN';
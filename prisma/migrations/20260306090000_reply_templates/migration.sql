@@ -0,0 +1,38 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'REPLY_TEMPLATE_CREATED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'REPLY_TEMPLATE_UPDATED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'REPLY_TEMPLATE_DELETED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'REPLY_TEMPLATE_APPLIED';
+
+-- CreateTable
+CREATE TABLE "ReplyTemplate" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "locationId" TEXT,
+    "name" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "minRating" INTEGER,
+    "maxRating" INTEGER,
+    "sentiments" "Sentiment"[] DEFAULT ARRAY[]::"Sentiment"[],
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReplyTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReplyTemplate_workspaceId_name_key" ON "ReplyTemplate"("workspaceId", "name");
+
+-- CreateIndex
+CREATE INDEX "ReplyTemplate_workspaceId_locationId_idx" ON "ReplyTemplate"("workspaceId", "locationId");
+
+-- AddForeignKey
+ALTER TABLE "ReplyTemplate" ADD CONSTRAINT "ReplyTemplate_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReplyTemplate" ADD CONSTRAINT "ReplyTemplate_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReplyTemplate" ADD CONSTRAINT "ReplyTemplate_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'AUTOMATION_RULE_CREATED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'AUTOMATION_RULE_UPDATED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'AUTOMATION_RULE_DELETED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'AUTOMATION_RULE_APPLIED';
+
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "assigneeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "AutomationRule" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "conditions" JSONB NOT NULL,
+    "actions" JSONB NOT NULL,
+    "stopProcessing" BOOLEAN NOT NULL DEFAULT false,
+    "createdById" TEXT,
+    "lastMatchedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AutomationRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Review_workspaceId_assigneeId_idx" ON "Review"("workspaceId", "assigneeId");
+
+-- CreateIndex
+CREATE INDEX "AutomationRule_workspaceId_enabled_position_idx" ON "AutomationRule"("workspaceId", "enabled", "position");
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AutomationRule" ADD CONSTRAINT "AutomationRule_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AutomationRule" ADD CONSTRAINT "AutomationRule_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
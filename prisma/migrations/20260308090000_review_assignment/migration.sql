@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "AssignmentStrategy" AS ENUM ('MANUAL', 'ROUND_ROBIN', 'LOAD_BASED');
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'REVIEW_ASSIGNED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'REVIEW_UNASSIGNED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'REVIEW_DUE_DATE_UPDATED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'ASSIGNMENT_SETTINGS_UPDATED';
+
+-- AlterTable
+ALTER TABLE "Workspace" ADD COLUMN "assignmentStrategy" "AssignmentStrategy" NOT NULL DEFAULT 'MANUAL',
+ADD COLUMN "assignmentCursor" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "responseSlaHours" INTEGER DEFAULT 48;
+
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "dueAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Review_workspaceId_dueAt_idx" ON "Review"("workspaceId", "dueAt");
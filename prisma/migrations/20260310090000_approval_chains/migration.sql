@@ -0,0 +1,65 @@
+-- CreateEnum
+CREATE TYPE "ApprovalDecision" AS ENUM ('APPROVED', 'REJECTED');
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'APPROVAL_STEP_APPROVED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'APPROVAL_REJECTED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'APPROVAL_CHAIN_CREATED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'APPROVAL_CHAIN_UPDATED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'APPROVAL_CHAIN_DELETED';
+
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "approvalRound" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ApprovalChain" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "locationId" TEXT,
+    "stages" JSONB NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApprovalChain_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReviewApproval" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "round" INTEGER NOT NULL,
+    "stageIndex" INTEGER NOT NULL,
+    "stageName" TEXT NOT NULL,
+    "approverId" TEXT NOT NULL,
+    "decision" "ApprovalDecision" NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewApproval_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ApprovalChain_workspaceId_locationId_idx" ON "ApprovalChain"("workspaceId", "locationId");
+
+-- CreateIndex
+CREATE INDEX "ReviewApproval_reviewId_round_idx" ON "ReviewApproval"("reviewId", "round");
+
+-- AddForeignKey
+ALTER TABLE "ApprovalChain" ADD CONSTRAINT "ApprovalChain_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalChain" ADD CONSTRAINT "ApprovalChain_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalChain" ADD CONSTRAINT "ApprovalChain_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewApproval" ADD CONSTRAINT "ReviewApproval_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewApproval" ADD CONSTRAINT "ReviewApproval_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewApproval" ADD CONSTRAINT "ReviewApproval_approverId_fkey" FOREIGN KEY ("approverId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
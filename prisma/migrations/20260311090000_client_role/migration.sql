@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "Role" ADD VALUE IF NOT EXISTS 'CLIENT';
+
+-- AlterTable
+ALTER TABLE "WorkspaceMembership" ADD COLUMN "locationIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,29 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'CUSTOM_ROLE_CREATED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'CUSTOM_ROLE_UPDATED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'CUSTOM_ROLE_DELETED';
+
+-- AlterTable
+ALTER TABLE "WorkspaceMembership" ADD COLUMN "customRoleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "WorkspaceRole" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "permissions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WorkspaceRole_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkspaceRole_workspaceId_name_key" ON "WorkspaceRole"("workspaceId", "name");
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceMembership" ADD CONSTRAINT "WorkspaceMembership_customRoleId_fkey" FOREIGN KEY ("customRoleId") REFERENCES "WorkspaceRole"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceRole" ADD CONSTRAINT "WorkspaceRole_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
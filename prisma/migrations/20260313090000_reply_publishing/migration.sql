@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "ReplyPublisher" AS ENUM ('MANUAL', 'WEBHOOK');
+
+-- AlterEnum
+ALTER TYPE "JobType" ADD VALUE IF NOT EXISTS 'REPLY_PUBLISH';
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'REPLY_PUBLISH_QUEUED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'REPLY_PUBLISHED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'REPLY_PUBLISH_FAILED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'SOURCE_CONNECTION_UPDATED';
+
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "sentAt" TIMESTAMP(3),
+ADD COLUMN "sentById" TEXT,
+ADD COLUMN "externalReplyId" TEXT,
+ADD COLUMN "publishError" TEXT;
+
+-- AlterTable
+ALTER TABLE "SourceConnection" ADD COLUMN "publisher" "ReplyPublisher" NOT NULL DEFAULT 'MANUAL',
+ADD COLUMN "publishUrl" TEXT,
+ADD COLUMN "publishSecret" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_sentById_fkey" FOREIGN KEY ("sentById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
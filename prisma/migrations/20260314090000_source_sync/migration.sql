@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "JobType" ADD VALUE IF NOT EXISTS 'SOURCE_SYNC';
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'SOURCE_SYNC_COMPLETED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'SOURCE_SYNC_FAILED';
+
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "externalId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Review_workspaceId_source_externalId_key" ON "Review"("workspaceId", "source", "externalId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "SourceConnection" ADD COLUMN "inboundSecret" TEXT;
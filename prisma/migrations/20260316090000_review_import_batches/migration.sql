@@ -0,0 +1,39 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'REVIEW_IMPORT_ROLLED_BACK';
+
+-- CreateTable
+CREATE TABLE "ReviewImportBatch" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "fileName" TEXT NOT NULL,
+    "mode" TEXT NOT NULL,
+    "settings" JSONB NOT NULL,
+    "created" INTEGER NOT NULL DEFAULT 0,
+    "updated" INTEGER NOT NULL DEFAULT 0,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "previous" JSONB,
+    "rolledBackAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewImportBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "importBatchId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ReviewImportBatch_workspaceId_createdAt_idx" ON "ReviewImportBatch"("workspaceId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Review_importBatchId_idx" ON "Review"("importBatchId");
+
+-- AddForeignKey
+ALTER TABLE "ReviewImportBatch" ADD CONSTRAINT "ReviewImportBatch_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewImportBatch" ADD CONSTRAINT "ReviewImportBatch_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_importBatchId_fkey" FOREIGN KEY ("importBatchId") REFERENCES "ReviewImportBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
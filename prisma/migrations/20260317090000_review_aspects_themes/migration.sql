@@ -0,0 +1,75 @@
+-- AlterEnum
+ALTER TYPE "JobType" ADD VALUE IF NOT EXISTS 'THEME_CLUSTERING';
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'TAG_CREATED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'TAG_UPDATED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'TAG_DELETED';
+
+-- CreateTable
+CREATE TABLE "Tag" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "synonyms" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Tag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReviewAspect" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "aspect" TEXT NOT NULL,
+    "sentiment" "Sentiment" NOT NULL,
+    "quote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewAspect_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReviewTheme" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "keywords" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "reviewCount" INTEGER NOT NULL,
+    "previousCount" INTEGER NOT NULL DEFAULT 0,
+    "positive" INTEGER NOT NULL DEFAULT 0,
+    "neutral" INTEGER NOT NULL DEFAULT 0,
+    "negative" INTEGER NOT NULL DEFAULT 0,
+    "sampleReviewIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewTheme_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_workspaceId_name_key" ON "Tag"("workspaceId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewAspect_reviewId_aspect_key" ON "ReviewAspect"("reviewId", "aspect");
+
+-- CreateIndex
+CREATE INDEX "ReviewAspect_workspaceId_aspect_idx" ON "ReviewAspect"("workspaceId", "aspect");
+
+-- CreateIndex
+CREATE INDEX "ReviewTheme_workspaceId_reviewCount_idx" ON "ReviewTheme"("workspaceId", "reviewCount");
+
+-- AddForeignKey
+ALTER TABLE "Tag" ADD CONSTRAINT "Tag_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewAspect" ADD CONSTRAINT "ReviewAspect_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewAspect" ADD CONSTRAINT "ReviewAspect_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewTheme" ADD CONSTRAINT "ReviewTheme_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
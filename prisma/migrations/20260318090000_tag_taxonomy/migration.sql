@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'TAG_RENAMED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'TAGS_MERGED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'TAG_STRICT_MODE_UPDATED';
+
+-- AlterTable
+ALTER TABLE "Workspace" ADD COLUMN "strictTags" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Tag" ADD COLUMN "color" TEXT NOT NULL DEFAULT '#64748b',
+ADD COLUMN "description" TEXT,
+ADD COLUMN "archived" BOOLEAN NOT NULL DEFAULT false;
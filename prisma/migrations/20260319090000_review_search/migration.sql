@@ -0,0 +1,53 @@
+-- AlterEnum
+ALTER TYPE "JobType" ADD VALUE IF NOT EXISTS 'REVIEW_EMBEDDINGS';
+
+-- AlterTable
+-- Stemmed with the review's own language when it is Romanian or English, otherwise without stemming.
+-- Review text weighs most, then the author, then the reply.
+ALTER TABLE "Review" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector(
+        CASE
+            WHEN lower(coalesce("language", '')) LIKE 'ro%' THEN 'romanian'::regconfig
+            WHEN lower(coalesce("language", '')) LIKE 'en%' THEN 'english'::regconfig
+            ELSE 'simple'::regconfig
+        END,
+        coalesce("text", '')
+    ), 'A') ||
+    setweight(to_tsvector('simple'::regconfig, coalesce("authorName", '')), 'B') ||
+    setweight(to_tsvector(
+        CASE
+            WHEN lower(coalesce("language", '')) LIKE 'ro%' THEN 'romanian'::regconfig
+            WHEN lower(coalesce("language", '')) LIKE 'en%' THEN 'english'::regconfig
+            ELSE 'simple'::regconfig
+        END,
+        coalesce("replyDraft", '') || ' ' || coalesce("approvedReply", '')
+    ), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Review_searchVector_idx" ON "Review" USING GIN ("searchVector");
+
+-- CreateTable
+CREATE TABLE "ReviewEmbedding" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "vector" DOUBLE PRECISION[],
+    "textHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewEmbedding_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewEmbedding_reviewId_key" ON "ReviewEmbedding"("reviewId");
+
+-- CreateIndex
+CREATE INDEX "ReviewEmbedding_workspaceId_model_idx" ON "ReviewEmbedding"("workspaceId", "model");
+
+-- AddForeignKey
+ALTER TABLE "ReviewEmbedding" ADD CONSTRAINT "ReviewEmbedding_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewEmbedding" ADD CONSTRAINT "ReviewEmbedding_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
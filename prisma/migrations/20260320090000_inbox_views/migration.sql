@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "WorkspaceMembership" ADD COLUMN "defaultInboxViewId" TEXT;
+
+-- CreateTable
+CREATE TABLE "InboxView" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "filters" JSONB NOT NULL,
+    "shared" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InboxView_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InboxView_workspaceId_ownerId_name_key" ON "InboxView"("workspaceId", "ownerId", "name");
+
+-- CreateIndex
+CREATE INDEX "InboxView_workspaceId_shared_idx" ON "InboxView"("workspaceId", "shared");
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceMembership" ADD CONSTRAINT "WorkspaceMembership_defaultInboxViewId_fkey" FOREIGN KEY ("defaultInboxViewId") REFERENCES "InboxView"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InboxView" ADD CONSTRAINT "InboxView_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InboxView" ADD CONSTRAINT "InboxView_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "AIProvider" ADD VALUE IF NOT EXISTS 'MOCK';